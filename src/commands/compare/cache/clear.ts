@@ -0,0 +1,101 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages, Org, SfError } from '@salesforce/core';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import type { Interfaces } from '@oclif/core';
+
+import { MetadataCache } from '../../../services/metadataCache.js';
+import {
+  METADATA_CACHE_TYPES,
+  describeCacheEntry,
+  type MetadataCacheEntry,
+} from '../../../services/metadataDiscoveryService.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@unidotnet/plugin-data-comparison', 'compare.cache.clear');
+
+export type CompareCacheClearResult = {
+  path: string;
+  removed: MetadataCacheEntry[];
+};
+
+const resolveOrgIds = async (aliases: string[] | undefined): Promise<string[]> =>
+  Promise.all((aliases ?? []).map(async (aliasOrUsername) => (await Org.create({ aliasOrUsername })).getOrgId()));
+
+export default class CompareCacheClear extends SfCommand<CompareCacheClearResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    org: Flags.string({
+      summary: messages.getMessage('flags.org.summary'),
+      multiple: true,
+    }),
+    object: Flags.string({
+      summary: messages.getMessage('flags.object.summary'),
+      multiple: true,
+    }),
+    type: Flags.string({
+      summary: messages.getMessage('flags.type.summary'),
+      options: METADATA_CACHE_TYPES,
+      multiple: true,
+    }),
+    all: Flags.boolean({
+      summary: messages.getMessage('flags.all.summary'),
+      default: false,
+      exclusive: ['org', 'object', 'type'],
+    }),
+  } as const;
+
+  public async run(): Promise<CompareCacheClearResult> {
+    const parsed = await this.parse(CompareCacheClear);
+    const flags = parsed.flags as Interfaces.InferredFlags<typeof CompareCacheClear.flags>;
+    if (!flags.all && !flags.org && !flags.object && !flags.type) {
+      throw new SfError(
+        'Choose the cache entries to clear, or pass --all to clear the whole cache.',
+        'MissingCacheFilter',
+        ['Filter with --org, --object or --type, for example --org sbx --object Account.']
+      );
+    }
+
+    const orgIds = await resolveOrgIds(flags.org);
+    const objects = (flags.object ?? [])
+      .flatMap((token) => token.split(','))
+      .map((token) => token.trim().toLowerCase())
+      .filter((token) => token.length > 0);
+    const types = flags.type ?? [];
+
+    // The TTL only decides which entries are served, so listing and clearing ignore it.
+    const cache = new MetadataCache(0);
+    const removed = (
+      await cache.clear((raw) => {
+        const entry = describeCacheEntry(raw);
+        return (
+          (orgIds.length === 0 || orgIds.includes(entry.orgId)) &&
+          (types.length === 0 || types.includes(entry.type)) &&
+          (objects.length === 0 || (entry.type === 'describeSObject' && objects.includes(entry.name ?? '')))
+        );
+      })
+    ).map(describeCacheEntry);
+
+    this.logSuccess(
+      `Removed ${removed.length.toString()} cache entr${removed.length === 1 ? 'y' : 'ies'} from ${cache.path}`
+    );
+    return { path: cache.path, removed };
+  }
+}
@@ -0,0 +1,93 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages, Org } from '@salesforce/core';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import type { Interfaces } from '@oclif/core';
+
+import { MetadataCache } from '../../../services/metadataCache.js';
+import {
+  METADATA_CACHE_TYPES,
+  describeCacheEntry,
+  type MetadataCacheEntry,
+} from '../../../services/metadataDiscoveryService.js';
+import { buildCacheTable, formatBytes } from '../../../services/commandSupport.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@unidotnet/plugin-data-comparison', 'compare.cache.list');
+
+export type CompareCacheListResult = {
+  path: string;
+  entries: MetadataCacheEntry[];
+  totalBytes: number;
+  maxBytes: number;
+};
+
+const resolveOrgIds = async (aliases: string[] | undefined): Promise<string[]> =>
+  Promise.all((aliases ?? []).map(async (aliasOrUsername) => (await Org.create({ aliasOrUsername })).getOrgId()));
+
+export default class CompareCacheList extends SfCommand<CompareCacheListResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    org: Flags.string({
+      summary: messages.getMessage('flags.org.summary'),
+      multiple: true,
+    }),
+    type: Flags.string({
+      summary: messages.getMessage('flags.type.summary'),
+      options: METADATA_CACHE_TYPES,
+      multiple: true,
+    }),
+  } as const;
+
+  public async run(): Promise<CompareCacheListResult> {
+    const parsed = await this.parse(CompareCacheList);
+    const flags = parsed.flags as Interfaces.InferredFlags<typeof CompareCacheList.flags>;
+    const orgIds = await resolveOrgIds(flags.org);
+    const types = flags.type ?? [];
+
+    // The TTL only decides which entries are served, so listing and clearing ignore it.
+    const cache = new MetadataCache(0);
+    const entries = (await cache.list())
+      .map(describeCacheEntry)
+      .filter(
+        (entry) =>
+          (orgIds.length === 0 || orgIds.includes(entry.orgId)) && (types.length === 0 || types.includes(entry.type))
+      )
+      .sort(
+        (left, right) =>
+          left.orgId.localeCompare(right.orgId) ||
+          left.apiVersion.localeCompare(right.apiVersion) ||
+          left.type.localeCompare(right.type) ||
+          (left.name ?? '').localeCompare(right.name ?? '')
+      );
+    const totalBytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+
+    this.log(
+      `${entries.length.toString()} cache entr${entries.length === 1 ? 'y' : 'ies'} using ${formatBytes(
+        totalBytes
+      )} of ${formatBytes(cache.maxBytes)} in ${cache.path}.`
+    );
+    if (entries.length > 0) {
+      this.table(buildCacheTable(entries));
+    }
+
+    return { path: cache.path, entries, totalBytes, maxBytes: cache.maxBytes };
+  }
+}
@@ -0,0 +1,105 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages, Org } from '@salesforce/core';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import type { Interfaces } from '@oclif/core';
+
+import { mapSequentially } from '../../../services/chunkedAggregation.js';
+import { flushCacheAccessTimes, MetadataCache } from '../../../services/metadataCache.js';
+import { MetadataDiscoveryService } from '../../../services/metadataDiscoveryService.js';
+import { resolveOrgMetadata, type OrgMetadata } from '../../../services/commandSupport.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@unidotnet/plugin-data-comparison', 'compare.cache.warm');
+
+type WarmedOrg = OrgMetadata & {
+  objects: Array<{ name: string; fields: number }>;
+};
+
+export type CompareCacheWarmResult = {
+  path: string;
+  orgs: WarmedOrg[];
+};
+
+const warmOrg = async (
+  cache: MetadataCache,
+  ttlMinutes: number,
+  alias: string,
+  objects: string[],
+  apiVersion: string | undefined
+): Promise<WarmedOrg> => {
+  const org = await Org.create({ aliasOrUsername: alias });
+  const metadata = await resolveOrgMetadata(org, alias, apiVersion);
+  const service = new MetadataDiscoveryService({ org, apiVersion, metadataCacheTtlMinutes: ttlMinutes }, cache);
+  await service.describeGlobal();
+  const described = await mapSequentially(objects, async (object) => {
+    const describe = await service.describeSObject(object);
+    return { name: describe.name, fields: describe.fields.length };
+  });
+  return { ...metadata, objects: described };
+};
+
+export default class CompareCacheWarm extends SfCommand<CompareCacheWarmResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    org: Flags.string({
+      summary: messages.getMessage('flags.org.summary'),
+      multiple: true,
+      required: true,
+    }),
+    object: Flags.string({
+      summary: messages.getMessage('flags.object.summary'),
+      multiple: true,
+      required: true,
+    }),
+    'metadata-cache': Flags.integer({
+      summary: messages.getMessage('flags.metadata-cache.summary'),
+      default: 10,
+      min: 1,
+    }),
+    'api-version': Flags.string({
+      summary: messages.getMessage('flags.api-version.summary'),
+    }),
+  } as const;
+
+  public async run(): Promise<CompareCacheWarmResult> {
+    const parsed = await this.parse(CompareCacheWarm);
+    const flags = parsed.flags as Interfaces.InferredFlags<typeof CompareCacheWarm.flags>;
+    const apiVersion = flags['api-version'];
+    const objects = flags.object
+      .flatMap((token) => token.split(','))
+      .map((token) => token.trim())
+      .filter((token) => token.length > 0);
+
+    // One cache instance is shared and orgs are described in turn so that no write overwrites another.
+    const cache = new MetadataCache(flags['metadata-cache']);
+    const orgs = await mapSequentially(flags.org, async (alias) => {
+      this.spinner.start(`Describing ${objects.length.toString()} object(s) in ${alias}`);
+      const warmed = await warmOrg(cache, flags['metadata-cache'], alias, objects, apiVersion).finally(() =>
+        this.spinner.stop()
+      );
+      this.log(`Cached the describes of ${warmed.objects.length.toString()} object(s) for ${alias} (${warmed.orgId}).`);
+      return warmed;
+    });
+
+    await flushCacheAccessTimes();
+    return { path: cache.path, orgs };
+  }
+}
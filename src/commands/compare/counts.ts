@@ -0,0 +1,188 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages, Org } from '@salesforce/core';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import type { Interfaces } from '@oclif/core';
+
+import { MetadataDiscoveryService } from '../../services/metadataDiscoveryService.js';
+import { flushCacheAccessTimes } from '../../services/metadataCache.js';
+import { compareRecordCounts, type RecordCountComparison } from '../../services/recordCounts.js';
+import { exportCountsToCsv } from '../../services/csvExporter.js';
+import { exportCountsToPdf } from '../../services/pdfExporter.js';
+import {
+  FORMAT_OPTIONS,
+  buildCountsTable,
+  formatRetrySummary,
+  resolveOrgMetadata,
+  validateOutputConfiguration,
+  type FormatOption,
+  type OrgMetadata,
+} from '../../services/commandSupport.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@unidotnet/plugin-data-comparison', 'compare.counts');
+
+export type CompareCountsResult = RecordCountComparison & {
+  format: FormatOption;
+  outputFile?: string;
+  reportTitle?: string;
+  metadataCacheMinutes: number;
+  source: OrgMetadata;
+  target: OrgMetadata;
+};
+
+export default class CompareCounts extends SfCommand<CompareCountsResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'source-org': Flags.string({
+      char: 's',
+      summary: messages.getMessage('flags.source-org.summary'),
+      required: true,
+    }),
+    'target-org': Flags.string({
+      char: 't',
+      summary: messages.getMessage('flags.target-org.summary'),
+      required: true,
+    }),
+    include: Flags.string({
+      summary: messages.getMessage('flags.include.summary'),
+      multiple: true,
+    }),
+    exclude: Flags.string({
+      summary: messages.getMessage('flags.exclude.summary'),
+      multiple: true,
+    }),
+    exact: Flags.boolean({
+      summary: messages.getMessage('flags.exact.summary'),
+      default: true,
+      allowNo: true,
+    }),
+    'metadata-cache': Flags.integer({
+      summary: messages.getMessage('flags.metadata-cache.summary'),
+      default: 10,
+      min: 0,
+    }),
+    format: Flags.string({
+      summary: messages.getMessage('flags.format.summary'),
+      options: FORMAT_OPTIONS,
+      default: 'table',
+    }),
+    'output-file': Flags.string({
+      summary: messages.getMessage('flags.output-file.summary'),
+    }),
+    'report-title': Flags.string({
+      summary: messages.getMessage('flags.report-title.summary'),
+    }),
+    timeout: Flags.integer({
+      summary: messages.getMessage('flags.timeout.summary'),
+      default: 10,
+      min: 1,
+    }),
+    'max-retries': Flags.integer({
+      summary: messages.getMessage('flags.max-retries.summary'),
+      default: 3,
+      min: 0,
+    }),
+    'retry-delay': Flags.integer({
+      summary: messages.getMessage('flags.retry-delay.summary'),
+      default: 1000,
+      min: 0,
+    }),
+    'api-version': Flags.string({
+      summary: messages.getMessage('flags.api-version.summary'),
+    }),
+  } as const;
+
+  public async run(): Promise<CompareCountsResult> {
+    const parsed = await this.parse(CompareCounts);
+    const flags = parsed.flags as Interfaces.InferredFlags<typeof CompareCounts.flags>;
+    const format = (flags.format ?? 'table') as FormatOption;
+    const outputFile = flags['output-file'];
+    const metadataCache = flags['metadata-cache'];
+    const apiVersion = flags['api-version'];
+
+    validateOutputConfiguration(format, outputFile);
+
+    const [sourceOrg, targetOrg] = await Promise.all([
+      Org.create({ aliasOrUsername: flags['source-org'] }),
+      Org.create({ aliasOrUsername: flags['target-org'] }),
+    ]);
+
+    const metadataServiceFor = (org: Org): MetadataDiscoveryService =>
+      new MetadataDiscoveryService({ org, apiVersion, metadataCacheTtlMinutes: metadataCache });
+
+    this.spinner.start('Counting records in both orgs');
+    const [source, target, comparison] = await Promise.all([
+      resolveOrgMetadata(sourceOrg, flags['source-org'], apiVersion),
+      resolveOrgMetadata(targetOrg, flags['target-org'], apiVersion),
+      compareRecordCounts(
+        { label: 'source org', org: sourceOrg, metadata: metadataServiceFor(sourceOrg) },
+        { label: 'target org', org: targetOrg, metadata: metadataServiceFor(targetOrg) },
+        {
+          include: flags.include,
+          exclude: flags.exclude,
+          exact: flags.exact,
+          apiVersion,
+          queryPolicy: {
+            timeoutMs: flags.timeout * 60 * 1000,
+            maxRetries: flags['max-retries'],
+            retryDelayMs: flags['retry-delay'],
+          },
+        }
+      ),
+    ]).finally(() => this.spinner.stop());
+    await flushCacheAccessTimes();
+
+    const { summary } = comparison;
+    this.log(
+      `Compared record counts of ${summary.compared.toString()} object(s): ${summary.matching.toString()} match, ${summary.different.toString()} differ, ${summary.missingInTarget.toString()} missing in target, ${summary.missingInSource.toString()} missing in source.`
+    );
+    if (comparison.rows.length > 0) {
+      this.table(buildCountsTable(comparison.rows));
+    }
+    if (comparison.retries.length > 0) {
+      this.warn(formatRetrySummary(comparison.retries));
+    }
+
+    const payload: CompareCountsResult = {
+      ...comparison,
+      format,
+      outputFile,
+      reportTitle: flags['report-title'],
+      metadataCacheMinutes: metadataCache,
+      source,
+      target,
+    } satisfies CompareCountsResult;
+
+    if (outputFile) {
+      if (format === 'csv') {
+        const csvPath = await exportCountsToCsv(payload, outputFile);
+        payload.outputFile = csvPath;
+        this.logSuccess(`CSV report written to ${csvPath}`);
+      } else if (format === 'pdf') {
+        const pdfPath = await exportCountsToPdf(payload, outputFile);
+        payload.outputFile = pdfPath;
+        this.logSuccess(`PDF report written to ${pdfPath}`);
+      }
+    }
+
+    return payload;
+  }
+}
@@ -19,48 +19,75 @@ import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
 import type { Interfaces } from '@oclif/core';
 
 import { MetadataDiscoveryService } from '../../services/metadataDiscoveryService.js';
-import { AggregateQueryBuilder } from '../../services/aggregateQueryBuilder.js';
-import { compareData, type MetricComparisonRow, type SampleData } from '../../services/dataComparisonService.js';
-import { exportComparisonToCsv } from '../../services/csvExporter.js';
-import { exportComparisonToPdf } from '../../services/pdfExporter.js';
-import { parseMetricTokens, validateMetricsAgainstDescribe, type ResolvedMetric } from '../../services/metricParser.js';
+import { flushCacheAccessTimes } from '../../services/metadataCache.js';
+import {
+  compareObject,
+  type ComparisonSection,
+  type ObjectComparisonContext,
+  type ObjectComparisonRequest,
+} from '../../services/objectComparison.js';
+import { exportComparisonToCsv, exportMatrixToCsv } from '../../services/csvExporter.js';
+import { exportComparisonToPdf, exportMatrixToPdf } from '../../services/pdfExporter.js';
+import { CHUNK_FIELDS, type ChunkField } from '../../services/chunkedAggregation.js';
+import { DIFFERENCE_EXIT_CODE, parseToleranceConfig } from '../../services/toleranceEvaluator.js';
+import {
+  FORMAT_OPTIONS,
+  createStatisticsProgressReporter,
+  buildMatrixTable,
+  buildSummaryTable,
+  formatDrilldown,
+  formatRetrySummary,
+  renderQueryPlan,
+  resolveIdKeys,
+  resolveOrgMetadata,
+  validateOutputConfiguration,
+  type FormatOption,
+  type OrgMetadata,
+} from '../../services/commandSupport.js';
+import type { MetricComparisonRow } from '../../services/dataComparisonService.js';
+import type { StatisticsProgress } from '../../services/clientStatistics.js';
+import {
+  BUCKET_INTERVALS,
+  BUCKET_TIME_ZONES,
+  type BucketInterval,
+  type BucketTimeZone,
+} from '../../services/timeBuckets.js';
+import { parseNamespaceOptions } from '../../services/namespaceResolution.js';
+import { loadSchemaMapping, resolveObjectMapping, type ObjectMapping } from '../../services/schemaMapping.js';
+import { explainFieldNotFound, preflightSchema } from '../../services/schemaComparison.js';
+import { applySnapshotPlan, compareWithSnapshot, loadSnapshot } from '../../services/orgSnapshot.js';
+import { compareOrgMatrix, type OrgMatrix, type OrgMatrixContext } from '../../services/orgMatrix.js';
+import { buildHistoryRun, recordRun } from '../../services/runHistory.js';
+import { DEFAULT_DRILLDOWN_DEPTH, drillDown, type MetricDrilldown } from '../../services/drilldown.js';
 
 Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
 const messages = Messages.loadMessages('@unidotnet/plugin-data-comparison', 'compare.data');
 
-type FormatOption = 'table' | 'json' | 'csv' | 'pdf';
-
-type OrgMetadata = {
-  aliasOrUsername: string;
-  orgId: string;
-  apiVersion: string;
-};
-
-export type CompareDataResult = {
-  object: string;
-  metrics: MetricComparisonRow[];
-  filters: {
-    where?: string;
-    sampleSize: number;
-  };
+export type CompareDataResult = ComparisonSection & {
   format: FormatOption;
   outputFile?: string;
   reportTitle?: string;
   metadataCacheMinutes: number;
   source: OrgMetadata;
   target: OrgMetadata;
-  queries: {
-    aggregate?: string;
-    conditionals: Array<{
-      alias: string;
-      query: string;
-    }>;
-    sample?: string;
-  };
-  samples: SampleData;
+  sourceSnapshot?: string;
+  drilldown?: MetricDrilldown[];
+};
+
+export type CompareDataMatrixResult = OrgMatrix & {
+  format: FormatOption;
+  outputFile?: string;
+  reportTitle?: string;
+  metadataCacheMinutes: number;
+  orgMetadata: OrgMetadata[];
 };
 
-export default class CompareData extends SfCommand<CompareDataResult> {
+export type CompareDataCommandResult = CompareDataResult | CompareDataMatrixResult;
+
+const resolveMapping = async (mappingFile: string | undefined, object: string): Promise<ObjectMapping | undefined> =>
+  mappingFile ? resolveObjectMapping(await loadSchemaMapping(mappingFile), object) : undefined;
+
+export default class CompareData extends SfCommand<CompareDataCommandResult> {
   public static readonly summary = messages.getMessage('summary');
   public static readonly description = messages.getMessage('description');
   public static readonly examples = messages.getMessages('examples');
@@ -69,12 +96,26 @@ export default class CompareData extends SfCommand<CompareDataResult> {
     'source-org': Flags.string({
       char: 's',
       summary: messages.getMessage('flags.source-org.summary'),
-      required: true,
+      exactlyOne: ['source-org', 'source-snapshot', 'org'],
+    }),
+    'source-snapshot': Flags.string({
+      summary: messages.getMessage('flags.source-snapshot.summary'),
+      exactlyOne: ['source-org', 'source-snapshot', 'org'],
+      exclusive: ['dry-run', 'explain', 'auto-drilldown'],
     }),
     'target-org': Flags.string({
       char: 't',
       summary: messages.getMessage('flags.target-org.summary'),
-      required: true,
+      exactlyOne: ['target-org', 'org'],
+    }),
+    org: Flags.string({
+      summary: messages.getMessage('flags.org.summary'),
+      multiple: true,
+      exclusive: ['sample-size', 'dry-run', 'explain', 'auto-drilldown', 'record-history'],
+    }),
+    baseline: Flags.string({
+      summary: messages.getMessage('flags.baseline.summary'),
+      dependsOn: ['org'],
     }),
     object: Flags.string({
       summary: messages.getMessage('flags.object.summary'),
@@ -88,11 +129,42 @@ export default class CompareData extends SfCommand<CompareDataResult> {
     where: Flags.string({
       summary: messages.getMessage('flags.where.summary'),
     }),
+    'group-by': Flags.string({
+      summary: messages.getMessage('flags.group-by.summary'),
+      multiple: true,
+    }),
+    'bucket-by': Flags.string({
+      summary: messages.getMessage('flags.bucket-by.summary'),
+    }),
+    interval: Flags.string({
+      summary: messages.getMessage('flags.interval.summary'),
+      options: [...BUCKET_INTERVALS],
+      default: 'month',
+    }),
+    'time-zone': Flags.string({
+      summary: messages.getMessage('flags.time-zone.summary'),
+      options: [...BUCKET_TIME_ZONES],
+      default: 'utc',
+    }),
     'sample-size': Flags.integer({
       summary: messages.getMessage('flags.sample-size.summary'),
       default: 0,
       min: 0,
     }),
+    'chunk-by': Flags.string({
+      summary: messages.getMessage('flags.chunk-by.summary'),
+      options: CHUNK_FIELDS,
+    }),
+    chunks: Flags.integer({
+      summary: messages.getMessage('flags.chunks.summary'),
+      default: 10,
+      min: 2,
+    }),
+    'chunk-concurrency': Flags.integer({
+      summary: messages.getMessage('flags.chunk-concurrency.summary'),
+      default: 4,
+      min: 1,
+    }),
     'metadata-cache': Flags.integer({
       summary: messages.getMessage('flags.metadata-cache.summary'),
       default: 10,
@@ -100,7 +172,7 @@ export default class CompareData extends SfCommand<CompareDataResult> {
     }),
     format: Flags.string({
       summary: messages.getMessage('flags.format.summary'),
-      options: ['table', 'json', 'csv', 'pdf'],
+      options: FORMAT_OPTIONS,
       default: 'table',
     }),
     'output-file': Flags.string({
@@ -114,17 +186,83 @@ export default class CompareData extends SfCommand<CompareDataResult> {
       default: 10,
       min: 1,
     }),
+    'max-retries': Flags.integer({
+      summary: messages.getMessage('flags.max-retries.summary'),
+      default: 3,
+      min: 0,
+    }),
+    'retry-delay': Flags.integer({
+      summary: messages.getMessage('flags.retry-delay.summary'),
+      default: 1000,
+      min: 0,
+    }),
     'api-version': Flags.string({
       summary: messages.getMessage('flags.api-version.summary'),
     }),
+    tolerance: Flags.string({
+      summary: messages.getMessage('flags.tolerance.summary'),
+      multiple: true,
+    }),
+    'metric-tolerance': Flags.string({
+      summary: messages.getMessage('flags.metric-tolerance.summary'),
+      multiple: true,
+    }),
+    'mapping-file': Flags.file({
+      summary: messages.getMessage('flags.mapping-file.summary'),
+      exists: true,
+      exclusive: ['org', 'source-snapshot', 'auto-drilldown'],
+    }),
+    namespace: Flags.string({
+      summary: messages.getMessage('flags.namespace.summary'),
+      multiple: true,
+      exclusive: ['org', 'source-snapshot'],
+    }),
+    'translate-ids': Flags.boolean({
+      summary: messages.getMessage('flags.translate-ids.summary'),
+      default: false,
+      exclusive: ['org', 'source-snapshot'],
+    }),
+    'id-key': Flags.string({
+      summary: messages.getMessage('flags.id-key.summary'),
+      multiple: true,
+      dependsOn: ['translate-ids'],
+    }),
+    'fail-on-difference': Flags.boolean({
+      summary: messages.getMessage('flags.fail-on-difference.summary'),
+      default: false,
+    }),
+    'record-history': Flags.boolean({
+      summary: messages.getMessage('flags.record-history.summary'),
+      default: false,
+      exclusive: ['dry-run'],
+    }),
+    'dry-run': Flags.boolean({
+      summary: messages.getMessage('flags.dry-run.summary'),
+      default: false,
+    }),
+    explain: Flags.boolean({
+      summary: messages.getMessage('flags.explain.summary'),
+      default: false,
+    }),
+    'auto-drilldown': Flags.boolean({
+      summary: messages.getMessage('flags.auto-drilldown.summary'),
+      default: false,
+      exclusive: ['group-by', 'bucket-by', 'dry-run'],
+    }),
+    'drilldown-depth': Flags.integer({
+      summary: messages.getMessage('flags.drilldown-depth.summary'),
+      default: DEFAULT_DRILLDOWN_DEPTH,
+      min: 1,
+    }),
   } as const;
 
-  public async run(): Promise<CompareDataResult> {
+  private readonly statisticsProgress = createStatisticsProgressReporter(this);
+
+  public async run(): Promise<CompareDataCommandResult> {
     const parsed = await this.parse(CompareData);
     const flags = parsed.flags as Interfaces.InferredFlags<typeof CompareData.flags>;
     const format = (flags.format ?? 'table') as FormatOption;
-    const sourceAlias = flags['source-org'];
-    const targetAlias = flags['target-org'];
+    const targetAlias = flags['target-org'] ?? '';
     const outputFile = flags['output-file'];
     const reportTitle = flags['report-title'];
     const sampleSize = flags['sample-size'];
@@ -132,295 +270,253 @@ export default class CompareData extends SfCommand<CompareDataResult> {
     const apiVersion = flags['api-version'];
 
     validateOutputConfiguration(format, outputFile);
-
-    const [sourceOrg, targetOrg] = await Promise.all([
-      Org.create({ aliasOrUsername: sourceAlias }),
-      Org.create({ aliasOrUsername: targetAlias }),
-    ]);
-
-    const parsedMetrics = parseMetricTokens(flags.metrics);
-    if (parsedMetrics.length === 0) {
-      throw new SfError(`No metrics could be determined for object ${flags.object}.`, 'MissingMetrics');
-    }
+    const toleranceConfig = parseToleranceConfig(flags.tolerance, flags['metric-tolerance']);
 
     const metadataServiceFor = (org: Org): MetadataDiscoveryService =>
       new MetadataDiscoveryService({ org, apiVersion, metadataCacheTtlMinutes: metadataCache });
-
-    const [sourceDescribe, targetDescribe] = await Promise.all([
-      metadataServiceFor(sourceOrg).describeSObject(flags.object),
-      metadataServiceFor(targetOrg).describeSObject(flags.object),
-    ]);
-
-    const metrics = reconcileMetrics(
-      validateMetricsAgainstDescribe(parsedMetrics, sourceDescribe, 'source org'),
-      validateMetricsAgainstDescribe(parsedMetrics, targetDescribe, 'target org')
-    );
-
-    const queryPlan = new AggregateQueryBuilder({
-      objectName: sourceDescribe.name,
-      metrics,
+    const queryPolicy = {
+      timeoutMs: flags.timeout * 60 * 1000,
+      maxRetries: flags['max-retries'],
+      retryDelayMs: flags['retry-delay'],
+    };
+    const onProgress = (progress: StatisticsProgress): void => this.statisticsProgress.report(progress);
+
+    const mapping = await resolveMapping(flags['mapping-file'], flags.object);
+    const request: ObjectComparisonRequest = {
+      object: flags.object,
+      metrics: flags.metrics,
       where: flags.where,
-    }).build();
-
-    const sampleQuery = buildSampleQuery(queryPlan, sampleSize);
+      groupBy: flags['group-by'],
+      bucketing: flags['bucket-by']
+        ? {
+            field: flags['bucket-by'],
+            interval: flags.interval as BucketInterval,
+            timeZone: flags['time-zone'] as BucketTimeZone,
+          }
+        : undefined,
+      sampleSize,
+      tolerance: toleranceConfig,
+      failOnDifference: flags['fail-on-difference'],
+      chunking: flags['chunk-by']
+        ? {
+            field: flags['chunk-by'] as ChunkField,
+            chunks: flags.chunks,
+            concurrency: flags['chunk-concurrency'],
+          }
+        : undefined,
+      mapping,
+      idKeys: resolveIdKeys(flags['translate-ids'], flags['id-key']),
+      dryRun: flags['dry-run'],
+      explain: flags.explain,
+    };
+
+    if (flags.org) {
+      return this.compareOrgs(flags, request, { metadataServiceFor, queryPolicy, onProgress });
+    }
 
-    const [sourceOrgId, targetOrgId, sourceApiVersion, targetApiVersion, comparison] = await Promise.all([
-      sourceOrg.getOrgId(),
-      targetOrg.getOrgId(),
-      resolveApiVersion(sourceOrg, apiVersion),
-      resolveApiVersion(targetOrg, apiVersion),
-      compareData({
+    let context: ObjectComparisonContext | undefined;
+    let sourceSnapshot: string | undefined;
+    let comparison: [OrgMetadata, OrgMetadata, ComparisonSection];
+    if (flags['source-snapshot']) {
+      const { path, snapshot } = await loadSnapshot(flags['source-snapshot']);
+      sourceSnapshot = path;
+      const targetOrg = await Org.create({ aliasOrUsername: targetAlias });
+      comparison = await Promise.all([
+        snapshot.org,
+        resolveOrgMetadata(targetOrg, targetAlias, apiVersion),
+        compareWithSnapshot(
+          { org: targetOrg, metadata: metadataServiceFor(targetOrg), apiVersion, queryPolicy, onProgress },
+          snapshot,
+          applySnapshotPlan(request, snapshot)
+        ).finally(() => this.statisticsProgress.stop()),
+      ]);
+    } else {
+      const sourceAlias = flags['source-org'] ?? '';
+      const namespaces = parseNamespaceOptions(flags.namespace, [sourceAlias, targetAlias]);
+      const [sourceOrg, targetOrg] = await Promise.all([
+        Org.create({ aliasOrUsername: sourceAlias }),
+        Org.create({ aliasOrUsername: targetAlias }),
+      ]);
+      context = {
         sourceOrg,
         targetOrg,
-        plan: queryPlan,
-        apiVersionOverride: apiVersion,
-        sampleQuery,
-      }),
-    ]);
-
-    this.log(`Validated ${metrics.length.toString()} metric(s) for object ${flags.object}.`);
-
-    this.renderSummaryTable(comparison.metrics);
-
-    if (sampleQuery) {
-      this.log(
-        `Fetched ${comparison.samples.source.length.toString()} sample record(s) from source org and ${comparison.samples.target.length.toString()} from target org.`
-      );
+        sourceMetadata: metadataServiceFor(sourceOrg),
+        targetMetadata: metadataServiceFor(targetOrg),
+        apiVersion,
+        queryPolicy,
+        onProgress,
+        namespaces: { source: namespaces.get(sourceAlias), target: namespaces.get(targetAlias) },
+      };
+      const schema = await preflightSchema(context, request);
+      comparison = await Promise.all([
+        resolveOrgMetadata(sourceOrg, sourceAlias, apiVersion),
+        resolveOrgMetadata(targetOrg, targetAlias, apiVersion),
+        compareObject(context, request)
+          .catch((error: unknown) => {
+            throw explainFieldNotFound(error, schema);
+          })
+          .finally(() => this.statisticsProgress.stop()),
+      ]);
     }
+    await flushCacheAccessTimes();
+    const [source, target, section] = comparison;
 
     const payload: CompareDataResult = {
-      object: sourceDescribe.name,
-      metrics: comparison.metrics,
-      filters: {
-        where: flags.where,
-        sampleSize,
-      },
+      ...section,
       format,
       outputFile,
       reportTitle,
       metadataCacheMinutes: metadataCache,
-      source: {
-        aliasOrUsername: sourceAlias,
-        orgId: sourceOrgId,
-        apiVersion: sourceApiVersion,
-      },
-      target: {
-        aliasOrUsername: targetAlias,
-        orgId: targetOrgId,
-        apiVersion: targetApiVersion,
-      },
-      queries: {
-        aggregate: queryPlan.aggregateQuery,
-        conditionals: queryPlan.conditionalMetrics.map((conditional) => ({
-          alias: conditional.alias,
-          query: conditional.aggregateQuery,
-        })),
-        sample: sampleQuery,
-      },
-      samples: comparison.samples,
+      source,
+      target,
+      sourceSnapshot,
     } satisfies CompareDataResult;
 
-    if (outputFile) {
-      if (format === 'csv') {
-        const csvPath = await exportComparisonToCsv(payload, outputFile);
-        payload.outputFile = csvPath;
-        this.logSuccess(`CSV report written to ${csvPath}`);
-      } else if (format === 'pdf') {
-        const pdfPath = await exportComparisonToPdf(payload, outputFile);
-        payload.outputFile = pdfPath;
-        this.logSuccess(`PDF report written to ${pdfPath}`);
-      }
+    renderQueryPlan(this, section);
+    if (section.dryRun) {
+      this.log(`Dry run: no queries were executed for object ${section.object}.`);
+      return payload;
     }
 
-    return payload;
-  }
-
-  private renderSummaryTable(rows: MetricComparisonRow[]): void {
-    const formatter = new Intl.NumberFormat('en-US');
-
-    const tableRows = rows.map((row) => ({
-      metric: formatMetricLabel(row.metric),
-      source: formatMetricValue(row.metric, row.sourceValue, formatter),
-      target: formatMetricValue(row.metric, row.targetValue, formatter),
-      difference: row.difference === null ? '—' : formatter.format(row.difference),
-    }));
-
-    this.table({
-      data: tableRows,
-      columns: [
-        { key: 'metric', name: 'Metric' },
-        { key: 'source', name: 'Source' },
-        { key: 'target', name: 'Target' },
-        { key: 'difference', name: 'Target - Source' },
-      ],
-    });
-  }
-}
-
-const formatMetricLabel = (metric: ResolvedMetric): string => {
-  switch (metric.kind) {
-    case 'count':
-      return 'COUNT(Id)';
-    case 'fieldAggregate':
-      return `${metric.fn.toUpperCase()}(${metric.field})`;
-    case 'countDistinct':
-      return `COUNT_DISTINCT(${metric.field})`;
-    case 'ratio':
-      return metric.label;
-    case 'countIf':
-      return `COUNT_IF(${metric.condition})`;
-    case 'sumIf':
-      return `SUM_IF(${metric.field}|${metric.condition})`;
-  }
-  const exhaustiveCheck: never = metric;
-  return exhaustiveCheck;
-};
-
-const formatMetricValue = (
-  metric: ResolvedMetric,
-  value: number | string | null,
-  formatter: Intl.NumberFormat
-): string => {
-  if (value === null) {
-    return '—';
-  }
-
-  if (metric.valueType === 'number' && typeof value === 'number') {
-    return formatter.format(value);
-  }
+    const metricCount = new Set(section.metrics.map((row) => row.alias)).size;
+    this.log(`Validated ${metricCount.toString()} metric(s) for object ${flags.object}.`);
 
-  return String(value);
-};
-
-const validateOutputConfiguration = (format: FormatOption, outputFile?: string): void => {
-  if ((format === 'csv' || format === 'pdf') && !outputFile) {
-    throw new SfError('The --output-file flag is required when format is csv or pdf.', 'OutputFileRequired');
-  }
-};
+    this.renderSummaryTable(section.metrics, section.filters.groupBy ?? []);
 
-const reconcileMetrics = (source: ResolvedMetric[], target: ResolvedMetric[]): ResolvedMetric[] => {
-  if (source.length !== target.length) {
-    throw new SfError(
-      'Metric validation returned inconsistent results between source and target orgs.',
-      'MetricValidationMismatch'
-    );
-  }
+    if (section.retries.length > 0) {
+      this.warn(formatRetrySummary(section.retries));
+    }
 
-  return source.map((metric, index) => validateMetricPair(metric, target[index]));
-};
+    if (section.queries.sample) {
+      this.log(
+        `Fetched ${section.samples.source.length.toString()} sample record(s) from source org and ${section.samples.target.length.toString()} from target org.`
+      );
+    }
 
-const validateMetricPair = (metric: ResolvedMetric, targetMetric: ResolvedMetric): ResolvedMetric => {
-  if (metric.kind !== targetMetric.kind) {
-    throw new SfError('Metric kinds differ between org validations.', 'MetricValidationMismatch');
-  }
+    if (flags['auto-drilldown'] && context && section.tolerance.failures > 0) {
+      this.spinner.start('Drilling into metrics outside tolerance');
+      payload.drilldown = await drillDown(
+        { ...context, onProgress: undefined },
+        request,
+        section.metrics,
+        flags['drilldown-depth']
+      ).finally(() => this.spinner.stop());
+      for (const drilldown of payload.drilldown) {
+        this.log(formatDrilldown(drilldown));
+      }
+    }
 
-  switch (metric.kind) {
-    case 'count':
-      return metric;
-    case 'fieldAggregate':
-      return validateFieldAggregate(metric, targetMetric);
-    case 'countDistinct':
-      return validateCountDistinct(metric, targetMetric);
-    case 'ratio':
-      return validateRatio(metric, targetMetric);
-    case 'countIf':
-      return validateConditional(metric, targetMetric);
-    case 'sumIf':
-      return validateConditional(metric, targetMetric);
-    default: {
-      const exhaustiveCheck: never = metric;
-      return exhaustiveCheck;
+    if (outputFile) {
+      payload.outputFile = await this.writeReport(payload, format, outputFile);
     }
-  }
-};
 
-const validateFieldAggregate = (
-  metric: Extract<ResolvedMetric, { kind: 'fieldAggregate' }>,
-  targetMetric: ResolvedMetric
-): ResolvedMetric => {
-  if (targetMetric.kind !== 'fieldAggregate' || metric.field !== targetMetric.field || metric.fn !== targetMetric.fn) {
-    throw new SfError('Metric field validation differs between source and target orgs.', 'MetricValidationMismatch');
-  }
+    if (flags['record-history']) {
+      const historyPath = await recordRun(buildHistoryRun(payload));
+      this.log(`Recorded the run in ${historyPath}`);
+    }
 
-  return metric;
-};
+    const failures = section.tolerance.failures;
+    if (failures > 0 && flags['fail-on-difference']) {
+      this.warn(`${failures.toString()} metric(s) are outside tolerance.`);
+      process.exitCode = DIFFERENCE_EXIT_CODE;
+    }
 
-const validateCountDistinct = (
-  metric: Extract<ResolvedMetric, { kind: 'countDistinct' }>,
-  targetMetric: ResolvedMetric
-): ResolvedMetric => {
-  if (targetMetric.kind !== 'countDistinct' || metric.field !== targetMetric.field) {
-    throw new SfError('Metric field validation differs between source and target orgs.', 'MetricValidationMismatch');
+    return payload;
   }
 
-  return metric;
-};
-
-const validateRatio = (
-  metric: Extract<ResolvedMetric, { kind: 'ratio' }>,
-  targetMetric: ResolvedMetric
-): ResolvedMetric => {
-  if (targetMetric.kind !== 'ratio') {
-    throw new SfError('Metric field validation differs between source and target orgs.', 'MetricValidationMismatch');
+  private async writeReport(payload: CompareDataResult, format: FormatOption, outputFile: string): Promise<string> {
+    if (format === 'csv') {
+      const csvPath = await exportComparisonToCsv(payload, outputFile);
+      this.logSuccess(`CSV report written to ${csvPath}`);
+      return csvPath;
+    }
+    if (format === 'pdf') {
+      const pdfPath = await exportComparisonToPdf(payload, outputFile);
+      this.logSuccess(`PDF report written to ${pdfPath}`);
+      return pdfPath;
+    }
+    return outputFile;
   }
 
-  const numeratorMatches =
-    metric.numerator.field === targetMetric.numerator.field && metric.numerator.fn === targetMetric.numerator.fn;
-  const denominatorMatches =
-    metric.denominator.field === targetMetric.denominator.field &&
-    metric.denominator.fn === targetMetric.denominator.fn;
+  private async compareOrgs(
+    flags: Interfaces.InferredFlags<typeof CompareData.flags>,
+    request: ObjectComparisonRequest,
+    shared: Pick<OrgMatrixContext, 'queryPolicy' | 'onProgress'> & {
+      metadataServiceFor: (org: Org) => MetadataDiscoveryService;
+    }
+  ): Promise<CompareDataMatrixResult> {
+    const format = (flags.format ?? 'table') as FormatOption;
+    const outputFile = flags['output-file'];
+    const apiVersion = flags['api-version'];
+    const labels = (flags.org ?? [])
+      .flatMap((token) => token.split(','))
+      .map((token) => token.trim())
+      .filter((token) => token.length > 0);
+    if (labels.length < 2 || new Set(labels.map((label) => label.toLowerCase())).size !== labels.length) {
+      throw new SfError('Provide at least two different orgs with --org.', 'InvalidOrgList', [
+        'Repeat --org for every org, for example --org dev --org qa --org prod.',
+      ]);
+    }
 
-  if (!numeratorMatches || !denominatorMatches) {
-    throw new SfError('Ratio metric validation differs between source and target orgs.', 'MetricValidationMismatch');
-  }
+    const orgs = await Promise.all(labels.map((label) => Org.create({ aliasOrUsername: label })));
+    const [orgMetadata, matrix] = await Promise.all([
+      Promise.all(orgs.map((org, index) => resolveOrgMetadata(org, labels[index], apiVersion))),
+      compareOrgMatrix(
+        {
+          orgs: orgs.map((org, index) => ({ label: labels[index], org, metadata: shared.metadataServiceFor(org) })),
+          baseline: flags.baseline ?? labels[0],
+          apiVersion,
+          queryPolicy: shared.queryPolicy,
+          onProgress: shared.onProgress,
+        },
+        request
+      ).finally(() => this.statisticsProgress.stop()),
+    ]);
+    await flushCacheAccessTimes();
 
-  return metric;
-};
+    const payload: CompareDataMatrixResult = {
+      ...matrix,
+      format,
+      outputFile,
+      reportTitle: flags['report-title'],
+      metadataCacheMinutes: flags['metadata-cache'],
+      orgMetadata,
+    } satisfies CompareDataMatrixResult;
+
+    const metricCount = new Set(matrix.rows.map((row) => row.alias)).size;
+    this.log(
+      `Compared ${metricCount.toString()} metric(s) for object ${
+        matrix.object
+      } across ${labels.length.toString()} orgs against ${matrix.baseline}.`
+    );
+    this.table(buildMatrixTable(matrix));
 
-const validateConditional = (
-  metric: Extract<ResolvedMetric, { kind: 'countIf' | 'sumIf' }>,
-  targetMetric: ResolvedMetric
-): ResolvedMetric => {
-  if (metric.kind === 'sumIf') {
-    if (
-      targetMetric.kind !== 'sumIf' ||
-      metric.field !== targetMetric.field ||
-      metric.condition !== targetMetric.condition
-    ) {
-      throw new SfError(
-        'Conditional metric validation differs between source and target orgs.',
-        'MetricValidationMismatch'
-      );
+    if (matrix.retries.length > 0) {
+      this.warn(formatRetrySummary(matrix.retries));
     }
-    return metric;
-  }
 
-  if (targetMetric.kind !== 'countIf' || metric.condition !== targetMetric.condition) {
-    throw new SfError(
-      'Conditional metric validation differs between source and target orgs.',
-      'MetricValidationMismatch'
-    );
-  }
+    if (outputFile) {
+      if (format === 'csv') {
+        const csvPath = await exportMatrixToCsv(payload, outputFile);
+        payload.outputFile = csvPath;
+        this.logSuccess(`CSV report written to ${csvPath}`);
+      } else if (format === 'pdf') {
+        const pdfPath = await exportMatrixToPdf(payload, outputFile);
+        payload.outputFile = pdfPath;
+        this.logSuccess(`PDF report written to ${pdfPath}`);
+      }
+    }
 
-  return metric;
-};
+    const failures = matrix.tolerance.failures;
+    if (failures > 0 && flags['fail-on-difference']) {
+      this.warn(`${failures.toString()} metric(s) are outside tolerance.`);
+      process.exitCode = DIFFERENCE_EXIT_CODE;
+    }
 
-const buildSampleQuery = (plan: ReturnType<AggregateQueryBuilder['build']>, sampleSize: number): string | undefined => {
-  if (sampleSize <= 0) {
-    return undefined;
+    return payload;
   }
 
-  const fields = ['Id', ...plan.sampleFields];
-  const uniqueFields = Array.from(new Set(fields));
-  const whereClause = plan.whereClause ? ` WHERE ${plan.whereClause}` : '';
-  return `SELECT ${uniqueFields.join(', ')} FROM ${plan.objectName}${whereClause} ORDER BY Id LIMIT ${sampleSize}`;
-};
-
-const resolveApiVersion = async (org: Org, override?: string): Promise<string> => {
-  if (override) {
-    return override;
+  private renderSummaryTable(rows: MetricComparisonRow[], groupBy: string[]): void {
+    this.table(buildSummaryTable(rows, groupBy));
   }
-
-  const connection = await Promise.resolve(org.getConnection(override));
-  return connection.getApiVersion();
-};
+}
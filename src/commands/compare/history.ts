@@ -0,0 +1,170 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages } from '@salesforce/core';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import type { Interfaces } from '@oclif/core';
+
+import { validateOutputConfiguration, type FormatOption } from '../../services/commandSupport.js';
+import { exportHistoryToCsv } from '../../services/csvExporter.js';
+import {
+  buildMetricTrends,
+  filterRuns,
+  readRunHistory,
+  type HistoryRun,
+  type MetricTrend,
+} from '../../services/runHistory.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@unidotnet/plugin-data-comparison', 'compare.history');
+
+const HISTORY_FORMAT_OPTIONS: FormatOption[] = ['table', 'csv'];
+
+export type CompareHistoryResult = {
+  format: FormatOption;
+  outputFile?: string;
+  runs: HistoryRun[];
+  trends: MetricTrend[];
+};
+
+export default class CompareHistory extends SfCommand<CompareHistoryResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'source-org': Flags.string({
+      char: 's',
+      summary: messages.getMessage('flags.source-org.summary'),
+    }),
+    'target-org': Flags.string({
+      char: 't',
+      summary: messages.getMessage('flags.target-org.summary'),
+    }),
+    object: Flags.string({
+      summary: messages.getMessage('flags.object.summary'),
+    }),
+    metric: Flags.string({
+      char: 'm',
+      summary: messages.getMessage('flags.metric.summary'),
+      multiple: true,
+    }),
+    limit: Flags.integer({
+      summary: messages.getMessage('flags.limit.summary'),
+      default: 20,
+      min: 1,
+    }),
+    format: Flags.string({
+      summary: messages.getMessage('flags.format.summary'),
+      options: HISTORY_FORMAT_OPTIONS,
+      default: 'table',
+    }),
+    'output-file': Flags.string({
+      summary: messages.getMessage('flags.output-file.summary'),
+    }),
+  } as const;
+
+  public async run(): Promise<CompareHistoryResult> {
+    const parsed = await this.parse(CompareHistory);
+    const flags = parsed.flags as Interfaces.InferredFlags<typeof CompareHistory.flags>;
+    const format = (flags.format ?? 'table') as FormatOption;
+    const outputFile = flags['output-file'];
+
+    validateOutputConfiguration(format, outputFile);
+
+    const runs = filterRuns(await readRunHistory(), {
+      sourceOrg: flags['source-org'],
+      targetOrg: flags['target-org'],
+      object: flags.object,
+      metrics: flags.metric
+        ?.flatMap((token) => token.split(','))
+        .map((token) => token.trim())
+        .filter((token) => token.length > 0),
+    }).slice(-flags.limit);
+    const trends = buildMetricTrends(runs);
+    const payload: CompareHistoryResult = { format, outputFile, runs, trends };
+
+    if (runs.length === 0) {
+      this.log('No recorded runs match. Record runs with compare data --record-history.');
+      return payload;
+    }
+
+    this.log(`Found ${runs.length.toString()} recorded run(s).`);
+    this.table({
+      data: runs.map((run) => ({
+        recordedAt: run.recordedAt,
+        source: run.sourceSnapshot ? `${run.source.aliasOrUsername} (snapshot)` : run.source.aliasOrUsername,
+        target: run.target.aliasOrUsername,
+        object: run.object,
+        metrics: run.metrics.length.toString(),
+        failures: run.failures.toString(),
+      })),
+      columns: [
+        { key: 'recordedAt', name: 'Recorded At' },
+        { key: 'source', name: 'Source' },
+        { key: 'target', name: 'Target' },
+        { key: 'object', name: 'Object' },
+        { key: 'metrics', name: 'Metrics' },
+        { key: 'failures', name: 'Failures' },
+      ],
+    });
+    this.renderTrendTable(trends);
+
+    if (outputFile && format === 'csv') {
+      const csvPath = await exportHistoryToCsv(payload, outputFile);
+      payload.outputFile = csvPath;
+      this.logSuccess(`CSV report written to ${csvPath}`);
+    }
+
+    return payload;
+  }
+
+  private renderTrendTable(trends: MetricTrend[]): void {
+    const formatter = new Intl.NumberFormat('en-US');
+    const formatDifference = (value: number | null | undefined): string =>
+      value === null || value === undefined ? '—' : formatter.format(value);
+
+    this.table({
+      data: trends.map(
+        (trend): Record<string, string> => ({
+          orgs: `${trend.source.aliasOrUsername} → ${trend.target.aliasOrUsername}`,
+          object: trend.object,
+          metric: trend.label,
+          slice: [
+            ...Object.entries(trend.group ?? {}).map(([field, value]) => `${field}=${String(value)}`),
+            ...(trend.period ? [trend.period] : []),
+          ].join(', '),
+          filter: trend.filters.where ?? '',
+          runs: trend.points.length.toString(),
+          first: formatDifference(trend.points[0]?.difference),
+          latest: formatDifference(trend.points[trend.points.length - 1]?.difference),
+          trend: trend.direction,
+        })
+      ),
+      columns: [
+        { key: 'orgs', name: 'Orgs' },
+        { key: 'object', name: 'Object' },
+        { key: 'metric', name: 'Metric' },
+        ...(trends.some((trend) => trend.group ?? trend.period) ? [{ key: 'slice', name: 'Group' }] : []),
+        ...(trends.some((trend) => trend.filters.where) ? [{ key: 'filter', name: 'Filter' }] : []),
+        { key: 'runs', name: 'Runs' },
+        { key: 'first', name: 'First Difference' },
+        { key: 'latest', name: 'Latest Difference' },
+        { key: 'trend', name: 'Trend' },
+      ],
+    });
+  }
+}
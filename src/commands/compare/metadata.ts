@@ -0,0 +1,148 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages, Org } from '@salesforce/core';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import type { Interfaces } from '@oclif/core';
+
+import { MetadataDiscoveryService } from '../../services/metadataDiscoveryService.js';
+import { flushCacheAccessTimes } from '../../services/metadataCache.js';
+import { compareMetadataInventory, type MetadataInventoryComparison } from '../../services/metadataInventory.js';
+import { exportMetadataToCsv } from '../../services/csvExporter.js';
+import { exportMetadataToPdf } from '../../services/pdfExporter.js';
+import {
+  FORMAT_OPTIONS,
+  buildMetadataTable,
+  resolveOrgMetadata,
+  validateOutputConfiguration,
+  type FormatOption,
+  type OrgMetadata,
+} from '../../services/commandSupport.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@unidotnet/plugin-data-comparison', 'compare.metadata');
+
+export type CompareMetadataResult = MetadataInventoryComparison & {
+  format: FormatOption;
+  outputFile?: string;
+  reportTitle?: string;
+  metadataCacheMinutes: number;
+  source: OrgMetadata;
+  target: OrgMetadata;
+};
+
+export default class CompareMetadata extends SfCommand<CompareMetadataResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'source-org': Flags.string({
+      char: 's',
+      summary: messages.getMessage('flags.source-org.summary'),
+      required: true,
+    }),
+    'target-org': Flags.string({
+      char: 't',
+      summary: messages.getMessage('flags.target-org.summary'),
+      required: true,
+    }),
+    type: Flags.string({
+      summary: messages.getMessage('flags.type.summary'),
+      multiple: true,
+    }),
+    'metadata-cache': Flags.integer({
+      summary: messages.getMessage('flags.metadata-cache.summary'),
+      default: 10,
+      min: 0,
+    }),
+    format: Flags.string({
+      summary: messages.getMessage('flags.format.summary'),
+      options: FORMAT_OPTIONS,
+      default: 'table',
+    }),
+    'output-file': Flags.string({
+      summary: messages.getMessage('flags.output-file.summary'),
+    }),
+    'report-title': Flags.string({
+      summary: messages.getMessage('flags.report-title.summary'),
+    }),
+    'api-version': Flags.string({
+      summary: messages.getMessage('flags.api-version.summary'),
+    }),
+  } as const;
+
+  public async run(): Promise<CompareMetadataResult> {
+    const parsed = await this.parse(CompareMetadata);
+    const flags = parsed.flags as Interfaces.InferredFlags<typeof CompareMetadata.flags>;
+    const format = (flags.format ?? 'table') as FormatOption;
+    const outputFile = flags['output-file'];
+    const metadataCache = flags['metadata-cache'];
+    const apiVersion = flags['api-version'];
+
+    validateOutputConfiguration(format, outputFile);
+
+    const [sourceOrg, targetOrg] = await Promise.all([
+      Org.create({ aliasOrUsername: flags['source-org'] }),
+      Org.create({ aliasOrUsername: flags['target-org'] }),
+    ]);
+
+    const metadataServiceFor = (org: Org): MetadataDiscoveryService =>
+      new MetadataDiscoveryService({ org, apiVersion, metadataCacheTtlMinutes: metadataCache });
+
+    const [source, target, inventory] = await Promise.all([
+      resolveOrgMetadata(sourceOrg, flags['source-org'], apiVersion),
+      resolveOrgMetadata(targetOrg, flags['target-org'], apiVersion),
+      compareMetadataInventory(metadataServiceFor(sourceOrg), metadataServiceFor(targetOrg), flags.type),
+    ]);
+    await flushCacheAccessTimes();
+
+    for (const summary of inventory.types) {
+      this.log(
+        `${
+          summary.type
+        }: ${summary.sourceComponents.toString()} source and ${summary.targetComponents.toString()} target component(s), ${summary.missingInTarget.toString()} missing in target, ${summary.missingInSource.toString()} missing in source, ${summary.modified.toString()} modified.`
+      );
+    }
+    if (inventory.differences.length > 0) {
+      this.table(buildMetadataTable(inventory.differences));
+    }
+
+    const payload: CompareMetadataResult = {
+      ...inventory,
+      format,
+      outputFile,
+      reportTitle: flags['report-title'],
+      metadataCacheMinutes: metadataCache,
+      source,
+      target,
+    } satisfies CompareMetadataResult;
+
+    if (outputFile) {
+      if (format === 'csv') {
+        const csvPath = await exportMetadataToCsv(payload, outputFile);
+        payload.outputFile = csvPath;
+        this.logSuccess(`CSV report written to ${csvPath}`);
+      } else if (format === 'pdf') {
+        const pdfPath = await exportMetadataToPdf(payload, outputFile);
+        payload.outputFile = pdfPath;
+        this.logSuccess(`PDF report written to ${pdfPath}`);
+      }
+    }
+
+    return payload;
+  }
+}
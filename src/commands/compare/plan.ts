@@ -0,0 +1,283 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages, Org, SfError } from '@salesforce/core';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import type { Interfaces } from '@oclif/core';
+
+import { MetadataDiscoveryService } from '../../services/metadataDiscoveryService.js';
+import { flushCacheAccessTimes } from '../../services/metadataCache.js';
+import { loadComparisonPlan } from '../../services/comparisonPlan.js';
+import { compareObject, type ComparisonSection } from '../../services/objectComparison.js';
+import { mapSequentially } from '../../services/chunkedAggregation.js';
+import type { StatisticsProgress } from '../../services/clientStatistics.js';
+import { parseNamespaceOptions } from '../../services/namespaceResolution.js';
+import { loadSchemaMapping, resolveObjectMapping } from '../../services/schemaMapping.js';
+import { exportPlanToCsv } from '../../services/csvExporter.js';
+import { exportPlanToPdf } from '../../services/pdfExporter.js';
+import { DIFFERENCE_EXIT_CODE, parseToleranceConfig } from '../../services/toleranceEvaluator.js';
+import {
+  FORMAT_OPTIONS,
+  createStatisticsProgressReporter,
+  buildSummaryTable,
+  formatRetrySummary,
+  renderQueryPlan,
+  resolveIdKeys,
+  resolveOrgMetadata,
+  validateOutputConfiguration,
+  type FormatOption,
+  type OrgMetadata,
+} from '../../services/commandSupport.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@unidotnet/plugin-data-comparison', 'compare.plan');
+
+export type ComparePlanResult = {
+  planFile: string;
+  format: FormatOption;
+  outputFile?: string;
+  reportTitle?: string;
+  metadataCacheMinutes: number;
+  source: OrgMetadata;
+  target: OrgMetadata;
+  sections: ComparisonSection[];
+  failures: number;
+};
+
+export default class ComparePlan extends SfCommand<ComparePlanResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'plan-file': Flags.file({
+      char: 'p',
+      summary: messages.getMessage('flags.plan-file.summary'),
+      required: true,
+      exists: true,
+    }),
+    'source-org': Flags.string({
+      char: 's',
+      summary: messages.getMessage('flags.source-org.summary'),
+    }),
+    'target-org': Flags.string({
+      char: 't',
+      summary: messages.getMessage('flags.target-org.summary'),
+    }),
+    'metadata-cache': Flags.integer({
+      summary: messages.getMessage('flags.metadata-cache.summary'),
+      default: 10,
+      min: 0,
+    }),
+    format: Flags.string({
+      summary: messages.getMessage('flags.format.summary'),
+      options: FORMAT_OPTIONS,
+      default: 'table',
+    }),
+    'output-file': Flags.string({
+      summary: messages.getMessage('flags.output-file.summary'),
+    }),
+    'report-title': Flags.string({
+      summary: messages.getMessage('flags.report-title.summary'),
+    }),
+    timeout: Flags.integer({
+      summary: messages.getMessage('flags.timeout.summary'),
+      default: 10,
+      min: 1,
+    }),
+    'max-retries': Flags.integer({
+      summary: messages.getMessage('flags.max-retries.summary'),
+      default: 3,
+      min: 0,
+    }),
+    'retry-delay': Flags.integer({
+      summary: messages.getMessage('flags.retry-delay.summary'),
+      default: 1000,
+      min: 0,
+    }),
+    'api-version': Flags.string({
+      summary: messages.getMessage('flags.api-version.summary'),
+    }),
+    'mapping-file': Flags.file({
+      summary: messages.getMessage('flags.mapping-file.summary'),
+      exists: true,
+    }),
+    namespace: Flags.string({
+      summary: messages.getMessage('flags.namespace.summary'),
+      multiple: true,
+    }),
+    'translate-ids': Flags.boolean({
+      summary: messages.getMessage('flags.translate-ids.summary'),
+      default: false,
+    }),
+    'id-key': Flags.string({
+      summary: messages.getMessage('flags.id-key.summary'),
+      multiple: true,
+      dependsOn: ['translate-ids'],
+    }),
+    'fail-on-difference': Flags.boolean({
+      summary: messages.getMessage('flags.fail-on-difference.summary'),
+      default: false,
+    }),
+    'dry-run': Flags.boolean({
+      summary: messages.getMessage('flags.dry-run.summary'),
+      default: false,
+    }),
+    explain: Flags.boolean({
+      summary: messages.getMessage('flags.explain.summary'),
+      default: false,
+    }),
+  } as const;
+
+  private readonly statisticsProgress = createStatisticsProgressReporter(this);
+
+  public async run(): Promise<ComparePlanResult> {
+    const parsed = await this.parse(ComparePlan);
+    const flags = parsed.flags as Interfaces.InferredFlags<typeof ComparePlan.flags>;
+    const format = (flags.format ?? 'table') as FormatOption;
+    const planFile = flags['plan-file'];
+    const outputFile = flags['output-file'];
+    const metadataCache = flags['metadata-cache'];
+    const apiVersion = flags['api-version'];
+    const failOnDifference = flags['fail-on-difference'];
+    const dryRun = flags['dry-run'];
+
+    validateOutputConfiguration(format, outputFile);
+
+    const plan = await loadComparisonPlan(planFile);
+    const mapping = flags['mapping-file'] ? await loadSchemaMapping(flags['mapping-file']) : undefined;
+    const sourceAlias = flags['source-org'] ?? plan.sourceOrg;
+    const targetAlias = flags['target-org'] ?? plan.targetOrg;
+    if (!sourceAlias || !targetAlias) {
+      throw new SfError(
+        'Specify --source-org and --target-org, or set sourceOrg and targetOrg in the plan file.',
+        'MissingPlanOrgs'
+      );
+    }
+
+    // Parse every tolerance up front so a malformed value in the last entry fails before any query runs. Metric
+    // names are checked against each object's plan before that object's queries run.
+    const entries = plan.objects.map((entry) => ({
+      entry,
+      tolerance: parseToleranceConfig([...(plan.tolerance ?? []), ...(entry.tolerance ?? [])], entry.metricTolerance),
+      mapping: mapping ? resolveObjectMapping(mapping, entry.object) : undefined,
+    }));
+
+    const idKeys = resolveIdKeys(flags['translate-ids'], flags['id-key']);
+    const namespaces = parseNamespaceOptions(flags.namespace, [sourceAlias, targetAlias]);
+
+    const [sourceOrg, targetOrg] = await Promise.all([
+      Org.create({ aliasOrUsername: sourceAlias }),
+      Org.create({ aliasOrUsername: targetAlias }),
+    ]);
+
+    const [source, target] = await Promise.all([
+      resolveOrgMetadata(sourceOrg, sourceAlias, apiVersion),
+      resolveOrgMetadata(targetOrg, targetAlias, apiVersion),
+    ]);
+
+    const context = {
+      sourceOrg,
+      targetOrg,
+      sourceMetadata: new MetadataDiscoveryService({
+        org: sourceOrg,
+        apiVersion,
+        metadataCacheTtlMinutes: metadataCache,
+      }),
+      targetMetadata: new MetadataDiscoveryService({
+        org: targetOrg,
+        apiVersion,
+        metadataCacheTtlMinutes: metadataCache,
+      }),
+      apiVersion,
+      queryPolicy: {
+        timeoutMs: flags.timeout * 60 * 1000,
+        maxRetries: flags['max-retries'],
+        retryDelayMs: flags['retry-delay'],
+      },
+      onProgress: (progress: StatisticsProgress): void => this.statisticsProgress.report(progress),
+      namespaces: { source: namespaces.get(sourceAlias), target: namespaces.get(targetAlias) },
+    };
+
+    // Objects run one after another to keep the API load on both orgs predictable.
+    const sections = await mapSequentially(entries, async ({ entry, tolerance, mapping: objectMapping }) => {
+      const section = await compareObject(context, {
+        object: entry.object,
+        metrics: entry.metrics,
+        where: entry.where,
+        groupBy: entry.groupBy,
+        bucketing: entry.bucketing,
+        sampleSize: entry.sampleSize ?? 0,
+        tolerance,
+        failOnDifference,
+        chunking: entry.chunking,
+        mapping: objectMapping,
+        idKeys,
+        dryRun,
+        explain: flags.explain,
+      }).finally(() => this.statisticsProgress.stop());
+
+      this.styledHeader(section.object);
+      renderQueryPlan(this, section);
+      if (!dryRun) {
+        this.table(buildSummaryTable(section.metrics, section.filters.groupBy ?? []));
+      }
+      if (section.retries.length > 0) {
+        this.warn(formatRetrySummary(section.retries));
+      }
+      return section;
+    });
+    await flushCacheAccessTimes();
+
+    const failures = sections.reduce((total, section) => total + section.tolerance.failures, 0);
+    this.log(
+      dryRun
+        ? `Dry run: planned ${sections.length.toString()} object(s) from ${planFile} without querying any data.`
+        : `Compared ${sections.length.toString()} object(s) from ${planFile}.`
+    );
+
+    const payload: ComparePlanResult = {
+      planFile,
+      format,
+      outputFile,
+      reportTitle: flags['report-title'] ?? plan.title,
+      metadataCacheMinutes: metadataCache,
+      source,
+      target,
+      sections,
+      failures,
+    } satisfies ComparePlanResult;
+
+    if (outputFile && !dryRun) {
+      if (format === 'csv') {
+        const csvPath = await exportPlanToCsv(payload, outputFile);
+        payload.outputFile = csvPath;
+        this.logSuccess(`CSV report written to ${csvPath}`);
+      } else if (format === 'pdf') {
+        const pdfPath = await exportPlanToPdf(payload, outputFile);
+        payload.outputFile = pdfPath;
+        this.logSuccess(`PDF report written to ${pdfPath}`);
+      }
+    }
+
+    if (failures > 0 && failOnDifference) {
+      this.warn(`${failures.toString()} metric(s) are outside tolerance.`);
+      process.exitCode = DIFFERENCE_EXIT_CODE;
+    }
+
+    return payload;
+  }
+}
@@ -0,0 +1,274 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages, Org } from '@salesforce/core';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import type { Interfaces } from '@oclif/core';
+
+import { MetadataDiscoveryService } from '../../services/metadataDiscoveryService.js';
+import { flushCacheAccessTimes } from '../../services/metadataCache.js';
+import {
+  buildRecordQuery,
+  compareRecords,
+  resolveComparisonFields,
+  resolveKeyField,
+  type RecordComparison,
+  type RecordDiff,
+} from '../../services/recordDiffService.js';
+import { resolveSoqlCondition } from '../../services/soqlCondition.js';
+import { exportRecordDiffToCsv } from '../../services/csvExporter.js';
+import { exportRecordDiffToPdf } from '../../services/pdfExporter.js';
+import {
+  FORMAT_OPTIONS,
+  formatRetrySummary,
+  resolveOrgMetadata,
+  validateOutputConfiguration,
+  type FormatOption,
+  type OrgMetadata,
+} from '../../services/commandSupport.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@unidotnet/plugin-data-comparison', 'compare.records');
+
+export type CompareRecordsResult = RecordComparison & {
+  object: string;
+  keyField: string;
+  fields: string[];
+  filters: {
+    where?: string;
+    maxRecords: number;
+  };
+  format: FormatOption;
+  outputFile?: string;
+  reportTitle?: string;
+  metadataCacheMinutes: number;
+  source: OrgMetadata;
+  target: OrgMetadata;
+  query: string;
+};
+
+export default class CompareRecords extends SfCommand<CompareRecordsResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'source-org': Flags.string({
+      char: 's',
+      summary: messages.getMessage('flags.source-org.summary'),
+      required: true,
+    }),
+    'target-org': Flags.string({
+      char: 't',
+      summary: messages.getMessage('flags.target-org.summary'),
+      required: true,
+    }),
+    object: Flags.string({
+      summary: messages.getMessage('flags.object.summary'),
+      required: true,
+    }),
+    'key-field': Flags.string({
+      summary: messages.getMessage('flags.key-field.summary'),
+      default: 'Id',
+    }),
+    fields: Flags.string({
+      char: 'f',
+      summary: messages.getMessage('flags.fields.summary'),
+      multiple: true,
+    }),
+    where: Flags.string({
+      summary: messages.getMessage('flags.where.summary'),
+    }),
+    'max-records': Flags.integer({
+      summary: messages.getMessage('flags.max-records.summary'),
+      default: 50_000,
+      min: 1,
+    }),
+    'metadata-cache': Flags.integer({
+      summary: messages.getMessage('flags.metadata-cache.summary'),
+      default: 10,
+      min: 0,
+    }),
+    format: Flags.string({
+      summary: messages.getMessage('flags.format.summary'),
+      options: FORMAT_OPTIONS,
+      default: 'table',
+    }),
+    'output-file': Flags.string({
+      summary: messages.getMessage('flags.output-file.summary'),
+    }),
+    'report-title': Flags.string({
+      summary: messages.getMessage('flags.report-title.summary'),
+    }),
+    timeout: Flags.integer({
+      summary: messages.getMessage('flags.timeout.summary'),
+      default: 10,
+      min: 1,
+    }),
+    'max-retries': Flags.integer({
+      summary: messages.getMessage('flags.max-retries.summary'),
+      default: 3,
+      min: 0,
+    }),
+    'retry-delay': Flags.integer({
+      summary: messages.getMessage('flags.retry-delay.summary'),
+      default: 1000,
+      min: 0,
+    }),
+    'api-version': Flags.string({
+      summary: messages.getMessage('flags.api-version.summary'),
+    }),
+  } as const;
+
+  public async run(): Promise<CompareRecordsResult> {
+    const parsed = await this.parse(CompareRecords);
+    const flags = parsed.flags as Interfaces.InferredFlags<typeof CompareRecords.flags>;
+    const format = (flags.format ?? 'table') as FormatOption;
+    const outputFile = flags['output-file'];
+    const metadataCache = flags['metadata-cache'];
+    const maxRecords = flags['max-records'];
+    const apiVersion = flags['api-version'];
+
+    validateOutputConfiguration(format, outputFile);
+
+    const [sourceOrg, targetOrg] = await Promise.all([
+      Org.create({ aliasOrUsername: flags['source-org'] }),
+      Org.create({ aliasOrUsername: flags['target-org'] }),
+    ]);
+
+    const metadataServiceFor = (org: Org): MetadataDiscoveryService =>
+      new MetadataDiscoveryService({ org, apiVersion, metadataCacheTtlMinutes: metadataCache });
+
+    const [sourceDescribe, targetDescribe] = await Promise.all([
+      metadataServiceFor(sourceOrg).describeSObject(flags.object),
+      metadataServiceFor(targetOrg).describeSObject(flags.object),
+    ]);
+
+    const keyField = resolveKeyField(flags['key-field'], sourceDescribe, targetDescribe);
+    const requestedFields = (flags.fields ?? [])
+      .flatMap((token) => token.split(','))
+      .map((token) => token.trim())
+      .filter((token) => token.length > 0);
+    const fields = resolveComparisonFields(requestedFields, keyField, sourceDescribe, targetDescribe);
+
+    const where = flags.where ? resolveSoqlCondition(flags.where, sourceDescribe, 'source org') : undefined;
+    if (flags.where) {
+      resolveSoqlCondition(flags.where, targetDescribe, 'target org');
+    }
+    const query = buildRecordQuery({ objectName: sourceDescribe.name, keyField, fields, where });
+
+    const [source, target, diff] = await Promise.all([
+      resolveOrgMetadata(sourceOrg, flags['source-org'], apiVersion),
+      resolveOrgMetadata(targetOrg, flags['target-org'], apiVersion),
+      compareRecords({
+        sourceOrg,
+        targetOrg,
+        query,
+        keyField,
+        fields,
+        maxRecords,
+        apiVersionOverride: apiVersion,
+        queryPolicy: {
+          timeoutMs: flags.timeout * 60 * 1000,
+          maxRetries: flags['max-retries'],
+          retryDelayMs: flags['retry-delay'],
+        },
+      }),
+    ]);
+    await flushCacheAccessTimes();
+
+    this.log(
+      `Compared ${diff.summary.sourceRecords.toString()} source and ${diff.summary.targetRecords.toString()} target record(s) of ${
+        sourceDescribe.name
+      } on ${keyField}.`
+    );
+    this.renderSummaryTable(diff);
+    if (diff.summary.duplicateKey > 0) {
+      this.warn(
+        `${diff.summary.duplicateKey.toString()} record(s) share a ${keyField} value with an earlier record and were not compared. Use a unique key field.`
+      );
+    }
+    if (diff.retries.length > 0) {
+      this.warn(formatRetrySummary(diff.retries));
+    }
+
+    const payload: CompareRecordsResult = {
+      object: sourceDescribe.name,
+      keyField,
+      fields,
+      filters: {
+        where,
+        maxRecords,
+      },
+      format,
+      outputFile,
+      reportTitle: flags['report-title'],
+      metadataCacheMinutes: metadataCache,
+      source,
+      target,
+      query,
+      ...diff,
+    } satisfies CompareRecordsResult;
+
+    if (outputFile) {
+      if (format === 'csv') {
+        const csvPath = await exportRecordDiffToCsv(payload, outputFile);
+        payload.outputFile = csvPath;
+        this.logSuccess(`CSV report written to ${csvPath}`);
+      } else if (format === 'pdf') {
+        const pdfPath = await exportRecordDiffToPdf(payload, outputFile);
+        payload.outputFile = pdfPath;
+        this.logSuccess(`PDF report written to ${pdfPath}`);
+      }
+    }
+
+    return payload;
+  }
+
+  private renderSummaryTable(diff: RecordDiff): void {
+    const formatter = new Intl.NumberFormat('en-US');
+    const { summary } = diff;
+
+    this.table({
+      data: [
+        { category: 'Matched', records: formatter.format(summary.matched) },
+        { category: 'Unchanged', records: formatter.format(summary.unchanged) },
+        { category: 'Changed', records: formatter.format(summary.changed) },
+        { category: 'Missing in target', records: formatter.format(summary.missingInTarget) },
+        { category: 'Extra in target', records: formatter.format(summary.extraInTarget) },
+        { category: 'Without key value', records: formatter.format(summary.withoutKey) },
+        { category: 'Duplicate key value', records: formatter.format(summary.duplicateKey) },
+      ],
+      columns: [
+        { key: 'category', name: 'Category' },
+        { key: 'records', name: 'Records' },
+      ],
+    });
+
+    if (diff.fieldMismatches.length > 0) {
+      this.table({
+        data: diff.fieldMismatches.map((entry) => ({
+          field: entry.field,
+          mismatches: formatter.format(entry.mismatches),
+        })),
+        columns: [
+          { key: 'field', name: 'Field' },
+          { key: 'mismatches', name: 'Mismatched Records' },
+        ],
+      });
+    }
+  }
+}
@@ -0,0 +1,176 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages, Org } from '@salesforce/core';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import type { Interfaces } from '@oclif/core';
+
+import { MetadataDiscoveryService } from '../../services/metadataDiscoveryService.js';
+import { flushCacheAccessTimes } from '../../services/metadataCache.js';
+import { compareSchemas, type ObjectSchemaComparison } from '../../services/schemaComparison.js';
+import { exportSchemaToCsv } from '../../services/csvExporter.js';
+import { exportSchemaToPdf } from '../../services/pdfExporter.js';
+import {
+  FORMAT_OPTIONS,
+  buildSchemaTable,
+  resolveOrgMetadata,
+  validateOutputConfiguration,
+  type FormatOption,
+  type OrgMetadata,
+} from '../../services/commandSupport.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@unidotnet/plugin-data-comparison', 'compare.schema');
+
+export type CompareSchemaResult = {
+  objects: ObjectSchemaComparison[];
+  format: FormatOption;
+  outputFile?: string;
+  reportTitle?: string;
+  metadataCacheMinutes: number;
+  source: OrgMetadata;
+  target: OrgMetadata;
+};
+
+export default class CompareSchema extends SfCommand<CompareSchemaResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'source-org': Flags.string({
+      char: 's',
+      summary: messages.getMessage('flags.source-org.summary'),
+      required: true,
+    }),
+    'target-org': Flags.string({
+      char: 't',
+      summary: messages.getMessage('flags.target-org.summary'),
+      required: true,
+    }),
+    object: Flags.string({
+      summary: messages.getMessage('flags.object.summary'),
+      multiple: true,
+      required: true,
+    }),
+    'metadata-cache': Flags.integer({
+      summary: messages.getMessage('flags.metadata-cache.summary'),
+      default: 10,
+      min: 0,
+    }),
+    format: Flags.string({
+      summary: messages.getMessage('flags.format.summary'),
+      options: FORMAT_OPTIONS,
+      default: 'table',
+    }),
+    'output-file': Flags.string({
+      summary: messages.getMessage('flags.output-file.summary'),
+    }),
+    'report-title': Flags.string({
+      summary: messages.getMessage('flags.report-title.summary'),
+    }),
+    'api-version': Flags.string({
+      summary: messages.getMessage('flags.api-version.summary'),
+    }),
+  } as const;
+
+  public async run(): Promise<CompareSchemaResult> {
+    const parsed = await this.parse(CompareSchema);
+    const flags = parsed.flags as Interfaces.InferredFlags<typeof CompareSchema.flags>;
+    const format = (flags.format ?? 'table') as FormatOption;
+    const outputFile = flags['output-file'];
+    const metadataCache = flags['metadata-cache'];
+    const apiVersion = flags['api-version'];
+
+    validateOutputConfiguration(format, outputFile);
+
+    const objects = flags.object
+      .flatMap((token) => token.split(','))
+      .map((token) => token.trim())
+      .filter((token) => token.length > 0);
+
+    const [sourceOrg, targetOrg] = await Promise.all([
+      Org.create({ aliasOrUsername: flags['source-org'] }),
+      Org.create({ aliasOrUsername: flags['target-org'] }),
+    ]);
+
+    const sourceMetadata = new MetadataDiscoveryService({
+      org: sourceOrg,
+      apiVersion,
+      metadataCacheTtlMinutes: metadataCache,
+    });
+    const targetMetadata = new MetadataDiscoveryService({
+      org: targetOrg,
+      apiVersion,
+      metadataCacheTtlMinutes: metadataCache,
+    });
+
+    const [source, target, comparisons] = await Promise.all([
+      resolveOrgMetadata(sourceOrg, flags['source-org'], apiVersion),
+      resolveOrgMetadata(targetOrg, flags['target-org'], apiVersion),
+      Promise.all(
+        objects.map(async (object) => {
+          const [sourceDescribe, targetDescribe] = await Promise.all([
+            sourceMetadata.describeSObject(object),
+            targetMetadata.describeSObject(object),
+          ]);
+          return compareSchemas(sourceDescribe, targetDescribe);
+        })
+      ),
+    ]);
+    await flushCacheAccessTimes();
+
+    for (const comparison of comparisons) {
+      this.renderComparison(comparison);
+    }
+
+    const payload: CompareSchemaResult = {
+      objects: comparisons,
+      format,
+      outputFile,
+      reportTitle: flags['report-title'],
+      metadataCacheMinutes: metadataCache,
+      source,
+      target,
+    } satisfies CompareSchemaResult;
+
+    if (outputFile) {
+      if (format === 'csv') {
+        const csvPath = await exportSchemaToCsv(payload, outputFile);
+        payload.outputFile = csvPath;
+        this.logSuccess(`CSV report written to ${csvPath}`);
+      } else if (format === 'pdf') {
+        const pdfPath = await exportSchemaToPdf(payload, outputFile);
+        payload.outputFile = pdfPath;
+        this.logSuccess(`PDF report written to ${pdfPath}`);
+      }
+    }
+
+    return payload;
+  }
+
+  private renderComparison(comparison: ObjectSchemaComparison): void {
+    const { summary } = comparison;
+    this.log(
+      `Compared ${summary.sourceFields.toString()} source and ${summary.targetFields.toString()} target field(s) of ${
+        comparison.object
+      }: ${summary.added.toString()} added, ${summary.removed.toString()} removed, ${summary.changed.toString()} changed.`
+    );
+    if (comparison.differences.length > 0) {
+      this.table(buildSchemaTable(comparison));
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Messages, Org } from '@salesforce/core';
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import type { Interfaces } from '@oclif/core';
+
+import { MetadataDiscoveryService } from '../../../services/metadataDiscoveryService.js';
+import { flushCacheAccessTimes } from '../../../services/metadataCache.js';
+import { CHUNK_FIELDS, type ChunkField } from '../../../services/chunkedAggregation.js';
+import { formatRetrySummary, resolveOrgMetadata } from '../../../services/commandSupport.js';
+import type { ObjectComparisonRequest } from '../../../services/objectComparison.js';
+import { captureSnapshot, defaultSnapshotName, saveSnapshot, type OrgSnapshot } from '../../../services/orgSnapshot.js';
+import {
+  BUCKET_INTERVALS,
+  BUCKET_TIME_ZONES,
+  type BucketInterval,
+  type BucketTimeZone,
+} from '../../../services/timeBuckets.js';
+import { parseToleranceConfig } from '../../../services/toleranceEvaluator.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('@unidotnet/plugin-data-comparison', 'compare.snapshot.save');
+
+export type CompareSnapshotSaveResult = {
+  path: string;
+  snapshot: OrgSnapshot;
+};
+
+export default class CompareSnapshotSave extends SfCommand<CompareSnapshotSaveResult> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'target-org': Flags.string({
+      char: 't',
+      summary: messages.getMessage('flags.target-org.summary'),
+      required: true,
+    }),
+    object: Flags.string({
+      summary: messages.getMessage('flags.object.summary'),
+      required: true,
+    }),
+    metrics: Flags.string({
+      char: 'm',
+      summary: messages.getMessage('flags.metrics.summary'),
+      multiple: true,
+    }),
+    where: Flags.string({
+      summary: messages.getMessage('flags.where.summary'),
+    }),
+    'group-by': Flags.string({
+      summary: messages.getMessage('flags.group-by.summary'),
+      multiple: true,
+    }),
+    'bucket-by': Flags.string({
+      summary: messages.getMessage('flags.bucket-by.summary'),
+    }),
+    interval: Flags.string({
+      summary: messages.getMessage('flags.interval.summary'),
+      options: [...BUCKET_INTERVALS],
+      default: 'month',
+    }),
+    'time-zone': Flags.string({
+      summary: messages.getMessage('flags.time-zone.summary'),
+      options: [...BUCKET_TIME_ZONES],
+      default: 'utc',
+    }),
+    'chunk-by': Flags.string({
+      summary: messages.getMessage('flags.chunk-by.summary'),
+      options: CHUNK_FIELDS,
+    }),
+    chunks: Flags.integer({
+      summary: messages.getMessage('flags.chunks.summary'),
+      default: 10,
+      min: 2,
+    }),
+    'chunk-concurrency': Flags.integer({
+      summary: messages.getMessage('flags.chunk-concurrency.summary'),
+      default: 4,
+      min: 1,
+    }),
+    name: Flags.string({
+      char: 'n',
+      summary: messages.getMessage('flags.name.summary'),
+      exclusive: ['output-file'],
+    }),
+    'output-file': Flags.string({
+      summary: messages.getMessage('flags.output-file.summary'),
+    }),
+    'metadata-cache': Flags.integer({
+      summary: messages.getMessage('flags.metadata-cache.summary'),
+      default: 10,
+      min: 0,
+    }),
+    timeout: Flags.integer({
+      summary: messages.getMessage('flags.timeout.summary'),
+      default: 10,
+      min: 1,
+    }),
+    'max-retries': Flags.integer({
+      summary: messages.getMessage('flags.max-retries.summary'),
+      default: 3,
+      min: 0,
+    }),
+    'retry-delay': Flags.integer({
+      summary: messages.getMessage('flags.retry-delay.summary'),
+      default: 1000,
+      min: 0,
+    }),
+    'api-version': Flags.string({
+      summary: messages.getMessage('flags.api-version.summary'),
+    }),
+  } as const;
+
+  public async run(): Promise<CompareSnapshotSaveResult> {
+    const parsed = await this.parse(CompareSnapshotSave);
+    const flags = parsed.flags as Interfaces.InferredFlags<typeof CompareSnapshotSave.flags>;
+    const targetAlias = flags['target-org'];
+    const apiVersion = flags['api-version'];
+
+    const org = await Org.create({ aliasOrUsername: targetAlias });
+    const metadata = new MetadataDiscoveryService({
+      org,
+      apiVersion,
+      metadataCacheTtlMinutes: flags['metadata-cache'],
+    });
+
+    const request: ObjectComparisonRequest = {
+      object: flags.object,
+      metrics: flags.metrics,
+      where: flags.where,
+      groupBy: flags['group-by'],
+      bucketing: flags['bucket-by']
+        ? {
+            field: flags['bucket-by'],
+            interval: flags.interval as BucketInterval,
+            timeZone: flags['time-zone'] as BucketTimeZone,
+          }
+        : undefined,
+      sampleSize: 0,
+      tolerance: parseToleranceConfig(undefined, undefined),
+      failOnDifference: false,
+      chunking: flags['chunk-by']
+        ? {
+            field: flags['chunk-by'] as ChunkField,
+            chunks: flags.chunks,
+            concurrency: flags['chunk-concurrency'],
+          }
+        : undefined,
+    };
+    const queryPolicy = {
+      timeoutMs: flags.timeout * 60 * 1000,
+      maxRetries: flags['max-retries'],
+      retryDelayMs: flags['retry-delay'],
+    };
+
+    const orgMetadata = await resolveOrgMetadata(org, targetAlias, apiVersion);
+    this.spinner.start(`Capturing ${flags.object} metrics from ${targetAlias}`);
+    const { snapshot, retries } = await captureSnapshot(
+      { org, metadata, apiVersion, queryPolicy },
+      orgMetadata,
+      request
+    ).finally(() => this.spinner.stop());
+    await flushCacheAccessTimes();
+
+    if (retries.length > 0) {
+      this.warn(formatRetrySummary(retries));
+    }
+
+    const path = await saveSnapshot(
+      snapshot,
+      flags.name ?? flags['output-file'] ?? defaultSnapshotName(targetAlias, snapshot.object)
+    );
+    this.logSuccess(
+      `Saved ${Object.keys(snapshot.values).length.toString()} metric value(s) for ${snapshot.object} to ${path}`
+    );
+
+    return { path, snapshot };
+  }
+}
@@ -14,7 +14,18 @@
  * limitations under the License.
  */
 
-import type { MetricValueType, ResolvedFieldAggregateMetric, ResolvedMetric } from './metricParser.js';
+import {
+  isClientStatistic,
+  type ClientStatisticFunction,
+  type MetricValueType,
+  type ResolvedFieldAggregateMetric,
+  type ResolvedMetric,
+  type ResolvedDistributionMetric,
+  type ResolvedOperandMetric,
+} from './metricParser.js';
+import { collectExpressionMetrics, mapExpression, type MetricExpression } from './metricExpression.js';
+import { normalizeSoqlCondition } from './soqlCondition.js';
+import { buildPeriodFunctions, type ResolvedTimeBucketing } from './timeBuckets.js';
 
 export type AggregateExpression = {
   alias: string;
@@ -25,7 +36,18 @@ export type AggregateExpression = {
 export type MetricDefinition =
   | {
       kind: 'direct';
-      metric: Exclude<ResolvedMetric, { kind: 'ratio' }>;
+      metric: Exclude<ResolvedMetric, { kind: 'ratio' | 'expression' | 'histogram' | 'frequency' }>;
+      alias: string;
+    }
+  | {
+      kind: 'distribution';
+      metric: ResolvedDistributionMetric;
+      alias: string;
+    }
+  | {
+      kind: 'expression';
+      metric: Extract<ResolvedMetric, { kind: 'expression' }>;
+      expression: MetricExpression<string>;
       alias: string;
     }
   | {
@@ -41,18 +63,56 @@ export type ConditionalMetricPlan = {
   alias: string;
   aggregateQuery: string;
   valueType: MetricValueType;
+  whereClause: string;
+  soql: string;
+};
+
+/** MEDIAN, STDDEV and VARIANCE have no SOQL function, so they are computed from the streamed field values. */
+export type ClientStatisticPlan = {
+  alias: string;
+  fn: ClientStatisticFunction | 'percentile';
+  field: string;
+  percentile?: number;
+  valueType: MetricValueType;
+};
+
+/** Histograms and value frequencies keep every streamed value of their field so both orgs can share buckets. */
+export type DistributionPlan = {
+  alias: string;
+  kind: ResolvedDistributionMetric['kind'];
+  field: string;
+};
+
+export type GroupByExpression = {
+  field: string;
+  soql: string;
+  alias: string;
+  /** Set on the date functions added by time bucketing; their values form the row period instead of a group value. */
+  period?: boolean;
 };
 
 export type AggregatePlan = {
   objectName: string;
   whereClause?: string;
+  groupBy?: GroupByExpression[];
+  bucketing?: ResolvedTimeBucketing;
   aggregateQuery?: string;
   expressions: AggregateExpression[];
   metrics: MetricDefinition[];
   conditionalMetrics: ConditionalMetricPlan[];
+  statistics: ClientStatisticPlan[];
+  distributions: DistributionPlan[];
   sampleFields: string[];
 };
 
+/** The parts of an aggregate query, so callers can re-issue it with extra filters (for example per chunk). */
+export type AggregateQuerySpec = {
+  objectName: string;
+  whereClause?: string;
+  groupBy: GroupByExpression[];
+  expressions: AggregateExpression[];
+};
+
 const sanitizeAlias = (value: string): string => value.replace(/[^a-z0-9_]/gi, '_');
 
 const uniqueAlias = (base: string, existing: Set<string>): string => {
@@ -66,90 +126,19 @@ const uniqueAlias = (base: string, existing: Set<string>): string => {
   return candidate;
 };
 
-type SimpleComparisonOperator = '=' | '!=' | '<>' | '<' | '<=' | '>' | '>=';
-
-type ParsedCondition = {
-  field: string;
-  operator: SimpleComparisonOperator;
-  value: string;
-  quoted: boolean;
-};
-
-const SOQL_NUMERIC_PATTERN = /^[-+]?\d+(?:\.\d+)?$/;
-const SOQL_BOOLEAN_PATTERN = /^(?:true|false)$/i;
-const SOQL_NULL_PATTERN = /^null$/i;
-const SOQL_DATE_LITERAL_PATTERN =
-  /^(?:TODAY|YESTERDAY|TOMORROW|THIS_WEEK|LAST_WEEK|NEXT_WEEK|THIS_MONTH|LAST_MONTH|NEXT_MONTH|THIS_QUARTER|LAST_QUARTER|NEXT_QUARTER|THIS_YEAR|LAST_YEAR|NEXT_YEAR)$/i;
-const SOQL_DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{3})?Z$/;
-
-const escapeSoqlLiteral = (value: string): string => value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
-
-const parseSimpleCondition = (condition: string): ParsedCondition | undefined => {
-  const match = condition.match(/^[\s(]*([A-Za-z0-9_.]+)\s*(=|!=|<>|<=|>=|<|>)\s*(.+?)[)\s]*$/);
-  if (!match) {
-    return undefined;
-  }
-
-  const [, rawField, operator, rawValue] = match;
-  const field = rawField.trim();
-  let value = rawValue.trim();
-  let quoted = false;
-
-  if ((value.startsWith("'") && value.endsWith("'")) || (value.startsWith('"') && value.endsWith('"'))) {
-    value = value.slice(1, -1);
-    quoted = true;
-  }
-
-  return {
-    field,
-    operator: operator as SimpleComparisonOperator,
-    value,
-    quoted,
-  } satisfies ParsedCondition;
-};
-
-const shouldQuote = (value: string, alreadyQuoted: boolean): boolean => {
-  if (alreadyQuoted) {
-    return true;
-  }
-
-  if (
-    SOQL_NUMERIC_PATTERN.test(value) ||
-    SOQL_BOOLEAN_PATTERN.test(value) ||
-    SOQL_NULL_PATTERN.test(value) ||
-    SOQL_DATE_LITERAL_PATTERN.test(value) ||
-    SOQL_DATETIME_PATTERN.test(value)
-  ) {
-    return false;
-  }
-
-  return true;
-};
-
-function normalizeCondition(condition: string): string {
-  const parsed = parseSimpleCondition(condition);
-  if (!parsed) {
-    return condition.trim();
-  }
-
-  const { field, operator, value, quoted } = parsed;
-  const needsQuotes = shouldQuote(value, quoted);
-  const normalizedValue = needsQuotes ? `'${escapeSoqlLiteral(value)}'` : value;
-
-  return `${field} ${operator} ${normalizedValue}`;
-}
-
 export class AggregateQueryBuilder {
   public constructor(
     private readonly options: {
       objectName: string;
       metrics: ResolvedMetric[];
       where?: string;
+      groupBy?: string[];
+      bucketing?: ResolvedTimeBucketing;
     }
   ) {}
 
   public build(): AggregatePlan {
-    const { objectName, metrics, where } = this.options;
+    const { objectName, metrics, where, groupBy, bucketing } = this.options;
 
     if (metrics.length === 0) {
       throw new Error('At least one metric is required to build an aggregate query.');
@@ -161,9 +150,15 @@ export class AggregateQueryBuilder {
     const expressions: AggregateExpression[] = [];
     const metricDefinitions: MetricDefinition[] = [];
     const conditionalMetrics: ConditionalMetricPlan[] = [];
+    const statistics: ClientStatisticPlan[] = [];
+    const distributions: DistributionPlan[] = [];
     const sampleFieldSet = new Set<string>();
 
     const baseWhereClause = buildWhereClause(where);
+    const groupByExpressions = [
+      ...buildGroupByExpressions(groupBy, aliasSet),
+      ...buildPeriodExpressions(bucketing, aliasSet),
+    ];
 
     const addExpression = (key: string, soql: string, baseAlias: string, valueType: MetricValueType): string => {
       const cached = expressionCache.get(key);
@@ -178,20 +173,80 @@ export class AggregateQueryBuilder {
       return alias;
     };
 
+    const addFieldAggregate = (metric: ResolvedFieldAggregateMetric): string => {
+      const baseAlias = sanitizeAlias(`${metric.fn}__${metric.field.toLowerCase()}`);
+      if (!isClientStatistic(metric.fn)) {
+        return addExpression(buildAggregateKey(metric), buildAggregateExpression(metric), baseAlias, metric.valueType);
+      }
+
+      return addStatistic({ fn: metric.fn, field: metric.field, valueType: metric.valueType }, baseAlias);
+    };
+
+    const addStatistic = (statistic: Omit<ClientStatisticPlan, 'alias'>, baseAlias: string): string => {
+      const existing = statistics.find(
+        (candidate) =>
+          candidate.fn === statistic.fn &&
+          candidate.field === statistic.field &&
+          candidate.percentile === statistic.percentile
+      );
+      if (existing) {
+        return existing.alias;
+      }
+      const alias = uniqueAlias(baseAlias, aliasSet);
+      statistics.push({ alias, ...statistic });
+      return alias;
+    };
+
+    const conditionalCache = new Map<string, ConditionalMetricPlan>();
+    const addConditional = (metric: Extract<ResolvedMetric, { kind: 'countIf' | 'sumIf' }>): ConditionalMetricPlan => {
+      const normalizedCondition = normalizeSoqlCondition(metric.condition);
+      const key = `${metric.kind}|${metric.kind === 'sumIf' ? metric.field : ''}|${normalizedCondition}`;
+      const cached = conditionalCache.get(key);
+      if (cached) {
+        return cached;
+      }
+
+      const normalizedMetric = { ...metric, condition: normalizedCondition } as Extract<
+        ResolvedMetric,
+        { kind: 'countIf' | 'sumIf' }
+      >;
+
+      const baseAlias =
+        normalizedMetric.kind === 'countIf'
+          ? sanitizeAlias(`countIf__${hashCondition(normalizedCondition)}`)
+          : sanitizeAlias(`sumIf__${normalizedMetric.field.toLowerCase()}_${hashCondition(normalizedCondition)}`);
+      const alias = uniqueAlias(baseAlias, aliasSet);
+      const whereClause = combineWhereClauses(baseWhereClause, normalizedCondition);
+      const soql = normalizedMetric.kind === 'countIf' ? 'COUNT(Id)' : `SUM(${normalizedMetric.field})`;
+      const aggregateQuery = buildAggregateQuery({
+        objectName,
+        whereClause,
+        groupBy: groupByExpressions,
+        expressions: [{ alias, soql, valueType: normalizedMetric.valueType }],
+      });
+
+      const conditional = {
+        metric: normalizedMetric,
+        alias,
+        aggregateQuery,
+        valueType: normalizedMetric.valueType,
+        whereClause,
+        soql,
+      } satisfies ConditionalMetricPlan;
+      conditionalCache.set(key, conditional);
+      conditionalMetrics.push(conditional);
+      return conditional;
+    };
+
+    const addOperand = (operand: ResolvedOperandMetric): string =>
+      operand.kind === 'countIf' || operand.kind === 'sumIf'
+        ? addConditional(operand).alias
+        : addDirectMetric(operand, addExpression, addFieldAggregate, addStatistic);
+
     for (const metric of metrics) {
       if (metric.kind === 'ratio') {
-        const numeratorAlias = addExpression(
-          buildAggregateKey(metric.numerator),
-          buildAggregateExpression(metric.numerator),
-          sanitizeAlias(`${metric.numerator.fn}__${metric.numerator.field.toLowerCase()}`),
-          metric.numerator.valueType
-        );
-        const denominatorAlias = addExpression(
-          buildAggregateKey(metric.denominator),
-          buildAggregateExpression(metric.denominator),
-          sanitizeAlias(`${metric.denominator.fn}__${metric.denominator.field.toLowerCase()}`),
-          metric.denominator.valueType
-        );
+        const numeratorAlias = addFieldAggregate(metric.numerator);
+        const denominatorAlias = addFieldAggregate(metric.denominator);
 
         sampleFieldSet.add(metric.numerator.field);
         sampleFieldSet.add(metric.denominator.field);
@@ -216,42 +271,47 @@ export class AggregateQueryBuilder {
       }
 
       if (metric.kind === 'countIf' || metric.kind === 'sumIf') {
-        const normalizedCondition = normalizeCondition(metric.condition);
-        const normalizedMetric = { ...metric, condition: normalizedCondition } as Extract<
-          ResolvedMetric,
-          { kind: 'countIf' | 'sumIf' }
-        >;
-
-        const baseAlias =
-          normalizedMetric.kind === 'countIf'
-            ? sanitizeAlias(`countIf__${hashCondition(normalizedCondition)}`)
-            : sanitizeAlias(`sumIf__${normalizedMetric.field.toLowerCase()}_${hashCondition(normalizedCondition)}`);
-        const alias = uniqueAlias(baseAlias, aliasSet);
-        const aggregateQuery = buildConditionalAggregateQuery({
-          objectName,
-          metric: normalizedMetric,
-          alias,
-          baseWhereClause,
-          condition: normalizedCondition,
-        });
+        const conditional = addConditional(metric);
+        if (conditional.metric.kind === 'sumIf') {
+          sampleFieldSet.add(conditional.metric.field);
+        }
 
-        conditionalMetrics.push({
-          metric: normalizedMetric,
-          alias,
-          aggregateQuery,
-          valueType: normalizedMetric.valueType,
+        metricAliasSet.add(conditional.alias);
+        // Keep this metric's own display label even when an earlier metric created the shared query.
+        metricDefinitions.push({
+          kind: 'direct',
+          metric: { ...metric, condition: conditional.metric.condition },
+          alias: conditional.alias,
+        } satisfies MetricDefinition);
+        continue;
+      }
+
+      if (metric.kind === 'expression') {
+        // Operands share the aggregate expressions and conditional queries of top-level metrics.
+        const expression = mapExpression(metric.expression, (operand) => {
+          if ('field' in operand) {
+            sampleFieldSet.add(operand.field);
+          }
+          return addOperand(operand);
         });
+        const alias = uniqueAlias(
+          sanitizeAlias(`expr__${Array.from(new Set(collectExpressionMetrics(expression))).join('_')}`).slice(0, 60),
+          metricAliasSet
+        );
 
-        if (normalizedMetric.kind === 'sumIf') {
-          sampleFieldSet.add(normalizedMetric.field);
-        }
+        metricDefinitions.push({ kind: 'expression', metric, expression, alias } satisfies MetricDefinition);
+        continue;
+      }
 
+      if (metric.kind === 'histogram' || metric.kind === 'frequency') {
+        const alias = uniqueAlias(sanitizeAlias(`${metric.kind}__${metric.field.toLowerCase()}`), aliasSet);
+        distributions.push({ alias, kind: metric.kind, field: metric.field });
         metricAliasSet.add(alias);
-        metricDefinitions.push({ kind: 'direct', metric: normalizedMetric, alias } satisfies MetricDefinition);
+        metricDefinitions.push({ kind: 'distribution', metric, alias } satisfies MetricDefinition);
         continue;
       }
 
-      const alias = addDirectMetric(metric, addExpression);
+      const alias = addDirectMetric(metric, addExpression, addFieldAggregate, addStatistic);
       if ('field' in metric) {
         sampleFieldSet.add(metric.field);
       }
@@ -260,40 +320,43 @@ export class AggregateQueryBuilder {
       metricDefinitions.push({ kind: 'direct', metric, alias } satisfies MetricDefinition);
     }
 
-    const selectClause = expressions.map((expr) => `${expr.soql} ${expr.alias}`).join(', ');
     const aggregateQuery =
-      selectClause.length > 0
-        ? `SELECT ${selectClause} FROM ${objectName}${baseWhereClause ? ` WHERE ${baseWhereClause}` : ''}`
+      expressions.length > 0
+        ? buildAggregateQuery({ objectName, whereClause: baseWhereClause, groupBy: groupByExpressions, expressions })
         : undefined;
 
     return {
       objectName,
       whereClause: baseWhereClause,
+      groupBy: groupByExpressions.length > 0 ? groupByExpressions : undefined,
+      bucketing,
       aggregateQuery,
       expressions,
       metrics: metricDefinitions,
       conditionalMetrics,
+      statistics,
+      distributions,
       sampleFields: Array.from(sampleFieldSet),
     } satisfies AggregatePlan;
   }
 }
 
 const addDirectMetric = (
-  metric: Exclude<ResolvedMetric, { kind: 'ratio' | 'countIf' | 'sumIf' }>,
-  addExpression: (key: string, soql: string, baseAlias: string, valueType: MetricValueType) => string
+  metric: Exclude<ResolvedMetric, { kind: 'ratio' | 'countIf' | 'sumIf' | 'expression' | 'histogram' | 'frequency' }>,
+  addExpression: (key: string, soql: string, baseAlias: string, valueType: MetricValueType) => string,
+  addFieldAggregate: (metric: ResolvedFieldAggregateMetric) => string,
+  addStatistic: (statistic: Omit<ClientStatisticPlan, 'alias'>, baseAlias: string) => string
 ): string => {
   switch (metric.kind) {
     case 'count':
       return addExpression('COUNT()', 'COUNT(Id)', 'count__all', metric.valueType);
-    case 'fieldAggregate': {
-      const soql = `${metric.fn.toUpperCase()}(${metric.field})`;
-      return addExpression(
-        buildAggregateKey(metric),
-        soql,
-        sanitizeAlias(`${metric.fn}__${metric.field.toLowerCase()}`),
-        metric.valueType
+    case 'fieldAggregate':
+      return addFieldAggregate(metric);
+    case 'percentile':
+      return addStatistic(
+        { fn: 'percentile', field: metric.field, percentile: metric.percentile, valueType: metric.valueType },
+        sanitizeAlias(`p${metric.percentile.toString()}__${metric.field.toLowerCase()}`)
       );
-    }
     case 'countDistinct': {
       const soql = `COUNT_DISTINCT(${metric.field})`;
       return addExpression(
@@ -323,26 +386,45 @@ const buildAggregateExpression = (metric: ResolvedFieldAggregateMetric): string
 
 const hashCondition = (condition: string): string => sanitizeAlias(condition.toLowerCase()).slice(0, 40) || 'expr';
 
-const buildConditionalAggregateQuery = ({
-  objectName,
-  metric,
-  alias,
-  baseWhereClause,
-  condition,
-}: {
-  objectName: string;
-  metric: Extract<ResolvedMetric, { kind: 'countIf' | 'sumIf' }>;
-  alias: string;
-  baseWhereClause?: string;
-  condition: string;
-}): string => {
-  const whereClause = combineWhereClauses(baseWhereClause, condition);
-  const aggregateExpression = metric.kind === 'countIf' ? 'COUNT(Id)' : `SUM(${metric.field})`;
-  const whereSegment = whereClause.length > 0 ? ` WHERE ${whereClause}` : '';
-  return `SELECT ${aggregateExpression} ${alias} FROM ${objectName}${whereSegment}`;
+export const buildAggregateQuery = ({ objectName, whereClause, groupBy, expressions }: AggregateQuerySpec): string => {
+  const selectClause = [
+    ...groupBy.map((group) => `${group.soql} ${group.alias}`),
+    ...expressions.map((expr) => `${expr.soql} ${expr.alias}`),
+  ].join(', ');
+  const whereSegment = whereClause && whereClause.length > 0 ? ` WHERE ${whereClause}` : '';
+  return `SELECT ${selectClause} FROM ${objectName}${whereSegment}${buildGroupBySegment(groupBy)}`;
+};
+
+const buildGroupByExpressions = (groupBy: string[] | undefined, aliasSet: Set<string>): GroupByExpression[] => {
+  const fields = Array.from(new Set((groupBy ?? []).map((field) => field.trim()).filter((field) => field.length > 0)));
+
+  return fields.map((field) => ({
+    field,
+    soql: field,
+    alias: uniqueAlias(sanitizeAlias(`group__${field.toLowerCase()}`), aliasSet),
+  }));
 };
 
-const combineWhereClauses = (baseClause: string | undefined, condition: string): string => {
+const buildPeriodExpressions = (
+  bucketing: ResolvedTimeBucketing | undefined,
+  aliasSet: Set<string>
+): GroupByExpression[] =>
+  bucketing
+    ? buildPeriodFunctions(bucketing).map((soql) => ({
+        field: bucketing.field,
+        soql,
+        alias: uniqueAlias(
+          sanitizeAlias(`period__${soql === bucketing.field ? 'day' : soql.slice(0, soql.indexOf('(')).toLowerCase()}`),
+          aliasSet
+        ),
+        period: true,
+      }))
+    : [];
+
+const buildGroupBySegment = (groupBy: GroupByExpression[]): string =>
+  groupBy.length > 0 ? ` GROUP BY ${groupBy.map((group) => group.soql).join(', ')}` : '';
+
+export const combineWhereClauses = (baseClause: string | undefined, condition: string): string => {
   const trimmedCondition = condition.trim();
   if (trimmedCondition.length === 0) {
     return baseClause ?? '';
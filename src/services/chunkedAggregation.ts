@@ -0,0 +1,316 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Connection } from '@salesforce/core';
+import { SfError } from '@salesforce/core';
+
+import {
+  buildAggregateQuery,
+  combineWhereClauses,
+  type AggregateExpression,
+  type AggregatePlan,
+  type AggregateQuerySpec,
+} from './aggregateQueryBuilder.js';
+import { executeQuery, type QueryExecution } from './queryExecutor.js';
+
+export type ChunkField = 'CreatedDate' | 'Id';
+
+export const CHUNK_FIELDS: ChunkField[] = ['CreatedDate', 'Id'];
+
+export type ChunkingOptions = {
+  field: ChunkField;
+  chunks: number;
+  concurrency: number;
+};
+
+type AggregateRecord = Record<string, unknown>;
+
+type MergeStrategy =
+  | { kind: 'sum' | 'min' | 'max'; alias: string }
+  | { kind: 'avg'; alias: string; sumAlias: string; countAlias: string };
+
+const BASE62_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const ID_LENGTH = 15;
+
+/**
+ * Rejects plans whose aggregates cannot be rebuilt from per-chunk results. COUNT_DISTINCT is the only one:
+ * the same value can appear in several chunks.
+ */
+export const assertChunkable = (plan: AggregatePlan): void => {
+  const distinct = plan.expressions.find((expression) => readFunction(expression) === 'COUNT_DISTINCT');
+  if (distinct) {
+    throw new SfError(
+      `${distinct.soql} cannot be computed in chunks because values may repeat across chunks.`,
+      'UnsupportedChunkedMetric',
+      ['Remove the count-distinct metric or run the comparison without --chunk-by.']
+    );
+  }
+};
+
+/**
+ * Splits the range of the chunk field into SOQL conditions. The first and last chunks are open-ended so that
+ * records outside the sampled range (for example records created after it was read) are still counted once.
+ * Returns an empty list when the data does not need splitting.
+ */
+export const resolveChunkConditions = async (
+  connection: Pick<Connection, 'query'>,
+  plan: AggregatePlan,
+  options: ChunkingOptions,
+  execution: QueryExecution
+): Promise<string[]> => {
+  const [first, last] = await Promise.all(
+    (['ASC', 'DESC'] as const).map(async (direction) => {
+      const query = buildBoundaryQuery(plan, options.field, direction);
+      const response = await executeQuery(connection, query, execution);
+      const value = response.records[0]?.[options.field];
+      return typeof value === 'string' ? value : undefined;
+    })
+  );
+
+  if (!first || !last) {
+    return [];
+  }
+
+  const boundaries =
+    options.field === 'Id'
+      ? buildIdBoundaries(first, last, options.chunks)
+      : buildDateTimeBoundaries(first, last, options.chunks);
+
+  return buildRangeConditions(options.field, boundaries);
+};
+
+export const buildDateTimeBoundaries = (min: string, max: string, chunks: number): string[] => {
+  const start = parseDateTime(min);
+  const end = parseDateTime(max);
+  const boundaries = new Set<string>();
+  for (let index = 1; index < chunks; index++) {
+    const boundary = Math.floor((start + ((end - start) * index) / chunks) / 1000) * 1000;
+    if (boundary > start && boundary <= end) {
+      boundaries.add(new Date(boundary).toISOString().replace(/\.\d{3}Z$/, 'Z'));
+    }
+  }
+  return Array.from(boundaries);
+};
+
+export const buildIdBoundaries = (min: string, max: string, chunks: number): string[] => {
+  const start = decodeId(min);
+  const end = decodeId(max);
+  const boundaries = new Set<string>();
+  for (let index = 1; index < chunks; index++) {
+    const boundary = start + ((end - start) * BigInt(index)) / BigInt(chunks);
+    if (boundary > start && boundary <= end) {
+      boundaries.add(`'${encodeId(boundary)}'`);
+    }
+  }
+  return Array.from(boundaries);
+};
+
+/**
+ * Runs an aggregate query once per chunk condition with bounded concurrency and merges the partial results
+ * into the records a single unchunked query would have returned.
+ */
+export const executeChunkedAggregate = async (
+  connection: Pick<Connection, 'query'>,
+  spec: AggregateQuerySpec,
+  conditions: string[],
+  concurrency: number,
+  execution: QueryExecution
+): Promise<AggregateRecord[]> => {
+  const strategies = spec.expressions.map(buildMergeStrategy);
+  const chunkSpec: AggregateQuerySpec = {
+    ...spec,
+    expressions: spec.expressions.flatMap((expression, index) => toChunkExpressions(expression, strategies[index])),
+  };
+
+  const partials = await mapWithConcurrency(conditions, concurrency, async (condition) => {
+    const query = buildAggregateQuery({ ...chunkSpec, whereClause: combineWhereClauses(spec.whereClause, condition) });
+    const response = await executeQuery(connection, query, execution);
+    return response.records;
+  });
+
+  const merged = new Map<string, AggregateRecord>();
+  for (const records of partials) {
+    for (const record of records) {
+      const key = JSON.stringify(spec.groupBy.map((group) => record[group.alias] ?? null));
+      const existing = merged.get(key);
+      merged.set(key, existing ? mergeRecord(existing, record, strategies) : record);
+    }
+  }
+
+  return Array.from(merged.values()).map((record) => finalizeRecord(record, strategies));
+};
+
+const buildBoundaryQuery = (plan: AggregatePlan, field: ChunkField, direction: 'ASC' | 'DESC'): string =>
+  `SELECT ${field} FROM ${plan.objectName}${
+    plan.whereClause ? ` WHERE ${plan.whereClause}` : ''
+  } ORDER BY ${field} ${direction} LIMIT 1`;
+
+const buildRangeConditions = (field: ChunkField, boundaries: string[]): string[] => {
+  if (boundaries.length === 0) {
+    return [];
+  }
+
+  return [...boundaries, undefined].map((upper, index) => {
+    const lower = index > 0 ? boundaries[index - 1] : undefined;
+    return [lower ? `${field} >= ${lower}` : undefined, upper ? `${field} < ${upper}` : undefined]
+      .filter((part): part is string => part !== undefined)
+      .join(' AND ');
+  });
+};
+
+const parseDateTime = (value: string): number => {
+  // Salesforce returns offsets without a colon (+0000), which Date.parse does not accept everywhere.
+  const timestamp = Date.parse(value.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+  if (Number.isNaN(timestamp)) {
+    throw new SfError(`Unable to read chunk boundary ${value}.`, 'InvalidChunkBoundary');
+  }
+  return timestamp;
+};
+
+const decodeId = (id: string): bigint => {
+  let value = BigInt(0);
+  for (const character of id.slice(0, ID_LENGTH)) {
+    const digit = BASE62_DIGITS.indexOf(character);
+    if (digit < 0) {
+      throw new SfError(`Unable to read chunk boundary ${id}.`, 'InvalidChunkBoundary');
+    }
+    value = value * BigInt(62) + BigInt(digit);
+  }
+  return value;
+};
+
+const encodeId = (value: bigint): string => {
+  let remaining = value;
+  let id = '';
+  while (remaining > BigInt(0)) {
+    id = BASE62_DIGITS[Number(remaining % BigInt(62))] + id;
+    remaining /= BigInt(62);
+  }
+  return id.padStart(ID_LENGTH, '0');
+};
+
+const readFunction = (expression: AggregateExpression): string =>
+  expression.soql.slice(0, expression.soql.indexOf('(')).toUpperCase();
+
+const buildMergeStrategy = (expression: AggregateExpression): MergeStrategy => {
+  switch (readFunction(expression)) {
+    case 'COUNT':
+    case 'SUM':
+      return { kind: 'sum', alias: expression.alias };
+    case 'MIN':
+      return { kind: 'min', alias: expression.alias };
+    case 'MAX':
+      return { kind: 'max', alias: expression.alias };
+    case 'AVG':
+      return {
+        kind: 'avg',
+        alias: expression.alias,
+        sumAlias: `${expression.alias}__chunksum`,
+        countAlias: `${expression.alias}__chunkcount`,
+      };
+    default:
+      throw new SfError(`${expression.soql} cannot be computed in chunks.`, 'UnsupportedChunkedMetric');
+  }
+};
+
+// AVG is not additive, so each chunk returns SUM and COUNT of the field and the average is rebuilt after merging.
+const toChunkExpressions = (expression: AggregateExpression, strategy: MergeStrategy): AggregateExpression[] => {
+  if (strategy.kind !== 'avg') {
+    return [expression];
+  }
+
+  const field = expression.soql.slice(expression.soql.indexOf('(') + 1, -1);
+  return [
+    { alias: strategy.sumAlias, soql: `SUM(${field})`, valueType: expression.valueType },
+    { alias: strategy.countAlias, soql: `COUNT(${field})`, valueType: 'number' },
+  ];
+};
+
+const mergeRecord = (
+  current: AggregateRecord,
+  partial: AggregateRecord,
+  strategies: MergeStrategy[]
+): AggregateRecord => {
+  const merged = { ...current };
+  for (const strategy of strategies) {
+    if (strategy.kind === 'avg') {
+      merged[strategy.sumAlias] = mergeValues('sum', current[strategy.sumAlias], partial[strategy.sumAlias]);
+      merged[strategy.countAlias] = mergeValues('sum', current[strategy.countAlias], partial[strategy.countAlias]);
+    } else {
+      merged[strategy.alias] = mergeValues(strategy.kind, current[strategy.alias], partial[strategy.alias]);
+    }
+  }
+  return merged;
+};
+
+const mergeValues = (kind: 'sum' | 'min' | 'max', current: unknown, next: unknown): unknown => {
+  if (current === null || current === undefined) {
+    return next;
+  }
+  if (next === null || next === undefined) {
+    return current;
+  }
+
+  if (kind === 'sum') {
+    return Number(current) + Number(next);
+  }
+
+  const nextIsSmaller =
+    typeof current === 'number' && typeof next === 'number' ? next < current : String(next) < String(current);
+  if (kind === 'min') {
+    return nextIsSmaller ? next : current;
+  }
+  return nextIsSmaller || next === current ? current : next;
+};
+
+const finalizeRecord = (record: AggregateRecord, strategies: MergeStrategy[]): AggregateRecord => {
+  const result = { ...record };
+  for (const strategy of strategies) {
+    if (strategy.kind !== 'avg') {
+      continue;
+    }
+
+    const sum = result[strategy.sumAlias];
+    const count = Number(result[strategy.countAlias] ?? 0);
+    result[strategy.alias] = sum === null || sum === undefined || count === 0 ? null : Number(sum) / count;
+    delete result[strategy.sumAlias];
+    delete result[strategy.countAlias];
+  }
+  return result;
+};
+
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array<R>(items.length);
+  let nextIndex = 0;
+  const run = async (): Promise<void> => {
+    if (nextIndex >= items.length) {
+      return;
+    }
+    const index = nextIndex++;
+    results[index] = await worker(items[index]);
+    return run();
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, run));
+  return results;
+};
+
+/** Runs the worker over the items one at a time, in order. */
+export const mapSequentially = <T, R>(items: T[], worker: (item: T) => Promise<R>): Promise<R[]> =>
+  mapWithConcurrency(items, 1, worker);
@@ -0,0 +1,276 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Connection } from '@salesforce/core';
+import { SfError } from '@salesforce/core';
+
+import { combineWhereClauses, type AggregatePlan, type ClientStatisticPlan } from './aggregateQueryBuilder.js';
+import { mapWithConcurrency } from './chunkedAggregation.js';
+import { executeQuery, executeQueryMore, type QueryExecution, type QueryResponse } from './queryExecutor.js';
+import { NULL_VALUE_LABEL, percentile, type DistributionSample } from './distributionComparison.js';
+
+export type StatisticsProgress = {
+  org: string;
+  processed: number;
+  total: number;
+};
+
+export type StatisticsOptions = {
+  execution: QueryExecution;
+  concurrency: number;
+  onProgress?: (progress: StatisticsProgress) => void;
+};
+
+export type StatisticsResult = {
+  /** One record per group, shaped like an aggregate query result. */
+  records: Array<Record<string, unknown>>;
+  /** Histogram and frequency samples by metric alias; only produced without group-by. */
+  distributions: Record<string, DistributionSample>;
+};
+
+const INITIAL_VALUE_CAPACITY = 1024;
+/** The most values one org may keep for medians, percentiles and histograms: about 80 MB of 8-byte numbers. */
+export const MAX_KEPT_VALUES = 10_000_000;
+
+/** Running mean and sum of squared deviations (Welford), plus the raw values when a median, percentile or histogram needs them. */
+class FieldAccumulator {
+  private count = 0;
+  private mean = 0;
+  private m2 = 0;
+  private values?: Float64Array;
+
+  public constructor(keepValues: boolean) {
+    this.values = keepValues ? new Float64Array(INITIAL_VALUE_CAPACITY) : undefined;
+  }
+
+  public add(value: number): void {
+    if (this.values) {
+      if (this.count === this.values.length) {
+        const grown = new Float64Array(this.values.length * 2);
+        grown.set(this.values);
+        this.values = grown;
+      }
+      this.values[this.count] = value;
+    }
+
+    this.count += 1;
+    const delta = value - this.mean;
+    this.mean += delta / this.count;
+    this.m2 += delta * (value - this.mean);
+  }
+
+  /** Sample variance (n - 1), matching most SQL engines; null below two values. */
+  public variance(): number | null {
+    return this.count > 1 ? this.m2 / (this.count - 1) : null;
+  }
+
+  /** The kept values in ascending order. Sorting happens in place, after the last value was added. */
+  public sorted(): Float64Array {
+    return (this.values ?? new Float64Array(0)).subarray(0, this.count).sort();
+  }
+}
+
+type GroupAccumulator = {
+  record: Record<string, unknown>;
+  fields: Map<string, FieldAccumulator>;
+  frequencies: Map<string, Map<string, number>>;
+};
+
+/**
+ * Reads a field from a streamed record. Fields reached through a relationship, such as `Owner.Name`, arrive nested
+ * as `{ Owner: { Name } }`; a missing relationship reads as null.
+ */
+const readRecordField = (record: Record<string, unknown>, path: string): unknown =>
+  path
+    .split('.')
+    .reduce<unknown>(
+      (value, segment) =>
+        value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined,
+      record
+    );
+
+/** Selects the group-by fields and every field a client-side statistic needs, optionally limited to one chunk. */
+export const buildStatisticsQuery = (plan: AggregatePlan, chunkCondition?: string): string => {
+  const fields = Array.from(
+    new Set([
+      ...(plan.groupBy ?? []).map((expression) => expression.field),
+      ...plan.statistics.map((statistic) => statistic.field),
+      ...plan.distributions.map((distribution) => distribution.field),
+    ])
+  );
+  const whereClause = chunkCondition ? combineWhereClauses(plan.whereClause, chunkCondition) : plan.whereClause;
+  const whereSegment = whereClause ? ` WHERE ${whereClause}` : '';
+  return `SELECT ${fields.join(', ')} FROM ${plan.objectName}${whereSegment}`;
+};
+
+/** True when the plan has metrics that SOQL cannot aggregate and that need the field values streamed. */
+export const requiresStreaming = (plan: AggregatePlan): boolean =>
+  plan.statistics.length > 0 || plan.distributions.length > 0;
+
+/**
+ * Streams the statistic fields page by page and computes MEDIAN, STDDEV, VARIANCE and percentiles per group.
+ * Pages are released as soon as they are read. Fields with a median, percentile or histogram keep every value as
+ * an 8-byte number, across all chunks, so memory grows with the record count: when the first pages report more
+ * than `MAX_KEPT_VALUES` values to keep, the run stops with `TooManyRecords` before reading further pages.
+ * Frequency metrics keep one counter per distinct value and the other statistics only running totals. Statistic
+ * records are shaped like aggregate query results (group aliases and statistic aliases) so they merge the same way.
+ */
+export const computeClientStatistics = async (
+  connection: Pick<Connection, 'query' | 'queryMore'>,
+  plan: AggregatePlan,
+  chunkConditions: string[],
+  { execution, concurrency, onProgress }: StatisticsOptions
+): Promise<StatisticsResult> => {
+  const groupBy = plan.groupBy ?? [];
+  const valueFields = new Set([
+    ...plan.statistics
+      .filter((statistic) => statistic.fn === 'median' || statistic.fn === 'percentile')
+      .map((statistic) => statistic.field),
+    ...plan.distributions
+      .filter((distribution) => distribution.kind === 'histogram')
+      .map((distribution) => distribution.field),
+  ]);
+  const fields = Array.from(
+    new Set([
+      ...plan.statistics.map((statistic) => statistic.field),
+      ...plan.distributions
+        .filter((distribution) => distribution.kind === 'histogram')
+        .map((distribution) => distribution.field),
+    ])
+  );
+  const frequencyFields = Array.from(
+    new Set(
+      plan.distributions
+        .filter((distribution) => distribution.kind === 'frequency')
+        .map((distribution) => distribution.field)
+    )
+  );
+  const groups = new Map<string, GroupAccumulator>();
+  if (groupBy.length === 0) {
+    groups.set('[]', { record: {}, fields: new Map(), frequencies: new Map() });
+  }
+
+  const progress: StatisticsProgress = { org: execution.orgLabel, processed: 0, total: 0 };
+
+  const accumulate = (record: Record<string, unknown>): void => {
+    const groupValues = groupBy.map((expression) => readRecordField(record, expression.field) ?? null);
+    const key = JSON.stringify(groupValues);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        record: Object.fromEntries(groupBy.map((expression, index) => [expression.alias, groupValues[index]])),
+        fields: new Map(),
+        frequencies: new Map(),
+      };
+      groups.set(key, group);
+    }
+
+    for (const field of fields) {
+      const raw = readRecordField(record, field);
+      const value = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() ? Number(raw) : NaN;
+      if (!Number.isNaN(value)) {
+        const accumulator = group.fields.get(field) ?? new FieldAccumulator(valueFields.has(field));
+        group.fields.set(field, accumulator);
+        accumulator.add(value);
+      }
+    }
+
+    for (const field of frequencyFields) {
+      const raw = readRecordField(record, field);
+      const label = raw === null || raw === undefined ? NULL_VALUE_LABEL : String(raw);
+      const counts = group.frequencies.get(field) ?? new Map<string, number>();
+      group.frequencies.set(field, counts);
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+    }
+  };
+
+  const consume = async (query: string, response: QueryResponse<Record<string, unknown>>): Promise<void> => {
+    response.records.forEach(accumulate);
+    progress.processed += response.records.length;
+    onProgress?.({ ...progress });
+    if (response.done || !response.nextRecordsUrl) {
+      return;
+    }
+    return consume(query, await executeQueryMore(connection, query, response.nextRecordsUrl, execution));
+  };
+
+  const stream = async (query: string): Promise<void> => {
+    const response = await executeQuery(connection, query, execution);
+    progress.total += response.totalSize;
+    if (progress.total * valueFields.size > MAX_KEPT_VALUES) {
+      throw new SfError(
+        `The ${
+          execution.orgLabel
+        } has ${progress.total.toString()} records to stream for median, percentile and histogram metrics, which would keep more than ${MAX_KEPT_VALUES.toString()} values in memory.`,
+        'TooManyRecords',
+        ['Narrow the --where filter, or compare these metrics in separate runs over smaller ranges.']
+      );
+    }
+    return consume(query, response);
+  };
+
+  const queries =
+    chunkConditions.length > 1
+      ? chunkConditions.map((condition) => buildStatisticsQuery(plan, condition))
+      : [buildStatisticsQuery(plan)];
+  await mapWithConcurrency(queries, concurrency, stream);
+
+  const records = Array.from(groups.values()).map((group) => ({
+    ...group.record,
+    ...Object.fromEntries(
+      plan.statistics.map((statistic) => [
+        statistic.alias,
+        finalizeStatistic(statistic, group.fields.get(statistic.field)),
+      ])
+    ),
+  }));
+
+  const ungrouped = groupBy.length === 0 ? groups.get('[]') : undefined;
+  const distributions: Record<string, DistributionSample> = {};
+  for (const distribution of ungrouped ? plan.distributions : []) {
+    distributions[distribution.alias] =
+      distribution.kind === 'histogram'
+        ? {
+            kind: 'histogram',
+            values: ungrouped?.fields.get(distribution.field)?.sorted() ?? new Float64Array(0),
+          }
+        : { kind: 'frequency', counts: ungrouped?.frequencies.get(distribution.field) ?? new Map<string, number>() };
+  }
+
+  return { records, distributions };
+};
+
+const finalizeStatistic = (
+  statistic: ClientStatisticPlan,
+  accumulator: FieldAccumulator | undefined
+): number | null => {
+  if (!accumulator) {
+    return null;
+  }
+
+  switch (statistic.fn) {
+    case 'median':
+      return percentile(accumulator.sorted(), 50);
+    case 'percentile':
+      return percentile(accumulator.sorted(), statistic.percentile ?? 50);
+    case 'variance':
+      return accumulator.variance();
+    default: {
+      const variance = accumulator.variance();
+      return variance === null ? null : Math.sqrt(variance);
+    }
+  }
+};
@@ -0,0 +1,434 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Org } from '@salesforce/core';
+import { SfError } from '@salesforce/core';
+import type { SfCommand } from '@salesforce/sf-plugins-core';
+
+import type { GroupValue, MetricComparisonRow } from './dataComparisonService.js';
+import { formatMetricLabel, type ResolvedMetric } from './metricParser.js';
+import type { QueryRetry } from './queryExecutor.js';
+import type { QueryExplanation } from './queryExplainer.js';
+import type { StatisticsProgress } from './clientStatistics.js';
+import { parseIdKeys } from './idTranslation.js';
+import { listPlannedQueries, type ComparisonSection } from './objectComparison.js';
+import type { MetricDrilldown } from './drilldown.js';
+import type { NamespaceResolution } from './namespaceResolution.js';
+import type { OrgMatrix } from './orgMatrix.js';
+import type { ObjectCountRow } from './recordCounts.js';
+import type { MetadataComponentDifference } from './metadataInventory.js';
+import type { MetadataCacheEntry } from './metadataDiscoveryService.js';
+import { formatSchemaChanges, type ObjectSchemaComparison } from './schemaComparison.js';
+
+export type FormatOption = 'table' | 'json' | 'csv' | 'pdf';
+
+export const FORMAT_OPTIONS: FormatOption[] = ['table', 'json', 'csv', 'pdf'];
+
+export type OrgMetadata = {
+  aliasOrUsername: string;
+  orgId: string;
+  apiVersion: string;
+};
+
+export const validateOutputConfiguration = (format: FormatOption, outputFile?: string): void => {
+  if ((format === 'csv' || format === 'pdf') && !outputFile) {
+    throw new SfError('The --output-file flag is required when format is csv or pdf.', 'OutputFileRequired');
+  }
+};
+
+export const resolveApiVersion = async (org: Org, override?: string): Promise<string> => {
+  if (override) {
+    return override;
+  }
+
+  const connection = await Promise.resolve(org.getConnection(override));
+  return connection.getApiVersion();
+};
+
+export const resolveOrgMetadata = async (
+  org: Org,
+  aliasOrUsername: string,
+  apiVersionOverride?: string
+): Promise<OrgMetadata> => {
+  const [orgId, apiVersion] = await Promise.all([
+    Promise.resolve(org.getOrgId()),
+    resolveApiVersion(org, apiVersionOverride),
+  ]);
+
+  return { aliasOrUsername, orgId, apiVersion } satisfies OrgMetadata;
+};
+
+const formatMetricValue = (
+  metric: ResolvedMetric,
+  value: number | string | null,
+  formatter: Intl.NumberFormat
+): string => {
+  if (value === null) {
+    return '—';
+  }
+
+  if (metric.valueType === 'number' && typeof value === 'number') {
+    return formatter.format(value);
+  }
+
+  return String(value);
+};
+
+const formatGroupValue = (value: GroupValue | undefined): string =>
+  value === null || value === undefined ? '—' : String(value);
+
+export const formatRetrySummary = (retries: QueryRetry[]): string =>
+  `Retried ${retries.length.toString()} query attempt(s): ${retries
+    .map(
+      (retry) =>
+        `${retry.org} ${retry.reason} (attempt ${retry.attempt.toString()}, waited ${retry.delayMs.toString()} ms)`
+    )
+    .join('; ')}`;
+
+export const formatNamespaceResolutions = (resolutions: NamespaceResolution[]): string =>
+  `Resolved ${resolutions
+    .map((resolution) => `${resolution.name} to ${resolution.resolvedName} in the ${resolution.org}`)
+    .join('; ')}.`;
+
+export const buildExplainTable = (
+  explanations: QueryExplanation[]
+): { data: Array<Record<string, string>>; columns: Array<{ key: string; name: string }> } => ({
+  data: explanations.map((explanation) => ({
+    org: explanation.org,
+    query: explanation.label,
+    operation: explanation.plan?.leadingOperation ?? '—',
+    cost: explanation.plan ? explanation.plan.relativeCost.toString() : '—',
+    cardinality: explanation.plan ? explanation.plan.cardinality.toString() : '—',
+    selective: explanation.plan ? (explanation.plan.selective ? 'Yes' : 'No') : '—',
+  })),
+  columns: [
+    { key: 'org', name: 'Org' },
+    { key: 'query', name: 'Query' },
+    { key: 'operation', name: 'Leading Operation' },
+    { key: 'cost', name: 'Relative Cost' },
+    { key: 'cardinality', name: 'Cardinality' },
+    { key: 'selective', name: 'Selective' },
+  ],
+});
+
+export const resolveIdKeys = (
+  translateIds: boolean,
+  idKeys: string[] | undefined
+): Record<string, string> | undefined => (translateIds ? parseIdKeys(idKeys) : undefined);
+
+export type StatisticsProgressReporter = {
+  report: (progress: StatisticsProgress) => void;
+  stop: () => void;
+};
+
+/**
+ * Shows one spinner for every org streaming client-side statistics; the spinner is only started once progress arrives.
+ */
+export const createStatisticsProgressReporter = (
+  command: Pick<SfCommand<unknown>, 'spinner'>
+): StatisticsProgressReporter => {
+  const progressByOrg = new Map<string, StatisticsProgress>();
+  return {
+    report: (progress): void => {
+      const started = progressByOrg.size > 0;
+      progressByOrg.set(progress.org, progress);
+      const status = Array.from(progressByOrg.values())
+        .map((entry) => `${entry.org} ${entry.processed.toString()}/${entry.total.toString()}`)
+        .join(', ');
+      const { spinner } = command;
+      if (started) {
+        spinner.status = status;
+      } else {
+        spinner.start('Streaming field values for client-side statistics', status);
+      }
+    },
+    stop: (): void => {
+      if (progressByOrg.size > 0) {
+        command.spinner.stop();
+        progressByOrg.clear();
+      }
+    },
+  };
+};
+
+type QueryPlanOutput = Pick<SfCommand<unknown>, 'log' | 'warn' | 'table'>;
+
+const logPlannedQueries = (command: QueryPlanOutput, section: ComparisonSection): void => {
+  if (!section.targetQueries) {
+    for (const planned of listPlannedQueries(section.queries)) {
+      command.log(`${planned.label}: ${planned.query}`);
+    }
+    return;
+  }
+  for (const planned of listPlannedQueries(section.queries)) {
+    command.log(`${planned.label} (source org): ${planned.query}`);
+  }
+  for (const planned of listPlannedQueries(section.targetQueries)) {
+    command.log(`${planned.label} (target org): ${planned.query}`);
+  }
+};
+
+export const renderQueryPlan = (command: QueryPlanOutput, section: ComparisonSection): void => {
+  if (section.dryRun) {
+    logPlannedQueries(command, section);
+    if (section.chunking) {
+      command.log(`Chunk ranges on ${section.chunking.field} are resolved from each org when the comparison runs.`);
+    }
+  }
+
+  if (section.namespaces) {
+    command.log(formatNamespaceResolutions(section.namespaces));
+  }
+
+  if (section.explain) {
+    command.table(buildExplainTable(section.explain));
+    for (const explanation of section.explain) {
+      for (const warning of explanation.warnings) {
+        command.warn(`${explanation.org} ${explanation.label}: ${warning}`);
+      }
+    }
+  }
+};
+
+const formatDrift = (row: MetricComparisonRow): string => {
+  if (!row.distribution) {
+    return '';
+  }
+  const { psi, ks } = row.distribution;
+  const parts = [`PSI ${psi === null ? '—' : psi.toFixed(4)}`];
+  if (ks !== undefined) {
+    parts.push(`KS ${ks === null ? '—' : ks.toFixed(4)}`);
+  }
+  return parts.join(', ');
+};
+
+export const buildSummaryTable = (
+  rows: MetricComparisonRow[],
+  groupBy: string[]
+): { data: Array<Record<string, string>>; columns: Array<{ key: string; name: string }> } => {
+  const formatter = new Intl.NumberFormat('en-US');
+  const groupColumns = groupBy.map((field, index) => ({ key: `group${index}`, field }));
+
+  const data = rows.map((row): Record<string, string> => {
+    const groupValues: Record<string, string> = {};
+    for (const column of groupColumns) {
+      groupValues[column.key] = formatGroupValue(row.group?.[column.field]);
+    }
+
+    return {
+      ...groupValues,
+      period: row.period ?? '',
+      metric: row.targetLabel ? `${formatMetricLabel(row.metric)} → ${row.targetLabel}` : formatMetricLabel(row.metric),
+      source: formatMetricValue(row.metric, row.sourceValue, formatter),
+      target: formatMetricValue(row.metric, row.targetValue, formatter),
+      difference: row.difference === null ? '—' : formatter.format(row.difference),
+      drift: formatDrift(row),
+      status: row.status === 'fail' ? 'FAIL' : 'PASS',
+    };
+  });
+
+  return {
+    data,
+    columns: [
+      ...groupColumns.map((column) => ({ key: column.key, name: column.field })),
+      ...(rows.some((row) => row.period !== undefined) ? [{ key: 'period', name: 'Period' }] : []),
+      { key: 'metric', name: 'Metric' },
+      { key: 'source', name: 'Source' },
+      { key: 'target', name: 'Target' },
+      { key: 'difference', name: 'Target - Source' },
+      ...(rows.some((row) => row.distribution) ? [{ key: 'drift', name: 'Drift' }] : []),
+      { key: 'status', name: 'Status' },
+    ],
+  };
+};
+
+export const buildMatrixTable = (
+  matrix: OrgMatrix
+): { data: Array<Record<string, string>>; columns: Array<{ key: string; name: string }> } => {
+  const formatter = new Intl.NumberFormat('en-US');
+  const groupColumns = (matrix.filters.groupBy ?? []).map((field, index) => ({ key: `group${index}`, field }));
+  const others = matrix.orgs.filter((org) => org !== matrix.baseline);
+
+  const data = matrix.rows.map((row): Record<string, string> => {
+    const values: Record<string, string> = {};
+    for (const column of groupColumns) {
+      values[column.key] = formatGroupValue(row.group?.[column.field]);
+    }
+    row.cells.forEach((cell, index) => {
+      values[`org${index}`] = formatMetricValue(row.metric, cell.value, formatter);
+      values[`difference${index}`] = cell.difference === null ? '—' : formatter.format(cell.difference);
+    });
+
+    return {
+      ...values,
+      period: row.period ?? '',
+      metric: formatMetricLabel(row.metric),
+      status: row.status === 'fail' ? 'FAIL' : 'PASS',
+    };
+  });
+
+  return {
+    data,
+    columns: [
+      ...groupColumns.map((column) => ({ key: column.key, name: column.field })),
+      ...(matrix.rows.some((row) => row.period !== undefined) ? [{ key: 'period', name: 'Period' }] : []),
+      { key: 'metric', name: 'Metric' },
+      ...matrix.orgs.map((org, index) => ({
+        key: `org${index}`,
+        name: org === matrix.baseline ? `${org} (baseline)` : org,
+      })),
+      ...others.map((org) => ({
+        key: `difference${matrix.orgs.indexOf(org)}`,
+        name: `${org} - ${matrix.baseline}`,
+      })),
+      { key: 'status', name: 'Status' },
+    ],
+  };
+};
+
+const SCHEMA_STATUS_LABELS = {
+  added: 'Added in target',
+  removed: 'Removed from target',
+  changed: 'Changed',
+} as const;
+
+export const buildSchemaTable = (
+  comparison: ObjectSchemaComparison
+): { data: Array<Record<string, string>>; columns: Array<{ key: string; name: string }> } => ({
+  data: comparison.differences.map((difference) => ({
+    field: difference.field,
+    type: difference.type ?? '',
+    status: SCHEMA_STATUS_LABELS[difference.status],
+    changes: formatSchemaChanges(difference),
+  })),
+  columns: [
+    { key: 'field', name: 'Field' },
+    { key: 'type', name: 'Type' },
+    { key: 'status', name: 'Status' },
+    { key: 'changes', name: 'Changes' },
+  ],
+});
+
+const COUNT_STATUS_LABELS = {
+  different: 'Different',
+  'missing-in-target': 'Missing in target',
+  'missing-in-source': 'Missing in source',
+} as const;
+
+export const buildCountsTable = (
+  rows: ObjectCountRow[]
+): { data: Array<Record<string, string>>; columns: Array<{ key: string; name: string }> } => {
+  const formatter = new Intl.NumberFormat('en-US');
+  const formatCount = (count: number | null): string => (count === null ? '—' : formatter.format(count));
+  return {
+    data: rows.map((row) => ({
+      object: row.object,
+      source: formatCount(row.sourceCount),
+      target: formatCount(row.targetCount),
+      difference: formatter.format(row.difference),
+      status: COUNT_STATUS_LABELS[row.status],
+      exact: row.exact ? 'Yes' : 'No',
+    })),
+    columns: [
+      { key: 'object', name: 'Object' },
+      { key: 'source', name: 'Source' },
+      { key: 'target', name: 'Target' },
+      { key: 'difference', name: 'Target - Source' },
+      { key: 'status', name: 'Status' },
+      { key: 'exact', name: 'Exact' },
+    ],
+  };
+};
+
+const METADATA_STATUS_LABELS = {
+  'missing-in-target': 'Missing in target',
+  'missing-in-source': 'Missing in source',
+  modified: 'Modified',
+} as const;
+
+export const buildMetadataTable = (
+  differences: MetadataComponentDifference[]
+): { data: Array<Record<string, string>>; columns: Array<{ key: string; name: string }> } => ({
+  data: differences.map((difference) => ({
+    type: difference.type,
+    component: difference.fullName,
+    status: METADATA_STATUS_LABELS[difference.status],
+    source: difference.sourceLastModified ?? '—',
+    target: difference.targetLastModified ?? '—',
+  })),
+  columns: [
+    { key: 'type', name: 'Type' },
+    { key: 'component', name: 'Component' },
+    { key: 'status', name: 'Status' },
+    { key: 'source', name: 'Source Last Modified' },
+    { key: 'target', name: 'Target Last Modified' },
+  ],
+});
+
+export const formatBytes = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatAge = (ms: number): string => {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 60) {
+    return `${minutes.toString()}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours.toString()}h` : `${Math.floor(hours / 24).toString()}d`;
+};
+
+export const buildCacheTable = (
+  entries: MetadataCacheEntry[],
+  now = Date.now()
+): { data: Array<Record<string, string>>; columns: Array<{ key: string; name: string }> } => ({
+  data: entries.map((entry) => ({
+    org: entry.orgId,
+    apiVersion: entry.apiVersion,
+    type: entry.type,
+    name: entry.name ?? '',
+    age: formatAge(now - entry.fetchedAt),
+    used: formatAge(now - entry.accessedAt),
+    size: formatBytes(entry.sizeBytes),
+  })),
+  columns: [
+    { key: 'org', name: 'Org Id' },
+    { key: 'apiVersion', name: 'API Version' },
+    { key: 'type', name: 'Type' },
+    { key: 'name', name: 'Name' },
+    { key: 'age', name: 'Age' },
+    { key: 'used', name: 'Last Used' },
+    { key: 'size', name: 'Size' },
+  ],
+});
+
+const formatSigned = (value: number, formatter: Intl.NumberFormat): string =>
+  `${value > 0 ? '+' : ''}${formatter.format(value)}`;
+
+export const formatDrilldown = (drilldown: MetricDrilldown): string => {
+  const formatter = new Intl.NumberFormat('en-US');
+  const label = `${formatMetricLabel(drilldown.metric)} differs by ${formatSigned(drilldown.difference, formatter)}`;
+  if (drilldown.path.length === 0) {
+    return `${label}: no dimension localizes the difference.`;
+  }
+
+  const steps = drilldown.path.map(
+    (step) =>
+      `${step.condition} (${formatSigned(step.difference, formatter)}, ${(step.share * 100).toFixed(
+        0
+      )}% of the difference across ${step.dimension})`
+  );
+  return `${label}: ${steps.join(' > ')}`;
+};
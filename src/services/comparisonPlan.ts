@@ -0,0 +1,214 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'node:fs';
+import { extname, resolve } from 'node:path';
+
+import { SfError } from '@salesforce/core';
+import { parse as parseYaml } from 'yaml';
+
+import { CHUNK_FIELDS, type ChunkingOptions } from './chunkedAggregation.js';
+import { BUCKET_INTERVALS, BUCKET_TIME_ZONES, type TimeBucketing } from './timeBuckets.js';
+
+export type ComparisonPlanEntry = {
+  object: string;
+  metrics?: string[];
+  where?: string;
+  groupBy?: string[];
+  sampleSize?: number;
+  tolerance?: string[];
+  metricTolerance?: string[];
+  chunking?: ChunkingOptions;
+  bucketing?: TimeBucketing;
+};
+
+export type ComparisonPlan = {
+  title?: string;
+  sourceOrg?: string;
+  targetOrg?: string;
+  tolerance?: string[];
+  objects: ComparisonPlanEntry[];
+};
+
+const YAML_EXTENSIONS = new Set(['.yaml', '.yml']);
+
+const invalidPlan = (planFile: string, reason: string): SfError =>
+  new SfError(`Invalid comparison plan ${planFile}: ${reason}`, 'InvalidPlanFile');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readOptionalString = (
+  source: Record<string, unknown>,
+  key: string,
+  planFile: string,
+  context: string
+): string | undefined => {
+  const value = source[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw invalidPlan(planFile, `"${key}" in ${context} must be a string.`);
+  }
+  return value;
+};
+
+// Lists accept either a YAML/JSON array or a single comma-separated string, mirroring the repeatable CLI flags.
+const readOptionalList = (
+  source: Record<string, unknown>,
+  key: string,
+  planFile: string,
+  context: string
+): string[] | undefined => {
+  const value = source[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return [String(value)];
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string' || typeof item === 'number')) {
+    return value.map((item) => String(item));
+  }
+  throw invalidPlan(planFile, `"${key}" in ${context} must be a string or a list of strings.`);
+};
+
+const readOptionalInteger = (
+  source: Record<string, unknown>,
+  key: string,
+  min: number,
+  planFile: string,
+  context: string
+): number | undefined => {
+  const value = source[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    throw invalidPlan(planFile, `"${key}" in ${context} must be an integer of at least ${min}.`);
+  }
+  return value;
+};
+
+const parseChunking = (
+  raw: Record<string, unknown>,
+  planFile: string,
+  context: string
+): ChunkingOptions | undefined => {
+  const field = readOptionalString(raw, 'chunkBy', planFile, context);
+  if (field === undefined) {
+    return undefined;
+  }
+
+  const chunkField = CHUNK_FIELDS.find((candidate) => candidate.toLowerCase() === field.toLowerCase());
+  if (!chunkField) {
+    throw invalidPlan(planFile, `"chunkBy" in ${context} must be one of ${CHUNK_FIELDS.join(', ')}.`);
+  }
+
+  return {
+    field: chunkField,
+    chunks: readOptionalInteger(raw, 'chunks', 2, planFile, context) ?? 10,
+    concurrency: readOptionalInteger(raw, 'chunkConcurrency', 1, planFile, context) ?? 4,
+  };
+};
+
+const parseBucketing = (raw: Record<string, unknown>, planFile: string, context: string): TimeBucketing | undefined => {
+  const field = readOptionalString(raw, 'bucketBy', planFile, context)?.trim();
+  if (!field) {
+    return undefined;
+  }
+
+  const interval = readOptionalString(raw, 'interval', planFile, context) ?? 'month';
+  const bucketInterval = BUCKET_INTERVALS.find((candidate) => candidate === interval.toLowerCase());
+  if (!bucketInterval) {
+    throw invalidPlan(planFile, `"interval" in ${context} must be one of ${BUCKET_INTERVALS.join(', ')}.`);
+  }
+
+  const timeZone = readOptionalString(raw, 'timeZone', planFile, context) ?? 'utc';
+  const bucketTimeZone = BUCKET_TIME_ZONES.find((candidate) => candidate === timeZone.toLowerCase());
+  if (!bucketTimeZone) {
+    throw invalidPlan(planFile, `"timeZone" in ${context} must be one of ${BUCKET_TIME_ZONES.join(', ')}.`);
+  }
+
+  return { field, interval: bucketInterval, timeZone: bucketTimeZone };
+};
+
+const parseEntry = (raw: unknown, index: number, planFile: string): ComparisonPlanEntry => {
+  const context = `objects[${index}]`;
+  if (typeof raw === 'string') {
+    return { object: raw };
+  }
+  if (!isRecord(raw)) {
+    throw invalidPlan(planFile, `${context} must be an object name or a mapping.`);
+  }
+
+  const object = readOptionalString(raw, 'object', planFile, context)?.trim();
+  if (!object) {
+    throw invalidPlan(planFile, `${context} must specify "object".`);
+  }
+
+  const sampleSize = readOptionalInteger(raw, 'sampleSize', 0, planFile, context);
+
+  return {
+    object,
+    metrics: readOptionalList(raw, 'metrics', planFile, context),
+    where: readOptionalString(raw, 'where', planFile, context),
+    groupBy: readOptionalList(raw, 'groupBy', planFile, context),
+    sampleSize,
+    tolerance: readOptionalList(raw, 'tolerance', planFile, context),
+    metricTolerance: readOptionalList(raw, 'metricTolerance', planFile, context),
+    chunking: parseChunking(raw, planFile, context),
+    bucketing: parseBucketing(raw, planFile, context),
+  } satisfies ComparisonPlanEntry;
+};
+
+export const parseComparisonPlan = (content: string, planFile: string): ComparisonPlan => {
+  let raw: unknown;
+  try {
+    raw = YAML_EXTENSIONS.has(extname(planFile).toLowerCase()) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw invalidPlan(planFile, (error as Error).message);
+  }
+
+  if (!isRecord(raw)) {
+    throw invalidPlan(planFile, 'the plan must be a mapping with an "objects" list.');
+  }
+
+  if (!Array.isArray(raw.objects) || raw.objects.length === 0) {
+    throw invalidPlan(planFile, '"objects" must be a non-empty list.');
+  }
+
+  return {
+    title: readOptionalString(raw, 'title', planFile, 'the plan'),
+    sourceOrg: readOptionalString(raw, 'sourceOrg', planFile, 'the plan'),
+    targetOrg: readOptionalString(raw, 'targetOrg', planFile, 'the plan'),
+    tolerance: readOptionalList(raw, 'tolerance', planFile, 'the plan'),
+    objects: raw.objects.map((entry, index) => parseEntry(entry, index, planFile)),
+  } satisfies ComparisonPlan;
+};
+
+export const loadComparisonPlan = async (planFile: string): Promise<ComparisonPlan> => {
+  const resolvedPath = resolve(planFile);
+  let content: string;
+  try {
+    content = await fs.readFile(resolvedPath, 'utf8');
+  } catch (error) {
+    throw new SfError(`Unable to read comparison plan ${resolvedPath}.`, 'PlanFileNotFound', undefined, error as Error);
+  }
+
+  return parseComparisonPlan(content, resolvedPath);
+};
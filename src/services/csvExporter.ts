@@ -17,8 +17,18 @@
 import { promises as fs } from 'node:fs';
 import { dirname, resolve } from 'node:path';
 
-import type { CompareDataResult } from '../commands/compare/data.js';
+import type { CompareDataMatrixResult, CompareDataResult } from '../commands/compare/data.js';
+import type { ComparePlanResult } from '../commands/compare/plan.js';
+import type { CompareRecordsResult } from '../commands/compare/records.js';
+import type { CompareHistoryResult } from '../commands/compare/history.js';
+import type { CompareSchemaResult } from '../commands/compare/schema.js';
+import type { CompareCountsResult } from '../commands/compare/counts.js';
+import type { CompareMetadataResult } from '../commands/compare/metadata.js';
+import type { MetricComparisonRow } from './dataComparisonService.js';
+import type { ComparisonSection } from './objectComparison.js';
 import type { ResolvedMetric } from './metricParser.js';
+import { formatBucketing } from './timeBuckets.js';
+import type { MetricDrilldown } from './drilldown.js';
 
 const csvValue = (value: unknown): string => {
   if (value === null || value === undefined) {
@@ -40,6 +50,10 @@ const csvValue = (value: unknown): string => {
 const csvRow = (columns: readonly unknown[]): string => columns.map(csvValue).join(',');
 
 const formatMetricLabel = (metric: ResolvedMetric): string => {
+  if (metric.displayLabel) {
+    return metric.displayLabel;
+  }
+
   switch (metric.kind) {
     case 'count':
       return 'COUNT(Id)';
@@ -53,6 +67,14 @@ const formatMetricLabel = (metric: ResolvedMetric): string => {
       return `COUNT_IF(${metric.condition})`;
     case 'sumIf':
       return `SUM_IF(${metric.field}|${metric.condition})`;
+    case 'expression':
+      return metric.label;
+    case 'percentile':
+      return `P${metric.percentile.toString()}(${metric.field})`;
+    case 'histogram':
+      return `HISTOGRAM(${metric.field}, ${metric.buckets.toString()})`;
+    case 'frequency':
+      return `FREQUENCY(${metric.field}, ${metric.top.toString()})`;
   }
   const exhaustiveCheck: never = metric;
   return exhaustiveCheck;
@@ -108,37 +130,456 @@ const writeSampleSection = (lines: string[], label: string, samples: Array<Recor
   }
 };
 
+const writeDistributionSection = (lines: string[], comparison: MetricComparisonRow): void => {
+  const { distribution } = comparison;
+  if (!distribution) {
+    return;
+  }
+
+  lines.push('');
+  lines.push(csvRow([`Distribution - ${formatMetricLabel(comparison.metric)}`]));
+  lines.push(csvRow(['PSI', distribution.psi ?? '']));
+  if (distribution.ks !== undefined) {
+    lines.push(csvRow(['KS', distribution.ks ?? '']));
+  }
+  lines.push(csvRow(['Bucket', 'Source', 'Target', 'Source Share', 'Target Share']));
+  for (const bucket of distribution.buckets) {
+    lines.push(csvRow([bucket.label, bucket.source, bucket.target, bucket.sourceShare, bucket.targetShare]));
+  }
+};
+
+const writeDrilldownSection = (lines: string[], drilldown: MetricDrilldown): void => {
+  lines.push('');
+  lines.push(csvRow([`Drill-down - ${formatMetricLabel(drilldown.metric)}`]));
+  lines.push(csvRow(['Difference', drilldown.difference]));
+  lines.push(csvRow(['Dimension', 'Slice', 'Condition', 'Source', 'Target', 'Difference', 'Share']));
+  for (const step of drilldown.path) {
+    lines.push(
+      csvRow([
+        step.dimension,
+        step.slice,
+        step.condition,
+        step.sourceValue,
+        step.targetValue,
+        step.difference,
+        step.share,
+      ])
+    );
+  }
+};
+
+const writeComparisonSection = (lines: string[], section: ComparisonSection): void => {
+  const groupBy = section.filters.groupBy ?? [];
+  const { bucketBy } = section.filters;
+  const metricsSummary = Array.from(new Set(section.metrics.map((metric) => formatMetricLabel(metric.metric)))).join(
+    ' | '
+  );
+  const mapped = section.targetQueries !== undefined;
+
+  lines.push(csvRow(['Object', section.object]));
+  if (section.mapping) {
+    lines.push(csvRow(['Target Object', section.mapping.targetObject]));
+  }
+  if (section.namespaces) {
+    lines.push(
+      csvRow([
+        'Resolved Names',
+        section.namespaces
+          .map((resolution) => `${resolution.org}: ${resolution.name} → ${resolution.resolvedName}`)
+          .join(' | '),
+      ])
+    );
+  }
+  lines.push(csvRow(['Metrics', metricsSummary]));
+  lines.push(csvRow(['Filter', section.filters.where ?? '']));
+  if (groupBy.length > 0) {
+    lines.push(csvRow(['Group By', groupBy.join(' | ')]));
+  }
+  if (bucketBy) {
+    lines.push(csvRow(['Bucket By', formatBucketing(bucketBy)]));
+  }
+  lines.push(csvRow(['Sample Size', section.filters.sampleSize]));
+  lines.push(csvRow(['Metrics Outside Tolerance', section.tolerance.failures]));
+  lines.push('');
+
+  lines.push(
+    csvRow([
+      ...groupBy,
+      ...(bucketBy ? ['Period'] : []),
+      'Metric',
+      ...(mapped ? ['Target Metric'] : []),
+      'Source',
+      'Target',
+      'Difference',
+      'Status',
+    ])
+  );
+  for (const comparison of section.metrics) {
+    const formattedDifference = comparison.difference ?? '';
+    lines.push(
+      csvRow([
+        ...groupBy.map((field) => comparison.group?.[field] ?? ''),
+        ...(bucketBy ? [comparison.period ?? ''] : []),
+        formatMetricLabel(comparison.metric),
+        ...(mapped ? [comparison.targetLabel ?? formatMetricLabel(comparison.metric)] : []),
+        formatMetricValue(comparison.metric, comparison.sourceValue),
+        formatMetricValue(comparison.metric, comparison.targetValue),
+        formattedDifference,
+        comparison.status?.toUpperCase() ?? '',
+      ])
+    );
+  }
+
+  for (const comparison of section.metrics) {
+    writeDistributionSection(lines, comparison);
+  }
+
+  writeSampleSection(lines, 'Sample Records - Source', section.samples.source);
+  writeSampleSection(lines, 'Sample Records - Target', section.samples.target);
+};
+
 export const exportComparisonToCsv = async (result: CompareDataResult, outputFile: string): Promise<string> => {
   const now = new Date().toISOString();
-  const metricsSummary = result.metrics.map((metric) => formatMetricLabel(metric.metric)).join(' | ');
 
   const lines: string[] = [];
   lines.push(csvRow(['Report Title', result.reportTitle ?? 'Salesforce Data Comparison']));
   lines.push(csvRow(['Generated At', now]));
   lines.push(csvRow(['Source Org', `${result.source.aliasOrUsername} (${result.source.orgId})`]));
   lines.push(csvRow(['Target Org', `${result.target.aliasOrUsername} (${result.target.orgId})`]));
+  writeComparisonSection(lines, result);
+  for (const drilldown of result.drilldown ?? []) {
+    writeDrilldownSection(lines, drilldown);
+  }
+
+  return writeCsvFile(lines, outputFile);
+};
+
+export const exportMatrixToCsv = async (result: CompareDataMatrixResult, outputFile: string): Promise<string> => {
+  const now = new Date().toISOString();
+  const groupBy = result.filters.groupBy ?? [];
+  const { bucketBy } = result.filters;
+  const others = result.orgs.filter((org) => org !== result.baseline);
+
+  const lines: string[] = [];
+  lines.push(csvRow(['Report Title', result.reportTitle ?? 'Salesforce Data Comparison']));
+  lines.push(csvRow(['Generated At', now]));
+  lines.push(csvRow(['Baseline Org', result.baseline]));
+  for (const org of result.orgMetadata) {
+    lines.push(csvRow(['Org', `${org.aliasOrUsername} (${org.orgId})`]));
+  }
   lines.push(csvRow(['Object', result.object]));
-  lines.push(csvRow(['Metrics', metricsSummary]));
+  lines.push(
+    csvRow(['Metrics', Array.from(new Set(result.rows.map((row) => formatMetricLabel(row.metric)))).join(' | ')])
+  );
   lines.push(csvRow(['Filter', result.filters.where ?? '']));
-  lines.push(csvRow(['Sample Size', result.filters.sampleSize]));
+  if (groupBy.length > 0) {
+    lines.push(csvRow(['Group By', groupBy.join(' | ')]));
+  }
+  if (bucketBy) {
+    lines.push(csvRow(['Bucket By', formatBucketing(bucketBy)]));
+  }
+  lines.push(csvRow(['Metrics Outside Tolerance', result.tolerance.failures]));
   lines.push('');
 
-  lines.push(csvRow(['Metric', 'Source', 'Target', 'Difference']));
-  for (const comparison of result.metrics) {
-    const formattedDifference = comparison.difference ?? '';
+  lines.push(
+    csvRow([
+      ...groupBy,
+      ...(bucketBy ? ['Period'] : []),
+      'Metric',
+      ...result.orgs,
+      ...others.map((org) => `${org} - ${result.baseline}`),
+      'Status',
+    ])
+  );
+  for (const row of result.rows) {
     lines.push(
       csvRow([
-        formatMetricLabel(comparison.metric),
-        formatMetricValue(comparison.metric, comparison.sourceValue),
-        formatMetricValue(comparison.metric, comparison.targetValue),
-        formattedDifference,
+        ...groupBy.map((field) => row.group?.[field] ?? ''),
+        ...(bucketBy ? [row.period ?? ''] : []),
+        formatMetricLabel(row.metric),
+        ...row.cells.map((cell) => formatMetricValue(row.metric, cell.value)),
+        ...row.cells.filter((cell) => cell.org !== result.baseline).map((cell) => cell.difference ?? ''),
+        row.status?.toUpperCase() ?? '',
       ])
     );
   }
 
-  writeSampleSection(lines, 'Sample Records - Source', result.samples.source);
-  writeSampleSection(lines, 'Sample Records - Target', result.samples.target);
+  return writeCsvFile(lines, outputFile);
+};
+
+export const exportPlanToCsv = async (result: ComparePlanResult, outputFile: string): Promise<string> => {
+  const now = new Date().toISOString();
+
+  const lines: string[] = [];
+  lines.push(csvRow(['Report Title', result.reportTitle ?? 'Salesforce Data Comparison']));
+  lines.push(csvRow(['Generated At', now]));
+  lines.push(csvRow(['Source Org', `${result.source.aliasOrUsername} (${result.source.orgId})`]));
+  lines.push(csvRow(['Target Org', `${result.target.aliasOrUsername} (${result.target.orgId})`]));
+  lines.push(csvRow(['Plan File', result.planFile]));
+  lines.push(csvRow(['Objects', result.sections.length]));
+  lines.push(csvRow(['Metrics Outside Tolerance', result.failures]));
+
+  for (const section of result.sections) {
+    lines.push('');
+    writeComparisonSection(lines, section);
+  }
+
+  return writeCsvFile(lines, outputFile);
+};
+
+export const exportRecordDiffToCsv = async (result: CompareRecordsResult, outputFile: string): Promise<string> => {
+  const now = new Date().toISOString();
+
+  const lines: string[] = [];
+  lines.push(csvRow(['Report Title', result.reportTitle ?? 'Salesforce Record Comparison']));
+  lines.push(csvRow(['Generated At', now]));
+  lines.push(csvRow(['Source Org', `${result.source.aliasOrUsername} (${result.source.orgId})`]));
+  lines.push(csvRow(['Target Org', `${result.target.aliasOrUsername} (${result.target.orgId})`]));
+  lines.push(csvRow(['Object', result.object]));
+  lines.push(csvRow(['Key Field', result.keyField]));
+  lines.push(csvRow(['Fields', result.fields.join(' | ')]));
+  lines.push(csvRow(['Filter', result.filters.where ?? '']));
+  lines.push('');
+
+  lines.push(csvRow(['Category', 'Records']));
+  lines.push(csvRow(['Source Records', result.summary.sourceRecords]));
+  lines.push(csvRow(['Target Records', result.summary.targetRecords]));
+  lines.push(csvRow(['Matched', result.summary.matched]));
+  lines.push(csvRow(['Unchanged', result.summary.unchanged]));
+  lines.push(csvRow(['Changed', result.summary.changed]));
+  lines.push(csvRow(['Missing in Target', result.summary.missingInTarget]));
+  lines.push(csvRow(['Extra in Target', result.summary.extraInTarget]));
+  lines.push(csvRow(['Without Key Value', result.summary.withoutKey]));
+  lines.push(csvRow(['Duplicate Key Value', result.summary.duplicateKey]));
+
+  lines.push('');
+  lines.push(csvRow(['Field', 'Mismatched Records']));
+  for (const entry of result.fieldMismatches) {
+    lines.push(csvRow([entry.field, entry.mismatches]));
+  }
+
+  lines.push('');
+  lines.push(csvRow(['Record Differences']));
+  lines.push(csvRow(['Status', result.keyField, 'Field', 'Source', 'Target']));
+  for (const key of result.missingInTarget) {
+    lines.push(csvRow(['Missing in Target', key, '', '', '']));
+  }
+  for (const key of result.extraInTarget) {
+    lines.push(csvRow(['Extra in Target', key, '', '', '']));
+  }
+  for (const record of result.changedRecords) {
+    for (const mismatch of record.fields) {
+      lines.push(csvRow(['Changed', record.key, mismatch.field, mismatch.sourceValue, mismatch.targetValue]));
+    }
+  }
+
+  return writeCsvFile(lines, outputFile);
+};
+
+export const exportHistoryToCsv = async (result: CompareHistoryResult, outputFile: string): Promise<string> => {
+  const now = new Date().toISOString();
+
+  const lines: string[] = [];
+  lines.push(csvRow(['Report Title', 'Salesforce Comparison History']));
+  lines.push(csvRow(['Generated At', now]));
+  lines.push(csvRow(['Runs', result.runs.length]));
+  lines.push('');
+
+  lines.push(
+    csvRow([
+      'Recorded At',
+      'Run Id',
+      'Source Org',
+      'Target Org',
+      'Object',
+      'Metric',
+      'Group',
+      'Period',
+      'Filter',
+      'Source',
+      'Target',
+      'Target - Source',
+      'Change',
+      'Status',
+      'Trend',
+    ])
+  );
+  for (const trend of result.trends) {
+    const group = Object.entries(trend.group ?? {})
+      .map(([field, value]) => `${field}=${String(value)}`)
+      .join(' | ');
+    for (const point of trend.points) {
+      lines.push(
+        csvRow([
+          point.recordedAt,
+          point.runId,
+          `${trend.source.aliasOrUsername} (${trend.source.orgId})`,
+          `${trend.target.aliasOrUsername} (${trend.target.orgId})`,
+          trend.object,
+          trend.label,
+          group,
+          trend.period ?? '',
+          trend.filters.where ?? '',
+          point.sourceValue,
+          point.targetValue,
+          point.difference,
+          point.change,
+          point.status?.toUpperCase() ?? '',
+          trend.direction,
+        ])
+      );
+    }
+  }
+
+  return writeCsvFile(lines, outputFile);
+};
+
+export const exportSchemaToCsv = async (result: CompareSchemaResult, outputFile: string): Promise<string> => {
+  const now = new Date().toISOString();
+
+  const lines: string[] = [];
+  lines.push(csvRow(['Report Title', result.reportTitle ?? 'Salesforce Schema Comparison']));
+  lines.push(csvRow(['Generated At', now]));
+  lines.push(csvRow(['Source Org', `${result.source.aliasOrUsername} (${result.source.orgId})`]));
+  lines.push(csvRow(['Target Org', `${result.target.aliasOrUsername} (${result.target.orgId})`]));
+  lines.push('');
+
+  lines.push(csvRow(['Object', 'Source Fields', 'Target Fields', 'Added', 'Removed', 'Changed', 'Unchanged']));
+  for (const comparison of result.objects) {
+    const { summary } = comparison;
+    lines.push(
+      csvRow([
+        comparison.object,
+        summary.sourceFields,
+        summary.targetFields,
+        summary.added,
+        summary.removed,
+        summary.changed,
+        summary.unchanged,
+      ])
+    );
+  }
+
+  lines.push('');
+  lines.push(csvRow(['Object', 'Field', 'Type', 'Status', 'Property', 'Source', 'Target']));
+  for (const comparison of result.objects) {
+    for (const difference of comparison.differences) {
+      const row = [comparison.object, difference.field, difference.type ?? '', difference.status];
+      if (difference.status !== 'changed') {
+        lines.push(csvRow([...row, '', '', '']));
+      }
+      for (const change of difference.changes) {
+        lines.push(csvRow([...row, change.property, change.source, change.target]));
+      }
+      for (const value of difference.picklist?.added ?? []) {
+        lines.push(csvRow([...row, 'picklistValue', '', value]));
+      }
+      for (const value of difference.picklist?.removed ?? []) {
+        lines.push(csvRow([...row, 'picklistValue', value, '']));
+      }
+    }
+  }
+
+  return writeCsvFile(lines, outputFile);
+};
+
+export const exportCountsToCsv = async (result: CompareCountsResult, outputFile: string): Promise<string> => {
+  const now = new Date().toISOString();
+
+  const lines: string[] = [];
+  lines.push(csvRow(['Report Title', result.reportTitle ?? 'Salesforce Record Count Comparison']));
+  lines.push(csvRow(['Generated At', now]));
+  lines.push(csvRow(['Source Org', `${result.source.aliasOrUsername} (${result.source.orgId})`]));
+  lines.push(csvRow(['Target Org', `${result.target.aliasOrUsername} (${result.target.orgId})`]));
+  lines.push(csvRow(['Include', result.filters.include.join(' | ')]));
+  lines.push(csvRow(['Exclude', result.filters.exclude.join(' | ')]));
+  lines.push(csvRow(['Objects Compared', result.summary.compared]));
+  lines.push(csvRow(['Matching', result.summary.matching]));
+  lines.push('');
+
+  lines.push(csvRow(['Rank', 'Object', 'Source', 'Target', 'Target - Source', 'Status', 'Exact']));
+  result.rows.forEach((row, index) => {
+    lines.push(
+      csvRow([
+        index + 1,
+        row.object,
+        row.sourceCount ?? '',
+        row.targetCount ?? '',
+        row.difference,
+        row.status,
+        row.exact ? 'Yes' : 'No',
+      ])
+    );
+  });
+
+  return writeCsvFile(lines, outputFile);
+};
+
+export const exportMetadataToCsv = async (result: CompareMetadataResult, outputFile: string): Promise<string> => {
+  const now = new Date().toISOString();
+
+  const lines: string[] = [];
+  lines.push(csvRow(['Report Title', result.reportTitle ?? 'Salesforce Metadata Comparison']));
+  lines.push(csvRow(['Generated At', now]));
+  lines.push(csvRow(['Source Org', `${result.source.aliasOrUsername} (${result.source.orgId})`]));
+  lines.push(csvRow(['Target Org', `${result.target.aliasOrUsername} (${result.target.orgId})`]));
+  lines.push('');
+
+  lines.push(
+    csvRow([
+      'Type',
+      'Source Components',
+      'Target Components',
+      'Missing in Target',
+      'Missing in Source',
+      'Modified',
+      'Unchanged',
+    ])
+  );
+  for (const summary of result.types) {
+    lines.push(
+      csvRow([
+        summary.type,
+        summary.sourceComponents,
+        summary.targetComponents,
+        summary.missingInTarget,
+        summary.missingInSource,
+        summary.modified,
+        summary.unchanged,
+      ])
+    );
+  }
+
+  lines.push('');
+  lines.push(
+    csvRow([
+      'Type',
+      'Component',
+      'Status',
+      'Source Last Modified',
+      'Source Last Modified By',
+      'Target Last Modified',
+      'Target Last Modified By',
+    ])
+  );
+  for (const difference of result.differences) {
+    lines.push(
+      csvRow([
+        difference.type,
+        difference.fullName,
+        difference.status,
+        difference.sourceLastModified ?? '',
+        difference.sourceLastModifiedBy ?? '',
+        difference.targetLastModified ?? '',
+        difference.targetLastModifiedBy ?? '',
+      ])
+    );
+  }
+
+  return writeCsvFile(lines, outputFile);
+};
 
+const writeCsvFile = async (lines: string[], outputFile: string): Promise<string> => {
   const resolvedPath = resolve(outputFile);
   await fs.mkdir(dirname(resolvedPath), { recursive: true });
   await fs.writeFile(resolvedPath, `${lines.join('\n')}\n`, 'utf8');
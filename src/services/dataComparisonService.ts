@@ -15,16 +15,61 @@
  */
 
 import type { Org } from '@salesforce/core';
-
-import type { AggregatePlan, MetricDefinition } from './aggregateQueryBuilder.js';
+import { SfError } from '@salesforce/core';
+
+import type {
+  AggregatePlan,
+  AggregateQuerySpec,
+  GroupByExpression,
+  MetricDefinition,
+} from './aggregateQueryBuilder.js';
+import { executeChunkedAggregate, resolveChunkConditions, type ChunkingOptions } from './chunkedAggregation.js';
 import type { MetricValueType, ResolvedMetric } from './metricParser.js';
+import { evaluateExpression } from './metricExpression.js';
+import { computeClientStatistics, requiresStreaming, type StatisticsProgress } from './clientStatistics.js';
+import {
+  compareFrequencies,
+  compareHistograms,
+  countSampleValues,
+  type DistributionComparison,
+  type DistributionSample,
+} from './distributionComparison.js';
+import type { MetricStatus, Tolerance } from './toleranceEvaluator.js';
+import {
+  DEFAULT_QUERY_POLICY,
+  executeQuery,
+  type QueryExecution,
+  type QueryRetry,
+  type QueryRetryPolicy,
+} from './queryExecutor.js';
+import { fillPeriods, formatPeriod } from './timeBuckets.js';
+import { assertDistinctKeys, translateGroupIds, type IdLookup } from './idTranslation.js';
+import {
+  buildCanonicalValues,
+  findUnmergeableMetric,
+  labelMappedRows,
+  renameEvaluation,
+  type ObjectMapping,
+} from './schemaMapping.js';
+
+export type GroupValue = string | number | boolean | null;
+
+export type GroupPresence = 'both' | 'source' | 'target' | 'neither';
 
 export type MetricComparisonRow = {
   metric: ResolvedMetric;
   alias: string;
+  /** The metric's name in the target org when a schema mapping renames its fields. */
+  targetLabel?: string;
   sourceValue: number | string | null;
   targetValue: number | string | null;
   difference: number | null;
+  group?: Record<string, GroupValue>;
+  period?: string;
+  presentIn?: GroupPresence;
+  tolerance?: Tolerance;
+  status?: MetricStatus;
+  distribution?: DistributionComparison;
 };
 
 export type SampleData = {
@@ -32,14 +77,26 @@ export type SampleData = {
   target: Array<Record<string, unknown>>;
 };
 
+type AggregateValues = Record<string, number | string | null>;
+
+export type GroupedAggregates = {
+  key: string;
+  group: Record<string, GroupValue>;
+  period?: string;
+  aggregates: AggregateValues;
+};
+
 export type OrgEvaluation = {
-  aggregates: Record<string, number | string | null>;
+  aggregates: AggregateValues;
+  groups?: GroupedAggregates[];
+  distributions?: Record<string, DistributionSample>;
   samples: Array<Record<string, unknown>>;
 };
 
 export type ComparisonEvaluation = {
   metrics: MetricComparisonRow[];
   samples: SampleData;
+  retries: QueryRetry[];
   evaluations: {
     source: OrgEvaluation;
     target: OrgEvaluation;
@@ -50,32 +107,83 @@ export type ComparisonInput = {
   sourceOrg: Org;
   targetOrg: Org;
   plan: AggregatePlan;
+  /** The plan to run in the target org when a schema mapping gives it different object or field names. */
+  targetPlan?: AggregatePlan;
   apiVersionOverride?: string;
   sampleQuery?: string;
+  targetSampleQuery?: string;
+  /** The schema mapping of the object, whose picklist value mappings merge target groups under source values. */
+  mapping?: ObjectMapping;
+  /** Lookup group-by fields whose IDs are translated into natural keys before the groups are joined. */
+  idLookups?: IdLookup[];
+  queryPolicy?: QueryRetryPolicy;
+  chunking?: ChunkingOptions;
+  onProgress?: (progress: StatisticsProgress) => void;
 };
 
 export const compareData = async ({
   sourceOrg,
   targetOrg,
   plan,
+  targetPlan,
   apiVersionOverride,
   sampleQuery,
+  targetSampleQuery,
+  mapping,
+  idLookups,
+  queryPolicy = DEFAULT_QUERY_POLICY,
+  chunking,
+  onProgress,
 }: ComparisonInput): Promise<ComparisonEvaluation> => {
+  const retries: QueryRetry[] = [];
   const [sourceEvaluation, targetEvaluation] = await Promise.all([
-    evaluateOrg({ org: sourceOrg, plan, sampleQuery, apiVersionOverride }),
-    evaluateOrg({ org: targetOrg, plan, sampleQuery, apiVersionOverride }),
+    evaluateOrg({
+      org: sourceOrg,
+      plan,
+      sampleQuery,
+      apiVersionOverride,
+      chunking,
+      onProgress,
+      execution: { policy: queryPolicy, orgLabel: 'source org', retries },
+    }),
+    evaluateOrg({
+      org: targetOrg,
+      plan: targetPlan ?? plan,
+      sampleQuery: targetPlan ? targetSampleQuery : sampleQuery,
+      apiVersionOverride,
+      chunking,
+      onProgress,
+      execution: { policy: queryPolicy, orgLabel: 'target org', retries },
+    }),
   ]);
 
-  const metrics = plan.metrics.map((definition) =>
-    buildMetricRow(definition, sourceEvaluation.aggregates, targetEvaluation.aggregates)
-  );
+  const renamed = targetPlan ? renameEvaluation(targetEvaluation, targetPlan, plan) : targetEvaluation;
+  const targetValues = mapping?.values ? mergeGroups(renamed, plan, buildCanonicalValues(mapping)) : renamed;
+  const translate = async (org: Org, evaluation: OrgEvaluation, orgLabel: string): Promise<OrgEvaluation> => {
+    if (!idLookups?.length) {
+      return evaluation;
+    }
+    const connection = await Promise.resolve(org.getConnection(apiVersionOverride));
+    const keys = await translateGroupIds(connection, evaluation, idLookups, { policy: queryPolicy, orgLabel, retries });
+    const metric = findUnmergeableMetric(plan);
+    if (metric) {
+      assertDistinctKeys(keys, idLookups, { metric, orgLabel });
+    }
+    return mergeGroups(evaluation, plan, keys);
+  };
+  const [sourceKeyed, targetKeyed] = await Promise.all([
+    translate(sourceOrg, sourceEvaluation, 'source org'),
+    translate(targetOrg, targetValues, 'target org'),
+  ]);
+  const rows = buildComparisonRows(plan, sourceKeyed, targetKeyed);
 
   return {
-    metrics,
+    metrics: targetPlan ? labelMappedRows(rows, plan, targetPlan) : rows,
     samples: {
       source: sourceEvaluation.samples,
       target: targetEvaluation.samples,
     },
+    retries,
     evaluations: {
       source: sourceEvaluation,
       target: targetEvaluation,
@@ -83,55 +191,297 @@ export const compareData = async ({
   } satisfies ComparisonEvaluation;
 };
 
-const evaluateOrg = async ({
+/** Compares the evaluations of two orgs metric by metric, joining grouped results on their group key. */
+export const buildComparisonRows = (
+  plan: AggregatePlan,
+  source: OrgEvaluation,
+  target: OrgEvaluation
+): MetricComparisonRow[] =>
+  plan.groupBy
+    ? buildGroupedMetricRows(plan, source, target)
+    : plan.metrics.map((definition) =>
+        buildMetricRow(definition, source.aggregates, target.aggregates, source.distributions, target.distributions)
+      );
+
+/** Runs every query of the plan in one org and collects the aggregate values, per group when grouped. */
+export const evaluateOrg = async ({
   org,
   plan,
   sampleQuery,
   apiVersionOverride,
+  chunking,
+  onProgress,
+  execution,
 }: {
   org: Org;
   plan: AggregatePlan;
   sampleQuery?: string;
   apiVersionOverride?: string;
+  chunking?: ChunkingOptions;
+  onProgress?: (progress: StatisticsProgress) => void;
+  execution: QueryExecution;
 }): Promise<OrgEvaluation> => {
   const connection = await Promise.resolve(org.getConnection(apiVersionOverride));
-  const aggregates: Record<string, number | string | null> = {};
+  const chunkConditions = chunking ? await resolveChunkConditions(connection, plan, chunking, execution) : [];
 
-  if (plan.aggregateQuery) {
-    const aggregateResponse = await connection.query<Record<string, unknown>>(plan.aggregateQuery);
-    const record = aggregateResponse.records[0] ?? {};
+  const runAggregate = async (query: string, spec: AggregateQuerySpec): Promise<Array<Record<string, unknown>>> => {
+    if (chunking && chunkConditions.length > 1) {
+      return executeChunkedAggregate(connection, spec, chunkConditions, chunking.concurrency, execution);
+    }
+    const response = await executeQuery(connection, query, execution);
+    return response.records;
+  };
 
-    for (const expression of plan.expressions) {
-      const value = record[expression.alias];
-      aggregates[expression.alias] = normalizeAggregateValue(expression.valueType, value);
+  const aggregates: AggregateValues = {};
+  const groups = new Map<string, GroupedAggregates>();
+
+  const collect = (
+    record: Record<string, unknown>,
+    values: Array<{ alias: string; valueType: MetricValueType }>
+  ): void => {
+    let target = aggregates;
+    if (plan.groupBy) {
+      const group = extractGroup(plan, record);
+      const period = extractPeriod(plan, record);
+      const key = buildGroupKey(plan, group, period);
+      const existing = groups.get(key) ?? { key, group, period, aggregates: buildEmptyAggregates(plan) };
+      groups.set(key, existing);
+      target = existing.aggregates;
+    }
+
+    for (const value of values) {
+      target[value.alias] = normalizeAggregateValue(value.valueType, record[value.alias]);
+    }
+  };
+
+  if (plan.aggregateQuery) {
+    const aggregateRecords = await runAggregate(plan.aggregateQuery, {
+      objectName: plan.objectName,
+      whereClause: plan.whereClause,
+      groupBy: plan.groupBy ?? [],
+      expressions: plan.expressions,
+    });
+    const records = plan.groupBy ? aggregateRecords : [aggregateRecords[0] ?? {}];
+    for (const record of records) {
+      collect(record, plan.expressions);
     }
   }
 
   if (plan.conditionalMetrics.length > 0) {
     const conditionalResults = await Promise.all(
       plan.conditionalMetrics.map(async (conditional) => {
-        const response = await connection.query<Record<string, unknown>>(conditional.aggregateQuery);
-        const conditionalRecord = response.records[0] ?? {};
+        const conditionalRecords = await runAggregate(conditional.aggregateQuery, {
+          objectName: plan.objectName,
+          whereClause: conditional.whereClause,
+          groupBy: plan.groupBy ?? [],
+          expressions: [{ alias: conditional.alias, soql: conditional.soql, valueType: conditional.valueType }],
+        });
         return {
-          alias: conditional.alias,
-          value: conditionalRecord[conditional.alias],
-          valueType: conditional.valueType,
+          conditional,
+          records: plan.groupBy ? conditionalRecords : [conditionalRecords[0] ?? {}],
         } as const;
       })
     );
 
     for (const result of conditionalResults) {
-      aggregates[result.alias] = normalizeAggregateValue(result.valueType, result.value);
+      for (const record of result.records) {
+        collect(record, [result.conditional]);
+      }
+    }
+  }
+
+  let distributions: Record<string, DistributionSample> | undefined;
+  if (requiresStreaming(plan)) {
+    const statistics = await computeClientStatistics(
+      connection,
+      plan,
+      chunking && chunkConditions.length > 1 ? chunkConditions : [],
+      { execution, concurrency: chunking?.concurrency ?? 1, onProgress }
+    );
+    for (const record of statistics.records) {
+      collect(record, plan.statistics);
     }
+    distributions = plan.distributions.length > 0 ? statistics.distributions : undefined;
   }
 
   let samples: Array<Record<string, unknown>> = [];
   if (sampleQuery) {
-    const sampleResponse = await connection.query<Record<string, unknown>>(sampleQuery);
+    const sampleResponse = await executeQuery(connection, sampleQuery, execution);
     samples = sampleResponse.records ?? [];
   }
 
-  return { aggregates, samples } satisfies OrgEvaluation;
+  return plan.groupBy
+    ? ({ aggregates, groups: Array.from(groups.values()), samples } satisfies OrgEvaluation)
+    : ({ aggregates, distributions, samples } satisfies OrgEvaluation);
+};
+
+const extractGroup = (plan: AggregatePlan, record: Record<string, unknown>): Record<string, GroupValue> => {
+  const group: Record<string, GroupValue> = {};
+  for (const expression of listGroupFields(plan)) {
+    const raw = record[expression.alias];
+    group[expression.field] =
+      raw === null || raw === undefined
+        ? null
+        : typeof raw === 'number' || typeof raw === 'boolean' || typeof raw === 'string'
+        ? raw
+        : String(raw);
+  }
+  return group;
+};
+
+const listGroupFields = (plan: AggregatePlan): GroupByExpression[] =>
+  (plan.groupBy ?? []).filter((expression) => !expression.period);
+
+const combineAggregate = (
+  fn: string | undefined,
+  left: number | string | null,
+  right: number | string | null
+): number | string | null => {
+  if (left === null || right === null) {
+    return left ?? right;
+  }
+  if (fn === 'MIN') {
+    return left < right ? left : right;
+  }
+  if (fn === 'MAX') {
+    return left > right ? left : right;
+  }
+  if (fn !== undefined && fn !== 'COUNT' && fn !== 'SUM') {
+    throw new SfError(`Groups that fall together cannot be merged for ${fn} values.`, 'UnmergeableGroups', [
+      'Compare only counts, sums, minimums and maximums for this grouping.',
+    ]);
+  }
+  return Number(left) + Number(right);
+};
+
+/**
+ * Replaces group values with their canonical values, such as source picklist values or natural keys in place of
+ * record IDs, keyed by lower-case field name, and merges the groups that fall together. Counts and sums add up
+ * and minimums and maximums combine.
+ */
+const mergeGroups = (
+  evaluation: OrgEvaluation,
+  plan: AggregatePlan,
+  canonical: Map<string, Map<string, string>>
+): OrgEvaluation => {
+  if (!evaluation.groups) {
+    return evaluation;
+  }
+  const functions = new Map([
+    ...plan.expressions.map((expression): [string, string] => [
+      expression.alias,
+      expression.soql.slice(0, expression.soql.indexOf('(')).toUpperCase(),
+    ]),
+    ...plan.statistics.map((statistic): [string, string] => [statistic.alias, statistic.fn.toUpperCase()]),
+  ]);
+
+  const merged = new Map<string, GroupedAggregates>();
+  for (const entry of evaluation.groups) {
+    const group = Object.fromEntries(
+      Object.entries(entry.group).map(([field, value]) => [
+        field,
+        typeof value === 'string' ? canonical.get(field.toLowerCase())?.get(value) ?? value : value,
+      ])
+    );
+    const key = buildGroupKey(plan, group, entry.period);
+    const existing = merged.get(key);
+    const aggregates = existing
+      ? Object.fromEntries(
+          Object.entries(entry.aggregates).map(([alias, value]) => [
+            alias,
+            combineAggregate(functions.get(alias), existing.aggregates[alias] ?? null, value),
+          ])
+        )
+      : entry.aggregates;
+    merged.set(key, { ...entry, key, group, aggregates });
+  }
+  return { ...evaluation, groups: Array.from(merged.values()) };
+};
+
+const extractPeriod = (plan: AggregatePlan, record: Record<string, unknown>): string | undefined =>
+  plan.bucketing
+    ? formatPeriod(
+        plan.bucketing.interval,
+        (plan.groupBy ?? []).filter((expression) => expression.period).map((expression) => record[expression.alias])
+      )
+    : undefined;
+
+const buildGroupKey = (plan: AggregatePlan, group: Record<string, GroupValue>, period?: string): string =>
+  JSON.stringify([
+    ...listGroupFields(plan).map((expression) => group[expression.field]),
+    ...(period === undefined ? [] : [period]),
+  ]);
+
+type GroupSlot = Pick<GroupedAggregates, 'key' | 'group' | 'period'>;
+
+/**
+ * Lists the groups to report, sorted by key. With time bucketing every group gets every period between the
+ * earliest and latest period found in either org, including periods without records.
+ */
+const listGroupSlots = (plan: AggregatePlan, entries: GroupedAggregates[]): GroupSlot[] => {
+  if (!plan.bucketing) {
+    const slots = new Map(entries.map((entry) => [entry.key, entry]));
+    return Array.from(slots.keys())
+      .sort()
+      .map((key) => slots.get(key) as GroupSlot);
+  }
+
+  const groups = new Map(entries.map((entry) => [buildGroupKey(plan, entry.group), entry.group]));
+  const periods = fillPeriods(
+    plan.bucketing.interval,
+    new Set(entries.flatMap((entry) => (entry.period === undefined ? [] : [entry.period])))
+  );
+  return Array.from(groups.keys())
+    .sort()
+    .flatMap((groupKey) => {
+      const group = groups.get(groupKey) ?? {};
+      return periods.map((period) => ({ key: buildGroupKey(plan, group, period), group, period }));
+    });
+};
+
+/**
+ * Joins grouped aggregates from both orgs on their group key. Groups that only exist in one org, and filled
+ * periods that exist in neither, are compared against empty aggregates so that counts fall back to zero and
+ * other aggregates to null.
+ */
+const buildGroupedMetricRows = (
+  plan: AggregatePlan,
+  source: OrgEvaluation,
+  target: OrgEvaluation
+): MetricComparisonRow[] => {
+  const sourceGroups = new Map((source.groups ?? []).map((entry) => [entry.key, entry]));
+  const targetGroups = new Map((target.groups ?? []).map((entry) => [entry.key, entry]));
+  const slots = listGroupSlots(plan, [...sourceGroups.values(), ...targetGroups.values()]);
+  const grouped = listGroupFields(plan).length > 0;
+  const empty = buildEmptyAggregates(plan);
+
+  return slots.flatMap(({ key, group, period }) => {
+    const sourceGroup = sourceGroups.get(key);
+    const targetGroup = targetGroups.get(key);
+    const presentIn: GroupPresence =
+      sourceGroup && targetGroup ? 'both' : sourceGroup ? 'source' : targetGroup ? 'target' : 'neither';
+
+    return plan.metrics.map((definition) => ({
+      ...buildMetricRow(definition, sourceGroup?.aggregates ?? empty, targetGroup?.aggregates ?? empty),
+      ...(grouped ? { group } : {}),
+      ...(period === undefined ? {} : { period }),
+      presentIn,
+    }));
+  });
+};
+
+const buildEmptyAggregates = (plan: AggregatePlan): AggregateValues => {
+  const empty: AggregateValues = {};
+  for (const expression of plan.expressions) {
+    empty[expression.alias] = expression.soql.startsWith('COUNT') ? 0 : null;
+  }
+  for (const conditional of plan.conditionalMetrics) {
+    empty[conditional.alias] = conditional.metric.kind === 'countIf' ? 0 : null;
+  }
+  for (const statistic of plan.statistics) {
+    empty[statistic.alias] = null;
+  }
+  return empty;
 };
 
 const normalizeAggregateValue = (valueType: MetricValueType, raw: unknown): number | string | null => {
@@ -158,8 +508,18 @@ const normalizeAggregateValue = (valueType: MetricValueType, raw: unknown): numb
 const buildMetricRow = (
   definition: MetricDefinition,
   sourceAggregates: Record<string, number | string | null>,
-  targetAggregates: Record<string, number | string | null>
+  targetAggregates: Record<string, number | string | null>,
+  sourceDistributions?: Record<string, DistributionSample>,
+  targetDistributions?: Record<string, DistributionSample>
 ): MetricComparisonRow => {
+  if (definition.kind === 'distribution') {
+    return buildDistributionRow(
+      definition,
+      sourceDistributions?.[definition.alias],
+      targetDistributions?.[definition.alias]
+    );
+  }
+
   if (definition.kind === 'direct') {
     const sourceValue = sourceAggregates[definition.alias] ?? null;
     const targetValue = targetAggregates[definition.alias] ?? null;
@@ -174,6 +534,25 @@ const buildMetricRow = (
     } satisfies MetricComparisonRow;
   }
 
+  if (definition.kind === 'expression') {
+    const resolveOperand =
+      (aggregates: Record<string, number | string | null>) =>
+      (alias: string): number | null => {
+        const value = aggregates[alias];
+        return typeof value === 'number' ? value : null;
+      };
+    const sourceValue = evaluateExpression(definition.expression, resolveOperand(sourceAggregates));
+    const targetValue = evaluateExpression(definition.expression, resolveOperand(targetAggregates));
+
+    return {
+      metric: definition.metric,
+      alias: definition.alias,
+      sourceValue,
+      targetValue,
+      difference: computeDifference(definition.metric, sourceValue, targetValue),
+    } satisfies MetricComparisonRow;
+  }
+
   const numeratorSource = sourceAggregates[definition.numeratorAlias] ?? null;
   const numeratorTarget = targetAggregates[definition.numeratorAlias] ?? null;
   const denominatorSource = sourceAggregates[definition.denominatorAlias] ?? null;
@@ -192,6 +571,37 @@ const buildMetricRow = (
   } satisfies MetricComparisonRow;
 };
 
+const buildDistributionRow = (
+  definition: Extract<MetricDefinition, { kind: 'distribution' }>,
+  source: DistributionSample | undefined,
+  target: DistributionSample | undefined
+): MetricComparisonRow => {
+  const { metric } = definition;
+  const distribution =
+    metric.kind === 'histogram'
+      ? compareHistograms(
+          source?.kind === 'histogram' ? source.values : new Float64Array(0),
+          target?.kind === 'histogram' ? target.values : new Float64Array(0),
+          metric.buckets
+        )
+      : compareFrequencies(
+          source?.kind === 'frequency' ? source.counts : new Map<string, number>(),
+          target?.kind === 'frequency' ? target.counts : new Map<string, number>(),
+          metric.top
+        );
+  const sourceValue = countSampleValues(source);
+  const targetValue = countSampleValues(target);
+
+  return {
+    metric,
+    alias: definition.alias,
+    sourceValue,
+    targetValue,
+    difference: targetValue - sourceValue,
+    distribution,
+  } satisfies MetricComparisonRow;
+};
+
 const computeRatioValue = (numerator: number | string | null, denominator: number | string | null): number | null => {
   if (typeof numerator !== 'number' || typeof denominator !== 'number') {
     return null;
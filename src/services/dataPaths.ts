@@ -22,6 +22,8 @@ const DATA_HOME_ENV = 'SF_DATA_HOME';
 const DEFAULT_DATA_HOME_FOLDER = '.sfdata';
 const PLUGIN_FOLDER = 'sf-data-comparison';
 const METADATA_CACHE_FILE = 'metadata-cache.json';
+const SNAPSHOT_FOLDER = 'snapshots';
+const RUN_HISTORY_FILE = 'run-history.json';
 
 export const getDataHome = (): string => {
   const override = process.env[DATA_HOME_ENV];
@@ -36,6 +38,10 @@ export const getPluginDataDir = (): string => join(getDataHome(), PLUGIN_FOLDER)
 
 export const getMetadataCachePath = (): string => join(getPluginDataDir(), METADATA_CACHE_FILE);
 
+export const getRunHistoryPath = (): string => join(getPluginDataDir(), RUN_HISTORY_FILE);
+
+export const getSnapshotDir = (): string => join(getPluginDataDir(), SNAPSHOT_FOLDER);
+
 export const ensurePluginDataDir = async (): Promise<void> => {
   await fs.mkdir(getPluginDataDir(), { recursive: true });
 };
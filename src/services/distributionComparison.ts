@@ -0,0 +1,198 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/** Values streamed from one org for a histogram (sorted numbers) or a frequency metric (count per value). */
+export type DistributionSample =
+  | { kind: 'histogram'; values: Float64Array }
+  | { kind: 'frequency'; counts: Map<string, number> };
+
+export type DistributionBucket = {
+  label: string;
+  source: number;
+  target: number;
+  sourceShare: number;
+  targetShare: number;
+};
+
+/**
+ * Bucket-by-bucket comparison of one field. `psi` is the population stability index over the buckets; `ks` is
+ * the two-sample Kolmogorov–Smirnov statistic over the raw values and is only computed for histograms.
+ */
+export type DistributionComparison = {
+  psi: number | null;
+  ks?: number | null;
+  buckets: DistributionBucket[];
+};
+
+export const NULL_VALUE_LABEL = '(null)';
+export const OTHER_VALUES_LABEL = '(other)';
+
+// Empty buckets would make the PSI infinite; this is the usual floor applied to their share.
+const PSI_SHARE_FLOOR = 0.0001;
+
+const formatEdge = (value: number): string => Number(value.toPrecision(6)).toString();
+
+const toBuckets = (
+  entries: Array<{ label: string; source: number; target: number }>,
+  sourceTotal: number,
+  targetTotal: number
+): DistributionBucket[] =>
+  entries.map((entry) => ({
+    ...entry,
+    sourceShare: sourceTotal > 0 ? entry.source / sourceTotal : 0,
+    targetShare: targetTotal > 0 ? entry.target / targetTotal : 0,
+  }));
+
+/** PSI = Σ (target − source) × ln(target / source) over bucket shares; null when either org has no values. */
+export const populationStabilityIndex = (buckets: DistributionBucket[]): number | null => {
+  const sourceTotal = buckets.reduce((total, bucket) => total + bucket.source, 0);
+  const targetTotal = buckets.reduce((total, bucket) => total + bucket.target, 0);
+  if (sourceTotal === 0 || targetTotal === 0) {
+    return null;
+  }
+
+  return buckets.reduce((total, bucket) => {
+    const source = Math.max(bucket.sourceShare, PSI_SHARE_FLOOR);
+    const target = Math.max(bucket.targetShare, PSI_SHARE_FLOOR);
+    return total + (target - source) * Math.log(target / source);
+  }, 0);
+};
+
+/** Largest gap between the empirical CDFs of two sorted samples; null when either is empty. */
+export const kolmogorovSmirnov = (source: Float64Array, target: Float64Array): number | null => {
+  if (source.length === 0 || target.length === 0) {
+    return null;
+  }
+
+  let sourceIndex = 0;
+  let targetIndex = 0;
+  let statistic = 0;
+  while (sourceIndex < source.length && targetIndex < target.length) {
+    const value = Math.min(source[sourceIndex], target[targetIndex]);
+    while (sourceIndex < source.length && source[sourceIndex] === value) {
+      sourceIndex++;
+    }
+    while (targetIndex < target.length && target[targetIndex] === value) {
+      targetIndex++;
+    }
+    statistic = Math.max(statistic, Math.abs(sourceIndex / source.length - targetIndex / target.length));
+  }
+  return statistic;
+};
+
+/** Linear interpolation between closest ranks, so `percentile(values, 50)` is the median. */
+export const percentile = (sorted: Float64Array, rank: number): number | null => {
+  if (sorted.length === 0) {
+    return null;
+  }
+
+  const position = (rank / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/**
+ * Splits the combined range of both orgs into equal-width buckets so that each bucket covers the same values
+ * in both orgs. The last bucket includes the maximum.
+ */
+export const compareHistograms = (
+  source: Float64Array,
+  target: Float64Array,
+  buckets: number
+): DistributionComparison => {
+  const all = [source, target].filter((values) => values.length > 0);
+  if (all.length === 0) {
+    return { psi: null, ks: null, buckets: [] };
+  }
+
+  const min = Math.min(...all.map((values) => values[0]));
+  const max = Math.max(...all.map((values) => values[values.length - 1]));
+  const count = max === min ? 1 : buckets;
+  const width = (max - min) / count;
+
+  const countInto = (values: Float64Array): number[] => {
+    const counts = new Array<number>(count).fill(0);
+    for (const value of values) {
+      counts[Math.min(Math.floor((value - min) / (width || 1)), count - 1)] += 1;
+    }
+    return counts;
+  };
+  const sourceCounts = countInto(source);
+  const targetCounts = countInto(target);
+
+  const entries = sourceCounts.map((sourceCount, index) => {
+    const lower = min + width * index;
+    const upper = index === count - 1 ? max : min + width * (index + 1);
+    return {
+      label: `[${formatEdge(lower)}, ${formatEdge(upper)}${index === count - 1 ? ']' : ')'}`,
+      source: sourceCount,
+      target: targetCounts[index],
+    };
+  });
+  const comparedBuckets = toBuckets(entries, source.length, target.length);
+
+  return {
+    psi: populationStabilityIndex(comparedBuckets),
+    ks: kolmogorovSmirnov(source, target),
+    buckets: comparedBuckets,
+  };
+};
+
+/**
+ * Keeps the `top` values with the highest combined count in both orgs and folds the rest into one
+ * `(other)` bucket. Ties are ordered by value so the report is stable between runs.
+ */
+export const compareFrequencies = (
+  source: Map<string, number>,
+  target: Map<string, number>,
+  top: number
+): DistributionComparison => {
+  const values = Array.from(new Set([...source.keys(), ...target.keys()])).map((label) => ({
+    label,
+    source: source.get(label) ?? 0,
+    target: target.get(label) ?? 0,
+  }));
+  values.sort(
+    (left, right) => right.source + right.target - (left.source + left.target) || left.label.localeCompare(right.label)
+  );
+
+  const entries = values.slice(0, top);
+  const rest = values.slice(top);
+  if (rest.length > 0) {
+    entries.push({
+      label: OTHER_VALUES_LABEL,
+      source: rest.reduce((total, entry) => total + entry.source, 0),
+      target: rest.reduce((total, entry) => total + entry.target, 0),
+    });
+  }
+
+  const sumCounts = (counts: Map<string, number>): number =>
+    Array.from(counts.values()).reduce((total, value) => total + value, 0);
+  const comparedBuckets = toBuckets(entries, sumCounts(source), sumCounts(target));
+
+  return { psi: populationStabilityIndex(comparedBuckets), buckets: comparedBuckets };
+};
+
+/** Number of values behind a sample, used as the row's source and target value. */
+export const countSampleValues = (sample: DistributionSample | undefined): number => {
+  if (!sample) {
+    return 0;
+  }
+  return sample.kind === 'histogram'
+    ? sample.values.length
+    : Array.from(sample.counts.values()).reduce((total, value) => total + value, 0);
+};
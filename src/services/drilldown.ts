@@ -0,0 +1,273 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { combineWhereClauses } from './aggregateQueryBuilder.js';
+import { mapSequentially } from './chunkedAggregation.js';
+import type { GroupValue, MetricComparisonRow } from './dataComparisonService.js';
+import type { SimpleDescribeSObjectResult } from './metadataDiscoveryService.js';
+import type { ResolvedMetric } from './metricParser.js';
+import { describeNamespacedObject } from './namespaceResolution.js';
+import { compareObject, type ObjectComparisonContext, type ObjectComparisonRequest } from './objectComparison.js';
+import { formatSoqlCondition, type SoqlCondition, type SoqlLiteral } from './soqlCondition.js';
+
+export const DEFAULT_DRILLDOWN_DEPTH = 3;
+
+export type DrilldownDimension =
+  | { kind: 'field'; field: string; label: string }
+  | { kind: 'period'; field: string; interval: 'year' | 'month'; label: string };
+
+export type DrilldownStep = {
+  dimension: string;
+  slice: string;
+  condition: string;
+  sourceValue: number;
+  targetValue: number;
+  difference: number;
+  /** Share of the absolute difference across all slices of the dimension that sits in this slice. */
+  share: number;
+};
+
+export type MetricDrilldown = {
+  metric: ResolvedMetric;
+  alias: string;
+  difference: number;
+  path: DrilldownStep[];
+};
+
+const DRILLDOWN_DATE_FIELD = 'CreatedDate';
+
+/**
+ * Rebuilds the metric token of an additive metric. Only counts and sums split into slices that add up to the
+ * total, so other metrics cannot be localized and return undefined.
+ */
+export const toDrilldownToken = (metric: ResolvedMetric): string | undefined => {
+  switch (metric.kind) {
+    case 'count':
+      return 'count';
+    case 'countIf':
+      return `count-if:(${metric.condition})`;
+    case 'sumIf':
+      return `sum-if:${metric.field}:(${metric.condition})`;
+    case 'fieldAggregate':
+      return metric.fn === 'sum' ? `sum:${metric.field}` : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Lists the dimensions a difference can be localized by: the record type (by developer name, since record type
+ * IDs differ between orgs), every picklist both orgs can group by, and the year and month of CreatedDate.
+ */
+export const listDrilldownDimensions = (
+  source: SimpleDescribeSObjectResult,
+  target: SimpleDescribeSObjectResult
+): DrilldownDimension[] => {
+  const targetFields = new Map(target.fields.map((field) => [field.name.toLowerCase(), field]));
+  const shared = source.fields.filter((field) => targetFields.get(field.name.toLowerCase())?.type === field.type);
+  const dimensions: DrilldownDimension[] = [];
+
+  const recordType = shared.find((field) => field.name === 'RecordTypeId' && field.relationshipName);
+  if (recordType?.relationshipName) {
+    dimensions.push({ kind: 'field', field: `${recordType.relationshipName}.DeveloperName`, label: 'Record Type' });
+  }
+
+  for (const field of shared) {
+    if (
+      field.type === 'picklist' &&
+      field.groupable !== false &&
+      targetFields.get(field.name.toLowerCase())?.groupable !== false
+    ) {
+      dimensions.push({ kind: 'field', field: field.name, label: field.name });
+    }
+  }
+
+  if (shared.some((field) => field.name === DRILLDOWN_DATE_FIELD)) {
+    dimensions.push(
+      { kind: 'period', field: DRILLDOWN_DATE_FIELD, interval: 'year', label: `${DRILLDOWN_DATE_FIELD} (year)` },
+      { kind: 'period', field: DRILLDOWN_DATE_FIELD, interval: 'month', label: `${DRILLDOWN_DATE_FIELD} (month)` }
+    );
+  }
+
+  return dimensions;
+};
+
+const toLiteral = (value: GroupValue): SoqlLiteral => {
+  if (value === null) {
+    return { kind: 'null' };
+  }
+  if (typeof value === 'number') {
+    return { kind: 'number', value: value.toString() };
+  }
+  if (typeof value === 'boolean') {
+    return { kind: 'boolean', value };
+  }
+  return { kind: 'string', value };
+};
+
+const formatInstant = (year: number, monthIndex: number): string =>
+  new Date(Date.UTC(year, monthIndex, 1)).toISOString().replace('.000Z', 'Z');
+
+// Periods are bucketed in UTC, so each maps to a half-open UTC range.
+const buildPeriodCondition = (field: string, interval: 'year' | 'month', period: string): SoqlCondition => {
+  const [year, month] = period.split('-').map(Number);
+  if (Number.isNaN(year) || (interval === 'month' && Number.isNaN(month))) {
+    return { kind: 'comparison', field, operator: '=', value: { kind: 'null' } };
+  }
+
+  const start = interval === 'year' ? formatInstant(year, 0) : formatInstant(year, month - 1);
+  const end = interval === 'year' ? formatInstant(year + 1, 0) : formatInstant(year, month);
+  return {
+    kind: 'and',
+    operands: [
+      { kind: 'comparison', field, operator: '>=', value: { kind: 'datetime', value: start } },
+      { kind: 'comparison', field, operator: '<', value: { kind: 'datetime', value: end } },
+    ],
+  };
+};
+
+const toNumber = (value: number | string | null): number => (typeof value === 'number' ? value : 0);
+
+/** Picks the slice with the largest absolute difference; dimensions with a single slice localize nothing. */
+const pickStep = (dimension: DrilldownDimension, rows: MetricComparisonRow[]): DrilldownStep | undefined => {
+  const slices = rows.map((row) => {
+    const sourceValue = toNumber(row.sourceValue);
+    const targetValue = toNumber(row.targetValue);
+    if (dimension.kind === 'field') {
+      const value = row.group?.[dimension.field] ?? null;
+      return {
+        slice: value === null ? 'null' : String(value),
+        condition: formatSoqlCondition({
+          kind: 'comparison',
+          field: dimension.field,
+          operator: '=',
+          value: toLiteral(value),
+        }),
+        sourceValue,
+        targetValue,
+        difference: targetValue - sourceValue,
+      };
+    }
+    const period = row.period ?? '';
+    return {
+      slice: period,
+      condition: formatSoqlCondition(buildPeriodCondition(dimension.field, dimension.interval, period)),
+      sourceValue,
+      targetValue,
+      difference: targetValue - sourceValue,
+    };
+  });
+
+  const total = slices.reduce((sum, slice) => sum + Math.abs(slice.difference), 0);
+  if (slices.length < 2 || total === 0) {
+    return undefined;
+  }
+
+  const top = slices.reduce((best, slice) => (Math.abs(slice.difference) > Math.abs(best.difference) ? slice : best));
+  return { dimension: dimension.label, ...top, share: Math.abs(top.difference) / total };
+};
+
+const drillDownMetric = async (
+  context: ObjectComparisonContext,
+  request: ObjectComparisonRequest,
+  token: string,
+  dimensions: DrilldownDimension[],
+  depth: number,
+  where = request.where
+): Promise<DrilldownStep[]> => {
+  if (depth <= 0 || dimensions.length === 0) {
+    return [];
+  }
+
+  // Dimensions run one after another to keep the API load on both orgs predictable.
+  const steps = await mapSequentially(dimensions, async (dimension) => {
+    const section = await compareObject(context, {
+      object: request.object,
+      metrics: [token],
+      where,
+      groupBy: dimension.kind === 'field' ? [dimension.field] : undefined,
+      bucketing:
+        dimension.kind === 'period'
+          ? { field: dimension.field, interval: dimension.interval, timeZone: 'utc' }
+          : undefined,
+      sampleSize: 0,
+      tolerance: request.tolerance,
+      failOnDifference: false,
+      chunking: request.chunking,
+    });
+    return pickStep(dimension, section.metrics);
+  });
+
+  const best = steps.reduce<{ dimension: DrilldownDimension; step: DrilldownStep } | undefined>(
+    (current, step, index) =>
+      step && (!current || step.share > current.step.share) ? { dimension: dimensions[index], step } : current,
+    undefined
+  );
+  if (!best) {
+    return [];
+  }
+
+  const chosen = best.dimension;
+  // A month already fixes its year; a year still leaves its months to split.
+  const remaining = dimensions.filter(
+    (dimension) =>
+      dimension !== chosen && !(chosen.kind === 'period' && chosen.interval === 'month' && dimension.kind === 'period')
+  );
+  const rest = await drillDownMetric(
+    context,
+    request,
+    token,
+    remaining,
+    depth - 1,
+    combineWhereClauses(where, best.step.condition)
+  );
+  return [best.step, ...rest];
+};
+
+/**
+ * Localizes each out-of-tolerance count or sum: re-runs the metric grouped by every candidate dimension, follows
+ * the slice that holds the largest share of the difference, and repeats inside that slice up to `depth` levels.
+ * Only top-level rows are drilled; grouped and bucketed rows are already sliced.
+ */
+export const drillDown = async (
+  context: ObjectComparisonContext,
+  request: ObjectComparisonRequest,
+  rows: MetricComparisonRow[],
+  depth = DEFAULT_DRILLDOWN_DEPTH
+): Promise<MetricDrilldown[]> => {
+  const candidates = rows.flatMap((row) => {
+    const token = toDrilldownToken(row.metric);
+    return row.status === 'fail' && !row.group && row.period === undefined && token && row.difference !== null
+      ? [{ row, token, difference: row.difference }]
+      : [];
+  });
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const [sourceDescribe, targetDescribe] = await Promise.all([
+    describeNamespacedObject(context.sourceMetadata, request.object, context.namespaces?.source),
+    describeNamespacedObject(context.targetMetadata, request.object, context.namespaces?.target),
+  ]);
+  const dimensions = listDrilldownDimensions(sourceDescribe, targetDescribe);
+
+  return mapSequentially(candidates, async ({ row, token, difference }) => ({
+    metric: row.metric,
+    alias: row.alias,
+    difference,
+    path: await drillDownMetric(context, request, token, dimensions, depth),
+  }));
+};
@@ -0,0 +1,316 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Connection } from '@salesforce/core';
+import { SfError } from '@salesforce/core';
+
+import type { GroupValue, OrgEvaluation } from './dataComparisonService.js';
+import { mapSequentially } from './chunkedAggregation.js';
+import type { SimpleDescribeSObjectResult } from './metadataDiscoveryService.js';
+import { executeQuery, type QueryExecution } from './queryExecutor.js';
+import type { ValueMapping } from './schemaMapping.js';
+import { formatSoqlCondition, parseSoqlCondition, type SoqlCondition } from './soqlCondition.js';
+
+/** The natural key of every object whose IDs are translated, used unless `--id-key` names another field. */
+export const DEFAULT_ID_KEYS: Record<string, string> = {
+  User: 'Username',
+  RecordType: 'DeveloperName',
+  Group: 'DeveloperName',
+};
+
+/** A lookup field whose IDs are replaced by the natural keys of the records it can point to. */
+export type IdLookup = {
+  field: string;
+  targets: Array<{ object: string; key: string }>;
+};
+
+type Queryable = Pick<Connection, 'query'>;
+
+const ID_PATTERN = /^[a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?$/;
+const BATCH_SIZE = 200;
+
+/** Parses `--id-key` values of the form `<Object>=<Field>` on top of the default keys. */
+export const parseIdKeys = (values: string[] | undefined): Record<string, string> => {
+  const keys = { ...DEFAULT_ID_KEYS };
+  for (const value of values ?? []) {
+    const [object, field, ...rest] = value.split('=').map((part) => part.trim());
+    if (!object || !field || rest.length > 0) {
+      throw new SfError(
+        `Invalid ID key "${value}". Use <Object>=<Field>, for example Account=External_Id__c.`,
+        'InvalidIdKey'
+      );
+    }
+    keys[object] = field;
+  }
+  return keys;
+};
+
+const findKey = (keys: Record<string, string>, object: string): string | undefined =>
+  Object.entries(keys).find(([name]) => name.toLowerCase() === object.toLowerCase())?.[1];
+
+const shortId = (id: string): string => id.slice(0, 15);
+
+/**
+ * Lists the lookups among the given fields whose IDs are translated. Every object a lookup can point to needs a
+ * natural key; a polymorphic lookup such as OwnerId points to both users and queues.
+ */
+export const resolveIdLookups = (
+  describe: SimpleDescribeSObjectResult,
+  fields: string[],
+  keys: Record<string, string>
+): IdLookup[] =>
+  fields.flatMap((name) => {
+    const field = describe.fields.find((candidate) => candidate.name.toLowerCase() === name.toLowerCase());
+    if (field?.type !== 'reference' || !field.referenceTo?.length) {
+      return [];
+    }
+    const targets = field.referenceTo.map((object) => ({ object, key: findKey(keys, object) }));
+    const missing = targets.find((target) => target.key === undefined);
+    if (missing) {
+      throw new SfError(
+        `No natural key is known for ${missing.object}, so ${field.name} IDs cannot be translated.`,
+        'MissingIdKey',
+        [
+          `Name a unique field of ${missing.object} with --id-key ${missing.object}=<Field>, for example an external ID.`,
+        ]
+      );
+    }
+    return [{ field: name, targets: targets.map((target) => ({ object: target.object, key: target.key ?? '' })) }];
+  });
+
+const batches = (values: string[]): string[][] =>
+  Array.from({ length: Math.ceil(values.length / BATCH_SIZE) }, (_, index) =>
+    values.slice(index * BATCH_SIZE, (index + 1) * BATCH_SIZE)
+  );
+
+const inCondition = (field: string, values: string[]): string =>
+  formatSoqlCondition({
+    kind: 'set',
+    field,
+    operator: 'IN',
+    values: values.map((value) => ({ kind: 'string', value })),
+  });
+
+/** Record type developer names repeat across objects, so record types are only matched on the compared object. */
+const scopeCondition = (target: { object: string }, object: string): string | undefined =>
+  target.object.toLowerCase() === 'recordtype'
+    ? formatSoqlCondition({
+        kind: 'comparison',
+        field: 'SobjectType',
+        operator: '=',
+        value: { kind: 'string', value: object },
+      })
+    : undefined;
+
+/**
+ * Queries `<match field> IN (values)` in batches and maps each match value to the other field. A scope condition
+ * further limits the records that can match.
+ */
+const queryPairs = async (
+  connection: Queryable,
+  target: { object: string; key: string },
+  matchField: 'Id' | 'key',
+  values: string[],
+  execution: QueryExecution,
+  scope?: string
+): Promise<Array<{ id: string; key: string }>> => {
+  const field = matchField === 'Id' ? 'Id' : target.key;
+  const responses = await Promise.all(
+    batches(values).map((batch) =>
+      executeQuery(
+        connection,
+        `SELECT Id, ${target.key} FROM ${target.object} WHERE ${[inCondition(field, batch), scope]
+          .filter((condition) => condition !== undefined)
+          .join(' AND ')}`,
+        execution
+      )
+    )
+  );
+  return responses.flatMap((response) =>
+    response.records.flatMap((record) => {
+      const key = record[target.key];
+      return typeof record.Id === 'string' && (typeof key === 'string' || typeof key === 'number')
+        ? [{ id: record.Id, key: String(key) }]
+        : [];
+    })
+  );
+};
+
+/** Maps IDs to the natural keys of the records they point to. IDs without a match are left out. */
+const lookUpKeys = async (
+  connection: Queryable,
+  lookup: IdLookup,
+  ids: string[],
+  execution: QueryExecution
+): Promise<Map<string, string>> => {
+  const keys = new Map<string, string>();
+  if (ids.length === 0) {
+    return keys;
+  }
+  const pairs = await Promise.all(lookup.targets.map((target) => queryPairs(connection, target, 'Id', ids, execution)));
+  for (const { id, key } of pairs.flat()) {
+    keys.set(shortId(id), key);
+  }
+  return new Map(
+    ids.flatMap((id): Array<[string, string]> => {
+      const key = keys.get(shortId(id));
+      return key === undefined ? [] : [[id, key]];
+    })
+  );
+};
+
+/**
+ * Translates the IDs that the grouped results of one org hold in each lookup field into natural keys, keyed by
+ * lower-case field name, so groups can be joined across orgs whose record IDs differ.
+ */
+export const translateGroupIds = async (
+  connection: Queryable,
+  evaluation: OrgEvaluation,
+  lookups: IdLookup[],
+  execution: QueryExecution
+): Promise<Map<string, Map<string, string>>> => {
+  const translations = await Promise.all(
+    lookups.map(async (lookup): Promise<[string, Map<string, string>]> => {
+      const ids = new Set(
+        (evaluation.groups ?? [])
+          .map((entry) => entry.group[lookup.field])
+          .filter((value: GroupValue): value is string => typeof value === 'string' && ID_PATTERN.test(value))
+      );
+      return [lookup.field.toLowerCase(), await lookUpKeys(connection, lookup, Array.from(ids), execution)];
+    })
+  );
+  return new Map(translations);
+};
+
+/** Collects the string literals that look like record IDs, keyed by the field they are compared with. */
+const collectIdLiterals = (condition: SoqlCondition, found: Map<string, Set<string>>): void => {
+  switch (condition.kind) {
+    case 'and':
+    case 'or':
+      condition.operands.forEach((operand) => collectIdLiterals(operand, found));
+      return;
+    case 'not':
+      collectIdLiterals(condition.operand, found);
+      return;
+    default: {
+      const literals = condition.kind === 'set' ? condition.values : [condition.value];
+      for (const literal of literals) {
+        if (literal.kind === 'string' && ID_PATTERN.test(literal.value)) {
+          found.set(condition.field, (found.get(condition.field) ?? new Set<string>()).add(literal.value));
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Checks that no two IDs of a lookup translate to the same natural key. Their groups would be merged, which only
+ * works for metrics that add up, so this runs when the plan has another metric such as an average.
+ */
+export const assertDistinctKeys = (
+  keys: Map<string, Map<string, string>>,
+  lookups: IdLookup[],
+  { metric, orgLabel }: { metric: string; orgLabel: string }
+): void => {
+  for (const lookup of lookups) {
+    const ids = new Map<string, string>();
+    for (const [id, key] of keys.get(lookup.field.toLowerCase()) ?? []) {
+      const other = ids.get(key);
+      if (other !== undefined) {
+        throw new SfError(
+          `${lookup.field} IDs ${other} and ${id} in ${orgLabel} both translate to "${key}", so their groups cannot be merged for ${metric}.`,
+          'AmbiguousIdKey',
+          [
+            `Name a unique field with --id-key ${lookup.targets
+              .map((target) => target.object)
+              .join('|')}=<Field>, or compare only counts, sums, minimums and maximums.`,
+          ]
+        );
+      }
+      ids.set(key, id);
+    }
+  }
+};
+
+/** Maps natural keys to target IDs, refusing a key that more than one target record has. */
+const indexTargetIds = (lookup: IdLookup, pairs: Array<{ id: string; key: string }>): Map<string, string> => {
+  const ids = new Map<string, string>();
+  for (const { id, key } of pairs) {
+    const other = ids.get(key);
+    if (other !== undefined && other !== id) {
+      throw new SfError(
+        `${lookup.field} records ${other} and ${id} in the target org both have the natural key "${key}", so the filter cannot be translated.`,
+        'AmbiguousIdKey',
+        [
+          `Name a unique field with --id-key ${lookup.targets
+            .map((target) => target.object)
+            .join('|')}=<Field>, or filter on the natural key instead of the ID.`,
+        ]
+      );
+    }
+    ids.set(key, id);
+  }
+  return ids;
+};
+
+/**
+ * Translates the ID literals a filter compares lookup fields with into the IDs of the records with the same
+ * natural key in the target org. The result maps source IDs to target IDs per field, the way picklist values are
+ * mapped; IDs without a match in the target org are left as they are. Record types are matched on
+ * `targetObject`, the compared object's name in the target org.
+ */
+export const translateFilterIds = async (
+  connections: { source: Queryable; target: Queryable },
+  where: string,
+  {
+    describe,
+    keys,
+    targetObject,
+  }: { describe: SimpleDescribeSObjectResult; keys: Record<string, string>; targetObject: string },
+  executions: { source: QueryExecution; target: QueryExecution }
+): Promise<ValueMapping> => {
+  const found = new Map<string, Set<string>>();
+  collectIdLiterals(parseSoqlCondition(where), found);
+
+  const lookups = resolveIdLookups(describe, Array.from(found.keys()), keys);
+  // Lookups run one after another; filters rarely compare more than one lookup field.
+  const translated = await mapSequentially(lookups, async (lookup) => {
+    const ids = Array.from(found.get(lookup.field) ?? []);
+    const sourceKeys = await lookUpKeys(connections.source, lookup, ids, executions.source);
+    const naturalKeys = Array.from(new Set(sourceKeys.values()));
+    const targetPairs = await Promise.all(
+      lookup.targets.map((target) =>
+        naturalKeys.length > 0
+          ? queryPairs(
+              connections.target,
+              target,
+              'key',
+              naturalKeys,
+              executions.target,
+              scopeCondition(target, targetObject)
+            )
+          : []
+      )
+    );
+    const targetIds = indexTargetIds(lookup, targetPairs.flat());
+    const mapped = ids.flatMap((id): Array<[string, string[]]> => {
+      const targetId = targetIds.get(sourceKeys.get(id) ?? '');
+      return targetId ? [[id, [targetId]]] : [];
+    });
+    return mapped.length > 0 ? [[lookup.field, Object.fromEntries(mapped)] as const] : [];
+  });
+  return Object.fromEntries(translated.flat());
+};
@@ -20,15 +20,27 @@ import { dirname } from 'node:path';
 import { ensurePluginDataDir, getMetadataCachePath } from './dataPaths.js';
 
 const CACHE_VERSION = 1;
+const MAX_SIZE_ENV = 'SF_DATA_CACHE_MAX_MB';
+export const DEFAULT_CACHE_MAX_MB = 50;
 
 export type Cacheable = unknown;
 
 type CacheRecord = {
   fetchedAt: number;
+  /** Last time the entry was read or written; entries written before it was tracked fall back to fetchedAt. */
+  accessedAt?: number;
   type: string;
   data: Cacheable;
 };
 
+export type CacheEntry = {
+  key: string;
+  type: string;
+  fetchedAt: number;
+  accessedAt: number;
+  sizeBytes: number;
+};
+
 type CacheFile = {
   version: number;
   entries: Record<string, CacheRecord>;
@@ -36,18 +48,38 @@ type CacheFile = {
 
 const createDefaultCache = (): CacheFile => ({ version: CACHE_VERSION, entries: {} });
 
+/** Reads the maximum cache size from SF_DATA_CACHE_MAX_MB, falling back to 50 MB. */
+export const resolveCacheMaxBytes = (): number => {
+  const override = Number(process.env[MAX_SIZE_ENV]);
+  const megabytes = Number.isFinite(override) && override > 0 ? override : DEFAULT_CACHE_MAX_MB;
+  return Math.round(megabytes * 1024 * 1024);
+};
+
+// Entries read by any cache in this process since the last flush, with the time each was last read.
+const pendingAccesses = new Map<string, number>();
+
 export class MetadataCache {
   private readonly disabled: boolean;
   private readonly ttlMs: number;
   private cache: CacheFile | undefined;
   private readonly cachePath: string;
+  // Serialized size of each entry, measured once when it is loaded or written rather than on every eviction.
+  private readonly sizes = new Map<string, number>();
 
-  public constructor(ttlMinutes: number) {
+  public constructor(ttlMinutes: number, private readonly maxSizeBytes = resolveCacheMaxBytes()) {
     this.disabled = ttlMinutes <= 0;
     this.ttlMs = ttlMinutes * 60 * 1000;
     this.cachePath = getMetadataCachePath();
   }
 
+  public get path(): string {
+    return this.cachePath;
+  }
+
+  public get maxBytes(): number {
+    return this.maxSizeBytes;
+  }
+
   public async get<T extends Cacheable>(key: string, expectedType: string): Promise<T | undefined> {
     if (this.disabled) {
       return undefined;
@@ -64,6 +96,9 @@ export class MetadataCache {
       return undefined;
     }
 
+    // Reads stay free of disk writes; flushCacheAccessTimes saves the access times once the command is done.
+    record.accessedAt = Date.now();
+    pendingAccesses.set(key, record.accessedAt);
     return record.data as T;
   }
 
@@ -78,13 +113,89 @@ export class MetadataCache {
       this.cache = createDefaultCache();
     }
 
+    const now = Date.now();
     this.cache.entries[key] = {
-      fetchedAt: Date.now(),
+      fetchedAt: now,
+      accessedAt: now,
       type,
       data,
     } satisfies CacheRecord;
+    this.sizes.delete(key);
+
+    this.evict(key);
+    await this.persist();
+  }
+
+  /** Lists every cached entry, fresh or not, regardless of the TTL this cache was created with. */
+  public async list(): Promise<CacheEntry[]> {
+    await this.ensureLoaded();
+    return Object.entries(this.cache?.entries ?? {}).map(([key, record]) => this.toEntry(key, record));
+  }
+
+  /** Moves the access times of the given entries forward and saves them, skipping entries no longer cached. */
+  public async touch(accesses: Map<string, number>): Promise<void> {
+    await this.ensureLoaded();
+
+    let touched = false;
+    for (const [key, accessedAt] of accesses) {
+      const record = this.cache?.entries[key];
+      if (record && accessedAt > (record.accessedAt ?? record.fetchedAt)) {
+        record.accessedAt = accessedAt;
+        touched = true;
+      }
+    }
+    if (touched) {
+      await this.persist();
+    }
+  }
 
+  /** Removes the entries that match the predicate, or every entry without one, and returns what was removed. */
+  public async clear(predicate: (entry: CacheEntry) => boolean = (): boolean => true): Promise<CacheEntry[]> {
+    const removed = (await this.list()).filter(predicate);
+    if (removed.length === 0 || !this.cache) {
+      return removed;
+    }
+
+    for (const entry of removed) {
+      delete this.cache.entries[entry.key];
+      this.sizes.delete(entry.key);
+    }
     await this.persist();
+    return removed;
+  }
+
+  /** Drops the least recently used entries until the cache fits its maximum size, keeping the entry just written. */
+  private evict(keep: string): void {
+    const entries = Object.entries(this.cache?.entries ?? {})
+      .map(([key, record]) => this.toEntry(key, record))
+      .sort((left, right) => left.accessedAt - right.accessedAt);
+    let total = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+
+    for (const entry of entries) {
+      if (total <= this.maxSizeBytes) {
+        return;
+      }
+      if (entry.key !== keep && this.cache) {
+        delete this.cache.entries[entry.key];
+        this.sizes.delete(entry.key);
+        total -= entry.sizeBytes;
+      }
+    }
+  }
+
+  private toEntry(key: string, record: CacheRecord): CacheEntry {
+    let sizeBytes = this.sizes.get(key);
+    if (sizeBytes === undefined) {
+      sizeBytes = Buffer.byteLength(JSON.stringify(record), 'utf8');
+      this.sizes.set(key, sizeBytes);
+    }
+    return {
+      key,
+      type: record.type,
+      fetchedAt: record.fetchedAt,
+      accessedAt: record.accessedAt ?? record.fetchedAt,
+      sizeBytes,
+    };
   }
 
   private isRecordFresh(record: CacheRecord): boolean {
@@ -100,7 +211,7 @@ export class MetadataCache {
   }
 
   private async ensureLoaded(): Promise<void> {
-    if (this.disabled || this.cache) {
+    if (this.cache) {
       return;
     }
 
@@ -121,7 +232,7 @@ export class MetadataCache {
   }
 
   private async persist(): Promise<void> {
-    if (this.disabled || !this.cache) {
+    if (!this.cache) {
       return;
     }
 
@@ -133,3 +244,17 @@ export class MetadataCache {
     await fs.rename(tmpPath, this.cachePath);
   }
 }
+
+/**
+ * Saves the access times of the entries read since the last flush, so the least recently used entries are the ones
+ * evicted. Commands call this once they are done rather than writing the cache file on every read.
+ */
+export const flushCacheAccessTimes = async (): Promise<void> => {
+  if (pendingAccesses.size === 0) {
+    return;
+  }
+  const accesses = new Map(pendingAccesses);
+  pendingAccesses.clear();
+  // A cache of its own reads the file as other caches in this process left it.
+  await new MetadataCache(0).touch(accesses);
+};
@@ -17,27 +17,46 @@
 import type { Connection, Org } from '@salesforce/core';
 import { SfError } from '@salesforce/core';
 
-import { MetadataCache } from './metadataCache.js';
+import { MetadataCache, type CacheEntry } from './metadataCache.js';
 
-type SimpleDescribeField = {
+export type SimpleDescribeField = {
   name: string;
   label?: string;
   type: string;
+  length?: number;
+  precision?: number;
+  scale?: number;
   aggregatable?: boolean;
   filterable?: boolean;
+  groupable?: boolean;
+  externalId?: boolean;
+  idLookup?: boolean;
+  unique?: boolean;
+  relationshipName?: string;
+  referenceTo?: string[];
+  picklistValues?: Array<{ value: string; label?: string; active?: boolean }>;
 };
 
-type SimpleDescribeSObjectResult = {
+export type SimpleDescribeSObjectResult = {
   name: string;
   fields: SimpleDescribeField[];
 };
 
-type SimpleDescribeGlobalResult = {
-  sobjects: Array<{ name: string }>;
+export type SimpleDescribeGlobalResult = {
+  sobjects: Array<{ name: string; label?: string; queryable?: boolean }>;
 };
 
-type SimpleDescribeMetadataResult = Record<string, unknown>;
-type SimpleListMetadataResult = Record<string, unknown>;
+export type SimpleDescribeMetadataResult = {
+  metadataObjects?: Array<{ xmlName: string; childXmlNames?: string[]; inFolder?: boolean }>;
+};
+
+export type SimpleListMetadataResult = {
+  fullName: string;
+  type: string;
+  lastModifiedDate?: string;
+  lastModifiedByName?: string;
+  namespacePrefix?: string;
+};
 type SimpleListMetadataQuery = { type: string; folder?: string };
 import { ensurePluginDataDir } from './dataPaths.js';
 
@@ -48,6 +67,30 @@ const TYPES = {
   metadataList: 'metadataList',
 } as const;
 
+export type MetadataCacheType = (typeof TYPES)[keyof typeof TYPES];
+
+export const METADATA_CACHE_TYPES: MetadataCacheType[] = Object.values(TYPES);
+
+/** A cache entry with the org, API version and object or metadata type its key was built from. */
+export type MetadataCacheEntry = CacheEntry & {
+  orgId: string;
+  apiVersion: string;
+  name?: string;
+};
+
+/** Splits a cache key into its org ID, API version and, for sObject describes and metadata lists, the name. */
+export const describeCacheEntry = (entry: CacheEntry): MetadataCacheEntry => {
+  const [orgId = '', apiVersion = '', ...rest] = entry.key.split(':');
+  const subject = rest.join(':');
+  const name =
+    entry.type === TYPES.describeSObject
+      ? subject.replace(/^sobject:/, '')
+      : entry.type === TYPES.metadataList
+      ? subject
+      : undefined;
+  return { ...entry, orgId, apiVersion, name };
+};
+
 const buildDescribeKey = (orgId: string, apiVersion: string, objectApiName?: string): string => {
   const base = `${orgId}:${apiVersion}`;
   return objectApiName ? `${base}:sobject:${objectApiName.toLowerCase()}` : `${base}:global`;
@@ -0,0 +1,179 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SfError } from '@salesforce/core';
+
+import type {
+  MetadataDiscoveryService,
+  SimpleDescribeMetadataResult,
+  SimpleListMetadataResult,
+} from './metadataDiscoveryService.js';
+
+/** Metadata types inventoried when none are requested: the automation that most often explains data drift. */
+export const DEFAULT_METADATA_TYPES = ['CustomObject', 'Flow', 'ValidationRule', 'ApexTrigger'];
+
+/**
+ * A component that differs between the orgs: it exists in only one of them, or it was last modified at a
+ * different time in each.
+ */
+export type MetadataComponentDifference = {
+  type: string;
+  fullName: string;
+  status: 'missing-in-target' | 'missing-in-source' | 'modified';
+  sourceLastModified?: string;
+  targetLastModified?: string;
+  sourceLastModifiedBy?: string;
+  targetLastModifiedBy?: string;
+};
+
+export type MetadataTypeSummary = {
+  type: string;
+  sourceComponents: number;
+  targetComponents: number;
+  missingInTarget: number;
+  missingInSource: number;
+  modified: number;
+  unchanged: number;
+};
+
+export type MetadataInventoryComparison = {
+  types: MetadataTypeSummary[];
+  differences: MetadataComponentDifference[];
+};
+
+const listTypeNames = (describe: SimpleDescribeMetadataResult): Map<string, { name: string; inFolder: boolean }> =>
+  new Map(
+    (describe.metadataObjects ?? []).flatMap((entry) => [
+      [entry.xmlName.toLowerCase(), { name: entry.xmlName, inFolder: entry.inFolder === true }] as const,
+      ...(entry.childXmlNames ?? []).map((child) => [child.toLowerCase(), { name: child, inFolder: false }] as const),
+    ])
+  );
+
+/**
+ * Resolves the requested metadata types against describeMetadata of both orgs, correcting their case. Child types
+ * such as ValidationRule are accepted; types stored in folders are not, because they are listed per folder.
+ */
+export const resolveMetadataTypes = (
+  requested: string[] | undefined,
+  sourceDescribe: SimpleDescribeMetadataResult,
+  targetDescribe: SimpleDescribeMetadataResult
+): string[] => {
+  const tokens = (requested ?? [])
+    .flatMap((token) => token.split(','))
+    .map((token) => token.trim())
+    .filter((token) => token.length > 0);
+  const known = new Map([...listTypeNames(targetDescribe), ...listTypeNames(sourceDescribe)]);
+
+  const types = (tokens.length > 0 ? tokens : DEFAULT_METADATA_TYPES).map((token) => {
+    const type = known.get(token.toLowerCase());
+    if (!type) {
+      throw new SfError(`Metadata type "${token}" is not available in either org.`, 'UnknownMetadataType', [
+        'Use a metadata type name from the Metadata API, for example CustomObject, Flow or ApexTrigger.',
+      ]);
+    }
+    if (type.inFolder) {
+      throw new SfError(
+        `Metadata type "${type.name}" is stored in folders and cannot be inventoried.`,
+        'FolderedMetadataType'
+      );
+    }
+    return type.name;
+  });
+  return Array.from(new Set(types));
+};
+
+const compareType = (
+  type: string,
+  sourceComponents: SimpleListMetadataResult[],
+  targetComponents: SimpleListMetadataResult[]
+): { summary: MetadataTypeSummary; differences: MetadataComponentDifference[] } => {
+  const targetByName = new Map(targetComponents.map((component) => [component.fullName, component]));
+  const sourceNames = new Set(sourceComponents.map((component) => component.fullName));
+
+  const differences: MetadataComponentDifference[] = [];
+  let unchanged = 0;
+  for (const source of sourceComponents) {
+    const target = targetByName.get(source.fullName);
+    if (target && target.lastModifiedDate === source.lastModifiedDate) {
+      unchanged += 1;
+      continue;
+    }
+    differences.push({
+      type,
+      fullName: source.fullName,
+      status: target ? 'modified' : 'missing-in-target',
+      sourceLastModified: source.lastModifiedDate,
+      targetLastModified: target?.lastModifiedDate,
+      sourceLastModifiedBy: source.lastModifiedByName,
+      targetLastModifiedBy: target?.lastModifiedByName,
+    });
+  }
+  for (const target of targetComponents) {
+    if (!sourceNames.has(target.fullName)) {
+      differences.push({
+        type,
+        fullName: target.fullName,
+        status: 'missing-in-source',
+        targetLastModified: target.lastModifiedDate,
+        targetLastModifiedBy: target.lastModifiedByName,
+      });
+    }
+  }
+
+  differences.sort((left, right) => left.fullName.localeCompare(right.fullName));
+  const count = (status: MetadataComponentDifference['status']): number =>
+    differences.filter((difference) => difference.status === status).length;
+  return {
+    summary: {
+      type,
+      sourceComponents: sourceComponents.length,
+      targetComponents: targetComponents.length,
+      missingInTarget: count('missing-in-target'),
+      missingInSource: count('missing-in-source'),
+      modified: count('modified'),
+      unchanged,
+    },
+    differences,
+  };
+};
+
+/**
+ * Inventories metadata types in both orgs with listMetadata and reports the components that exist in only one
+ * org or were last modified at a different time.
+ */
+export const compareMetadataInventory = async (
+  source: MetadataDiscoveryService,
+  target: MetadataDiscoveryService,
+  requestedTypes?: string[]
+): Promise<MetadataInventoryComparison> => {
+  const [sourceDescribe, targetDescribe] = await Promise.all([source.describeMetadata(), target.describeMetadata()]);
+  const types = resolveMetadataTypes(requestedTypes, sourceDescribe, targetDescribe);
+
+  const compared = await Promise.all(
+    types.map(async (type) => {
+      const [sourceComponents, targetComponents] = await Promise.all([
+        source.listMetadata(type),
+        target.listMetadata(type),
+      ]);
+      return compareType(type, sourceComponents, targetComponents);
+    })
+  );
+
+  return {
+    types: compared.map((entry) => entry.summary),
+    differences: compared.flatMap((entry) => entry.differences),
+  };
+};
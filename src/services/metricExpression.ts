@@ -0,0 +1,253 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SfError } from '@salesforce/core';
+
+export type ExpressionOperator = '+' | '-' | '*' | '/';
+
+/** Arithmetic over metric operands. `M` is the operand at each stage: parsed, resolved, or a query alias. */
+export type MetricExpression<M> =
+  | { type: 'number'; value: number }
+  | { type: 'metric'; metric: M }
+  | { type: 'binary'; operator: ExpressionOperator; left: MetricExpression<M>; right: MetricExpression<M> };
+
+const PRECEDENCE: Record<ExpressionOperator, number> = { '+': 1, '-': 1, '*': 2, '/': 2 };
+// Percentile keywords such as p90 or p99.5 carry digits; they are read whole so they can be rejected by name.
+const KEYWORD_PATTERN = /^p\d{1,2}(?:\.\d+)?(?=:)|^[a-z][a-z-]*/i;
+const FIELD_PATTERN = /^[A-Za-z][A-Za-z0-9_.]*/;
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?/;
+
+const invalidExpression = (source: string, reason: string): SfError =>
+  new SfError(`Invalid metric expression "${source}": ${reason}`, 'InvalidMetric');
+
+/**
+ * Parses `+ - * /` and parentheses over metric operands such as `count`, `sum:Amount`,
+ * `count-if:(IsWon = true)` and `sum-if:Amount:(IsWon = true)`. Conditions must be wrapped in parentheses
+ * or double quotes so that operators inside them are not read as arithmetic. Each operand is handed to `parseOperand` using
+ * the regular metric syntax.
+ */
+export const parseMetricExpression = <M>(source: string, parseOperand: (token: string) => M): MetricExpression<M> => {
+  let position = 0;
+
+  const skipWhitespace = (): void => {
+    while (position < source.length && /\s/.test(source[position])) {
+      position++;
+    }
+  };
+
+  const peek = (): string | undefined => {
+    skipWhitespace();
+    return source[position];
+  };
+
+  const readPattern = (pattern: RegExp, expected: string): string => {
+    skipWhitespace();
+    const match = pattern.exec(source.slice(position));
+    if (!match) {
+      throw invalidExpression(source, `expected ${expected} at position ${position + 1}.`);
+    }
+    position += match[0].length;
+    return match[0];
+  };
+
+  const expect = (character: string): void => {
+    if (peek() !== character) {
+      throw invalidExpression(source, `expected "${character}" at position ${position + 1}.`);
+    }
+    position++;
+  };
+
+  const readQuotedCondition = (): string => {
+    const match = /^"((?:[^"\\]|\\.)*)"/.exec(source.slice(position));
+    if (!match) {
+      throw invalidExpression(source, 'unterminated double quote in condition.');
+    }
+    position += match[0].length;
+    return `"${match[1]}"`;
+  };
+
+  // Reads a parenthesized condition, keeping nested parentheses and quoted literals intact.
+  const readCondition = (): string => {
+    if (peek() === '"') {
+      return readQuotedCondition();
+    }
+    expect('(');
+    const start = position;
+    let depth = 1;
+    let quote: string | undefined;
+    for (; position < source.length; position++) {
+      const character = source[position];
+      if (quote) {
+        if (character === '\\') {
+          position++;
+        } else if (character === quote) {
+          quote = undefined;
+        }
+      } else if (character === "'" || character === '"') {
+        quote = character;
+      } else if (character === '(') {
+        depth++;
+      } else if (character === ')' && --depth === 0) {
+        const condition = source.slice(start, position).trim();
+        position++;
+        if (!condition) {
+          throw invalidExpression(source, 'conditions must not be empty.');
+        }
+        return condition;
+      }
+    }
+    throw invalidExpression(source, 'unbalanced parentheses in condition.');
+  };
+
+  const parseOperandToken = (): M => {
+    const keyword = readPattern(KEYWORD_PATTERN, 'a metric').toLowerCase();
+    if (peek() !== ':') {
+      return parseOperand(keyword);
+    }
+    position++;
+
+    if (keyword === 'count-if') {
+      return parseOperand(`count-if:${readCondition()}`);
+    }
+    if (keyword === 'sum-if') {
+      const field = readPattern(FIELD_PATTERN, 'a field name');
+      expect(':');
+      return parseOperand(`sum-if:${field}:${readCondition()}`);
+    }
+    if (keyword === 'ratio' || keyword === 'expr') {
+      throw invalidExpression(source, `${keyword} metrics cannot be nested inside an expression.`);
+    }
+    return parseOperand(`${keyword}:${readPattern(FIELD_PATTERN, 'a field name')}`);
+  };
+
+  const parseFactor = (): MetricExpression<M> => {
+    const next = peek();
+    if (next === '(') {
+      position++;
+      const inner = parseSum();
+      expect(')');
+      return inner;
+    }
+    if (next === '-') {
+      position++;
+      return { type: 'binary', operator: '-', left: { type: 'number', value: 0 }, right: parseFactor() };
+    }
+    if (next !== undefined && /\d/.test(next)) {
+      return { type: 'number', value: Number(readPattern(NUMBER_PATTERN, 'a number')) };
+    }
+    return { type: 'metric', metric: parseOperandToken() };
+  };
+
+  const parseBinary = (
+    operators: ExpressionOperator[],
+    parseOperandExpression: () => MetricExpression<M>
+  ): MetricExpression<M> => {
+    let left = parseOperandExpression();
+    for (let next = peek(); next && (operators as string[]).includes(next); next = peek()) {
+      position++;
+      left = { type: 'binary', operator: next as ExpressionOperator, left, right: parseOperandExpression() };
+    }
+    return left;
+  };
+
+  const parseProduct = (): MetricExpression<M> => parseBinary(['*', '/'], parseFactor);
+  const parseSum = (): MetricExpression<M> => parseBinary(['+', '-'], parseProduct);
+
+  const expression = parseSum();
+  if (peek() !== undefined) {
+    throw invalidExpression(source, `unexpected "${source[position]}" at position ${position + 1}.`);
+  }
+  return expression;
+};
+
+export const mapExpression = <M, N>(expression: MetricExpression<M>, map: (metric: M) => N): MetricExpression<N> => {
+  switch (expression.type) {
+    case 'number':
+      return expression;
+    case 'metric':
+      return { type: 'metric', metric: map(expression.metric) };
+    case 'binary':
+      return {
+        type: 'binary',
+        operator: expression.operator,
+        left: mapExpression(expression.left, map),
+        right: mapExpression(expression.right, map),
+      };
+  }
+};
+
+export const collectExpressionMetrics = <M>(expression: MetricExpression<M>): M[] => {
+  switch (expression.type) {
+    case 'number':
+      return [];
+    case 'metric':
+      return [expression.metric];
+    case 'binary':
+      return [...collectExpressionMetrics(expression.left), ...collectExpressionMetrics(expression.right)];
+  }
+};
+
+/** Renders the expression with the minimum parentheses needed to keep its meaning. */
+export const formatExpression = <M>(expression: MetricExpression<M>, formatMetric: (metric: M) => string): string => {
+  const format = (node: MetricExpression<M>, parentPrecedence: number, isRightOperand: boolean): string => {
+    if (node.type === 'number') {
+      return node.value.toString();
+    }
+    if (node.type === 'metric') {
+      return formatMetric(node.metric);
+    }
+
+    const precedence = PRECEDENCE[node.operator];
+    const text = `${format(node.left, precedence, false)} ${node.operator} ${format(node.right, precedence, true)}`;
+    const needsParentheses = precedence < parentPrecedence || (isRightOperand && precedence === parentPrecedence);
+    return needsParentheses ? `(${text})` : text;
+  };
+
+  return format(expression, 0, false);
+};
+
+/**
+ * Evaluates the expression for one org. Missing operand values and division by zero yield null rather
+ * than NaN or Infinity, matching how ratio metrics behave.
+ */
+export const evaluateExpression = <M>(
+  expression: MetricExpression<M>,
+  resolveMetric: (metric: M) => number | null
+): number | null => {
+  switch (expression.type) {
+    case 'number':
+      return expression.value;
+    case 'metric':
+      return resolveMetric(expression.metric);
+    case 'binary': {
+      const left = evaluateExpression(expression.left, resolveMetric);
+      const right = evaluateExpression(expression.right, resolveMetric);
+      if (left === null || right === null) {
+        return null;
+      }
+      switch (expression.operator) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return right === 0 ? null : left / right;
+      }
+    }
+  }
+};
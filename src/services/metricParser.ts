@@ -16,11 +16,18 @@
 
 import { SfError } from '@salesforce/core';
 
+import { formatExpression, mapExpression, parseMetricExpression, type MetricExpression } from './metricExpression.js';
+import { splitMetricLabel, splitMetricList, unwrapCondition } from './metricTokenizer.js';
+import { resolveSoqlCondition } from './soqlCondition.js';
+
 type SimpleDescribeField = {
   name: string;
   label?: string;
   type: string;
   aggregatable?: boolean;
+  groupable?: boolean;
+  filterable?: boolean;
+  relationshipName?: string;
 };
 
 type SimpleDescribeSObjectResult = {
@@ -32,18 +39,38 @@ export type MetricValueType = 'number' | 'date';
 
 export type SimpleAggregateFunction = 'sum' | 'avg' | 'min' | 'max' | 'median' | 'stddev' | 'variance';
 
+/** Aggregates SOQL has no function for; they are computed client-side from the streamed field values. */
+export type ClientStatisticFunction = Extract<SimpleAggregateFunction, 'median' | 'stddev' | 'variance'>;
+
+export const isClientStatistic = (fn: SimpleAggregateFunction): fn is ClientStatisticFunction =>
+  fn === 'median' || fn === 'stddev' || fn === 'variance';
+
 export type ParsedSimpleAggregate = {
   fn: SimpleAggregateFunction;
   field: string;
 };
 
-export type ParsedMetric =
+/** Name given to a metric with an `as "Label"` suffix; replaces the generated label in every report. */
+type MetricDisplayLabel = { displayLabel?: string };
+
+export type ParsedMetric = (
   | { kind: 'count' }
   | { kind: 'fieldAggregate'; aggregate: ParsedSimpleAggregate }
   | { kind: 'countDistinct'; field: string }
   | { kind: 'ratio'; numerator: ParsedSimpleAggregate; denominator: ParsedSimpleAggregate; label?: string }
   | { kind: 'countIf'; condition: string }
-  | { kind: 'sumIf'; field: string; condition: string };
+  | { kind: 'sumIf'; field: string; condition: string }
+  | { kind: 'expression'; expression: MetricExpression<ParsedOperandMetric> }
+  | { kind: 'percentile'; field: string; percentile: number }
+  | { kind: 'histogram'; field: string; buckets: number }
+  | { kind: 'frequency'; field: string; top: number }
+) &
+  MetricDisplayLabel;
+
+export type ParsedOperandMetric = Exclude<
+  ParsedMetric,
+  { kind: 'ratio' | 'expression' | 'percentile' | 'histogram' | 'frequency' }
+>;
 
 export type ResolvedFieldAggregateMetric = {
   kind: 'fieldAggregate';
@@ -54,7 +81,7 @@ export type ResolvedFieldAggregateMetric = {
   valueType: MetricValueType;
 };
 
-export type ResolvedMetric =
+export type ResolvedMetric = (
   | { kind: 'count'; valueType: MetricValueType }
   | ResolvedFieldAggregateMetric
   | { kind: 'countDistinct'; field: string; fieldType: string; label?: string; valueType: MetricValueType }
@@ -66,14 +93,79 @@ export type ResolvedMetric =
       valueType: MetricValueType;
     }
   | { kind: 'countIf'; condition: string; valueType: MetricValueType }
-  | { kind: 'sumIf'; field: string; fieldType: string; condition: string; label?: string; valueType: MetricValueType };
+  | { kind: 'sumIf'; field: string; fieldType: string; condition: string; label?: string; valueType: MetricValueType }
+  | {
+      kind: 'expression';
+      label: string;
+      expression: MetricExpression<ResolvedOperandMetric>;
+      valueType: MetricValueType;
+    }
+  | {
+      kind: 'percentile';
+      field: string;
+      fieldType: string;
+      percentile: number;
+      label?: string;
+      valueType: MetricValueType;
+    }
+  | ResolvedDistributionMetric
+) &
+  MetricDisplayLabel;
+
+/** Metrics compared bucket by bucket; their row values are the number of values counted in each org. */
+export type ResolvedDistributionMetric =
+  | { kind: 'histogram'; field: string; fieldType: string; buckets: number; label?: string; valueType: MetricValueType }
+  | { kind: 'frequency'; field: string; fieldType: string; top: number; label?: string; valueType: MetricValueType };
+
+export type ResolvedOperandMetric = Exclude<
+  ResolvedMetric,
+  { kind: 'ratio' | 'expression' | 'percentile' | 'histogram' | 'frequency' }
+>;
 
 const SIMPLE_AGGREGATES: SimpleAggregateFunction[] = ['sum', 'avg', 'min', 'max', 'median', 'stddev', 'variance'];
 const NUMERIC_TYPES = new Set(['double', 'currency', 'percent', 'int', 'integer', 'long']);
 const DATE_TYPES = new Set(['date', 'datetime', 'time']);
 
+const PERCENTILE_PATTERN = /^p(\d{1,2}(?:\.\d+)?):/i;
+const DEFAULT_HISTOGRAM_BUCKETS = 10;
+const DEFAULT_FREQUENCY_TOP = 10;
+
 const normalize = (value: string): string => value.trim();
 
+// Reads `<field>[:<option>=<n>]` for histogram and frequency metrics.
+const parseDistributionToken = (
+  token: string,
+  body: string,
+  option: 'buckets' | 'top',
+  fallback: number,
+  range: { min: number; max: number }
+): { field: string; value: number } => {
+  const [rawField, ...settings] = body.split(':');
+  const field = normalize(rawField);
+  if (!field) {
+    throw new SfError(`Metric "${token}" must specify a field.`, 'InvalidMetric');
+  }
+  if (settings.length > 1) {
+    throw new SfError(`Metric "${token}" accepts only the ${option}=<n> option.`, 'InvalidMetric');
+  }
+  if (settings.length === 0) {
+    return { field, value: fallback };
+  }
+
+  const match = /^\s*([a-z]+)\s*=\s*(\d+)\s*$/i.exec(settings[0]);
+  if (match?.[1].toLowerCase() !== option) {
+    throw new SfError(`Metric "${token}" accepts only the ${option}=<n> option.`, 'InvalidMetric');
+  }
+  const value = Number(match[2]);
+  if (value < range.min || value > range.max) {
+    throw new SfError(
+      `${option} in metric "${token}" must be between ${range.min.toString()} and ${range.max.toString()}.`,
+      'InvalidMetric'
+    );
+  }
+  return { field, value };
+};
+
 const parseSimpleAggregateToken = (token: string): ParsedSimpleAggregate => {
   const separatorIndex = token.indexOf(':');
   if (separatorIndex === -1) {
@@ -94,17 +186,37 @@ const parseSimpleAggregateToken = (token: string): ParsedSimpleAggregate => {
 };
 
 export const parseMetricTokens = (tokens: string[] | undefined): ParsedMetric[] => {
-  const input =
-    tokens
-      ?.flatMap((token) => token.split(','))
-      .map((token) => token.trim())
-      .filter((token) => token.length > 0) ?? [];
+  const input = tokens?.flatMap((token) => splitMetricList(token)) ?? [];
 
   if (input.length === 0) {
     return [{ kind: 'count' }];
   }
 
-  return input.map((token) => parseMetricToken(token));
+  return input.map((token) => {
+    const { body, label } = splitMetricLabel(token);
+    const metric = parseMetricToken(body);
+    return label ? { ...metric, displayLabel: label } : metric;
+  });
+};
+
+/** Expression operands must come from the aggregate queries; streamed statistics and distributions cannot. */
+const isOperandMetric = (metric: ParsedMetric): metric is ParsedOperandMetric =>
+  metric.kind !== 'ratio' &&
+  metric.kind !== 'expression' &&
+  metric.kind !== 'percentile' &&
+  metric.kind !== 'histogram' &&
+  metric.kind !== 'frequency' &&
+  !(metric.kind === 'fieldAggregate' && isClientStatistic(metric.aggregate.fn));
+
+const parseExpressionOperand = (operand: string): ParsedOperandMetric => {
+  const metric = parseMetricToken(operand);
+  if (!isOperandMetric(metric)) {
+    throw new SfError(
+      `"${operand}" cannot be used in an expression metric. Operands can be count, count-distinct, sum, avg, min, max, count-if and sum-if metrics.`,
+      'InvalidMetric'
+    );
+  }
+  return metric;
 };
 
 const parseMetricToken = (token: string): ParsedMetric => {
@@ -138,8 +250,17 @@ const parseMetricToken = (token: string): ParsedMetric => {
     return { kind: 'ratio', numerator, denominator } satisfies ParsedMetric;
   }
 
+  if (lower.startsWith('expr:')) {
+    const body = normalize(token.slice('expr:'.length));
+    if (!body) {
+      throw new SfError('expr metric requires an arithmetic expression.', 'InvalidMetric');
+    }
+    const expression = parseMetricExpression(body, parseExpressionOperand);
+    return { kind: 'expression', expression } satisfies ParsedMetric;
+  }
+
   if (lower.startsWith('count-if:')) {
-    const condition = normalize(token.slice('count-if:'.length));
+    const condition = unwrapCondition(token.slice('count-if:'.length));
     if (!condition) {
       throw new SfError('count-if metric requires a condition expression.', 'InvalidMetric');
     }
@@ -154,7 +275,7 @@ const parseMetricToken = (token: string): ParsedMetric => {
     }
 
     const field = normalize(body.slice(0, separatorIndex));
-    const condition = normalize(body.slice(separatorIndex + 1));
+    const condition = unwrapCondition(body.slice(separatorIndex + 1));
     if (!field || !condition) {
       throw new SfError('sum-if metric requires both field and condition.', 'InvalidMetric');
     }
@@ -162,14 +283,122 @@ const parseMetricToken = (token: string): ParsedMetric => {
     return { kind: 'sumIf', field, condition } satisfies ParsedMetric;
   }
 
+  if (lower.startsWith('histogram:')) {
+    const { field, value } = parseDistributionToken(
+      token,
+      token.slice('histogram:'.length),
+      'buckets',
+      DEFAULT_HISTOGRAM_BUCKETS,
+      { min: 2, max: 100 }
+    );
+    return { kind: 'histogram', field, buckets: value } satisfies ParsedMetric;
+  }
+
+  if (lower.startsWith('frequency:')) {
+    const { field, value } = parseDistributionToken(
+      token,
+      token.slice('frequency:'.length),
+      'top',
+      DEFAULT_FREQUENCY_TOP,
+      { min: 1, max: 100 }
+    );
+    return { kind: 'frequency', field, top: value } satisfies ParsedMetric;
+  }
+
+  const percentileMatch = PERCENTILE_PATTERN.exec(token);
+  if (percentileMatch) {
+    const percentile = Number(percentileMatch[1]);
+    const field = normalize(token.slice(percentileMatch[0].length));
+    if (percentile <= 0 || !field) {
+      throw new SfError(`Percentile metric "${token}" must follow p<1-99>:<field>.`, 'InvalidMetric');
+    }
+    return { kind: 'percentile', field, percentile } satisfies ParsedMetric;
+  }
+
   return { kind: 'fieldAggregate', aggregate: parseSimpleAggregateToken(token) } satisfies ParsedMetric;
 };
 
+export const formatMetricLabel = (metric: ResolvedMetric): string => {
+  if (metric.displayLabel) {
+    return metric.displayLabel;
+  }
+
+  switch (metric.kind) {
+    case 'count':
+      return 'COUNT(Id)';
+    case 'fieldAggregate':
+      return `${metric.fn.toUpperCase()}(${metric.field})`;
+    case 'countDistinct':
+      return `COUNT_DISTINCT(${metric.field})`;
+    case 'ratio':
+      return metric.label;
+    case 'countIf':
+      return `COUNT_IF(${metric.condition})`;
+    case 'sumIf':
+      return `SUM_IF(${metric.field}|${metric.condition})`;
+    case 'expression':
+      return metric.label;
+    case 'percentile':
+      return `P${metric.percentile.toString()}(${metric.field})`;
+    case 'histogram':
+      return `HISTOGRAM(${metric.field}, ${metric.buckets.toString()})`;
+    case 'frequency':
+      return `FREQUENCY(${metric.field}, ${metric.top.toString()})`;
+  }
+  const exhaustiveCheck: never = metric;
+  return exhaustiveCheck;
+};
+
+export const parseGroupByTokens = (tokens: string[] | undefined): string[] => {
+  const fields =
+    tokens
+      ?.flatMap((token) => token.split(','))
+      .map((token) => token.trim())
+      .filter((token) => token.length > 0) ?? [];
+
+  return Array.from(new Set(fields));
+};
+
+export const validateGroupByAgainstDescribe = (
+  fields: string[],
+  describe: SimpleDescribeSObjectResult,
+  orgLabel: string
+): string[] => {
+  const resolved = fields.map((fieldName) => {
+    const segments = fieldName.split('.');
+    if (segments.length > 1) {
+      // Only the first hop can be checked without describing the related object.
+      const relationship = describe.fields.find(
+        (candidate) => candidate.relationshipName?.toLowerCase() === segments[0].toLowerCase()
+      );
+      if (!relationship?.relationshipName) {
+        throw new SfError(
+          `Relationship "${segments[0]}" not found on object ${describe.name} in ${orgLabel}.`,
+          'FieldNotFound'
+        );
+      }
+      return [relationship.relationshipName, ...segments.slice(1)].join('.');
+    }
+
+    const field = ensureField(describe, fieldName, orgLabel);
+    if (field.groupable === false) {
+      throw new SfError(`Field "${field.name}" in ${orgLabel} cannot be used in GROUP BY.`, 'NonGroupableField');
+    }
+    return field.name;
+  });
+
+  return Array.from(new Set(resolved));
+};
+
 export const validateMetricsAgainstDescribe = (
   metrics: ParsedMetric[],
   describe: SimpleDescribeSObjectResult,
   orgLabel: string
-): ResolvedMetric[] => metrics.map((metric) => resolveMetric(metric, describe, orgLabel));
+): ResolvedMetric[] =>
+  metrics.map((metric) => {
+    const resolved = resolveMetric(metric, describe, orgLabel);
+    return metric.displayLabel ? { ...resolved, displayLabel: metric.displayLabel } : resolved;
+  });
 
 const resolveMetric = (
   metric: ParsedMetric,
@@ -210,7 +439,11 @@ const resolveMetric = (
       if (!metric.condition) {
         throw new SfError('count-if requires a condition expression.', 'InvalidMetric');
       }
-      return { kind: 'countIf', condition: metric.condition, valueType: 'number' } satisfies ResolvedMetric;
+      return {
+        kind: 'countIf',
+        condition: resolveSoqlCondition(metric.condition, describe, orgLabel),
+        valueType: 'number',
+      } satisfies ResolvedMetric;
     }
     case 'sumIf': {
       const field = ensureField(describe, metric.field, orgLabel);
@@ -224,7 +457,51 @@ const resolveMetric = (
         kind: 'sumIf',
         field: field.name,
         fieldType: field.type,
-        condition: metric.condition,
+        condition: resolveSoqlCondition(metric.condition, describe, orgLabel),
+        label: field.label ?? field.name,
+        valueType: 'number',
+      } satisfies ResolvedMetric;
+    }
+    case 'expression': {
+      const expression = mapExpression(metric.expression, (operand) =>
+        resolveExpressionOperand(operand, describe, orgLabel)
+      );
+      return {
+        kind: 'expression',
+        label: formatExpression(expression, formatMetricLabel),
+        expression,
+        valueType: 'number',
+      } satisfies ResolvedMetric;
+    }
+    case 'percentile': {
+      const field = ensureNumericField(describe, metric.field, orgLabel, `P${metric.percentile.toString()}`);
+      return {
+        kind: 'percentile',
+        field: field.name,
+        fieldType: field.type,
+        percentile: metric.percentile,
+        label: field.label ?? field.name,
+        valueType: 'number',
+      } satisfies ResolvedMetric;
+    }
+    case 'histogram': {
+      const field = ensureNumericField(describe, metric.field, orgLabel, 'HISTOGRAM');
+      return {
+        kind: 'histogram',
+        field: field.name,
+        fieldType: field.type,
+        buckets: metric.buckets,
+        label: field.label ?? field.name,
+        valueType: 'number',
+      } satisfies ResolvedMetric;
+    }
+    case 'frequency': {
+      const field = ensureField(describe, metric.field, orgLabel);
+      return {
+        kind: 'frequency',
+        field: field.name,
+        fieldType: field.type,
+        top: metric.top,
         label: field.label ?? field.name,
         valueType: 'number',
       } satisfies ResolvedMetric;
@@ -234,6 +511,21 @@ const resolveMetric = (
   }
 };
 
+const resolveExpressionOperand = (
+  operand: ParsedOperandMetric,
+  describe: SimpleDescribeSObjectResult,
+  orgLabel: string
+): ResolvedOperandMetric => {
+  const resolved = resolveMetric(operand, describe, orgLabel) as ResolvedOperandMetric;
+  if (resolved.valueType !== 'number') {
+    throw new SfError(
+      `${formatMetricLabel(resolved)} in ${orgLabel} is not numeric and cannot be used in an expression.`,
+      'UnsupportedFieldType'
+    );
+  }
+  return resolved;
+};
+
 const resolveSimpleAggregate = (
   aggregate: ParsedSimpleAggregate,
   describe: SimpleDescribeSObjectResult,
@@ -265,6 +557,22 @@ const ensureField = (
   return field;
 };
 
+const ensureNumericField = (
+  describe: SimpleDescribeSObjectResult,
+  fieldName: string,
+  orgLabel: string,
+  metricName: string
+): SimpleDescribeField => {
+  const field = ensureField(describe, fieldName, orgLabel);
+  if (!NUMERIC_TYPES.has(field.type)) {
+    throw new SfError(
+      `Field "${field.name}" in ${orgLabel} must be numeric for ${metricName} metric.`,
+      'UnsupportedFieldType'
+    );
+  }
+  return field;
+};
+
 const ensureAggregatableField = (metric: ParsedSimpleAggregate, field: SimpleDescribeField, orgLabel: string): void => {
   if (!field.aggregatable) {
     throw new SfError(
@@ -0,0 +1,130 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SfError } from '@salesforce/core';
+
+/*
+ * Lexical rules for the --metrics DSL:
+ *  - single quotes delimit SOQL literals and are kept verbatim ('Closed Won');
+ *  - double quotes delimit DSL strings, for labels or for a whole condition ("Amount > 0, Type = 'New'");
+ *  - a backslash escapes the next character inside either kind of quote;
+ *  - commas and the `as` keyword only count outside quotes and parentheses.
+ */
+
+const LABEL_PATTERN = /^\s+as\s+"((?:[^"\\]|\\.)*)"\s*$/i;
+
+const invalidMetric = (input: string, reason: string): SfError =>
+  new SfError(`Invalid metric "${input}": ${reason}`, 'InvalidMetric');
+
+/** Calls `visit` with the index of every character outside quotes and parentheses. */
+const scanTopLevel = (input: string, visit: (index: number) => void): void => {
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (let index = 0; index < input.length; index++) {
+    const character = input[index];
+    if (quote) {
+      if (character === '\\') {
+        index++;
+      } else if (character === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+
+    if (character === "'" || character === '"') {
+      quote = character;
+    } else if (character === '(') {
+      depth++;
+    } else if (character === ')') {
+      depth--;
+      if (depth < 0) {
+        throw invalidMetric(input, `unexpected ")" at position ${index + 1}.`);
+      }
+    } else if (depth === 0) {
+      visit(index);
+    }
+  }
+
+  if (quote) {
+    throw invalidMetric(input, `unterminated ${quote === '"' ? 'double' : 'single'} quote.`);
+  }
+  if (depth > 0) {
+    throw invalidMetric(input, 'unbalanced parentheses.');
+  }
+};
+
+/** Splits a --metrics value on commas that are not inside quotes or parentheses. */
+export const splitMetricList = (input: string): string[] => {
+  const separators: number[] = [];
+  scanTopLevel(input, (index) => {
+    if (input[index] === ',') {
+      separators.push(index);
+    }
+  });
+
+  return [...separators, input.length]
+    .map((end, position) => input.slice(position === 0 ? 0 : separators[position - 1] + 1, end).trim())
+    .filter((token) => token.length > 0);
+};
+
+/** Separates a trailing `as "Label"` from the metric definition. */
+export const splitMetricLabel = (token: string): { body: string; label?: string } => {
+  let labelStart: number | undefined;
+  scanTopLevel(token, (index) => {
+    if (labelStart === undefined && /\s/.test(token[index]) && LABEL_PATTERN.test(token.slice(index))) {
+      labelStart = index;
+    }
+  });
+
+  if (labelStart === undefined) {
+    return { body: token.trim() };
+  }
+
+  const label = unescapeText(LABEL_PATTERN.exec(token.slice(labelStart))?.[1] ?? '').trim();
+  if (!label) {
+    throw invalidMetric(token, 'labels must not be empty.');
+  }
+  return { body: token.slice(0, labelStart).trim(), label };
+};
+
+/**
+ * Normalizes a condition written as `"..."`, `(...)` or bare text to the SOQL expression inside it.
+ * Only parentheses that wrap the entire condition are removed.
+ */
+export const unwrapCondition = (condition: string): string => {
+  let value = condition.trim();
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    value = unescapeText(value.slice(1, -1)).trim();
+  }
+
+  while (value.startsWith('(') && value.endsWith(')') && wrapsWhole(value)) {
+    value = value.slice(1, -1).trim();
+  }
+  return value;
+};
+
+const wrapsWhole = (value: string): boolean => {
+  let closesEarly = false;
+  scanTopLevel(value, (index) => {
+    if (index > 0 && index < value.length - 1) {
+      closesEarly = true;
+    }
+  });
+  return !closesEarly;
+};
+
+const unescapeText = (value: string): string => value.replace(/\\(.)/g, '$1');
@@ -0,0 +1,178 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SfError } from '@salesforce/core';
+
+import type { MetadataDiscoveryService, SimpleDescribeSObjectResult } from './metadataDiscoveryService.js';
+import { mapFieldName, type ObjectMapping } from './schemaMapping.js';
+
+/** An unprefixed object or field name that was resolved to a managed package name in one org. */
+export type NamespaceResolution = {
+  org: string;
+  name: string;
+  resolvedName: string;
+};
+
+const NAMESPACE_PATTERN = /^[A-Za-z](?:[A-Za-z0-9]|_(?!_))*$/;
+const NAMESPACED_NAME = /^([A-Za-z](?:[A-Za-z0-9]|_(?!_))*)__(.+__[A-Za-z]+)$/;
+
+/**
+ * Parses `--namespace` values into the prefix of every compared org. A bare prefix applies to all orgs and
+ * `<org>=<prefix>` to the org passed under that alias or username; the latter wins. Only one bare prefix is allowed.
+ */
+export const parseNamespaceOptions = (values: string[] | undefined, orgs: string[]): Map<string, string> => {
+  let fallback: string | undefined;
+  const perOrg = new Map<string, string>();
+  for (const value of values ?? []) {
+    const separator = value.lastIndexOf('=');
+    const org = separator >= 0 ? value.slice(0, separator).trim() : undefined;
+    const prefix = value.slice(separator + 1).trim();
+    if (!NAMESPACE_PATTERN.test(prefix) || org === '') {
+      throw new SfError(`Invalid namespace "${value}". Use <prefix> or <org>=<prefix>.`, 'InvalidNamespace');
+    }
+    if (org === undefined) {
+      if (fallback !== undefined) {
+        throw new SfError(`Namespace "${value}" repeats the prefix shared by all orgs.`, 'InvalidNamespace', [
+          'Pass one bare prefix and use <org>=<prefix> for the orgs that differ.',
+        ]);
+      }
+      fallback = prefix;
+    } else if (orgs.includes(org)) {
+      perOrg.set(org, prefix);
+    } else {
+      throw new SfError(`Namespace "${value}" names an org that is not compared.`, 'InvalidNamespace', [
+        `Use one of: ${orgs.join(', ')}.`,
+      ]);
+    }
+  }
+
+  return new Map(
+    orgs.flatMap((org): Array<[string, string]> => {
+      const prefix = perOrg.get(org) ?? fallback;
+      return prefix ? [[org, prefix]] : [];
+    })
+  );
+};
+
+/**
+ * Finds the managed package name for an unprefixed custom name: the name itself when the org has it, otherwise
+ * `<namespace>__<name>` for the given namespace or, without one, the only namespaced name with that suffix.
+ */
+export const findNamespacedName = (name: string, names: string[], namespace?: string): string | undefined => {
+  const lower = name.toLowerCase();
+  const exact = names.find((candidate) => candidate.toLowerCase() === lower);
+  if (exact !== undefined || NAMESPACED_NAME.test(name)) {
+    return exact;
+  }
+
+  const candidates = names.filter((candidate) => {
+    const match = NAMESPACED_NAME.exec(candidate);
+    return (
+      match !== null &&
+      match[2].toLowerCase() === lower &&
+      (namespace === undefined || match[1].toLowerCase() === namespace.toLowerCase())
+    );
+  });
+  return candidates.length === 1 ? candidates[0] : undefined;
+};
+
+/**
+ * Describes an object under its name in the org. With a namespace, or when the name as given cannot be
+ * described, the name is looked up in the global describe first.
+ */
+export const describeNamespacedObject = async (
+  metadata: MetadataDiscoveryService,
+  object: string,
+  namespace?: string
+): Promise<SimpleDescribeSObjectResult> => {
+  const lookUp = async (): Promise<string | undefined> => {
+    const global = await metadata.describeGlobal();
+    return findNamespacedName(
+      object,
+      global.sobjects.map((sobject) => sobject.name),
+      namespace
+    );
+  };
+
+  if (namespace) {
+    return metadata.describeSObject((await lookUp()) ?? object);
+  }
+  try {
+    return await metadata.describeSObject(object);
+  } catch (error) {
+    const resolved = await lookUp().catch(() => undefined);
+    if (resolved === undefined || resolved.toLowerCase() === object.toLowerCase()) {
+      throw error;
+    }
+    return metadata.describeSObject(resolved);
+  }
+};
+
+/** Maps the unprefixed name of every namespaced field the org does not also have unprefixed to its full name. */
+export const buildNamespaceMapping = (describe: SimpleDescribeSObjectResult, namespace?: string): ObjectMapping => {
+  const names = describe.fields.map((field) => field.name);
+  const fields: Record<string, string> = {};
+  for (const name of names) {
+    const unprefixed = NAMESPACED_NAME.exec(name)?.[2];
+    const resolved = unprefixed ? findNamespacedName(unprefixed, names, namespace) : undefined;
+    if (unprefixed && resolved === name) {
+      fields[unprefixed] = name;
+    }
+  }
+  return { targetObject: describe.name, fields };
+};
+
+/**
+ * Combines a schema mapping with the namespace mapping of the target org: a field is renamed by the schema
+ * mapping first and the result is then resolved in the target org.
+ */
+export const composeMappings = (first: ObjectMapping | undefined, second: ObjectMapping): ObjectMapping => {
+  const mapped = Object.entries(first?.fields ?? {});
+  const firstKeys = new Set(mapped.map(([key]) => key.toLowerCase()));
+  return {
+    ...(first?.values ? { values: first.values } : {}),
+    targetObject: second.targetObject,
+    fields: {
+      ...Object.fromEntries(Object.entries(second.fields).filter(([key]) => !firstKeys.has(key.toLowerCase()))),
+      ...Object.fromEntries(mapped.map(([key, value]) => [key, mapFieldName(second, value)])),
+    },
+  };
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Lists the names an org's queries use under a namespaced name that the request did not spell out, so the report
+ * can show what was resolved.
+ */
+export const listNamespaceResolutions = (
+  org: string,
+  request: { object: string; text: string },
+  mapping: ObjectMapping,
+  queries: string[]
+): NamespaceResolution[] => {
+  const used = (name: string, text: string): boolean =>
+    new RegExp(`(?<![\\w.])${escapeRegExp(name)}(?![\\w])`, 'i').test(text);
+  const queryText = queries.join('\n');
+  const object =
+    mapping.targetObject.toLowerCase() === request.object.toLowerCase()
+      ? []
+      : [{ org, name: request.object, resolvedName: mapping.targetObject }];
+  const fields = Object.entries(mapping.fields)
+    .filter(([, resolvedName]) => used(resolvedName, queryText) && !used(resolvedName, request.text))
+    .map(([name, resolvedName]) => ({ org, name, resolvedName }));
+  return [...object, ...fields];
+};
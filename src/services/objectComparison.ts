@@ -0,0 +1,675 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Org } from '@salesforce/core';
+import { SfError } from '@salesforce/core';
+
+import { AggregateQueryBuilder, type AggregatePlan } from './aggregateQueryBuilder.js';
+import { compareData, type MetricComparisonRow, type SampleData } from './dataComparisonService.js';
+import type { MetadataDiscoveryService, SimpleDescribeSObjectResult } from './metadataDiscoveryService.js';
+import {
+  formatMetricLabel,
+  parseGroupByTokens,
+  parseMetricTokens,
+  validateGroupByAgainstDescribe,
+  validateMetricsAgainstDescribe,
+  type ParsedMetric,
+  type ResolvedMetric,
+} from './metricParser.js';
+import {
+  buildNamespaceMapping,
+  composeMappings,
+  describeNamespacedObject,
+  listNamespaceResolutions,
+  type NamespaceResolution,
+} from './namespaceResolution.js';
+import {
+  assertMappedPlan,
+  assertMergeableGroups,
+  validateValueMapping,
+  mapCondition,
+  mapFieldName,
+  mapParsedMetric,
+  type ObjectMapping,
+  type ValueMapping,
+} from './schemaMapping.js';
+import {
+  applyTolerances,
+  assertKnownToleranceMetrics,
+  countFailures,
+  type ToleranceConfig,
+} from './toleranceEvaluator.js';
+import { DEFAULT_QUERY_POLICY, type QueryRetry, type QueryRetryPolicy } from './queryExecutor.js';
+import { resolveIdLookups, translateFilterIds } from './idTranslation.js';
+import { assertChunkable, type ChunkingOptions } from './chunkedAggregation.js';
+import { explainQueries, type PlannedQuery, type QueryExplanation } from './queryExplainer.js';
+import { resolveSoqlCondition } from './soqlCondition.js';
+import { buildStatisticsQuery, requiresStreaming, type StatisticsProgress } from './clientStatistics.js';
+import {
+  assertSameUserTimeZone,
+  resolveTimeBucketing,
+  usesUserTimeZone,
+  type ResolvedTimeBucketing,
+  type TimeBucketing,
+} from './timeBuckets.js';
+
+export type ComparisonSection = {
+  object: string;
+  metrics: MetricComparisonRow[];
+  filters: {
+    where?: string;
+    groupBy?: string[];
+    bucketBy?: TimeBucketing;
+    sampleSize: number;
+  };
+  chunking?: ChunkingOptions;
+  tolerance: ToleranceConfig & {
+    failOnDifference: boolean;
+    failures: number;
+  };
+  queries: {
+    aggregate?: string;
+    conditionals: Array<{
+      alias: string;
+      query: string;
+    }>;
+    statistics?: string;
+    sample?: string;
+  };
+  /** Set when a schema mapping or a namespace gives the target org its own names, and so its own queries. */
+  targetQueries?: ComparisonSection['queries'];
+  mapping?: ObjectMapping;
+  namespaces?: NamespaceResolution[];
+  samples: SampleData;
+  retries: QueryRetry[];
+  dryRun?: boolean;
+  explain?: QueryExplanation[];
+};
+
+export type ObjectComparisonContext = {
+  sourceOrg: Org;
+  targetOrg: Org;
+  sourceMetadata: MetadataDiscoveryService;
+  targetMetadata: MetadataDiscoveryService;
+  apiVersion?: string;
+  queryPolicy?: QueryRetryPolicy;
+  onProgress?: (progress: StatisticsProgress) => void;
+  /** Namespace prefixes to resolve unprefixed names with; names are detected when unambiguous otherwise. */
+  namespaces?: { source?: string; target?: string };
+};
+
+export type ObjectComparisonRequest = {
+  object: string;
+  metrics?: string[];
+  where?: string;
+  groupBy?: string[];
+  bucketing?: TimeBucketing;
+  sampleSize: number;
+  tolerance: ToleranceConfig;
+  failOnDifference: boolean;
+  chunking?: ChunkingOptions;
+  mapping?: ObjectMapping;
+  /** Natural key field per object. When set, lookup IDs in group-bys and the filter are translated with them. */
+  idKeys?: Record<string, string>;
+  dryRun?: boolean;
+  explain?: boolean;
+};
+
+/** The validated filters, aggregate plan and query text of one object comparison. */
+export type PreparedComparison = {
+  object: string;
+  where?: string;
+  groupBy: string[];
+  bucketing?: ResolvedTimeBucketing;
+  plan: AggregatePlan;
+  sampleQuery?: string;
+  queries: ComparisonSection['queries'];
+  targetPlan?: AggregatePlan;
+  targetQueries?: ComparisonSection['queries'];
+};
+
+/** The metrics, filter, group-by fields and bucketing of a request under the names of one org. */
+type OrgPlanRequest = {
+  metrics: ParsedMetric[];
+  groupBy: string[];
+  where?: string;
+  bucketing?: TimeBucketing;
+};
+
+type OrgPlanInput = {
+  metrics: ResolvedMetric[];
+  groupBy: string[];
+  where?: string;
+  bucketing?: ResolvedTimeBucketing;
+};
+
+/** Names used by the request, per org, when they differ from the names the request was written with. */
+export type OrgFieldNames = {
+  source?: ObjectMapping;
+  target?: ObjectMapping;
+};
+
+const mapPlanRequest = (
+  metrics: ParsedMetric[],
+  request: ObjectComparisonRequest,
+  mapping: ObjectMapping | undefined
+): OrgPlanRequest => {
+  const where = request.where?.trim() ? request.where : undefined;
+  const groupBy = parseGroupByTokens(request.groupBy);
+  if (!mapping) {
+    return { metrics, groupBy, where, bucketing: request.bucketing };
+  }
+  return {
+    metrics: metrics.map((metric) => mapParsedMetric(mapping, metric)),
+    groupBy: groupBy.map((field) => mapFieldName(mapping, field)),
+    where: where ? mapCondition(mapping, where) : undefined,
+    bucketing: request.bucketing
+      ? { ...request.bucketing, field: mapFieldName(mapping, request.bucketing.field) }
+      : undefined,
+  };
+};
+
+const resolvePlanInput = (
+  describe: SimpleDescribeSObjectResult,
+  request: OrgPlanRequest,
+  orgLabel: string
+): OrgPlanInput => ({
+  metrics: validateMetricsAgainstDescribe(request.metrics, describe, orgLabel),
+  groupBy: validateGroupByAgainstDescribe(request.groupBy, describe, orgLabel),
+  where: request.where ? resolveSoqlCondition(request.where, describe, orgLabel) : undefined,
+  bucketing: request.bucketing ? resolveTimeBucketing(request.bucketing, describe, orgLabel) : undefined,
+});
+
+const buildPlan = (objectName: string, input: OrgPlanInput): AggregatePlan =>
+  new AggregateQueryBuilder({
+    objectName,
+    metrics: input.metrics,
+    where: input.where,
+    groupBy: input.groupBy,
+    bucketing: input.bucketing,
+  }).build();
+
+const buildQueries = (plan: AggregatePlan, sampleQuery: string | undefined): ComparisonSection['queries'] => ({
+  aggregate: plan.aggregateQuery,
+  conditionals: plan.conditionalMetrics.map((conditional) => ({
+    alias: conditional.alias,
+    query: conditional.aggregateQuery,
+  })),
+  statistics: requiresStreaming(plan) ? buildStatisticsQuery(plan) : undefined,
+  sample: sampleQuery,
+});
+
+const validateMappedValues = (
+  plan: AggregatePlan,
+  mapping: ObjectMapping | undefined,
+  [sourceDescribe, targetDescribe]: [SimpleDescribeSObjectResult, SimpleDescribeSObjectResult],
+  targetNames: ObjectMapping | undefined
+): void => {
+  if (mapping?.values) {
+    validateValueMapping(mapping, sourceDescribe, targetDescribe, targetNames);
+    assertMergeableGroups(plan, mapping);
+  }
+};
+
+/**
+ * Validates the metrics, filter, group-by fields and bucketing against both describes and builds the aggregate
+ * plan and its queries. Both orgs must resolve every part the same way. When a schema mapping or a namespace
+ * gives the orgs different names, each org is resolved under its own names instead and the target org gets a
+ * plan of its own with the same shape.
+ */
+export const prepareComparison = (
+  sourceDescribe: SimpleDescribeSObjectResult,
+  targetDescribe: SimpleDescribeSObjectResult,
+  request: ObjectComparisonRequest,
+  orgLabels: { source: string; target: string } = { source: 'source org', target: 'target org' },
+  names: OrgFieldNames = { target: request.mapping }
+): PreparedComparison => {
+  const parsedMetrics = parseMetricTokens(request.metrics);
+  if (parsedMetrics.length === 0) {
+    throw new SfError(`No metrics could be determined for object ${request.object}.`, 'MissingMetrics');
+  }
+
+  const sourceRequest = mapPlanRequest(parsedMetrics, request, names.source);
+  const targetRequest = mapPlanRequest(parsedMetrics, request, names.target);
+  const mapped = request.mapping !== undefined || JSON.stringify(sourceRequest) !== JSON.stringify(targetRequest);
+  const source = resolvePlanInput(sourceDescribe, sourceRequest, orgLabels.source);
+  const target = resolvePlanInput(targetDescribe, targetRequest, orgLabels.target);
+
+  const { metrics, groupBy, where, bucketing } = mapped
+    ? source
+    : {
+        metrics: reconcileMetrics(source.metrics, target.metrics),
+        groupBy: reconcileGroupBy(source.groupBy, target.groupBy),
+        where:
+          source.where !== undefined && target.where !== undefined
+            ? reconcileWhere(source.where, target.where)
+            : undefined,
+        bucketing:
+          source.bucketing && target.bucketing ? reconcileBucketing(source.bucketing, target.bucketing) : undefined,
+      };
+  if (mapped && source.bucketing && target.bucketing && source.bucketing.fieldType !== target.bucketing.fieldType) {
+    throw new SfError(
+      `Bucket field ${source.bucketing.field} is a ${source.bucketing.fieldType} in the source org but ${target.bucketing.field} is a ${target.bucketing.fieldType} in the target org.`,
+      'BucketValidationMismatch'
+    );
+  }
+
+  const distribution = metrics.find((metric) => metric.kind === 'histogram' || metric.kind === 'frequency');
+  if (distribution && groupBy.length > 0) {
+    throw new SfError(
+      `${formatMetricLabel(distribution)} cannot be combined with group-by.`,
+      'UnsupportedGroupedMetric',
+      ['Compare the distribution in a separate run with a --where filter for the group you need.']
+    );
+  }
+
+  const plan = buildPlan(sourceDescribe.name, { metrics, groupBy, where, bucketing });
+  assertKnownToleranceMetrics(request.tolerance, plan.metrics, formatMetricLabel);
+
+  if (bucketing && requiresStreaming(plan)) {
+    throw new SfError(
+      'Median, standard deviation, variance, percentile and distribution metrics cannot be bucketed by period.',
+      'UnsupportedBucketedMetric',
+      ['Remove these metrics or run them in a separate comparison without --bucket-by.']
+    );
+  }
+
+  if (request.chunking) {
+    assertChunkable(plan);
+  }
+
+  const targetPlan = mapped ? buildPlan(targetDescribe.name, target) : undefined;
+  if (targetPlan) {
+    assertMappedPlan(plan, targetPlan);
+  }
+  validateMappedValues(plan, request.mapping, [sourceDescribe, targetDescribe], names.target);
+
+  const sampleQuery = buildSampleQuery(plan, request.sampleSize);
+  return {
+    object: sourceDescribe.name,
+    where,
+    groupBy,
+    bucketing,
+    plan,
+    sampleQuery,
+    queries: buildQueries(plan, sampleQuery),
+    targetPlan,
+    targetQueries: targetPlan ? buildQueries(targetPlan, buildSampleQuery(targetPlan, request.sampleSize)) : undefined,
+  };
+};
+
+/** Applies tolerances to the compared rows and assembles the section reported for one object. */
+export const buildComparisonSection = (
+  prepared: PreparedComparison,
+  request: ObjectComparisonRequest,
+  comparison: Pick<ComparisonSection, 'metrics' | 'samples' | 'retries' | 'explain' | 'namespaces'>
+): ComparisonSection => {
+  const metricRows = applyTolerances(comparison.metrics, request.tolerance, formatMetricLabel);
+  const { bucketing } = prepared;
+
+  return {
+    object: prepared.object,
+    metrics: metricRows,
+    filters: {
+      where: prepared.where,
+      groupBy: prepared.groupBy.length > 0 ? prepared.groupBy : undefined,
+      bucketBy: bucketing
+        ? { field: bucketing.field, interval: bucketing.interval, timeZone: bucketing.timeZone }
+        : undefined,
+      sampleSize: request.sampleSize,
+    },
+    chunking: request.chunking,
+    tolerance: {
+      ...request.tolerance,
+      failOnDifference: request.failOnDifference,
+      failures: countFailures(metricRows),
+    },
+    queries: prepared.queries,
+    targetQueries: prepared.targetQueries,
+    mapping: request.mapping,
+    namespaces: comparison.namespaces,
+    samples: comparison.samples,
+    retries: comparison.retries,
+    dryRun: request.dryRun ? true : undefined,
+    explain: comparison.explain,
+  } satisfies ComparisonSection;
+};
+
+const withFields = (mapping: ObjectMapping): ObjectMapping | undefined =>
+  Object.keys(mapping.fields).length > 0 || mapping.values ? mapping : undefined;
+
+/**
+ * Translates the lookup IDs in the filter into the IDs of the same records in the target org, matched on their
+ * natural keys. Dry runs skip the lookup queries and keep the IDs as written.
+ */
+const translateFilter = async (
+  context: ObjectComparisonContext,
+  request: ObjectComparisonRequest,
+  [sourceDescribe, targetDescribe]: [SimpleDescribeSObjectResult, SimpleDescribeSObjectResult],
+  retries: QueryRetry[]
+): Promise<ValueMapping> => {
+  if (!request.idKeys || !request.where?.trim() || request.dryRun) {
+    return {};
+  }
+  const policy = context.queryPolicy ?? DEFAULT_QUERY_POLICY;
+  const [source, target] = await Promise.all([
+    Promise.resolve(context.sourceOrg.getConnection(context.apiVersion)),
+    Promise.resolve(context.targetOrg.getConnection(context.apiVersion)),
+  ]);
+  return translateFilterIds(
+    { source, target },
+    request.where,
+    { describe: sourceDescribe, keys: request.idKeys, targetObject: targetDescribe.name },
+    { source: { policy, orgLabel: 'source org', retries }, target: { policy, orgLabel: 'target org', retries } }
+  );
+};
+
+const withValues = (mapping: ObjectMapping, values: ValueMapping): ObjectMapping =>
+  Object.keys(values).length > 0 ? { ...mapping, values: { ...mapping.values, ...values } } : mapping;
+
+/**
+ * Runs the full comparison pipeline for one object: describes it in both orgs, validates metrics and group-by
+ * fields, builds the aggregate plan, evaluates it in both orgs and applies tolerances. With `dryRun` the
+ * pipeline stops after building the queries; with `explain` each query is passed to the query-plan endpoint.
+ */
+export const compareObject = async (
+  context: ObjectComparisonContext,
+  request: ObjectComparisonRequest
+): Promise<ComparisonSection> => {
+  const { sourceOrg, targetOrg, sourceMetadata, targetMetadata, apiVersion, queryPolicy, onProgress } = context;
+  const targetObject = request.mapping?.targetObject ?? request.object;
+
+  const [sourceDescribe, targetDescribe] = await Promise.all([
+    describeNamespacedObject(sourceMetadata, request.object, context.namespaces?.source),
+    describeNamespacedObject(targetMetadata, targetObject, context.namespaces?.target),
+  ]);
+
+  // Filter ID lookups, explain requests and the time zone check run before the comparison and report their
+  // retries with it.
+  const planningRetries: QueryRetry[] = [];
+  const executions = {
+    source: { policy: queryPolicy ?? DEFAULT_QUERY_POLICY, orgLabel: 'source org', retries: planningRetries },
+    target: { policy: queryPolicy ?? DEFAULT_QUERY_POLICY, orgLabel: 'target org', retries: planningRetries },
+  };
+  const filterIds = await translateFilter(context, request, [sourceDescribe, targetDescribe], planningRetries);
+  const names = {
+    source: buildNamespaceMapping(sourceDescribe, context.namespaces?.source),
+    target: withValues(
+      composeMappings(request.mapping, buildNamespaceMapping(targetDescribe, context.namespaces?.target)),
+      filterIds
+    ),
+  };
+  const prepared = prepareComparison(sourceDescribe, targetDescribe, request, undefined, {
+    source: withFields(names.source),
+    target: withFields(names.target),
+  });
+  const { queries } = prepared;
+  const targetQueries = prepared.targetQueries ?? queries;
+  const idLookups = request.idKeys ? resolveIdLookups(sourceDescribe, prepared.groupBy, request.idKeys) : undefined;
+
+  const requestText = [
+    ...(request.metrics ?? []),
+    request.where ?? '',
+    ...(request.groupBy ?? []),
+    request.bucketing?.field ?? '',
+  ].join('\n');
+  const namespaces = [
+    ...listNamespaceResolutions(
+      'source org',
+      { object: request.object, text: requestText },
+      names.source,
+      listPlannedQueries(queries).map((planned) => planned.query)
+    ),
+    ...listNamespaceResolutions(
+      'target org',
+      { object: targetObject, text: requestText },
+      names.target,
+      listPlannedQueries(targetQueries).map((planned) => planned.query)
+    ),
+  ];
+
+  const explain = request.explain
+    ? (
+        await Promise.all([
+          explainQueries(sourceOrg, executions.source, listPlannedQueries(queries), apiVersion),
+          explainQueries(targetOrg, executions.target, listPlannedQueries(targetQueries), apiVersion),
+        ])
+      ).flat()
+    : undefined;
+
+  if (!request.dryRun && usesUserTimeZone(prepared.plan.bucketing)) {
+    await assertSameUserTimeZone(
+      [
+        { org: sourceOrg, execution: executions.source },
+        { org: targetOrg, execution: executions.target },
+      ],
+      apiVersion
+    );
+  }
+
+  const comparison = request.dryRun
+    ? { metrics: [], samples: { source: [], target: [] }, retries: [] }
+    : await compareData({
+        sourceOrg,
+        targetOrg,
+        plan: prepared.plan,
+        apiVersionOverride: apiVersion,
+        sampleQuery: prepared.sampleQuery,
+        targetPlan: prepared.targetPlan,
+        targetSampleQuery: prepared.targetQueries?.sample,
+        mapping: request.mapping,
+        idLookups,
+        queryPolicy,
+        chunking: request.chunking,
+        onProgress,
+      });
+
+  return buildComparisonSection(prepared, request, {
+    ...comparison,
+    retries: [...planningRetries, ...comparison.retries],
+    explain,
+    namespaces: namespaces.length > 0 ? namespaces : undefined,
+  });
+};
+
+export const listPlannedQueries = (queries: ComparisonSection['queries']): PlannedQuery[] => [
+  ...(queries.aggregate ? [{ label: 'Aggregate', query: queries.aggregate }] : []),
+  ...queries.conditionals.map((conditional) => ({
+    label: `Conditional ${conditional.alias}`,
+    query: conditional.query,
+  })),
+  ...(queries.statistics ? [{ label: 'Statistics', query: queries.statistics }] : []),
+  ...(queries.sample ? [{ label: 'Sample', query: queries.sample }] : []),
+];
+
+const reconcileWhere = (source: string, target: string): string => {
+  if (source !== target) {
+    throw new SfError(
+      `The filter resolves differently in the source org (${source}) and the target org (${target}).`,
+      'FilterValidationMismatch'
+    );
+  }
+  return source;
+};
+
+const reconcileBucketing = (source: ResolvedTimeBucketing, target: ResolvedTimeBucketing): ResolvedTimeBucketing => {
+  if (source.field !== target.field || source.fieldType !== target.fieldType) {
+    throw new SfError(
+      `Bucket field ${source.field} is a ${source.fieldType} in the source org but a ${target.fieldType} in the target org.`,
+      'BucketValidationMismatch'
+    );
+  }
+  return source;
+};
+
+const reconcileMetrics = (source: ResolvedMetric[], target: ResolvedMetric[]): ResolvedMetric[] => {
+  if (source.length !== target.length) {
+    throw new SfError(
+      'Metric validation returned inconsistent results between source and target orgs.',
+      'MetricValidationMismatch'
+    );
+  }
+
+  return source.map((metric, index) => validateMetricPair(metric, target[index]));
+};
+
+const reconcileGroupBy = (source: string[], target: string[]): string[] => {
+  if (source.length !== target.length || source.some((field, index) => field !== target[index])) {
+    throw new SfError('Group-by field validation differs between source and target orgs.', 'GroupByValidationMismatch');
+  }
+
+  return source;
+};
+
+const validateMetricPair = (metric: ResolvedMetric, targetMetric: ResolvedMetric): ResolvedMetric => {
+  if (metric.kind !== targetMetric.kind) {
+    throw new SfError('Metric kinds differ between org validations.', 'MetricValidationMismatch');
+  }
+
+  switch (metric.kind) {
+    case 'count':
+      return metric;
+    case 'fieldAggregate':
+      return validateFieldAggregate(metric, targetMetric);
+    case 'countDistinct':
+      return validateCountDistinct(metric, targetMetric);
+    case 'ratio':
+      return validateRatio(metric, targetMetric);
+    case 'countIf':
+      return validateConditional(metric, targetMetric);
+    case 'sumIf':
+      return validateConditional(metric, targetMetric);
+    case 'expression':
+      return validateExpression(metric, targetMetric);
+    case 'percentile':
+    case 'histogram':
+    case 'frequency':
+      return validateDistribution(metric, targetMetric);
+    default: {
+      const exhaustiveCheck: never = metric;
+      return exhaustiveCheck;
+    }
+  }
+};
+
+const validateFieldAggregate = (
+  metric: Extract<ResolvedMetric, { kind: 'fieldAggregate' }>,
+  targetMetric: ResolvedMetric
+): ResolvedMetric => {
+  if (targetMetric.kind !== 'fieldAggregate' || metric.field !== targetMetric.field || metric.fn !== targetMetric.fn) {
+    throw new SfError('Metric field validation differs between source and target orgs.', 'MetricValidationMismatch');
+  }
+
+  return metric;
+};
+
+const validateDistribution = (
+  metric: Extract<ResolvedMetric, { kind: 'percentile' | 'histogram' | 'frequency' }>,
+  targetMetric: ResolvedMetric
+): ResolvedMetric => {
+  // Percentiles, bucket counts and top-N come from the same parsed token, so only the field can differ.
+  if (targetMetric.kind !== metric.kind || !('field' in targetMetric) || metric.field !== targetMetric.field) {
+    throw new SfError('Metric field validation differs between source and target orgs.', 'MetricValidationMismatch');
+  }
+
+  return metric;
+};
+
+const validateCountDistinct = (
+  metric: Extract<ResolvedMetric, { kind: 'countDistinct' }>,
+  targetMetric: ResolvedMetric
+): ResolvedMetric => {
+  if (targetMetric.kind !== 'countDistinct' || metric.field !== targetMetric.field) {
+    throw new SfError('Metric field validation differs between source and target orgs.', 'MetricValidationMismatch');
+  }
+
+  return metric;
+};
+
+const validateRatio = (
+  metric: Extract<ResolvedMetric, { kind: 'ratio' }>,
+  targetMetric: ResolvedMetric
+): ResolvedMetric => {
+  if (targetMetric.kind !== 'ratio') {
+    throw new SfError('Metric field validation differs between source and target orgs.', 'MetricValidationMismatch');
+  }
+
+  const numeratorMatches =
+    metric.numerator.field === targetMetric.numerator.field && metric.numerator.fn === targetMetric.numerator.fn;
+  const denominatorMatches =
+    metric.denominator.field === targetMetric.denominator.field &&
+    metric.denominator.fn === targetMetric.denominator.fn;
+
+  if (!numeratorMatches || !denominatorMatches) {
+    throw new SfError('Ratio metric validation differs between source and target orgs.', 'MetricValidationMismatch');
+  }
+
+  return metric;
+};
+
+const validateExpression = (
+  metric: Extract<ResolvedMetric, { kind: 'expression' }>,
+  targetMetric: ResolvedMetric
+): ResolvedMetric => {
+  // Labels are rendered from the resolved operands, so equal labels mean the same fields and aggregates.
+  if (targetMetric.kind !== 'expression' || metric.label !== targetMetric.label) {
+    throw new SfError(
+      'Expression metric validation differs between source and target orgs.',
+      'MetricValidationMismatch'
+    );
+  }
+
+  return metric;
+};
+
+const validateConditional = (
+  metric: Extract<ResolvedMetric, { kind: 'countIf' | 'sumIf' }>,
+  targetMetric: ResolvedMetric
+): ResolvedMetric => {
+  if (metric.kind === 'sumIf') {
+    if (
+      targetMetric.kind !== 'sumIf' ||
+      metric.field !== targetMetric.field ||
+      metric.condition !== targetMetric.condition
+    ) {
+      throw new SfError(
+        'Conditional metric validation differs between source and target orgs.',
+        'MetricValidationMismatch'
+      );
+    }
+    return metric;
+  }
+
+  if (targetMetric.kind !== 'countIf' || metric.condition !== targetMetric.condition) {
+    throw new SfError(
+      'Conditional metric validation differs between source and target orgs.',
+      'MetricValidationMismatch'
+    );
+  }
+
+  return metric;
+};
+
+const buildSampleQuery = (plan: AggregatePlan, sampleSize: number): string | undefined => {
+  if (sampleSize <= 0) {
+    return undefined;
+  }
+
+  const fields = ['Id', ...plan.sampleFields];
+  const uniqueFields = Array.from(new Set(fields));
+  const whereClause = plan.whereClause ? ` WHERE ${plan.whereClause}` : '';
+  return `SELECT ${uniqueFields.join(', ')} FROM ${plan.objectName}${whereClause} ORDER BY Id LIMIT ${sampleSize}`;
+};
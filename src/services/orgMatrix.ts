@@ -0,0 +1,226 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Org } from '@salesforce/core';
+import { SfError } from '@salesforce/core';
+
+import type { StatisticsProgress } from './clientStatistics.js';
+import {
+  buildComparisonRows,
+  evaluateOrg,
+  type GroupValue,
+  type MetricComparisonRow,
+} from './dataComparisonService.js';
+import type { MetadataDiscoveryService } from './metadataDiscoveryService.js';
+import type { ResolvedMetric } from './metricParser.js';
+import {
+  buildComparisonSection,
+  prepareComparison,
+  type ComparisonSection,
+  type ObjectComparisonRequest,
+} from './objectComparison.js';
+import { DEFAULT_QUERY_POLICY, type QueryExecution, type QueryRetry, type QueryRetryPolicy } from './queryExecutor.js';
+import { assertSameUserTimeZone, usesUserTimeZone } from './timeBuckets.js';
+import type { MetricStatus } from './toleranceEvaluator.js';
+
+export type MatrixOrg = {
+  label: string;
+  org: Org;
+  metadata: MetadataDiscoveryService;
+};
+
+export type OrgMatrixContext = {
+  orgs: MatrixOrg[];
+  baseline: string;
+  apiVersion?: string;
+  queryPolicy?: QueryRetryPolicy;
+  onProgress?: (progress: StatisticsProgress) => void;
+};
+
+/** The value of one metric in one org; `difference` is relative to the baseline org and null for the baseline. */
+export type MatrixCell = {
+  org: string;
+  value: number | string | null;
+  difference: number | null;
+  status?: MetricStatus;
+};
+
+export type MetricMatrixRow = {
+  metric: ResolvedMetric;
+  alias: string;
+  group?: Record<string, GroupValue>;
+  period?: string;
+  cells: MatrixCell[];
+  status?: MetricStatus;
+};
+
+export type OrgMatrix = {
+  object: string;
+  baseline: string;
+  orgs: string[];
+  rows: MetricMatrixRow[];
+  filters: Omit<ComparisonSection['filters'], 'sampleSize'>;
+  chunking?: ComparisonSection['chunking'];
+  tolerance: ComparisonSection['tolerance'];
+  queries: Omit<ComparisonSection['queries'], 'sample'>;
+  retries: QueryRetry[];
+};
+
+const rowKey = (row: MetricComparisonRow): string =>
+  [
+    row.alias,
+    row.group
+      ? JSON.stringify(
+          Object.keys(row.group)
+            .sort()
+            .map((field) => [field, row.group?.[field]])
+        )
+      : '',
+    row.period ?? '',
+  ].join('|');
+
+/**
+ * Joins the comparisons of the baseline against every other org into one row per metric, group and period, with
+ * one cell per org in the order the orgs were given. A group missing from both the baseline and an org leaves
+ * that org's cell empty.
+ */
+const buildMatrixRows = (
+  orgs: string[],
+  baseline: string,
+  comparisons: Array<{ org: string; rows: MetricComparisonRow[] }>
+): MetricMatrixRow[] => {
+  const matrix = new Map<string, { row: MetricMatrixRow; cells: Map<string, MatrixCell> }>();
+
+  for (const comparison of comparisons) {
+    for (const row of comparison.rows) {
+      const key = rowKey(row);
+      const entry = matrix.get(key) ?? {
+        row: { metric: row.metric, alias: row.alias, group: row.group, period: row.period, cells: [] },
+        cells: new Map<string, MatrixCell>([[baseline, { org: baseline, value: row.sourceValue, difference: null }]]),
+      };
+      entry.cells.set(comparison.org, {
+        org: comparison.org,
+        value: row.targetValue,
+        difference: row.difference,
+        status: row.status,
+      });
+      matrix.set(key, entry);
+    }
+  }
+
+  return Array.from(matrix.values()).map(({ row, cells }) => {
+    const ordered = orgs.map((org) => cells.get(org) ?? { org, value: null, difference: null });
+    return {
+      ...row,
+      cells: ordered,
+      status: ordered.some((cell) => cell.status === 'fail') ? 'fail' : 'pass',
+    };
+  });
+};
+
+/**
+ * Evaluates one aggregate plan in every org concurrently and compares each org against the baseline. Every org
+ * is validated against the baseline the same way a two-org comparison validates the target against the source,
+ * so all orgs run the same queries.
+ */
+export const compareOrgMatrix = async (
+  context: OrgMatrixContext,
+  request: ObjectComparisonRequest
+): Promise<OrgMatrix> => {
+  const labels = context.orgs.map((entry) => entry.label);
+  const baseline = context.orgs.find((entry) => entry.label === context.baseline);
+  if (!baseline) {
+    throw new SfError(`The baseline org ${context.baseline} is not one of the compared orgs.`, 'UnknownBaselineOrg', [
+      `Use one of: ${labels.join(', ')}.`,
+    ]);
+  }
+  const others = context.orgs.filter((entry) => entry !== baseline);
+
+  const describes = await Promise.all(context.orgs.map((entry) => entry.metadata.describeSObject(request.object)));
+  const baselineDescribe = describes[context.orgs.indexOf(baseline)];
+  const matrixRequest = { ...request, sampleSize: 0 };
+  const prepared = others.map((entry) =>
+    prepareComparison(baselineDescribe, describes[context.orgs.indexOf(entry)], matrixRequest, {
+      source: baseline.label,
+      target: entry.label,
+    })
+  );
+
+  const { plan, queries } = prepared[0];
+  const distribution = plan.distributions[0];
+  if (distribution) {
+    throw new SfError(
+      `${distribution.kind} metrics on ${distribution.field} cannot be compared across more than two orgs.`,
+      'UnsupportedMatrixMetric',
+      ['Compare distributions between two orgs with --source-org and --target-org.']
+    );
+  }
+
+  const retries: QueryRetry[] = [];
+  const executionFor = (label: string): QueryExecution => ({
+    policy: context.queryPolicy ?? DEFAULT_QUERY_POLICY,
+    orgLabel: label,
+    retries,
+  });
+  if (usesUserTimeZone(plan.bucketing)) {
+    await assertSameUserTimeZone(
+      context.orgs.map((entry) => ({ org: entry.org, execution: executionFor(entry.label) })),
+      context.apiVersion
+    );
+  }
+  const evaluations = await Promise.all(
+    context.orgs.map((entry) =>
+      evaluateOrg({
+        org: entry.org,
+        plan,
+        apiVersionOverride: context.apiVersion,
+        chunking: request.chunking,
+        onProgress: context.onProgress,
+        execution: executionFor(entry.label),
+      })
+    )
+  );
+  const baselineEvaluation = evaluations[context.orgs.indexOf(baseline)];
+
+  const sections = others.map((entry, index) => ({
+    org: entry.label,
+    section: buildComparisonSection(prepared[index], matrixRequest, {
+      metrics: buildComparisonRows(plan, baselineEvaluation, evaluations[context.orgs.indexOf(entry)]),
+      samples: { source: [], target: [] },
+      retries: [],
+    }),
+  }));
+  const { filters, tolerance } = sections[0].section;
+
+  return {
+    object: prepared[0].object,
+    baseline: baseline.label,
+    orgs: labels,
+    rows: buildMatrixRows(
+      labels,
+      baseline.label,
+      sections.map(({ org, section }) => ({ org, rows: section.metrics }))
+    ),
+    filters: { where: filters.where, groupBy: filters.groupBy, bucketBy: filters.bucketBy },
+    chunking: request.chunking,
+    tolerance: {
+      ...tolerance,
+      failures: sections.reduce((total, { section }) => total + section.tolerance.failures, 0),
+    },
+    queries: { aggregate: queries.aggregate, conditionals: queries.conditionals, statistics: queries.statistics },
+    retries,
+  };
+};
@@ -0,0 +1,272 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'node:fs';
+import { dirname, extname, join, resolve } from 'node:path';
+
+import type { Org } from '@salesforce/core';
+import { SfError } from '@salesforce/core';
+
+import type { AggregatePlan } from './aggregateQueryBuilder.js';
+import type { StatisticsProgress } from './clientStatistics.js';
+import type { OrgMetadata } from './commandSupport.js';
+import {
+  buildComparisonRows,
+  evaluateOrg,
+  type GroupedAggregates,
+  type OrgEvaluation,
+} from './dataComparisonService.js';
+import { getSnapshotDir } from './dataPaths.js';
+import type { MetadataDiscoveryService } from './metadataDiscoveryService.js';
+import {
+  buildComparisonSection,
+  listPlannedQueries,
+  prepareComparison,
+  type ComparisonSection,
+  type ObjectComparisonRequest,
+  type PreparedComparison,
+} from './objectComparison.js';
+import { DEFAULT_QUERY_POLICY, type QueryRetry, type QueryRetryPolicy } from './queryExecutor.js';
+import type { TimeBucketing } from './timeBuckets.js';
+
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * The metric values of one object in one org, with the request and the queries that produced them. A live org
+ * can only be compared against it when the same request builds the same queries there.
+ */
+export type OrgSnapshot = {
+  version: number;
+  object: string;
+  org: OrgMetadata;
+  plan: {
+    metrics: string[];
+    where?: string;
+    groupBy?: string[];
+    bucketBy?: TimeBucketing;
+  };
+  queries: Omit<ComparisonSection['queries'], 'sample'>;
+  values: Record<string, number | string | null>;
+  groups?: GroupedAggregates[];
+};
+
+export type SnapshotOrgContext = {
+  org: Org;
+  metadata: MetadataDiscoveryService;
+  apiVersion?: string;
+  queryPolicy?: QueryRetryPolicy;
+  onProgress?: (progress: StatisticsProgress) => void;
+};
+
+const SNAPSHOT_LABELS = { source: 'snapshot org', target: 'snapshot org' };
+const TARGET_LABELS = { source: 'target org', target: 'target org' };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys(value[key])])
+    );
+  }
+  return value;
+};
+
+/** Sorted keys, sorted groups and no timestamp, so saving unchanged data again produces the same file. */
+export const serializeSnapshot = (snapshot: OrgSnapshot): string =>
+  `${JSON.stringify(
+    sortKeys({ ...snapshot, groups: snapshot.groups?.slice().sort((a, b) => a.key.localeCompare(b.key)) }),
+    null,
+    2
+  )}\n`;
+
+/** Accepts a file path, or a snapshot name that is looked up in the plugin data directory. */
+export const resolveSnapshotPath = (nameOrPath: string): string =>
+  /[\\/]/.test(nameOrPath) || extname(nameOrPath).toLowerCase() === '.json'
+    ? resolve(nameOrPath)
+    : join(getSnapshotDir(), `${nameOrPath}.json`);
+
+export const defaultSnapshotName = (aliasOrUsername: string, object: string): string =>
+  `${aliasOrUsername}-${object}`.replace(/[^A-Za-z0-9_.-]/g, '-');
+
+const assertSnapshotable = (plan: AggregatePlan): void => {
+  const distribution = plan.distributions[0];
+  if (distribution) {
+    throw new SfError(
+      `${distribution.kind} metrics on ${distribution.field} keep every value and cannot be saved in a snapshot.`,
+      'UnsupportedSnapshotMetric',
+      ['Remove histogram and frequency metrics from the snapshot.']
+    );
+  }
+};
+
+const listSnapshotQueries = (queries: ComparisonSection['queries']): string[] =>
+  listPlannedQueries({ ...queries, sample: undefined }).map((planned) => `${planned.label}: ${planned.query}`);
+
+const assertSnapshotMatches = (snapshot: OrgSnapshot, prepared: PreparedComparison): void => {
+  const saved = listSnapshotQueries({ ...snapshot.queries, sample: undefined });
+  const current = listSnapshotQueries(prepared.queries);
+  if (saved.length !== current.length || saved.some((query, index) => query !== current[index])) {
+    throw new SfError(
+      `The queries for ${prepared.object} in the target org differ from the ones saved in the snapshot.`,
+      'SnapshotPlanMismatch',
+      [
+        `Snapshot queries: ${saved.join(' | ')}`,
+        `Target queries: ${current.join(' | ')}`,
+        'Omit --metrics, --where, --group-by and --bucket-by to reuse the ones saved in the snapshot.',
+      ]
+    );
+  }
+};
+
+/** Runs the request in one org and captures its metric values. */
+export const captureSnapshot = async (
+  context: SnapshotOrgContext,
+  orgMetadata: OrgMetadata,
+  request: ObjectComparisonRequest
+): Promise<{ snapshot: OrgSnapshot; retries: QueryRetry[] }> => {
+  const describe = await context.metadata.describeSObject(request.object);
+  const prepared = prepareComparison(describe, describe, { ...request, sampleSize: 0 }, SNAPSHOT_LABELS);
+  assertSnapshotable(prepared.plan);
+
+  const retries: QueryRetry[] = [];
+  const evaluation = await evaluateOrg({
+    org: context.org,
+    plan: prepared.plan,
+    apiVersionOverride: context.apiVersion,
+    chunking: request.chunking,
+    onProgress: context.onProgress,
+    execution: { policy: context.queryPolicy ?? DEFAULT_QUERY_POLICY, orgLabel: 'snapshot org', retries },
+  });
+
+  const { aggregate, conditionals, statistics } = prepared.queries;
+  const snapshot: OrgSnapshot = {
+    version: SNAPSHOT_VERSION,
+    object: prepared.object,
+    org: orgMetadata,
+    plan: {
+      metrics: request.metrics ?? [],
+      where: prepared.where,
+      groupBy: prepared.groupBy.length > 0 ? prepared.groupBy : undefined,
+      bucketBy: prepared.bucketing
+        ? {
+            field: prepared.bucketing.field,
+            interval: prepared.bucketing.interval,
+            timeZone: prepared.bucketing.timeZone,
+          }
+        : undefined,
+    },
+    queries: { aggregate, conditionals, statistics },
+    values: evaluation.aggregates,
+    groups: evaluation.groups,
+  };
+  return { snapshot, retries };
+};
+
+export const saveSnapshot = async (snapshot: OrgSnapshot, nameOrPath: string): Promise<string> => {
+  const path = resolveSnapshotPath(nameOrPath);
+  await fs.mkdir(dirname(path), { recursive: true });
+  await fs.writeFile(path, serializeSnapshot(snapshot), 'utf8');
+  return path;
+};
+
+export const loadSnapshot = async (nameOrPath: string): Promise<{ path: string; snapshot: OrgSnapshot }> => {
+  const path = resolveSnapshotPath(nameOrPath);
+  let content: string;
+  try {
+    content = await fs.readFile(path, 'utf8');
+  } catch (error) {
+    throw new SfError(`Unable to read snapshot ${path}.`, 'SnapshotNotFound', undefined, error as Error);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new SfError(`Invalid snapshot ${path}: ${(error as Error).message}`, 'InvalidSnapshot');
+  }
+  if (
+    !isRecord(raw) ||
+    raw.version !== SNAPSHOT_VERSION ||
+    typeof raw.object !== 'string' ||
+    !isRecord(raw.org) ||
+    !isRecord(raw.plan) ||
+    !isRecord(raw.queries) ||
+    !isRecord(raw.values)
+  ) {
+    throw new SfError(
+      `Invalid snapshot ${path}: expected a version ${SNAPSHOT_VERSION} snapshot saved by compare snapshot save.`,
+      'InvalidSnapshot'
+    );
+  }
+  return { path, snapshot: raw as OrgSnapshot };
+};
+
+/** Fills the metrics, filter, group-by fields and bucketing the request leaves unset from the snapshot. */
+export const applySnapshotPlan = (request: ObjectComparisonRequest, snapshot: OrgSnapshot): ObjectComparisonRequest => {
+  if (request.object.toLowerCase() !== snapshot.object.toLowerCase()) {
+    throw new SfError(
+      `The snapshot was saved for ${snapshot.object}, not ${request.object}.`,
+      'SnapshotObjectMismatch'
+    );
+  }
+
+  return {
+    ...request,
+    metrics: request.metrics ?? (snapshot.plan.metrics.length > 0 ? snapshot.plan.metrics : undefined),
+    where: request.where ?? snapshot.plan.where,
+    groupBy: request.groupBy ?? snapshot.plan.groupBy,
+    bucketing: request.bucketing ?? snapshot.plan.bucketBy,
+  };
+};
+
+/**
+ * Compares a live target org against a snapshot: the snapshot stands in for the source org, and the target runs
+ * the same queries. The rows, tolerances and section match a comparison of two live orgs.
+ */
+export const compareWithSnapshot = async (
+  context: SnapshotOrgContext,
+  snapshot: OrgSnapshot,
+  request: ObjectComparisonRequest
+): Promise<ComparisonSection> => {
+  const describe = await context.metadata.describeSObject(request.object);
+  const prepared = prepareComparison(describe, describe, request, TARGET_LABELS);
+  assertSnapshotMatches(snapshot, prepared);
+
+  const retries: QueryRetry[] = [];
+  const target = await evaluateOrg({
+    org: context.org,
+    plan: prepared.plan,
+    sampleQuery: prepared.sampleQuery,
+    apiVersionOverride: context.apiVersion,
+    chunking: request.chunking,
+    onProgress: context.onProgress,
+    execution: { policy: context.queryPolicy ?? DEFAULT_QUERY_POLICY, orgLabel: 'target org', retries },
+  });
+  const source: OrgEvaluation = { aggregates: snapshot.values, groups: snapshot.groups, samples: [] };
+
+  return buildComparisonSection(prepared, request, {
+    metrics: buildComparisonRows(prepared.plan, source, target),
+    samples: { source: [], target: target.samples },
+    retries,
+  });
+};
@@ -17,13 +17,27 @@
 import { promises as fs } from 'node:fs';
 import { dirname, resolve } from 'node:path';
 
-import type { CompareDataResult } from '../commands/compare/data.js';
+import type { CompareDataMatrixResult, CompareDataResult } from '../commands/compare/data.js';
+import type { ComparePlanResult } from '../commands/compare/plan.js';
+import type { CompareRecordsResult } from '../commands/compare/records.js';
+import type { CompareSchemaResult } from '../commands/compare/schema.js';
+import type { CompareCountsResult } from '../commands/compare/counts.js';
+import type { CompareMetadataResult } from '../commands/compare/metadata.js';
+import type { MetricComparisonRow } from './dataComparisonService.js';
+import type { ComparisonSection } from './objectComparison.js';
 import type { ResolvedMetric } from './metricParser.js';
+import { formatBucketing } from './timeBuckets.js';
+import type { MetricDrilldown } from './drilldown.js';
+import { formatSchemaChanges } from './schemaComparison.js';
 
 const escapePdfText = (input: string): string =>
   input.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
 
 const formatMetricLabel = (metric: ResolvedMetric): string => {
+  if (metric.displayLabel) {
+    return metric.displayLabel;
+  }
+
   switch (metric.kind) {
     case 'count':
       return 'COUNT(Id)';
@@ -37,6 +51,14 @@ const formatMetricLabel = (metric: ResolvedMetric): string => {
       return `COUNT_IF(${metric.condition})`;
     case 'sumIf':
       return `SUM_IF(${metric.field}|${metric.condition})`;
+    case 'expression':
+      return metric.label;
+    case 'percentile':
+      return `P${metric.percentile.toString()}(${metric.field})`;
+    case 'histogram':
+      return `HISTOGRAM(${metric.field}, ${metric.buckets.toString()})`;
+    case 'frequency':
+      return `FREQUENCY(${metric.field}, ${metric.top.toString()})`;
   }
   const exhaustiveCheck: never = metric;
   return exhaustiveCheck;
@@ -54,36 +76,315 @@ const formatMetricValue = (metric: ResolvedMetric, value: number | string | null
   return String(value);
 };
 
+const formatGroupLabel = (row: MetricComparisonRow, groupBy: string[]): string =>
+  [
+    ...groupBy.map((field) => `${field}=${String(row.group?.[field] ?? '—')}`),
+    ...(row.period === undefined ? [] : [row.period]),
+  ].join(', ');
+
 const padColumn = (value: string, width: number): string => value.padEnd(width, ' ');
 
-const buildContentStream = (result: CompareDataResult): string => {
+const buildHeaderLines = (result: CompareDataResult | ComparePlanResult): string[] => {
   const lines: string[] = [];
   const now = new Date().toISOString();
   lines.push(`Report Title: ${result.reportTitle ?? 'Salesforce Data Comparison'}`);
   lines.push(`Generated At: ${now}`);
   lines.push(`Source Org: ${result.source.aliasOrUsername} (${result.source.orgId})`);
   lines.push(`Target Org: ${result.target.aliasOrUsername} (${result.target.orgId})`);
+  return lines;
+};
+
+const formatShare = (share: number): string => `${(share * 100).toFixed(1)}%`;
+
+const buildDistributionLines = (row: MetricComparisonRow): string[] => {
+  const { distribution } = row;
+  if (!distribution) {
+    return [];
+  }
+
+  const drift = [`PSI ${distribution.psi === null ? '—' : distribution.psi.toFixed(4)}`];
+  if (distribution.ks !== undefined) {
+    drift.push(`KS ${distribution.ks === null ? '—' : distribution.ks.toFixed(4)}`);
+  }
+  const lines = ['', `Distribution: ${formatMetricLabel(row.metric)} (${drift.join(', ')})`];
+  lines.push(`${padColumn('Bucket', 30)}${padColumn('Source', 15)}${padColumn('Target', 15)}Source / Target Share`);
+  for (const bucket of distribution.buckets) {
+    lines.push(
+      `${padColumn(bucket.label, 30)}${padColumn(String(bucket.source), 15)}${padColumn(
+        String(bucket.target),
+        15
+      )}${formatShare(bucket.sourceShare)} / ${formatShare(bucket.targetShare)}`
+    );
+  }
+  return lines;
+};
+
+const buildSectionLines = (result: ComparisonSection): string[] => {
+  const lines: string[] = [];
   lines.push(`Object: ${result.object}`);
-  lines.push(`Metrics: ${result.metrics.map((metric) => formatMetricLabel(metric.metric)).join(' | ')}`);
+  const groupBy = result.filters.groupBy ?? [];
+  const grouped = groupBy.length > 0 || result.filters.bucketBy !== undefined;
+  const metricLabels = new Set(result.metrics.map((metric) => formatMetricLabel(metric.metric)));
+  lines.push(`Metrics: ${Array.from(metricLabels).join(' | ')}`);
+  if (result.mapping) {
+    lines.push(`Target Object: ${result.mapping.targetObject}`);
+  }
+  if (result.targetQueries) {
+    const targetLabels = new Set(
+      result.metrics.map((metric) => metric.targetLabel ?? formatMetricLabel(metric.metric))
+    );
+    lines.push(`Target Metrics: ${Array.from(targetLabels).join(' | ')}`);
+  }
+  if (result.namespaces) {
+    const resolved = result.namespaces.map(
+      (resolution) => `${resolution.org}: ${resolution.name} -> ${resolution.resolvedName}`
+    );
+    lines.push(`Resolved Names: ${resolved.join(' | ')}`);
+  }
   lines.push(`Filter: ${result.filters.where ?? ''}`);
+  if (groupBy.length > 0) {
+    lines.push(`Group By: ${groupBy.join(' | ')}`);
+  }
+  if (result.filters.bucketBy) {
+    lines.push(`Bucket By: ${formatBucketing(result.filters.bucketBy)}`);
+  }
   lines.push(`Sample Size: ${result.filters.sampleSize}`);
+  lines.push(`Metrics Outside Tolerance: ${result.tolerance.failures}`);
   lines.push('');
 
-  const header = `${padColumn('Metric', 30)}${padColumn('Source', 15)}${padColumn('Target', 15)}Difference`;
+  const groupHeader = grouped ? padColumn('Group', 30) : '';
+  const header = `${groupHeader}${padColumn('Metric', 30)}${padColumn('Source', 15)}${padColumn(
+    'Target',
+    15
+  )}${padColumn('Difference', 15)}Status`;
   lines.push(header);
   for (const metric of result.metrics) {
+    const group = grouped ? padColumn(formatGroupLabel(metric, groupBy), 30) : '';
     const source = formatMetricValue(metric.metric, metric.sourceValue);
     const target = formatMetricValue(metric.metric, metric.targetValue);
     const difference = metric.difference === null ? '—' : String(metric.difference);
+    const status = metric.status?.toUpperCase() ?? '';
     lines.push(
-      `${padColumn(formatMetricLabel(metric.metric), 30)}${padColumn(source, 15)}${padColumn(target, 15)}${difference}`
+      `${group}${padColumn(formatMetricLabel(metric.metric), 30)}${padColumn(source, 15)}${padColumn(
+        target,
+        15
+      )}${padColumn(difference, 15)}${status}`
     );
   }
 
+  for (const metric of result.metrics) {
+    lines.push(...buildDistributionLines(metric));
+  }
+
   lines.push('');
   lines.push(`Source Samples: ${result.samples.source.length}`);
   lines.push(`Target Samples: ${result.samples.target.length}`);
 
+  return lines;
+};
+
+const buildDrilldownLines = (drilldown: MetricDrilldown): string[] => {
+  const lines = ['', `Drill-down: ${formatMetricLabel(drilldown.metric)} (difference ${drilldown.difference})`];
+  if (drilldown.path.length === 0) {
+    lines.push('No dimension localizes the difference.');
+  }
+  for (const step of drilldown.path) {
+    lines.push(
+      `${padColumn(step.dimension, 30)}${padColumn(step.slice, 30)}${padColumn(
+        String(step.difference),
+        15
+      )}${formatShare(step.share)}`
+    );
+  }
+  return lines;
+};
+
+const buildComparisonLines = (result: CompareDataResult): string[] => [
+  ...buildHeaderLines(result),
+  ...buildSectionLines(result),
+  ...(result.drilldown ?? []).flatMap(buildDrilldownLines),
+];
+
+const buildMatrixLines = (result: CompareDataMatrixResult): string[] => {
+  const lines: string[] = [];
+  lines.push(`Report Title: ${result.reportTitle ?? 'Salesforce Data Comparison'}`);
+  lines.push(`Generated At: ${new Date().toISOString()}`);
+  lines.push(`Baseline Org: ${result.baseline}`);
+  for (const org of result.orgMetadata) {
+    lines.push(`Org: ${org.aliasOrUsername} (${org.orgId})`);
+  }
+  lines.push(`Object: ${result.object}`);
+  lines.push(`Filter: ${result.filters.where ?? ''}`);
+  const groupBy = result.filters.groupBy ?? [];
+  if (groupBy.length > 0) {
+    lines.push(`Group By: ${groupBy.join(' | ')}`);
+  }
+  if (result.filters.bucketBy) {
+    lines.push(`Bucket By: ${formatBucketing(result.filters.bucketBy)}`);
+  }
+  lines.push(`Metrics Outside Tolerance: ${result.tolerance.failures}`);
+  lines.push('');
+
+  const grouped = groupBy.length > 0 || result.filters.bucketBy !== undefined;
+  lines.push(
+    `${grouped ? padColumn('Group', 30) : ''}${padColumn('Metric', 30)}${result.orgs
+      .map((org) => padColumn(org, 20))
+      .join('')}Status`
+  );
+  for (const row of result.rows) {
+    const group = grouped
+      ? padColumn(
+          [
+            ...groupBy.map((field) => `${field}=${String(row.group?.[field] ?? '—')}`),
+            ...(row.period === undefined ? [] : [row.period]),
+          ].join(', '),
+          30
+        )
+      : '';
+    const cells = row.cells.map((cell) => {
+      const value = formatMetricValue(row.metric, cell.value);
+      const difference =
+        cell.difference === null ? '' : ` (${cell.difference > 0 ? '+' : ''}${String(cell.difference)})`;
+      return padColumn(`${value}${difference}`, 20);
+    });
+    lines.push(
+      `${group}${padColumn(formatMetricLabel(row.metric), 30)}${cells.join('')}${row.status?.toUpperCase() ?? ''}`
+    );
+  }
+
+  return lines;
+};
+
+const buildPlanLines = (result: ComparePlanResult): string[] => {
+  const lines = buildHeaderLines(result);
+  lines.push(`Plan File: ${result.planFile}`);
+  lines.push(`Objects: ${result.sections.length}`);
+  lines.push(`Metrics Outside Tolerance: ${result.failures}`);
+
+  for (const section of result.sections) {
+    lines.push('');
+    lines.push(...buildSectionLines(section));
+  }
+
+  return lines;
+};
+
+const buildRecordDiffLines = (result: CompareRecordsResult): string[] => {
+  const lines: string[] = [];
+  const now = new Date().toISOString();
+  lines.push(`Report Title: ${result.reportTitle ?? 'Salesforce Record Comparison'}`);
+  lines.push(`Generated At: ${now}`);
+  lines.push(`Source Org: ${result.source.aliasOrUsername} (${result.source.orgId})`);
+  lines.push(`Target Org: ${result.target.aliasOrUsername} (${result.target.orgId})`);
+  lines.push(`Object: ${result.object}`);
+  lines.push(`Key Field: ${result.keyField}`);
+  lines.push(`Filter: ${result.filters.where ?? ''}`);
+  lines.push('');
+
+  lines.push(`${padColumn('Category', 30)}Records`);
+  lines.push(`${padColumn('Source Records', 30)}${result.summary.sourceRecords}`);
+  lines.push(`${padColumn('Target Records', 30)}${result.summary.targetRecords}`);
+  lines.push(`${padColumn('Matched', 30)}${result.summary.matched}`);
+  lines.push(`${padColumn('Unchanged', 30)}${result.summary.unchanged}`);
+  lines.push(`${padColumn('Changed', 30)}${result.summary.changed}`);
+  lines.push(`${padColumn('Missing in Target', 30)}${result.summary.missingInTarget}`);
+  lines.push(`${padColumn('Extra in Target', 30)}${result.summary.extraInTarget}`);
+  lines.push(`${padColumn('Without Key Value', 30)}${result.summary.withoutKey}`);
+  lines.push(`${padColumn('Duplicate Key Value', 30)}${result.summary.duplicateKey}`);
+
+  if (result.fieldMismatches.length > 0) {
+    lines.push('');
+    lines.push(`${padColumn('Field', 30)}Mismatched Records`);
+    for (const entry of result.fieldMismatches) {
+      lines.push(`${padColumn(entry.field, 30)}${entry.mismatches}`);
+    }
+  }
+
+  return lines;
+};
+
+const buildSchemaLines = (result: CompareSchemaResult): string[] => {
+  const lines: string[] = [];
+  const now = new Date().toISOString();
+  lines.push(`Report Title: ${result.reportTitle ?? 'Salesforce Schema Comparison'}`);
+  lines.push(`Generated At: ${now}`);
+  lines.push(`Source Org: ${result.source.aliasOrUsername} (${result.source.orgId})`);
+  lines.push(`Target Org: ${result.target.aliasOrUsername} (${result.target.orgId})`);
+
+  for (const comparison of result.objects) {
+    const { summary } = comparison;
+    lines.push('');
+    lines.push(`Object: ${comparison.object}`);
+    lines.push(
+      `Fields: ${summary.sourceFields} source, ${summary.targetFields} target; ${summary.added} added, ${summary.removed} removed, ${summary.changed} changed`
+    );
+    if (comparison.differences.length === 0) {
+      continue;
+    }
+    lines.push(`${padColumn('Field', 30)}${padColumn('Status', 12)}Changes`);
+    for (const difference of comparison.differences) {
+      lines.push(
+        `${padColumn(difference.field, 30)}${padColumn(difference.status, 12)}${formatSchemaChanges(difference, '->')}`
+      );
+    }
+  }
+
+  return lines;
+};
+
+const buildCountLines = (result: CompareCountsResult): string[] => {
+  const lines: string[] = [];
+  const now = new Date().toISOString();
+  const formatCount = (count: number | null): string => (count === null ? 'missing' : count.toString());
+  lines.push(`Report Title: ${result.reportTitle ?? 'Salesforce Record Count Comparison'}`);
+  lines.push(`Generated At: ${now}`);
+  lines.push(`Source Org: ${result.source.aliasOrUsername} (${result.source.orgId})`);
+  lines.push(`Target Org: ${result.target.aliasOrUsername} (${result.target.orgId})`);
+  lines.push(`Objects Compared: ${result.summary.compared} (${result.summary.matching} matching)`);
+  lines.push('');
+
+  lines.push(`${padColumn('Object', 40)}${padColumn('Source', 14)}${padColumn('Target', 14)}Target - Source`);
+  for (const row of result.rows) {
+    lines.push(
+      `${padColumn(row.object, 40)}${padColumn(formatCount(row.sourceCount), 14)}${padColumn(
+        formatCount(row.targetCount),
+        14
+      )}${row.difference}${row.exact ? '' : ' (estimate)'}`
+    );
+  }
+
+  return lines;
+};
+
+const buildMetadataLines = (result: CompareMetadataResult): string[] => {
+  const lines: string[] = [];
+  const now = new Date().toISOString();
+  lines.push(`Report Title: ${result.reportTitle ?? 'Salesforce Metadata Comparison'}`);
+  lines.push(`Generated At: ${now}`);
+  lines.push(`Source Org: ${result.source.aliasOrUsername} (${result.source.orgId})`);
+  lines.push(`Target Org: ${result.target.aliasOrUsername} (${result.target.orgId})`);
+  lines.push('');
+
+  for (const summary of result.types) {
+    lines.push(
+      `${padColumn(summary.type, 24)}${summary.sourceComponents} source, ${summary.targetComponents} target, ${
+        summary.missingInTarget
+      } missing in target, ${summary.missingInSource} missing in source, ${summary.modified} modified`
+    );
+  }
+
+  if (result.differences.length > 0) {
+    lines.push('');
+    lines.push(`${padColumn('Type', 20)}${padColumn('Component', 50)}Status`);
+    for (const difference of result.differences) {
+      lines.push(`${padColumn(difference.type, 20)}${padColumn(difference.fullName, 50)}${difference.status}`);
+    }
+  }
+
+  return lines;
+};
+
+const buildContentStream = (lines: string[]): string => {
   const escaped = lines.map((line) => `(${escapePdfText(line)}) Tj`).join('\nT*\n');
   return `BT\n/F1 10 Tf\n72 720 Td\n${escaped}\nET`;
 };
@@ -127,9 +428,69 @@ export const exportComparisonToPdf = async (result: CompareDataResult, outputFil
   const resolvedPath = resolve(outputFile);
   await fs.mkdir(dirname(resolvedPath), { recursive: true });
 
-  const contentStream = buildContentStream(result);
+  const contentStream = buildContentStream(buildComparisonLines(result));
   const pdf = buildPdf(contentStream);
 
   await fs.writeFile(resolvedPath, pdf, 'utf8');
   return resolvedPath;
 };
+
+export const exportMatrixToPdf = async (result: CompareDataMatrixResult, outputFile: string): Promise<string> => {
+  const resolvedPath = resolve(outputFile);
+  await fs.mkdir(dirname(resolvedPath), { recursive: true });
+
+  const pdf = buildPdf(buildContentStream(buildMatrixLines(result)));
+
+  await fs.writeFile(resolvedPath, pdf, 'utf8');
+  return resolvedPath;
+};
+
+export const exportPlanToPdf = async (result: ComparePlanResult, outputFile: string): Promise<string> => {
+  const resolvedPath = resolve(outputFile);
+  await fs.mkdir(dirname(resolvedPath), { recursive: true });
+
+  const pdf = buildPdf(buildContentStream(buildPlanLines(result)));
+
+  await fs.writeFile(resolvedPath, pdf, 'utf8');
+  return resolvedPath;
+};
+
+export const exportRecordDiffToPdf = async (result: CompareRecordsResult, outputFile: string): Promise<string> => {
+  const resolvedPath = resolve(outputFile);
+  await fs.mkdir(dirname(resolvedPath), { recursive: true });
+
+  const pdf = buildPdf(buildContentStream(buildRecordDiffLines(result)));
+
+  await fs.writeFile(resolvedPath, pdf, 'utf8');
+  return resolvedPath;
+};
+
+export const exportSchemaToPdf = async (result: CompareSchemaResult, outputFile: string): Promise<string> => {
+  const resolvedPath = resolve(outputFile);
+  await fs.mkdir(dirname(resolvedPath), { recursive: true });
+
+  const pdf = buildPdf(buildContentStream(buildSchemaLines(result)));
+
+  await fs.writeFile(resolvedPath, pdf, 'utf8');
+  return resolvedPath;
+};
+
+export const exportCountsToPdf = async (result: CompareCountsResult, outputFile: string): Promise<string> => {
+  const resolvedPath = resolve(outputFile);
+  await fs.mkdir(dirname(resolvedPath), { recursive: true });
+
+  const pdf = buildPdf(buildContentStream(buildCountLines(result)));
+
+  await fs.writeFile(resolvedPath, pdf, 'utf8');
+  return resolvedPath;
+};
+
+export const exportMetadataToPdf = async (result: CompareMetadataResult, outputFile: string): Promise<string> => {
+  const resolvedPath = resolve(outputFile);
+  await fs.mkdir(dirname(resolvedPath), { recursive: true });
+
+  const pdf = buildPdf(buildContentStream(buildMetadataLines(result)));
+
+  await fs.writeFile(resolvedPath, pdf, 'utf8');
+  return resolvedPath;
+};
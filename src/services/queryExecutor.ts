@@ -0,0 +1,158 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Connection } from '@salesforce/core';
+import { SfError } from '@salesforce/core';
+
+export type QueryRetryPolicy = {
+  timeoutMs: number;
+  maxRetries: number;
+  retryDelayMs: number;
+};
+
+export type QueryRetry = {
+  org: string;
+  query: string;
+  attempt: number;
+  reason: string;
+  delayMs: number;
+};
+
+export type QueryExecution = {
+  policy: QueryRetryPolicy;
+  orgLabel: string;
+  retries: QueryRetry[];
+};
+
+type QueryOptions = Parameters<Connection['query']>[1];
+export type QueryResponse<T> = {
+  records: T[];
+  totalSize: number;
+  done: boolean;
+  nextRecordsUrl?: string;
+};
+
+export const DEFAULT_QUERY_POLICY: QueryRetryPolicy = {
+  timeoutMs: 10 * 60 * 1000,
+  maxRetries: 3,
+  retryDelayMs: 1000,
+};
+
+const RETRYABLE_ERROR_CODES = new Set([
+  'QUERY_TIMEOUT',
+  'REQUEST_LIMIT_EXCEEDED',
+  'SERVER_UNAVAILABLE',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'socket hang up',
+]);
+
+const sleep = (ms: number): Promise<void> => new Promise((resolvePromise) => setTimeout(resolvePromise, ms));
+
+/**
+ * Returns the Salesforce error code or Node network error code that makes an error retryable, if any.
+ */
+export const getRetryableReason = (error: unknown): string | undefined => {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+
+  const { name, errorCode, code, message } = error as Record<string, unknown>;
+  const candidates = [errorCode, code, name, message].filter((value): value is string => typeof value === 'string');
+  return candidates.find((candidate) => RETRYABLE_ERROR_CODES.has(candidate));
+};
+
+const CLIENT_TIMEOUT = 'QueryTimeout';
+
+/**
+ * Stops waiting for the operation after `timeoutMs`. The request itself cannot be cancelled, so the query keeps
+ * running in the org until Salesforce ends it; a timeout raised here is therefore never retried.
+ */
+const withTimeout = async <T>(operation: PromiseLike<T>, timeoutMs: number, orgLabel: string): Promise<T> => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new SfError(
+            `Query against ${orgLabel} did not complete within ${Math.round(timeoutMs / 1000).toString()} second(s).`,
+            CLIENT_TIMEOUT,
+            ['Increase --timeout or narrow the comparison with --where.']
+          )
+        ),
+      timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([operation, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const runWithRetries = async <T>(
+  query: string,
+  operation: () => PromiseLike<T>,
+  execution: QueryExecution,
+  attempt = 1
+): Promise<T> => {
+  const { policy, orgLabel, retries } = execution;
+
+  try {
+    return await withTimeout(operation(), policy.timeoutMs, orgLabel);
+  } catch (error) {
+    // Retrying a client timeout would start a second copy of a query that is still running in the org.
+    const reason = error instanceof SfError && error.name === CLIENT_TIMEOUT ? undefined : getRetryableReason(error);
+    if (!reason || attempt > policy.maxRetries) {
+      throw error;
+    }
+
+    const delayMs = policy.retryDelayMs * 2 ** (attempt - 1);
+    retries.push({ org: orgLabel, query, attempt, reason, delayMs });
+    await sleep(delayMs);
+    return runWithRetries(query, operation, execution, attempt + 1);
+  }
+};
+
+/**
+ * Runs a SOQL query with the execution's timeout, retrying retryable failures with exponential backoff.
+ * Every retry is appended to `execution.retries` so callers can report why a run was slow.
+ */
+export const executeQuery = async <T extends Record<string, unknown>>(
+  connection: Pick<Connection, 'query'>,
+  query: string,
+  execution: QueryExecution,
+  options?: QueryOptions
+): Promise<QueryResponse<T>> => runWithRetries(query, () => connection.query<T>(query, options), execution);
+
+/** Fetches the next page of a query result under the same timeout and retry policy as `executeQuery`. */
+export const executeQueryMore = async <T extends Record<string, unknown>>(
+  connection: Pick<Connection, 'queryMore'>,
+  query: string,
+  nextRecordsUrl: string,
+  execution: QueryExecution
+): Promise<QueryResponse<T>> => runWithRetries(query, () => connection.queryMore<T>(nextRecordsUrl), execution);
+
+/** Sends a REST API GET request under the same timeout and retry policy as `executeQuery`. */
+export const executeRequest = async <T>(
+  connection: Pick<Connection, 'request'>,
+  url: string,
+  execution: QueryExecution
+): Promise<T> => runWithRetries(url, () => connection.request<T>(url), execution);
@@ -0,0 +1,123 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Connection, Org } from '@salesforce/core';
+
+import { executeRequest, type QueryExecution } from './queryExecutor.js';
+
+export type PlannedQuery = {
+  label: string;
+  query: string;
+};
+
+export type QueryPlanSummary = {
+  leadingOperation: string;
+  relativeCost: number;
+  cardinality: number;
+  sobjectCardinality: number;
+  selective: boolean;
+};
+
+export type QueryExplanation = PlannedQuery & {
+  org: string;
+  plan?: QueryPlanSummary;
+  warnings: string[];
+};
+
+type ExplainResponse = {
+  plans?: Array<{
+    cardinality: number;
+    fields: string[];
+    leadingOperationType: string;
+    notes?: Array<{ description: string; fields: string[]; tableEnumOrId: string }>;
+    relativeCost: number;
+    sobjectCardinality: number;
+    sobjectType: string;
+  }>;
+};
+
+/**
+ * Salesforce treats a plan with a relative cost above 1 as non-selective: the optimizer expects to scan more
+ * rows than an index lookup would.
+ */
+const SELECTIVE_COST_THRESHOLD = 1;
+
+export const summarizeExplainResponse = (
+  response: ExplainResponse
+): Omit<QueryExplanation, 'org' | 'label' | 'query'> => {
+  // The query-plan endpoint lists candidate plans from cheapest to most expensive; the first one is used.
+  const [chosen] = response.plans ?? [];
+  if (!chosen) {
+    return { warnings: ['The query plan endpoint returned no plans.'] };
+  }
+
+  const selective = chosen.relativeCost <= SELECTIVE_COST_THRESHOLD;
+  const warnings: string[] = [];
+  if (!selective) {
+    warnings.push(
+      `Not selective: relative cost ${chosen.relativeCost.toString()} with leading operation ${
+        chosen.leadingOperationType
+      } over ${chosen.sobjectCardinality.toString()} ${chosen.sobjectType} record(s).`
+    );
+  }
+  for (const note of chosen.notes ?? []) {
+    warnings.push(note.fields.length > 0 ? `${note.description} (${note.fields.join(', ')})` : note.description);
+  }
+
+  return {
+    plan: {
+      leadingOperation: chosen.leadingOperationType,
+      relativeCost: chosen.relativeCost,
+      cardinality: chosen.cardinality,
+      sobjectCardinality: chosen.sobjectCardinality,
+      selective,
+    },
+    warnings,
+  };
+};
+
+export const explainQuery = async (
+  connection: Pick<Connection, 'request'>,
+  query: string,
+  execution: QueryExecution
+): Promise<Omit<QueryExplanation, 'org' | 'label' | 'query'>> => {
+  const response = await executeRequest<ExplainResponse>(
+    connection,
+    `/query/?explain=${encodeURIComponent(query)}`,
+    execution
+  );
+  return summarizeExplainResponse(response);
+};
+
+/**
+ * Asks the org's query optimizer how it would run each planned query, without executing any of them. Each request
+ * runs under the execution's timeout and retry policy.
+ */
+export const explainQueries = async (
+  org: Org,
+  execution: QueryExecution,
+  queries: PlannedQuery[],
+  apiVersionOverride?: string
+): Promise<QueryExplanation[]> => {
+  const connection = await Promise.resolve(org.getConnection(apiVersionOverride));
+  return Promise.all(
+    queries.map(async (planned) => ({
+      ...planned,
+      org: execution.orgLabel,
+      ...(await explainQuery(connection, planned.query, execution)),
+    }))
+  );
+};
@@ -0,0 +1,276 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Connection, Org } from '@salesforce/core';
+import { SfError } from '@salesforce/core';
+
+import { mapSequentially } from './chunkedAggregation.js';
+import type { MetadataDiscoveryService, SimpleDescribeGlobalResult } from './metadataDiscoveryService.js';
+import {
+  DEFAULT_QUERY_POLICY,
+  executeQuery,
+  executeRequest,
+  getRetryableReason,
+  type QueryExecution,
+  type QueryRetry,
+  type QueryRetryPolicy,
+} from './queryExecutor.js';
+
+/**
+ * The record counts of an object in both orgs. A count is `null` when the org does not have the object, and
+ * `exact` is true when both counts come from COUNT() queries rather than the record count resource.
+ */
+export type ObjectCountRow = {
+  object: string;
+  status: 'different' | 'missing-in-target' | 'missing-in-source';
+  sourceCount: number | null;
+  targetCount: number | null;
+  difference: number;
+  exact: boolean;
+};
+
+export type RecordCountComparison = {
+  filters: {
+    include: string[];
+    exclude: string[];
+  };
+  summary: {
+    compared: number;
+    matching: number;
+    different: number;
+    missingInTarget: number;
+    missingInSource: number;
+  };
+  /** Objects that differ, ranked by the size of the difference. */
+  rows: ObjectCountRow[];
+  retries: QueryRetry[];
+};
+
+export type RecordCountOrg = {
+  label: string;
+  org: Org;
+  metadata: MetadataDiscoveryService;
+};
+
+export type RecordCountOptions = {
+  include?: string[];
+  exclude?: string[];
+  /** Recount objects that differ with COUNT() queries. */
+  exact: boolean;
+  apiVersion?: string;
+  queryPolicy?: QueryRetryPolicy;
+};
+
+type RecordCountResponse = {
+  sObjects?: Array<{ name: string; count: number }>;
+};
+
+type CountConnection = Pick<Connection, 'request' | 'query'>;
+
+// Object names are sent in the query string, so batches are kept well below URL length limits.
+const RECORD_COUNT_BATCH_SIZE = 100;
+
+/** Compiles an object name pattern where `*` matches any characters and `?` one character, ignoring case. */
+export const compileObjectPattern = (pattern: string): RegExp => {
+  const trimmed = pattern.trim();
+  if (!/^[A-Za-z0-9_*?]+$/.test(trimmed)) {
+    throw new SfError(
+      `Invalid object pattern "${pattern}". Use object API names with * and ? wildcards.`,
+      'InvalidObjectPattern'
+    );
+  }
+  const source = trimmed.replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+const splitPatterns = (values: string[] | undefined): string[] =>
+  (values ?? [])
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+
+/**
+ * Lists the queryable objects of a describeGlobal result that match an include pattern, or any name when there
+ * are none, and no exclude pattern.
+ */
+export const selectObjects = (
+  global: SimpleDescribeGlobalResult,
+  include: string[] = [],
+  exclude: string[] = []
+): string[] => {
+  const included = include.map(compileObjectPattern);
+  const excluded = exclude.map(compileObjectPattern);
+  return global.sobjects
+    .filter((sobject) => sobject.queryable !== false)
+    .map((sobject) => sobject.name)
+    .filter(
+      (name) =>
+        (included.length === 0 || included.some((pattern) => pattern.test(name))) &&
+        !excluded.some((pattern) => pattern.test(name))
+    );
+};
+
+/**
+ * Reads record counts from the REST record count resource in batches. The counts are refreshed periodically by
+ * Salesforce, so they are estimates; objects missing from the response are counted as empty.
+ */
+export const fetchRecordCounts = async (
+  connection: Pick<Connection, 'request'>,
+  objects: string[],
+  execution: QueryExecution
+): Promise<Map<string, number>> => {
+  const counts = new Map<string, number>(objects.map((object) => [object.toLowerCase(), 0]));
+  const batches = Array.from({ length: Math.ceil(objects.length / RECORD_COUNT_BATCH_SIZE) }, (_, index) =>
+    objects.slice(index * RECORD_COUNT_BATCH_SIZE, (index + 1) * RECORD_COUNT_BATCH_SIZE)
+  );
+  const responses = await mapSequentially(batches, (batch) =>
+    executeRequest<RecordCountResponse>(
+      connection,
+      `/limits/recordCount?sObjects=${batch.map(encodeURIComponent).join(',')}`,
+      execution
+    )
+  );
+  for (const entry of responses.flatMap((response) => response.sObjects ?? [])) {
+    counts.set(entry.name.toLowerCase(), entry.count);
+  }
+  return counts;
+};
+
+/** Counts the records of an object with COUNT(), or returns undefined when the object cannot be counted. */
+const countExactly = async (
+  connection: Pick<Connection, 'query'>,
+  object: string,
+  execution: QueryExecution
+): Promise<number | undefined> => {
+  try {
+    const response = await executeQuery(connection, `SELECT COUNT() FROM ${object}`, execution);
+    return response.totalSize;
+  } catch (error) {
+    // Some objects, such as feeds and content links, only support filtered queries; keep their estimates.
+    if (getRetryableReason(error)) {
+      throw error;
+    }
+    return undefined;
+  }
+};
+
+const buildRow = (object: string, sourceCount: number | null, targetCount: number | null): ObjectCountRow => ({
+  object,
+  status: targetCount === null ? 'missing-in-target' : sourceCount === null ? 'missing-in-source' : 'different',
+  sourceCount,
+  targetCount,
+  difference: (targetCount ?? 0) - (sourceCount ?? 0),
+  exact: false,
+});
+
+const recount = async (
+  row: ObjectCountRow,
+  connections: { source: CountConnection; target: CountConnection },
+  executions: { source: QueryExecution; target: QueryExecution }
+): Promise<ObjectCountRow | undefined> => {
+  const [sourceCount, targetCount] = await Promise.all([
+    countExactly(connections.source, row.object, executions.source),
+    countExactly(connections.target, row.object, executions.target),
+  ]);
+  if (sourceCount === undefined || targetCount === undefined) {
+    return row;
+  }
+  return sourceCount === targetCount
+    ? undefined
+    : { ...row, sourceCount, targetCount, difference: targetCount - sourceCount, exact: true };
+};
+
+const rankRows = (rows: ObjectCountRow[]): ObjectCountRow[] =>
+  [...rows].sort(
+    (left, right) => Math.abs(right.difference) - Math.abs(left.difference) || left.object.localeCompare(right.object)
+  );
+
+/**
+ * Compares the record counts of every queryable object in two orgs. Objects are listed with describeGlobal,
+ * counted with the record count resource, and, when `exact` is set, recounted with COUNT() where they differ.
+ */
+export const compareRecordCounts = async (
+  source: RecordCountOrg,
+  target: RecordCountOrg,
+  options: RecordCountOptions
+): Promise<RecordCountComparison> => {
+  const include = splitPatterns(options.include);
+  const exclude = splitPatterns(options.exclude);
+  const policy = options.queryPolicy ?? DEFAULT_QUERY_POLICY;
+  const retries: QueryRetry[] = [];
+  const executions = {
+    source: { policy, orgLabel: source.label, retries },
+    target: { policy, orgLabel: target.label, retries },
+  };
+
+  const [sourceGlobal, targetGlobal, sourceConnection, targetConnection] = await Promise.all([
+    source.metadata.describeGlobal(),
+    target.metadata.describeGlobal(),
+    Promise.resolve(source.org.getConnection(options.apiVersion)),
+    Promise.resolve(target.org.getConnection(options.apiVersion)),
+  ]);
+  const sourceObjects = selectObjects(sourceGlobal, include, exclude);
+  const targetObjects = selectObjects(targetGlobal, include, exclude);
+  if (sourceObjects.length === 0 && targetObjects.length === 0) {
+    throw new SfError('No queryable objects match the include and exclude patterns.', 'NoObjectsSelected', [
+      'Check the --include and --exclude patterns, for example --include "Account" --include "*__c".',
+    ]);
+  }
+
+  const [sourceCounts, targetCounts] = await Promise.all([
+    fetchRecordCounts(sourceConnection, sourceObjects, executions.source),
+    fetchRecordCounts(targetConnection, targetObjects, executions.target),
+  ]);
+
+  const names = new Map(
+    [...targetObjects, ...sourceObjects].map((object): [string, string] => [object.toLowerCase(), object])
+  );
+  let matching = 0;
+  let rows: ObjectCountRow[] = [];
+  for (const [key, object] of names) {
+    const sourceCount = sourceCounts.get(key) ?? null;
+    const targetCount = targetCounts.get(key) ?? null;
+    if (sourceCount !== null && sourceCount === targetCount) {
+      matching += 1;
+    } else {
+      rows.push(buildRow(object, sourceCount, targetCount));
+    }
+  }
+
+  if (options.exact) {
+    const connections = { source: sourceConnection, target: targetConnection };
+    // Recount one object at a time so a large org does not exhaust concurrent API requests.
+    const recounted = await mapSequentially(rows, async (row) =>
+      row.status === 'different' ? recount(row, connections, executions) : row
+    );
+    matching += recounted.filter((row) => !row).length;
+    rows = recounted.filter((row): row is ObjectCountRow => row !== undefined);
+  }
+
+  const count = (status: ObjectCountRow['status']): number => rows.filter((row) => row.status === status).length;
+  return {
+    filters: { include, exclude },
+    summary: {
+      compared: names.size,
+      matching,
+      different: count('different'),
+      missingInTarget: count('missing-in-target'),
+      missingInSource: count('missing-in-source'),
+    },
+    rows: rankRows(rows),
+    retries,
+  };
+};
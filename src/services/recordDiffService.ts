@@ -0,0 +1,378 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Connection, Org } from '@salesforce/core';
+import { SfError } from '@salesforce/core';
+
+import type { SimpleDescribeField, SimpleDescribeSObjectResult } from './metadataDiscoveryService.js';
+import {
+  DEFAULT_QUERY_POLICY,
+  executeQuery,
+  executeQueryMore,
+  type QueryExecution,
+  type QueryResponse,
+  type QueryRetry,
+  type QueryRetryPolicy,
+} from './queryExecutor.js';
+
+type RecordValue = string | number | boolean | null;
+
+export type FieldMismatch = {
+  field: string;
+  sourceValue: RecordValue;
+  targetValue: RecordValue;
+};
+
+export type ChangedRecord = {
+  key: string;
+  sourceId?: string;
+  targetId?: string;
+  fields: FieldMismatch[];
+};
+
+export type FieldMismatchCount = {
+  field: string;
+  mismatches: number;
+};
+
+export type RecordDiffSummary = {
+  sourceRecords: number;
+  targetRecords: number;
+  matched: number;
+  missingInTarget: number;
+  extraInTarget: number;
+  changed: number;
+  unchanged: number;
+  withoutKey: number;
+  /** Records whose key value repeats that of an earlier record in the same org; only the first one is compared. */
+  duplicateKey: number;
+};
+
+export type RecordDiff = {
+  summary: RecordDiffSummary;
+  fieldMismatches: FieldMismatchCount[];
+  missingInTarget: string[];
+  extraInTarget: string[];
+  changedRecords: ChangedRecord[];
+};
+
+export type RecordDiffInput = {
+  sourceOrg: Org;
+  targetOrg: Org;
+  query: string;
+  keyField: string;
+  fields: string[];
+  maxRecords: number;
+  apiVersionOverride?: string;
+  queryPolicy?: QueryRetryPolicy;
+};
+
+export type RecordComparison = RecordDiff & {
+  retries: QueryRetry[];
+};
+
+const SYSTEM_FIELDS = new Set([
+  'id',
+  'isdeleted',
+  'createddate',
+  'createdbyid',
+  'lastmodifieddate',
+  'lastmodifiedbyid',
+  'systemmodstamp',
+  'lastvieweddate',
+  'lastreferenceddate',
+  'lastactivitydate',
+]);
+const UNCOMPARABLE_TYPES = new Set(['address', 'location', 'base64', 'encryptedstring', 'complexvalue']);
+
+const findField = (describe: SimpleDescribeSObjectResult, fieldName: string): SimpleDescribeField | undefined =>
+  describe.fields.find((candidate) => candidate.name.toLowerCase() === fieldName.trim().toLowerCase());
+
+/**
+ * Resolves the field used to match records across orgs. `Id` is always accepted; any other field has to be an
+ * external ID (or unique id-lookup) field in both orgs so that it identifies a single record.
+ */
+export const resolveKeyField = (
+  keyField: string,
+  sourceDescribe: SimpleDescribeSObjectResult,
+  targetDescribe: SimpleDescribeSObjectResult
+): string => {
+  if (keyField.trim().toLowerCase() === 'id') {
+    return 'Id';
+  }
+
+  const resolve = (describe: SimpleDescribeSObjectResult, orgLabel: string): SimpleDescribeField => {
+    const field = findField(describe, keyField);
+    if (!field) {
+      throw new SfError(`Field "${keyField}" not found on object ${describe.name} in ${orgLabel}.`, 'FieldNotFound');
+    }
+
+    if (!field.externalId && !(field.idLookup && field.unique)) {
+      throw new SfError(
+        `Field "${field.name}" in ${orgLabel} is not an external ID field and cannot be used as the record key.`,
+        'InvalidKeyField'
+      );
+    }
+    return field;
+  };
+
+  const sourceField = resolve(sourceDescribe, 'source org');
+  resolve(targetDescribe, 'target org');
+  return sourceField.name;
+};
+
+/**
+ * Resolves the fields to compare. Requested fields must exist in both orgs; when none are requested every
+ * comparable field shared by both orgs is used, excluding the key and audit fields that always differ.
+ */
+export const resolveComparisonFields = (
+  requested: string[],
+  keyField: string,
+  sourceDescribe: SimpleDescribeSObjectResult,
+  targetDescribe: SimpleDescribeSObjectResult
+): string[] => {
+  if (requested.length > 0) {
+    const resolved = requested.map((fieldName) => {
+      const sourceField = findField(sourceDescribe, fieldName);
+      if (!sourceField) {
+        throw new SfError(
+          `Field "${fieldName}" not found on object ${sourceDescribe.name} in source org.`,
+          'FieldNotFound'
+        );
+      }
+      if (!findField(targetDescribe, fieldName)) {
+        throw new SfError(
+          `Field "${fieldName}" not found on object ${targetDescribe.name} in target org.`,
+          'FieldNotFound'
+        );
+      }
+      return sourceField.name;
+    });
+    return Array.from(new Set(resolved)).filter((field) => field !== keyField);
+  }
+
+  return sourceDescribe.fields
+    .filter((field) => !SYSTEM_FIELDS.has(field.name.toLowerCase()) && !UNCOMPARABLE_TYPES.has(field.type))
+    .filter((field) => field.name !== keyField && findField(targetDescribe, field.name) !== undefined)
+    .map((field) => field.name);
+};
+
+export const buildRecordQuery = ({
+  objectName,
+  keyField,
+  fields,
+  where,
+}: {
+  objectName: string;
+  keyField: string;
+  fields: string[];
+  where?: string;
+}): string => {
+  const selectFields = Array.from(new Set(['Id', keyField, ...fields]));
+  const trimmedWhere = where?.trim();
+  const whereSegment = trimmedWhere ? ` WHERE ${trimmedWhere}` : '';
+  return `SELECT ${selectFields.join(', ')} FROM ${objectName}${whereSegment} ORDER BY ${keyField}`;
+};
+
+/**
+ * Retrieves the records of the query from both orgs, page by page under the query policy's timeout and retries,
+ * and diffs them on the key field.
+ */
+export const compareRecords = async ({
+  sourceOrg,
+  targetOrg,
+  query,
+  keyField,
+  fields,
+  maxRecords,
+  apiVersionOverride,
+  queryPolicy = DEFAULT_QUERY_POLICY,
+}: RecordDiffInput): Promise<RecordComparison> => {
+  const retries: QueryRetry[] = [];
+  const [sourceRecords, targetRecords] = await Promise.all([
+    fetchRecords(sourceOrg, query, maxRecords, apiVersionOverride, {
+      policy: queryPolicy,
+      orgLabel: 'source org',
+      retries,
+    }),
+    fetchRecords(targetOrg, query, maxRecords, apiVersionOverride, {
+      policy: queryPolicy,
+      orgLabel: 'target org',
+      retries,
+    }),
+  ]);
+
+  return { ...diffRecords(sourceRecords, targetRecords, keyField, fields), retries };
+};
+
+const fetchRemainingPages = async (
+  connection: Pick<Connection, 'queryMore'>,
+  query: string,
+  page: QueryResponse<Record<string, unknown>>,
+  execution: QueryExecution
+): Promise<Array<Record<string, unknown>>> => {
+  if (page.done || !page.nextRecordsUrl) {
+    return page.records;
+  }
+  const next = await executeQueryMore<Record<string, unknown>>(connection, query, page.nextRecordsUrl, execution);
+  return [...page.records, ...(await fetchRemainingPages(connection, query, next, execution))];
+};
+
+const fetchRecords = async (
+  org: Org,
+  query: string,
+  maxRecords: number,
+  apiVersionOverride: string | undefined,
+  execution: QueryExecution
+): Promise<Array<Record<string, unknown>>> => {
+  const connection = await Promise.resolve(org.getConnection(apiVersionOverride));
+  const response = await executeQuery<Record<string, unknown>>(connection, query, execution);
+
+  // The first page already carries the total, so an oversized result fails before any further page is fetched.
+  if (response.totalSize > maxRecords) {
+    throw new SfError(
+      `The ${execution.orgLabel} returned ${response.totalSize} records, which exceeds --max-records (${maxRecords}). Narrow the --where filter or raise the limit.`,
+      'TooManyRecords'
+    );
+  }
+
+  return fetchRemainingPages(connection, query, response, execution);
+};
+
+export const diffRecords = (
+  sourceRecords: Array<Record<string, unknown>>,
+  targetRecords: Array<Record<string, unknown>>,
+  keyField: string,
+  fields: string[]
+): RecordDiff => {
+  const sourceIndex = indexRecords(sourceRecords, keyField);
+  const targetIndex = indexRecords(targetRecords, keyField);
+
+  const missingInTarget: string[] = [];
+  const changedRecords: ChangedRecord[] = [];
+  const mismatchCounts = new Map<string, number>(fields.map((field) => [field, 0]));
+  let matched = 0;
+
+  for (const [key, sourceRecord] of sourceIndex.records) {
+    const targetRecord = targetIndex.records.get(key);
+    if (!targetRecord) {
+      missingInTarget.push(key);
+      continue;
+    }
+
+    matched += 1;
+    const mismatches: FieldMismatch[] = [];
+    for (const field of fields) {
+      const sourceValue = normalizeRecordValue(sourceRecord[field]);
+      const targetValue = normalizeRecordValue(targetRecord[field]);
+      if (!valuesEqual(sourceValue, targetValue)) {
+        mismatches.push({ field, sourceValue, targetValue });
+        mismatchCounts.set(field, (mismatchCounts.get(field) ?? 0) + 1);
+      }
+    }
+
+    if (mismatches.length > 0) {
+      changedRecords.push({
+        key,
+        sourceId: recordId(sourceRecord),
+        targetId: recordId(targetRecord),
+        fields: mismatches,
+      });
+    }
+  }
+
+  const extraInTarget = Array.from(targetIndex.records.keys()).filter((key) => !sourceIndex.records.has(key));
+
+  return {
+    summary: {
+      sourceRecords: sourceRecords.length,
+      targetRecords: targetRecords.length,
+      matched,
+      missingInTarget: missingInTarget.length,
+      extraInTarget: extraInTarget.length,
+      changed: changedRecords.length,
+      unchanged: matched - changedRecords.length,
+      withoutKey: sourceIndex.withoutKey + targetIndex.withoutKey,
+      duplicateKey: sourceIndex.duplicateKey + targetIndex.duplicateKey,
+    },
+    fieldMismatches: Array.from(mismatchCounts, ([field, mismatches]) => ({ field, mismatches }))
+      .filter((entry) => entry.mismatches > 0)
+      .sort((left, right) => right.mismatches - left.mismatches || left.field.localeCompare(right.field)),
+    missingInTarget,
+    extraInTarget,
+    changedRecords,
+  } satisfies RecordDiff;
+};
+
+const indexRecords = (
+  records: Array<Record<string, unknown>>,
+  keyField: string
+): { records: Map<string, Record<string, unknown>>; withoutKey: number; duplicateKey: number } => {
+  const index = new Map<string, Record<string, unknown>>();
+  let withoutKey = 0;
+  let duplicateKey = 0;
+
+  for (const record of records) {
+    const key = normalizeRecordValue(record[keyField]);
+    if (key === null || key === '') {
+      withoutKey += 1;
+      continue;
+    }
+    if (index.has(String(key))) {
+      duplicateKey += 1;
+      continue;
+    }
+    index.set(String(key), record);
+  }
+
+  return { records: index, withoutKey, duplicateKey };
+};
+
+const recordId = (record: Record<string, unknown>): string | undefined =>
+  typeof record.Id === 'string' ? record.Id : undefined;
+
+const normalizeRecordValue = (raw: unknown): RecordValue => {
+  if (raw === null || raw === undefined) {
+    return null;
+  }
+
+  if (typeof raw === 'string' || typeof raw === 'number' || typeof raw === 'boolean') {
+    return raw;
+  }
+
+  if (raw instanceof Date) {
+    return raw.toISOString();
+  }
+
+  return JSON.stringify(raw);
+};
+
+const valuesEqual = (left: RecordValue, right: RecordValue): boolean => {
+  if (left === right) {
+    return true;
+  }
+
+  // Treat empty strings and nulls alike, and compare mixed number/string values by their numeric value.
+  if ((left === null || left === '') && (right === null || right === '')) {
+    return true;
+  }
+
+  if (typeof left === 'number' || typeof right === 'number') {
+    return left !== null && right !== null && left !== '' && right !== '' && Number(left) === Number(right);
+  }
+
+  return false;
+};
@@ -0,0 +1,265 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { dirname } from 'node:path';
+
+import { SfError } from '@salesforce/core';
+
+import type { OrgMetadata } from './commandSupport.js';
+import type { GroupValue } from './dataComparisonService.js';
+import { getRunHistoryPath } from './dataPaths.js';
+import { formatMetricLabel } from './metricParser.js';
+import type { ComparisonSection } from './objectComparison.js';
+import type { MetricStatus } from './toleranceEvaluator.js';
+
+const HISTORY_VERSION = 1;
+
+export type HistoryMetric = {
+  alias: string;
+  label: string;
+  group?: Record<string, GroupValue>;
+  period?: string;
+  sourceValue: number | string | null;
+  targetValue: number | string | null;
+  difference: number | null;
+  status?: MetricStatus;
+};
+
+/** One recorded compare data run, trimmed to what a trend needs: no samples, queries or distributions. */
+export type HistoryRun = {
+  id: string;
+  recordedAt: string;
+  source: OrgMetadata;
+  target: OrgMetadata;
+  sourceSnapshot?: string;
+  object: string;
+  filters: Omit<ComparisonSection['filters'], 'sampleSize'>;
+  failures: number;
+  metrics: HistoryMetric[];
+};
+
+export type HistoryFilter = {
+  sourceOrg?: string;
+  targetOrg?: string;
+  object?: string;
+  metrics?: string[];
+};
+
+export type TrendDirection = 'improving' | 'worsening' | 'unchanged' | 'unknown';
+
+export type TrendPoint = {
+  runId: string;
+  recordedAt: string;
+  sourceValue: number | string | null;
+  targetValue: number | string | null;
+  difference: number | null;
+  change: number | null;
+  status?: MetricStatus;
+};
+
+/** The difference of one metric, group and period between one org pair under one filter across runs, oldest first. */
+export type MetricTrend = {
+  source: OrgMetadata;
+  target: OrgMetadata;
+  object: string;
+  filters: HistoryRun['filters'];
+  alias: string;
+  label: string;
+  group?: Record<string, GroupValue>;
+  period?: string;
+  direction: TrendDirection;
+  points: TrendPoint[];
+};
+
+type HistoryFile = {
+  version: number;
+  runs: HistoryRun[];
+};
+
+export const buildHistoryRun = (
+  result: Pick<ComparisonSection, 'object' | 'metrics' | 'filters' | 'tolerance'> & {
+    source: OrgMetadata;
+    target: OrgMetadata;
+    sourceSnapshot?: string;
+  },
+  recordedAt: Date = new Date()
+): HistoryRun => ({
+  id: randomUUID(),
+  recordedAt: recordedAt.toISOString(),
+  source: result.source,
+  target: result.target,
+  sourceSnapshot: result.sourceSnapshot,
+  object: result.object,
+  filters: { where: result.filters.where, groupBy: result.filters.groupBy, bucketBy: result.filters.bucketBy },
+  failures: result.tolerance.failures,
+  metrics: result.metrics.map((row) => ({
+    alias: row.alias,
+    label: formatMetricLabel(row.metric),
+    group: row.group,
+    period: row.period,
+    sourceValue: row.sourceValue,
+    targetValue: row.targetValue,
+    difference: row.difference,
+    status: row.status,
+  })),
+});
+
+/** Runs in the order they were recorded. A missing file is an empty history; a damaged one is an error. */
+export const readRunHistory = async (): Promise<HistoryRun[]> => {
+  const path = getRunHistoryPath();
+  let raw: string;
+  try {
+    raw = await fs.readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as HistoryFile;
+    if (parsed.version === HISTORY_VERSION && Array.isArray(parsed.runs)) {
+      return parsed.runs;
+    }
+  } catch (error) {
+    // Reported below together with version mismatches.
+  }
+  throw new SfError(`Run history ${path} is not a version ${HISTORY_VERSION} history file.`, 'InvalidRunHistory', [
+    'Move the file aside to start a new history.',
+  ]);
+};
+
+export const recordRun = async (run: HistoryRun): Promise<string> => {
+  const path = getRunHistoryPath();
+  const history: HistoryFile = { version: HISTORY_VERSION, runs: [...(await readRunHistory()), run] };
+
+  const tmpPath = `${path}.tmp-${process.pid}-${Date.now()}`;
+  await fs.mkdir(dirname(path), { recursive: true });
+  await fs.writeFile(tmpPath, JSON.stringify(history), 'utf8');
+  await fs.rename(tmpPath, path);
+  return path;
+};
+
+const matchesOrg = (org: OrgMetadata, aliasOrId: string | undefined): boolean =>
+  aliasOrId === undefined || org.orgId === aliasOrId || org.aliasOrUsername.toLowerCase() === aliasOrId.toLowerCase();
+
+/** Keeps the runs of the requested orgs and object, trimmed to the requested metrics (by label or alias). */
+export const filterRuns = (runs: HistoryRun[], filter: HistoryFilter): HistoryRun[] => {
+  const metrics = filter.metrics?.map((metric) => metric.toLowerCase());
+  return runs
+    .filter(
+      (run) =>
+        matchesOrg(run.source, filter.sourceOrg) &&
+        matchesOrg(run.target, filter.targetOrg) &&
+        (filter.object === undefined || run.object.toLowerCase() === filter.object.toLowerCase())
+    )
+    .map((run) =>
+      metrics
+        ? {
+            ...run,
+            metrics: run.metrics.filter(
+              (metric) => metrics.includes(metric.alias.toLowerCase()) || metrics.includes(metric.label.toLowerCase())
+            ),
+          }
+        : run
+    )
+    .filter((run) => run.metrics.length > 0);
+};
+
+const groupKey = (group: Record<string, GroupValue> | undefined): string =>
+  group
+    ? JSON.stringify(
+        Object.keys(group)
+          .sort()
+          .map((field) => [field, group[field]])
+      )
+    : '';
+
+// Runs with another filter, grouping or bucketing measure something else, so they start a trend of their own.
+const filtersKey = (filters: HistoryRun['filters']): string =>
+  JSON.stringify([
+    filters.where ?? '',
+    (filters.groupBy ?? []).map((field) => field.toLowerCase()).sort(),
+    filters.bucketBy
+      ? [filters.bucketBy.field.toLowerCase(), filters.bucketBy.interval, filters.bucketBy.timeZone]
+      : null,
+  ]);
+
+const trendDirection = (points: TrendPoint[]): TrendDirection => {
+  const first = points[0]?.difference;
+  const latest = points[points.length - 1]?.difference;
+  if (typeof first !== 'number' || typeof latest !== 'number') {
+    return 'unknown';
+  }
+  if (Math.abs(latest) < Math.abs(first)) {
+    return 'improving';
+  }
+  return Math.abs(latest) > Math.abs(first) ? 'worsening' : 'unchanged';
+};
+
+/**
+ * Splits the runs into one trend per org pair, object, filter, metric, group and period. Orgs are matched by ID, so
+ * a renamed alias continues the same trend.
+ */
+export const buildMetricTrends = (runs: HistoryRun[]): MetricTrend[] => {
+  const trends = new Map<string, MetricTrend>();
+  const ordered = runs.slice().sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+
+  for (const run of ordered) {
+    for (const metric of run.metrics) {
+      const key = [
+        run.source.orgId,
+        run.target.orgId,
+        run.object.toLowerCase(),
+        filtersKey(run.filters),
+        metric.alias,
+        groupKey(metric.group),
+        metric.period ?? '',
+      ].join('|');
+      const trend = trends.get(key) ?? {
+        source: run.source,
+        target: run.target,
+        object: run.object,
+        filters: run.filters,
+        alias: metric.alias,
+        label: metric.label,
+        group: metric.group,
+        period: metric.period,
+        direction: 'unknown',
+        points: [],
+      };
+      const previous = trend.points[trend.points.length - 1]?.difference;
+      trend.points.push({
+        runId: run.id,
+        recordedAt: run.recordedAt,
+        sourceValue: metric.sourceValue,
+        targetValue: metric.targetValue,
+        difference: metric.difference,
+        change:
+          previous === null || previous === undefined || metric.difference === null
+            ? null
+            : metric.difference - previous,
+        status: metric.status,
+      });
+      trends.set(key, { ...trend, source: run.source, target: run.target, label: metric.label });
+    }
+  }
+
+  return Array.from(trends.values()).map((trend) => ({ ...trend, direction: trendDirection(trend.points) }));
+};
@@ -0,0 +1,218 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SfError } from '@salesforce/core';
+
+import type { SimpleDescribeField, SimpleDescribeSObjectResult } from './metadataDiscoveryService.js';
+import type { ObjectComparisonContext, ObjectComparisonRequest } from './objectComparison.js';
+import { describeNamespacedObject } from './namespaceResolution.js';
+
+export const SCHEMA_PROPERTIES = ['type', 'length', 'precision', 'scale', 'aggregatable', 'filterable'] as const;
+
+export type SchemaProperty = (typeof SCHEMA_PROPERTIES)[number];
+
+export type SchemaPropertyChange = {
+  property: SchemaProperty;
+  source: string | number | boolean | null;
+  target: string | number | boolean | null;
+};
+
+/**
+ * A field that differs between the orgs: `added` fields only exist in the target org, `removed` fields only in
+ * the source org, and `changed` fields exist in both with different properties or active picklist values.
+ */
+export type SchemaFieldDifference = {
+  field: string;
+  status: 'added' | 'removed' | 'changed';
+  type?: string;
+  changes: SchemaPropertyChange[];
+  picklist?: {
+    added: string[];
+    removed: string[];
+  };
+};
+
+export type ObjectSchemaComparison = {
+  object: string;
+  targetObject: string;
+  summary: {
+    sourceFields: number;
+    targetFields: number;
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+  differences: SchemaFieldDifference[];
+};
+
+const propertyValue = (field: SimpleDescribeField, property: SchemaProperty): string | number | boolean | null =>
+  field[property] ?? null;
+
+const activePicklistValues = (field: SimpleDescribeField): string[] =>
+  (field.picklistValues ?? []).filter((entry) => entry.active !== false).map((entry) => entry.value);
+
+const comparePicklists = (
+  source: SimpleDescribeField,
+  target: SimpleDescribeField
+): SchemaFieldDifference['picklist'] => {
+  const sourceValues = activePicklistValues(source);
+  const targetValues = activePicklistValues(target);
+  const added = targetValues.filter((value) => !sourceValues.includes(value));
+  const removed = sourceValues.filter((value) => !targetValues.includes(value));
+  return added.length > 0 || removed.length > 0 ? { added, removed } : undefined;
+};
+
+const compareField = (source: SimpleDescribeField, target: SimpleDescribeField): SchemaFieldDifference | undefined => {
+  const changes = SCHEMA_PROPERTIES.flatMap((property): SchemaPropertyChange[] => {
+    const sourceValue = propertyValue(source, property);
+    const targetValue = propertyValue(target, property);
+    return sourceValue === targetValue ? [] : [{ property, source: sourceValue, target: targetValue }];
+  });
+  const picklist = comparePicklists(source, target);
+  if (changes.length === 0 && !picklist) {
+    return undefined;
+  }
+  return { field: source.name, status: 'changed', type: source.type, changes, picklist };
+};
+
+/**
+ * Compares the describe of an object in the source org with its describe in the target org. Fields are matched
+ * on their API name regardless of case and reported in source field order, followed by the target-only fields.
+ */
+export const compareSchemas = (
+  sourceDescribe: SimpleDescribeSObjectResult,
+  targetDescribe: SimpleDescribeSObjectResult
+): ObjectSchemaComparison => {
+  const targetFields = new Map(targetDescribe.fields.map((field) => [field.name.toLowerCase(), field]));
+  const sourceNames = new Set(sourceDescribe.fields.map((field) => field.name.toLowerCase()));
+
+  const differences: SchemaFieldDifference[] = [];
+  for (const field of sourceDescribe.fields) {
+    const target = targetFields.get(field.name.toLowerCase());
+    const difference = target
+      ? compareField(field, target)
+      : { field: field.name, status: 'removed' as const, type: field.type, changes: [] };
+    if (difference) {
+      differences.push(difference);
+    }
+  }
+  for (const field of targetDescribe.fields) {
+    if (!sourceNames.has(field.name.toLowerCase())) {
+      differences.push({ field: field.name, status: 'added', type: field.type, changes: [] });
+    }
+  }
+
+  const count = (status: SchemaFieldDifference['status']): number =>
+    differences.filter((difference) => difference.status === status).length;
+  const changed = count('changed');
+  return {
+    object: sourceDescribe.name,
+    targetObject: targetDescribe.name,
+    summary: {
+      sourceFields: sourceDescribe.fields.length,
+      targetFields: targetDescribe.fields.length,
+      added: count('added'),
+      removed: count('removed'),
+      changed,
+      unchanged: sourceDescribe.fields.length - count('removed') - changed,
+    },
+    differences,
+  };
+};
+
+const formatPropertyValue = (value: string | number | boolean | null): string =>
+  value === null ? 'none' : String(value);
+
+/** Describes the property and picklist changes of a field, e.g. `length: 80 → 255; values added: Gold`. */
+export const formatSchemaChanges = (difference: SchemaFieldDifference, arrow = '→'): string => {
+  const parts = difference.changes.map(
+    (change) =>
+      `${change.property}: ${formatPropertyValue(change.source)} ${arrow} ${formatPropertyValue(change.target)}`
+  );
+  if (difference.picklist?.added.length) {
+    parts.push(`values added: ${difference.picklist.added.join(', ')}`);
+  }
+  if (difference.picklist?.removed.length) {
+    parts.push(`values removed: ${difference.picklist.removed.join(', ')}`);
+  }
+  return parts.join('; ');
+};
+
+/**
+ * Describes the compared object in both orgs and compares the schemas before `compare:data` runs. Describe
+ * failures yield no comparison so that the data comparison reports them with its usual errors.
+ */
+export const preflightSchema = async (
+  context: Pick<ObjectComparisonContext, 'sourceMetadata' | 'targetMetadata' | 'namespaces'>,
+  request: Pick<ObjectComparisonRequest, 'object' | 'mapping'>
+): Promise<ObjectSchemaComparison | undefined> => {
+  try {
+    const [sourceDescribe, targetDescribe] = await Promise.all([
+      describeNamespacedObject(context.sourceMetadata, request.object, context.namespaces?.source),
+      describeNamespacedObject(
+        context.targetMetadata,
+        request.mapping?.targetObject ?? request.object,
+        context.namespaces?.target
+      ),
+    ]);
+    return compareSchemas(sourceDescribe, targetDescribe);
+  } catch {
+    return undefined;
+  }
+};
+
+const MISSING_NAME = /^(Field|Relationship) "([^"]+)"/;
+
+const findMissingDifference = (
+  comparison: ObjectSchemaComparison,
+  kind: string,
+  name: string
+): SchemaFieldDifference | undefined => {
+  const lower = name.toLowerCase();
+  // Relationships are reported through their lookup field: OwnerId for Owner and Parent__c for Parent__r.
+  const fieldName =
+    kind === 'Relationship' ? (lower.endsWith('__r') ? `${lower.slice(0, -3)}__c` : `${lower}id`) : lower;
+  return comparison.differences.find(
+    (difference) => difference.status !== 'changed' && difference.field.toLowerCase() === fieldName
+  );
+};
+
+/**
+ * Explains a `FieldNotFound` error with the schema preflight: when the missing field exists in only one of the
+ * orgs, the error says so. Other errors, and fields missing from both orgs, are returned unchanged.
+ */
+export const explainFieldNotFound = (error: unknown, comparison: ObjectSchemaComparison | undefined): unknown => {
+  if (!comparison || !(error instanceof SfError) || error.name !== 'FieldNotFound') {
+    return error;
+  }
+  const match = MISSING_NAME.exec(error.message);
+  const difference = match ? findMissingDifference(comparison, match[1], match[2]) : undefined;
+  if (!difference) {
+    return error;
+  }
+
+  const [present, missing] = difference.status === 'removed' ? ['source', 'target'] : ['target', 'source'];
+  return new SfError(
+    `${error.message} The schema preflight found ${difference.field} in the ${present} org only; the ${missing} org does not have it.`,
+    'FieldNotFound',
+    [
+      `Run sf compare:schema --object ${
+        comparison.object
+      } to review all ${comparison.differences.length.toString()} schema difference(s) between the orgs.`,
+    ]
+  );
+};
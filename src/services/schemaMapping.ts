@@ -0,0 +1,415 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'node:fs';
+import { extname, resolve } from 'node:path';
+
+import { SfError } from '@salesforce/core';
+import { parse as parseYaml } from 'yaml';
+
+import type { AggregatePlan } from './aggregateQueryBuilder.js';
+import type { SimpleDescribeField, SimpleDescribeSObjectResult } from './metadataDiscoveryService.js';
+import type { MetricComparisonRow, OrgEvaluation } from './dataComparisonService.js';
+import { mapExpression } from './metricExpression.js';
+import { formatMetricLabel, type ParsedMetric, type ParsedOperandMetric } from './metricParser.js';
+import { formatSoqlCondition, parseSoqlCondition, type SoqlCondition, type SoqlLiteral } from './soqlCondition.js';
+
+/** Picklist values of source fields, keyed by source field, mapped to the values that stand for them in the target. */
+export type ValueMapping = Record<string, Record<string, string[]>>;
+
+/** Source object and field names mapped to their names in the target org, keyed by source object. */
+export type SchemaMapping = {
+  objects: Record<string, { target?: string; fields: Record<string, string>; values?: ValueMapping }>;
+};
+
+/** The mapping of one object: its target name, its source field names mapped to target field names, and its values. */
+export type ObjectMapping = {
+  targetObject: string;
+  fields: Record<string, string>;
+  values?: ValueMapping;
+};
+
+const YAML_EXTENSIONS = new Set(['.yaml', '.yml']);
+
+const invalidMapping = (mappingFile: string, reason: string): SfError =>
+  new SfError(`Invalid mapping file ${mappingFile}: ${reason}`, 'InvalidMappingFile');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readNameMap = (value: unknown, mappingFile: string, context: string): Record<string, string> => {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isRecord(value) || Object.values(value).some((name) => typeof name !== 'string' || name.trim() === '')) {
+    throw invalidMapping(mappingFile, `${context} must map source field names to target field names.`);
+  }
+  const fields = value as Record<string, string>;
+  const targets = Object.values(fields).map((name) => name.trim().toLowerCase());
+  if (new Set(targets).size !== targets.length) {
+    throw invalidMapping(mappingFile, `${context} maps two source fields to the same target field.`);
+  }
+  return Object.fromEntries(Object.entries(fields).map(([source, target]) => [source.trim(), target.trim()]));
+};
+
+const readValueMap = (value: unknown, mappingFile: string, context: string): ValueMapping | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    throw invalidMapping(mappingFile, `${context} must map source field names to value mappings.`);
+  }
+
+  const values: ValueMapping = {};
+  for (const [field, entries] of Object.entries(value)) {
+    const fieldContext = `${context}.${field}`;
+    if (!isRecord(entries)) {
+      throw invalidMapping(mappingFile, `${fieldContext} must map source values to target values.`);
+    }
+    const claimed = new Map<string, string>();
+    values[field.trim()] = Object.fromEntries(
+      Object.entries(entries).map(([source, targets]): [string, string[]] => {
+        const list = Array.isArray(targets) ? (targets as unknown[]) : [targets];
+        if (list.length === 0 || list.some((target) => typeof target !== 'string')) {
+          throw invalidMapping(mappingFile, `${fieldContext} must map "${source}" to a value or a list of values.`);
+        }
+        for (const target of list as string[]) {
+          const owner = claimed.get(target);
+          if (owner !== undefined && owner !== source) {
+            throw invalidMapping(mappingFile, `${fieldContext} maps both "${owner}" and "${source}" to "${target}".`);
+          }
+          claimed.set(target, source);
+        }
+        return [source, list as string[]];
+      })
+    );
+  }
+  return values;
+};
+
+export const parseSchemaMapping = (content: string, mappingFile: string): SchemaMapping => {
+  let raw: unknown;
+  try {
+    raw = YAML_EXTENSIONS.has(extname(mappingFile).toLowerCase()) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw invalidMapping(mappingFile, (error as Error).message);
+  }
+
+  if (!isRecord(raw) || !isRecord(raw.objects)) {
+    throw invalidMapping(mappingFile, 'the file must have an "objects" mapping keyed by source object name.');
+  }
+
+  const objects: SchemaMapping['objects'] = {};
+  for (const [object, entry] of Object.entries(raw.objects)) {
+    if (!isRecord(entry) || (entry.target !== undefined && typeof entry.target !== 'string')) {
+      throw invalidMapping(
+        mappingFile,
+        `"${object}" must have an optional "target" name and "fields" and "values" mappings.`
+      );
+    }
+    const values = readValueMap(entry.values, mappingFile, `"${object}.values"`);
+    objects[object] = {
+      target: typeof entry.target === 'string' && entry.target.trim() ? entry.target.trim() : undefined,
+      fields: readNameMap(entry.fields, mappingFile, `"${object}.fields"`),
+      ...(values ? { values } : {}),
+    };
+  }
+  return { objects };
+};
+
+export const loadSchemaMapping = async (mappingFile: string): Promise<SchemaMapping> => {
+  const resolvedPath = resolve(mappingFile);
+  let content: string;
+  try {
+    content = await fs.readFile(resolvedPath, 'utf8');
+  } catch (error) {
+    throw new SfError(`Unable to read mapping file ${resolvedPath}.`, 'MappingFileNotFound', undefined, error as Error);
+  }
+
+  return parseSchemaMapping(content, resolvedPath);
+};
+
+/** The mapping of one source object, or undefined when the file does not list it. Names match case-insensitively. */
+export const resolveObjectMapping = (mapping: SchemaMapping, object: string): ObjectMapping | undefined => {
+  const key = Object.keys(mapping.objects).find((name) => name.toLowerCase() === object.toLowerCase());
+  if (key === undefined) {
+    return undefined;
+  }
+  const entry = mapping.objects[key];
+  return {
+    targetObject: entry.target ?? object,
+    fields: entry.fields,
+    ...(entry.values ? { values: entry.values } : {}),
+  };
+};
+
+export const mapFieldName = (mapping: ObjectMapping, field: string): string => {
+  const key = Object.keys(mapping.fields).find((name) => name.toLowerCase() === field.toLowerCase());
+  return key === undefined ? field : mapping.fields[key];
+};
+
+const findValues = (mapping: ObjectMapping, field: string): Record<string, string[]> | undefined => {
+  const key = Object.keys(mapping.values ?? {}).find((name) => name.toLowerCase() === field.toLowerCase());
+  return key === undefined ? undefined : mapping.values?.[key];
+};
+
+const mapLiteral = (values: Record<string, string[]> | undefined, literal: SoqlLiteral): SoqlLiteral[] => {
+  const targets = literal.kind === 'string' ? values?.[literal.value] : undefined;
+  return targets ? targets.map((value) => ({ kind: 'string', value })) : [literal];
+};
+
+/** Renames the field of a comparison or set condition and replaces mapped picklist values with their targets. */
+const mapLeafCondition = (
+  condition: Extract<SoqlCondition, { kind: 'comparison' | 'set' }>,
+  mapping: ObjectMapping
+): SoqlCondition => {
+  const field = mapFieldName(mapping, condition.field);
+  const values = findValues(mapping, condition.field);
+  if (condition.kind === 'set') {
+    return { ...condition, field, values: condition.values.flatMap((literal) => mapLiteral(values, literal)) };
+  }
+
+  const equality = condition.operator === '=' || condition.operator === '!=' || condition.operator === '<>';
+  const targets = equality ? mapLiteral(values, condition.value) : [condition.value];
+  if (targets.length === 1) {
+    return { ...condition, field, value: targets[0] };
+  }
+  return { kind: 'set', field, operator: condition.operator === '=' ? 'IN' : 'NOT IN', values: targets };
+};
+
+const mapConditionFields = (condition: SoqlCondition, mapping: ObjectMapping): SoqlCondition => {
+  switch (condition.kind) {
+    case 'and':
+    case 'or':
+      return {
+        kind: condition.kind,
+        operands: condition.operands.map((operand) => mapConditionFields(operand, mapping)),
+      };
+    case 'not':
+      return { kind: 'not', operand: mapConditionFields(condition.operand, mapping) };
+    default:
+      return mapLeafCondition(condition, mapping);
+  }
+};
+
+/** Rewrites the field names and mapped picklist values of a SOQL condition to their target names and values. */
+export const mapCondition = (mapping: ObjectMapping, condition: string): string =>
+  formatSoqlCondition(mapConditionFields(parseSoqlCondition(condition), mapping));
+
+/** Rewrites the field names of a parsed metric, including its conditions and expression operands. */
+export const mapParsedMetric = (mapping: ObjectMapping, metric: ParsedMetric): ParsedMetric => {
+  const field = (name: string): string => mapFieldName(mapping, name);
+  switch (metric.kind) {
+    case 'count':
+      return metric;
+    case 'fieldAggregate':
+      return { ...metric, aggregate: { ...metric.aggregate, field: field(metric.aggregate.field) } };
+    case 'ratio':
+      return {
+        ...metric,
+        numerator: { ...metric.numerator, field: field(metric.numerator.field) },
+        denominator: { ...metric.denominator, field: field(metric.denominator.field) },
+      };
+    case 'countIf':
+      return { ...metric, condition: mapCondition(mapping, metric.condition) };
+    case 'sumIf':
+      return { ...metric, field: field(metric.field), condition: mapCondition(mapping, metric.condition) };
+    case 'expression':
+      return {
+        ...metric,
+        expression: mapExpression(
+          metric.expression,
+          (operand) => mapParsedMetric(mapping, operand) as ParsedOperandMetric
+        ),
+      };
+    default:
+      return { ...metric, field: field(metric.field) };
+  }
+};
+
+const planShape = (plan: AggregatePlan): string[] => [
+  ...plan.metrics.map((definition) => `${definition.kind}:${definition.metric.kind}:${definition.metric.valueType}`),
+  ...plan.expressions.map((expression) => `expression:${expression.valueType}`),
+  ...plan.conditionalMetrics.map((conditional) => `conditional:${conditional.valueType}`),
+  ...plan.statistics.map((statistic) => `statistic:${statistic.fn}:${statistic.valueType}`),
+  ...plan.distributions.map((distribution) => `distribution:${distribution.kind}`),
+  ...(plan.groupBy ?? []).map((group) => `group:${group.period ? 'period' : 'field'}`),
+];
+
+/**
+ * Checks that the target plan built from mapped names has the same metrics, queries and groups as the source
+ * plan, in the same order, so target values can be renamed to source aliases by position.
+ */
+export const assertMappedPlan = (source: AggregatePlan, target: AggregatePlan): void => {
+  const sourceShape = planShape(source);
+  const targetShape = planShape(target);
+  const mismatch = sourceShape.findIndex((part, index) => part !== targetShape[index]);
+  if (mismatch >= 0 || sourceShape.length !== targetShape.length) {
+    throw new SfError(
+      `The mapped metrics for ${target.objectName} resolve differently in the target org than for ${source.objectName} in the source org.`,
+      'MappedMetricMismatch',
+      ['Check that every mapped field has a compatible type in both orgs and that no two metrics map to one.']
+    );
+  }
+};
+
+type PicklistField = SimpleDescribeField & { picklistValues: Array<{ value: string }> };
+
+const describePicklist = (describe: SimpleDescribeSObjectResult, field: string, orgLabel: string): PicklistField => {
+  const found = describe.fields.find((candidate) => candidate.name.toLowerCase() === field.toLowerCase());
+  if (!found || (found.type !== 'picklist' && found.type !== 'multipicklist')) {
+    throw new SfError(
+      `Values are mapped for ${field}, which is not a picklist on ${describe.name} in the ${orgLabel}.`,
+      'InvalidMappedValue'
+    );
+  }
+  return { ...found, picklistValues: found.picklistValues ?? [] };
+};
+
+const assertPicklistValues = (field: PicklistField, values: string[], orgLabel: string): void => {
+  const known = new Set(field.picklistValues.map((entry) => entry.value));
+  const unknown = values.filter((value) => !known.has(value));
+  if (unknown.length > 0) {
+    throw new SfError(
+      `${unknown.map((value) => `"${value}"`).join(', ')} ${
+        unknown.length === 1 ? 'is not a picklist value' : 'are not picklist values'
+      } of ${field.name} in the ${orgLabel}.`,
+      'InvalidMappedValue',
+      [`Use one of: ${Array.from(known).join(', ')}.`]
+    );
+  }
+};
+
+/**
+ * Checks every mapped picklist value against the picklist values of its field: source values in the source
+ * describe and target values in the target describe, where `targetNames` gives the field its target name.
+ */
+export const validateValueMapping = (
+  mapping: ObjectMapping,
+  sourceDescribe: SimpleDescribeSObjectResult,
+  targetDescribe: SimpleDescribeSObjectResult,
+  targetNames: ObjectMapping = mapping
+): void => {
+  for (const [field, values] of Object.entries(mapping.values ?? {})) {
+    assertPicklistValues(describePicklist(sourceDescribe, field, 'source org'), Object.keys(values), 'source org');
+    assertPicklistValues(
+      describePicklist(targetDescribe, mapFieldName(targetNames, field), 'target org'),
+      Object.values(values).flat(),
+      'target org'
+    );
+  }
+};
+
+const MERGEABLE_FUNCTIONS = new Set(['COUNT', 'SUM', 'MIN', 'MAX']);
+
+/**
+ * Names the first metric of a plan whose values do not add up when groups are merged: only counts, sums, minimums
+ * and maximums do.
+ */
+export const findUnmergeableMetric = (plan: AggregatePlan): string | undefined => {
+  const unmergeable = plan.expressions.find(
+    (expression) => !MERGEABLE_FUNCTIONS.has(expression.soql.slice(0, expression.soql.indexOf('(')).toUpperCase())
+  );
+  return (
+    unmergeable?.soql ??
+    (plan.statistics.length > 0 || plan.distributions.length > 0 ? 'client-side statistics' : undefined)
+  );
+};
+
+/**
+ * Checks that target groups which fall together under one source value can be merged: only counts, sums,
+ * minimums and maximums add up across groups.
+ */
+export const assertMergeableGroups = (plan: AggregatePlan, mapping: ObjectMapping): void => {
+  const merged = (plan.groupBy ?? []).find((group) =>
+    Object.values(findValues(mapping, group.field) ?? {}).some((targets) => targets.length > 1)
+  );
+  const unmergeable = findUnmergeableMetric(plan);
+  if (merged && unmergeable) {
+    throw new SfError(
+      `${merged.field} maps a value to several target values, so their groups cannot be merged for ${unmergeable}.`,
+      'UnmergeableMappedValues',
+      ['Group by another field, or compare only counts, sums, minimums and maximums.']
+    );
+  }
+};
+
+/** Target picklist values mapped back to their source values, keyed by lower-case source field name. */
+export const buildCanonicalValues = (mapping: ObjectMapping): Map<string, Map<string, string>> =>
+  new Map(
+    Object.entries(mapping.values ?? {}).map(([field, values]) => [
+      field.toLowerCase(),
+      new Map(
+        Object.entries(values).flatMap(([source, targets]) =>
+          targets.map((target): [string, string] => [target, source])
+        )
+      ),
+    ])
+  );
+
+const renameKeys = <T>(values: Record<string, T>, names: Map<string, string>): Record<string, T> =>
+  Object.fromEntries(Object.entries(values).map(([key, value]) => [names.get(key) ?? key, value]));
+
+/** Renames the aliases and group fields of a target evaluation to the ones of the source plan. */
+export const renameEvaluation = (
+  evaluation: OrgEvaluation,
+  target: AggregatePlan,
+  source: AggregatePlan
+): OrgEvaluation => {
+  const aliases = new Map<string, string>([
+    ...target.expressions.map((expression, index): [string, string] => [
+      expression.alias,
+      source.expressions[index].alias,
+    ]),
+    ...target.conditionalMetrics.map((conditional, index): [string, string] => [
+      conditional.alias,
+      source.conditionalMetrics[index].alias,
+    ]),
+    ...target.statistics.map((statistic, index): [string, string] => [statistic.alias, source.statistics[index].alias]),
+    ...target.distributions.map((distribution, index): [string, string] => [
+      distribution.alias,
+      source.distributions[index].alias,
+    ]),
+  ]);
+  const sourceGroups = source.groupBy ?? [];
+  const fields = new Map<string, string>(
+    (target.groupBy ?? []).map((group, index): [string, string] => [group.field, sourceGroups[index].field])
+  );
+
+  return {
+    ...evaluation,
+    aggregates: renameKeys(evaluation.aggregates, aliases),
+    groups: evaluation.groups?.map((group) => ({
+      ...group,
+      group: renameKeys(group.group, fields),
+      aggregates: renameKeys(group.aggregates, aliases),
+    })),
+    distributions: evaluation.distributions ? renameKeys(evaluation.distributions, aliases) : undefined,
+  };
+};
+
+/** Adds the target name of every metric whose name differs between the orgs, so reports can show both. */
+export const labelMappedRows = (
+  rows: MetricComparisonRow[],
+  source: AggregatePlan,
+  target: AggregatePlan
+): MetricComparisonRow[] =>
+  rows.map((row) => {
+    const index = source.metrics.findIndex((definition) => definition.alias === row.alias);
+    const targetMetric = target.metrics[index]?.metric;
+    const targetLabel = targetMetric ? formatMetricLabel(targetMetric) : undefined;
+    return targetLabel && targetLabel !== formatMetricLabel(row.metric) ? { ...row, targetLabel } : row;
+  });
@@ -0,0 +1,582 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SfError } from '@salesforce/core';
+
+import type { SimpleDescribeField, SimpleDescribeSObjectResult } from './metadataDiscoveryService.js';
+
+export type ComparisonOperator = '=' | '!=' | '<>' | '<' | '<=' | '>' | '>=' | 'LIKE';
+export type SetOperator = 'IN' | 'NOT IN' | 'INCLUDES' | 'EXCLUDES';
+
+/** A literal as written in the condition. `text` is an unquoted value whose type is only known once the field is. */
+export type SoqlLiteral =
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: string }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'null' }
+  | { kind: 'date'; value: string }
+  | { kind: 'datetime'; value: string }
+  | { kind: 'dateLiteral'; value: string }
+  | { kind: 'text'; value: string };
+
+/** A SOQL date function wrapped around the field, e.g. `CALENDAR_YEAR(convertTimezone(CreatedDate))`. */
+export type DateFunction = { name: string; convertTimezone: boolean };
+
+export type SoqlCondition =
+  | { kind: 'and' | 'or'; operands: SoqlCondition[] }
+  | { kind: 'not'; operand: SoqlCondition }
+  | {
+      kind: 'comparison';
+      field: string;
+      dateFunction?: DateFunction;
+      operator: ComparisonOperator;
+      value: SoqlLiteral;
+    }
+  | { kind: 'set'; field: string; dateFunction?: DateFunction; operator: SetOperator; values: SoqlLiteral[] };
+
+const DATE_FUNCTIONS = new Set([
+  'CALENDAR_MONTH',
+  'CALENDAR_QUARTER',
+  'CALENDAR_YEAR',
+  'DAY_IN_MONTH',
+  'DAY_IN_WEEK',
+  'DAY_IN_YEAR',
+  'DAY_ONLY',
+  'FISCAL_MONTH',
+  'FISCAL_QUARTER',
+  'FISCAL_YEAR',
+  'HOUR_IN_DAY',
+  'WEEK_IN_MONTH',
+  'WEEK_IN_YEAR',
+]);
+// These only make sense on a datetime, since a date has no time of day to drop.
+const DATETIME_FUNCTIONS = new Set(['DAY_ONLY', 'HOUR_IN_DAY']);
+
+const DATE_LITERALS = new Set([
+  'YESTERDAY',
+  'TODAY',
+  'TOMORROW',
+  'LAST_WEEK',
+  'THIS_WEEK',
+  'NEXT_WEEK',
+  'LAST_MONTH',
+  'THIS_MONTH',
+  'NEXT_MONTH',
+  'LAST_90_DAYS',
+  'NEXT_90_DAYS',
+  'THIS_QUARTER',
+  'LAST_QUARTER',
+  'NEXT_QUARTER',
+  'THIS_YEAR',
+  'LAST_YEAR',
+  'NEXT_YEAR',
+  'THIS_FISCAL_QUARTER',
+  'LAST_FISCAL_QUARTER',
+  'NEXT_FISCAL_QUARTER',
+  'THIS_FISCAL_YEAR',
+  'LAST_FISCAL_YEAR',
+  'NEXT_FISCAL_YEAR',
+]);
+
+const PARAMETRIC_DATE_LITERALS = new Set([
+  'LAST_N_DAYS',
+  'NEXT_N_DAYS',
+  'N_DAYS_AGO',
+  'LAST_N_WEEKS',
+  'NEXT_N_WEEKS',
+  'N_WEEKS_AGO',
+  'LAST_N_MONTHS',
+  'NEXT_N_MONTHS',
+  'N_MONTHS_AGO',
+  'LAST_N_QUARTERS',
+  'NEXT_N_QUARTERS',
+  'N_QUARTERS_AGO',
+  'LAST_N_YEARS',
+  'NEXT_N_YEARS',
+  'N_YEARS_AGO',
+  'LAST_N_FISCAL_QUARTERS',
+  'NEXT_N_FISCAL_QUARTERS',
+  'N_FISCAL_QUARTERS_AGO',
+  'LAST_N_FISCAL_YEARS',
+  'NEXT_N_FISCAL_YEARS',
+  'N_FISCAL_YEARS_AGO',
+]);
+
+const STRING_TYPES = new Set([
+  'string',
+  'textarea',
+  'picklist',
+  'multipicklist',
+  'combobox',
+  'email',
+  'phone',
+  'url',
+  'id',
+  'reference',
+  'encryptedstring',
+]);
+const NUMERIC_TYPES = new Set(['int', 'double', 'currency', 'percent', 'long']);
+
+const FIELD_PATTERN = /^[A-Za-z][A-Za-z0-9_]*(?:\.[A-Za-z][A-Za-z0-9_]*)*/;
+const OPERATOR_PATTERN = /^(?:!=|<>|<=|>=|=|<|>|(?:NOT\s+IN|IN|LIKE|INCLUDES|EXCLUDES)(?![A-Za-z0-9_]))/i;
+const CONNECTIVE_PATTERN = /^(AND|OR)(?![A-Za-z0-9_])/i;
+const NOT_PATTERN = /^NOT(?![A-Za-z0-9_])/i;
+const SUBQUERY_PATTERN = /^SELECT(?![A-Za-z0-9_])/i;
+const NUMBER_PATTERN = /^[-+]?\d+(?:\.\d+)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{1,3})?(?:Z|[+-]\d{2}:?\d{2})$/;
+
+const invalidCondition = (source: string, reason: string): SfError =>
+  new SfError(`Invalid condition "${source}": ${reason}`, 'InvalidCondition');
+
+const classifyText = (text: string): SoqlLiteral => {
+  const upper = text.toUpperCase();
+  if (NUMBER_PATTERN.test(text)) {
+    return { kind: 'number', value: text };
+  }
+  if (upper === 'TRUE' || upper === 'FALSE') {
+    return { kind: 'boolean', value: upper === 'TRUE' };
+  }
+  if (upper === 'NULL') {
+    return { kind: 'null' };
+  }
+  if (DATE_PATTERN.test(text)) {
+    return { kind: 'date', value: text };
+  }
+  if (DATETIME_PATTERN.test(text)) {
+    return { kind: 'datetime', value: text };
+  }
+  if (DATE_LITERALS.has(upper)) {
+    return { kind: 'dateLiteral', value: upper };
+  }
+  const [name, parameter] = upper.split(':');
+  if (PARAMETRIC_DATE_LITERALS.has(name) && parameter !== undefined) {
+    if (!/^\d+$/.test(parameter)) {
+      throw new SfError(`Date literal "${text}" needs a whole number after the colon.`, 'InvalidCondition');
+    }
+    return { kind: 'dateLiteral', value: `${name}:${Number(parameter).toString()}` };
+  }
+  return { kind: 'text', value: text };
+};
+
+/**
+ * Parses a SOQL WHERE clause (without the keyword) into a condition tree: comparisons, `LIKE`, `IN`/`NOT IN`,
+ * `INCLUDES`/`EXCLUDES`, optionally on a date function of the field, joined with `AND`, `OR`, `NOT` and parentheses.
+ * As in SOQL, `AND` and `OR` cannot be mixed at one level without parentheses, and semi-join subqueries are not
+ * supported. Values may be quoted with single or double quotes; an unquoted value runs until the next `AND`, `OR` or
+ * closing parenthesis, so `Status = Open - Contacted` still reads as one value.
+ */
+export const parseSoqlCondition = (source: string): SoqlCondition => {
+  let position = 0;
+
+  const skipWhitespace = (): void => {
+    while (position < source.length && /\s/.test(source[position])) {
+      position++;
+    }
+  };
+
+  const peek = (): string | undefined => {
+    skipWhitespace();
+    return source[position];
+  };
+
+  const match = (pattern: RegExp): string | undefined => {
+    skipWhitespace();
+    const result = pattern.exec(source.slice(position));
+    if (!result) {
+      return undefined;
+    }
+    position += result[0].length;
+    return result[1] ?? result[0];
+  };
+
+  const expect = (character: string): void => {
+    if (peek() !== character) {
+      throw invalidCondition(source, `expected "${character}" at position ${position + 1}.`);
+    }
+    position++;
+  };
+
+  const readQuoted = (): SoqlLiteral => {
+    const quote = source[position];
+    let value = '';
+    for (position++; position < source.length; position++) {
+      const character = source[position];
+      if (character === '\\' && position + 1 < source.length) {
+        position++;
+        value += source[position];
+      } else if (character === quote) {
+        position++;
+        return { kind: 'string', value };
+      } else {
+        value += character;
+      }
+    }
+    throw invalidCondition(source, `unterminated ${quote === "'" ? 'single' : 'double'} quote.`);
+  };
+
+  // Unquoted values stop at a top-level AND/OR, a closing parenthesis or (inside lists) a comma.
+  const readText = (inList: boolean): SoqlLiteral => {
+    skipWhitespace();
+    const start = position;
+    while (position < source.length) {
+      const character = source[position];
+      if (character === ')' || (inList && character === ',')) {
+        break;
+      }
+      if (/\s/.test(source[position - 1] ?? ' ') && CONNECTIVE_PATTERN.test(source.slice(position))) {
+        break;
+      }
+      position++;
+    }
+    const text = source.slice(start, position).trim();
+    if (!text) {
+      throw invalidCondition(source, `expected a value at position ${start + 1}.`);
+    }
+    return classifyText(text);
+  };
+
+  const readValue = (inList: boolean): SoqlLiteral => {
+    const next = peek();
+    return next === "'" || next === '"' ? readQuoted() : readText(inList);
+  };
+
+  const readList = (): SoqlLiteral[] => {
+    expect('(');
+    if (match(SUBQUERY_PATTERN)) {
+      throw invalidCondition(source, 'semi-join subqueries such as "IN (SELECT ...)" are not supported.');
+    }
+    const values = [readValue(true)];
+    while (peek() === ',') {
+      position++;
+      values.push(readValue(true));
+    }
+    expect(')');
+    return values;
+  };
+
+  const readField = (): string => {
+    const field = match(FIELD_PATTERN);
+    if (!field) {
+      throw invalidCondition(source, `expected a field name at position ${position + 1}.`);
+    }
+    return field;
+  };
+
+  // A name followed by "(" is a date function, whose argument may itself be wrapped in convertTimezone().
+  const readOperand = (): { field: string; dateFunction?: DateFunction; text: string } => {
+    const start = position;
+    const name = readField();
+    if (peek() !== '(') {
+      return { field: name, text: name };
+    }
+    if (!DATE_FUNCTIONS.has(name.toUpperCase())) {
+      throw invalidCondition(source, `unsupported function "${name}".`);
+    }
+    expect('(');
+    let field = readField();
+    const convertTimezone = field.toLowerCase() === 'converttimezone' && peek() === '(';
+    if (convertTimezone) {
+      expect('(');
+      field = readField();
+      expect(')');
+    }
+    expect(')');
+    return {
+      field,
+      dateFunction: { name: name.toUpperCase(), convertTimezone },
+      text: source.slice(start, position).trim(),
+    };
+  };
+
+  const parsePredicate = (): SoqlCondition => {
+    const { field, dateFunction, text } = readOperand();
+    const rawOperator = match(OPERATOR_PATTERN);
+    if (!rawOperator) {
+      throw invalidCondition(source, `expected an operator after "${text}".`);
+    }
+    const operator = rawOperator.toUpperCase().replace(/\s+/, ' ');
+    const operand = dateFunction ? { field, dateFunction } : { field };
+    if (operator === 'IN' || operator === 'NOT IN' || operator === 'INCLUDES' || operator === 'EXCLUDES') {
+      return { kind: 'set', ...operand, operator, values: readList() };
+    }
+    return { kind: 'comparison', ...operand, operator: operator as ComparisonOperator, value: readValue(false) };
+  };
+
+  const parseUnary = (): SoqlCondition => {
+    if (match(NOT_PATTERN)) {
+      return { kind: 'not', operand: parseUnary() };
+    }
+    if (peek() === '(') {
+      position++;
+      const inner = parseJunction();
+      expect(')');
+      return inner;
+    }
+    return parsePredicate();
+  };
+
+  // SOQL has no precedence between AND and OR: one level of a condition uses one of them, or parentheses.
+  const parseJunction = (): SoqlCondition => {
+    const operands = [parseUnary()];
+    let connective: string | undefined;
+    for (let found = match(CONNECTIVE_PATTERN); found; found = match(CONNECTIVE_PATTERN)) {
+      const upper = found.toUpperCase();
+      if (connective && upper !== connective) {
+        throw invalidCondition(source, 'use parentheses to combine AND and OR, e.g. "(A AND B) OR C".');
+      }
+      connective = upper;
+      operands.push(parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { kind: connective === 'AND' ? 'and' : 'or', operands };
+  };
+
+  if (!source.trim()) {
+    throw invalidCondition(source, 'conditions must not be empty.');
+  }
+  const condition = parseJunction();
+  if (peek() !== undefined) {
+    throw invalidCondition(source, `unexpected "${source.slice(position)}".`);
+  }
+  return condition;
+};
+
+const formatLiteral = (literal: SoqlLiteral): string => {
+  switch (literal.kind) {
+    case 'string':
+    case 'text':
+      return `'${literal.value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    case 'boolean':
+      return literal.value ? 'true' : 'false';
+    case 'null':
+      return 'null';
+    default:
+      return literal.value;
+  }
+};
+
+const formatOperand = (condition: { field: string; dateFunction?: DateFunction }): string => {
+  const { field, dateFunction } = condition;
+  if (!dateFunction) {
+    return field;
+  }
+  return `${dateFunction.name}(${dateFunction.convertTimezone ? `convertTimezone(${field})` : field})`;
+};
+
+/** Renders a condition tree as SOQL, adding parentheses only where `AND` and `OR` meet. */
+export const formatSoqlCondition = (condition: SoqlCondition): string => {
+  switch (condition.kind) {
+    case 'and':
+    case 'or':
+      return condition.operands
+        .map((operand) => {
+          const text = formatSoqlCondition(operand);
+          return operand.kind === 'or' || (operand.kind === 'and' && condition.kind === 'or') ? `(${text})` : text;
+        })
+        .join(condition.kind === 'and' ? ' AND ' : ' OR ');
+    case 'not':
+      return `NOT (${formatSoqlCondition(condition.operand)})`;
+    case 'set':
+      return `${formatOperand(condition)} ${condition.operator} (${condition.values.map(formatLiteral).join(', ')})`;
+    default:
+      return `${formatOperand(condition)} ${condition.operator} ${formatLiteral(condition.value)}`;
+  }
+};
+
+/** Re-formats a condition without field information, quoting any unquoted value that is not a number, date or keyword. */
+export const normalizeSoqlCondition = (condition: string): string => formatSoqlCondition(parseSoqlCondition(condition));
+
+const resolveConditionField = (
+  describe: SimpleDescribeSObjectResult,
+  path: string,
+  orgLabel: string
+): { name: string; field?: SimpleDescribeField } => {
+  const segments = path.split('.');
+  if (segments.length > 1) {
+    // Only the first hop can be checked without describing the related object.
+    const relationship = describe.fields.find(
+      (candidate) => candidate.relationshipName?.toLowerCase() === segments[0].toLowerCase()
+    );
+    if (!relationship?.relationshipName) {
+      throw new SfError(
+        `Relationship "${segments[0]}" in condition not found on object ${describe.name} in ${orgLabel}.`,
+        'FieldNotFound'
+      );
+    }
+    return { name: [relationship.relationshipName, ...segments.slice(1)].join('.') };
+  }
+
+  const field = describe.fields.find((candidate) => candidate.name.toLowerCase() === path.toLowerCase());
+  if (!field) {
+    throw new SfError(
+      `Field "${path}" in condition not found on object ${describe.name} in ${orgLabel}.`,
+      'FieldNotFound'
+    );
+  }
+  if (field.filterable === false) {
+    throw new SfError(`Field "${field.name}" in ${orgLabel} cannot be used in a filter.`, 'NonFilterableField');
+  }
+  return { name: field.name, field };
+};
+
+const invalidValue = (field: SimpleDescribeField, literal: SoqlLiteral, orgLabel: string): SfError =>
+  new SfError(
+    `Value ${formatLiteral(literal)} does not match the ${field.type} type of field "${field.name}" in ${orgLabel}.`,
+    'InvalidConditionValue'
+  );
+
+// Coerces a literal to the type of its field: unquoted text becomes a string, quoted dates become date literals.
+const typeLiteral = (field: SimpleDescribeField, literal: SoqlLiteral, orgLabel: string): SoqlLiteral => {
+  if (literal.kind === 'null') {
+    return literal;
+  }
+  const type = field.type.toLowerCase();
+  const raw = literal.kind === 'string' || literal.kind === 'text' ? literal.value : formatLiteral(literal);
+
+  if (STRING_TYPES.has(type)) {
+    return { kind: 'string', value: literal.kind === 'string' ? literal.value : raw };
+  }
+  if (NUMERIC_TYPES.has(type)) {
+    if (!NUMBER_PATTERN.test(raw)) {
+      throw invalidValue(field, literal, orgLabel);
+    }
+    return { kind: 'number', value: raw };
+  }
+  if (type === 'boolean') {
+    const typed = classifyText(raw);
+    if (typed.kind !== 'boolean') {
+      throw invalidValue(field, literal, orgLabel);
+    }
+    return typed;
+  }
+  if (type === 'date' || type === 'datetime') {
+    const typed = classifyText(raw);
+    if (typed.kind === 'dateLiteral' || typed.kind === type) {
+      return typed;
+    }
+    throw invalidValue(field, literal, orgLabel);
+  }
+  return literal;
+};
+
+const ensureOperator = (
+  field: SimpleDescribeField,
+  operator: ComparisonOperator | SetOperator,
+  orgLabel: string
+): void => {
+  const type = field.type.toLowerCase();
+  const allowed =
+    operator === 'LIKE'
+      ? STRING_TYPES.has(type) && type !== 'multipicklist'
+      : operator === 'INCLUDES' || operator === 'EXCLUDES'
+      ? type === 'multipicklist'
+      : operator === '<' || operator === '<=' || operator === '>' || operator === '>='
+      ? type !== 'boolean' && type !== 'multipicklist'
+      : true;
+  if (!allowed) {
+    throw new SfError(
+      `Operator ${operator} cannot be used with the ${field.type} field "${field.name}" in ${orgLabel}.`,
+      'InvalidConditionOperator'
+    );
+  }
+};
+
+const ensureDateFunction = (
+  field: SimpleDescribeField,
+  dateFunction: DateFunction,
+  operator: ComparisonOperator | SetOperator,
+  orgLabel: string
+): void => {
+  const type = field.type.toLowerCase();
+  const needsDatetime = dateFunction.convertTimezone || DATETIME_FUNCTIONS.has(dateFunction.name);
+  if (type !== 'datetime' && (needsDatetime || type !== 'date')) {
+    throw new SfError(
+      `${formatOperand({ field: field.name, dateFunction })} needs a ${
+        needsDatetime ? 'datetime' : 'date or datetime'
+      } field, but "${field.name}" in ${orgLabel} is ${field.type}.`,
+      'InvalidConditionFunction'
+    );
+  }
+  if (operator === 'LIKE' || operator === 'INCLUDES' || operator === 'EXCLUDES') {
+    throw new SfError(
+      `Operator ${operator} cannot be used with ${formatOperand({ field: field.name, dateFunction })} in ${orgLabel}.`,
+      'InvalidConditionOperator'
+    );
+  }
+};
+
+// Checks the operator for the field (or the date function applied to it) and returns how to type its literals.
+const resolveLeafType = (
+  field: SimpleDescribeField,
+  condition: { dateFunction?: DateFunction; operator: ComparisonOperator | SetOperator },
+  orgLabel: string
+): SimpleDescribeField => {
+  if (!condition.dateFunction) {
+    ensureOperator(field, condition.operator, orgLabel);
+    return field;
+  }
+  ensureDateFunction(field, condition.dateFunction, condition.operator, orgLabel);
+  // DAY_ONLY returns a date; every other date function returns a whole number.
+  return { ...field, type: condition.dateFunction.name === 'DAY_ONLY' ? 'date' : 'int' };
+};
+
+/**
+ * Checks every field in a condition against the object's describe (it exists and is filterable) and formats each
+ * literal for its field type. Fields reached through a relationship keep their literals as written.
+ */
+export const validateConditionAgainstDescribe = (
+  condition: SoqlCondition,
+  describe: SimpleDescribeSObjectResult,
+  orgLabel: string
+): SoqlCondition => {
+  switch (condition.kind) {
+    case 'and':
+    case 'or':
+      return {
+        kind: condition.kind,
+        operands: condition.operands.map((operand) => validateConditionAgainstDescribe(operand, describe, orgLabel)),
+      };
+    case 'not':
+      return { kind: 'not', operand: validateConditionAgainstDescribe(condition.operand, describe, orgLabel) };
+    case 'set': {
+      const { name, field } = resolveConditionField(describe, condition.field, orgLabel);
+      if (!field) {
+        return { ...condition, field: name };
+      }
+      const typed = resolveLeafType(field, condition, orgLabel);
+      return {
+        ...condition,
+        field: name,
+        values: condition.values.map((value) => typeLiteral(typed, value, orgLabel)),
+      };
+    }
+    default: {
+      const { name, field } = resolveConditionField(describe, condition.field, orgLabel);
+      if (!field) {
+        return { ...condition, field: name };
+      }
+      const typed = resolveLeafType(field, condition, orgLabel);
+      return { ...condition, field: name, value: typeLiteral(typed, condition.value, orgLabel) };
+    }
+  }
+};
+
+/** Parses, validates and formats a condition for one org in a single step. */
+export const resolveSoqlCondition = (
+  condition: string,
+  describe: SimpleDescribeSObjectResult,
+  orgLabel: string
+): string => formatSoqlCondition(validateConditionAgainstDescribe(parseSoqlCondition(condition), describe, orgLabel));
@@ -0,0 +1,244 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Org } from '@salesforce/core';
+import { SfError } from '@salesforce/core';
+
+import type { SimpleDescribeSObjectResult } from './metadataDiscoveryService.js';
+import { executeQuery, type QueryExecution } from './queryExecutor.js';
+import { formatSoqlCondition } from './soqlCondition.js';
+
+export const BUCKET_INTERVALS = ['day', 'week', 'month', 'quarter', 'year'] as const;
+
+export type BucketInterval = (typeof BUCKET_INTERVALS)[number];
+
+/**
+ * `utc` buckets datetimes as stored; `user` converts them to the time zone of the user each org connection runs as,
+ * which must be the same in every compared org.
+ */
+export const BUCKET_TIME_ZONES = ['utc', 'user'] as const;
+
+export type BucketTimeZone = (typeof BUCKET_TIME_ZONES)[number];
+
+export type TimeBucketing = {
+  field: string;
+  interval: BucketInterval;
+  timeZone: BucketTimeZone;
+};
+
+export type ResolvedTimeBucketing = TimeBucketing & {
+  fieldType: 'date' | 'datetime';
+};
+
+/** Period of records whose bucket field is empty. It is listed after every dated period. */
+export const EMPTY_PERIOD_LABEL = '(no date)';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// WEEK_IN_YEAR counts 7-day blocks from January 1, so every year has a short week 53.
+const WEEKS_PER_YEAR = 53;
+
+const PERIOD_FUNCTIONS: Record<BucketInterval, string[]> = {
+  day: ['DAY_ONLY'],
+  week: ['CALENDAR_YEAR', 'WEEK_IN_YEAR'],
+  month: ['CALENDAR_YEAR', 'CALENDAR_MONTH'],
+  quarter: ['CALENDAR_YEAR', 'CALENDAR_QUARTER'],
+  year: ['CALENDAR_YEAR'],
+};
+
+const PERIOD_PATTERNS: Record<BucketInterval, RegExp> = {
+  day: /^(\d{4})-(\d{2})-(\d{2})$/,
+  week: /^(\d{4})-W(\d{2})$/,
+  month: /^(\d{4})-(\d{2})$/,
+  quarter: /^(\d{4})-Q(\d)$/,
+  year: /^(\d{4})$/,
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+export const resolveTimeBucketing = (
+  bucketing: TimeBucketing,
+  describe: SimpleDescribeSObjectResult,
+  orgLabel: string
+): ResolvedTimeBucketing => {
+  const fieldName = bucketing.field.trim();
+  const field = describe.fields.find((candidate) => candidate.name.toLowerCase() === fieldName.toLowerCase());
+  if (!field) {
+    throw new SfError(`Field "${fieldName}" not found on object ${describe.name} in ${orgLabel}.`, 'FieldNotFound');
+  }
+  if (field.type !== 'date' && field.type !== 'datetime') {
+    throw new SfError(
+      `Field "${field.name}" in ${orgLabel} must be a date or datetime field to bucket by.`,
+      'InvalidBucketField'
+    );
+  }
+
+  return { ...bucketing, field: field.name, fieldType: field.type };
+};
+
+/**
+ * SOQL date functions that identify the period of a record, in the order their values make up the period label.
+ * Date fields have no time zone, so `timeZone` only applies to datetime fields.
+ */
+export const buildPeriodFunctions = (bucketing: ResolvedTimeBucketing): string[] => {
+  if (bucketing.fieldType === 'date' && bucketing.interval === 'day') {
+    // DAY_ONLY only accepts datetimes; a date field already is the day.
+    return [bucketing.field];
+  }
+
+  const argument =
+    bucketing.fieldType === 'datetime' && bucketing.timeZone === 'user'
+      ? `convertTimezone(${bucketing.field})`
+      : bucketing.field;
+  return PERIOD_FUNCTIONS[bucketing.interval].map((fn) => `${fn}(${argument})`);
+};
+
+/** True when the bucketing converts datetimes to the time zone of the user each org connection runs as. */
+export const usesUserTimeZone = (bucketing: ResolvedTimeBucketing | undefined): boolean =>
+  bucketing?.fieldType === 'datetime' && bucketing.timeZone === 'user';
+
+const fetchUserTimeZone = async (
+  org: Org,
+  execution: QueryExecution,
+  apiVersionOverride?: string
+): Promise<{ orgLabel: string; timeZone: string } | undefined> => {
+  const connection = await Promise.resolve(org.getConnection(apiVersionOverride));
+  const username = connection.getUsername();
+  if (!username) {
+    return undefined;
+  }
+  const condition = formatSoqlCondition({
+    kind: 'comparison',
+    field: 'Username',
+    operator: '=',
+    value: { kind: 'string', value: username },
+  });
+  const response = await executeQuery<{ TimeZoneSidKey?: string }>(
+    connection,
+    `SELECT TimeZoneSidKey FROM User WHERE ${condition}`,
+    execution
+  );
+  const timeZone = response.records[0]?.TimeZoneSidKey;
+  return timeZone ? { orgLabel: execution.orgLabel, timeZone } : undefined;
+};
+
+/**
+ * Checks that the users the org connections run as share one time zone. SOQL can only convert datetimes to the
+ * running user's zone, so periods bucketed for users in different zones would not line up.
+ */
+export const assertSameUserTimeZone = async (
+  orgs: Array<{ org: Org; execution: QueryExecution }>,
+  apiVersionOverride?: string
+): Promise<void> => {
+  const zones = (
+    await Promise.all(orgs.map(({ org, execution }) => fetchUserTimeZone(org, execution, apiVersionOverride)))
+  ).flatMap((zone) => (zone ? [zone] : []));
+  if (zones.some((zone) => zone.timeZone !== zones[0].timeZone)) {
+    throw new SfError(
+      `Bucketing by user time zone needs the same time zone in every org, but ${zones
+        .map((zone) => `the ${zone.orgLabel} user is in ${zone.timeZone}`)
+        .join(' and ')}.`,
+      'MismatchedTimeZones',
+      ['Bucket in UTC with --time-zone utc, or connect to each org as a user in the same time zone.']
+    );
+  }
+};
+
+/** Builds the period label (`2024`, `2024-Q1`, `2024-03`, `2024-W05` or `2024-03-15`) from the period function values. */
+export const formatPeriod = (interval: BucketInterval, values: unknown[]): string => {
+  if (values.length === 0 || values.some((value) => value === null || value === undefined)) {
+    return EMPTY_PERIOD_LABEL;
+  }
+
+  const [first, second] = values.map(Number);
+  switch (interval) {
+    case 'day':
+      return String(values[0]).slice(0, 10);
+    case 'week':
+      return `${first.toString()}-W${pad(second)}`;
+    case 'month':
+      return `${first.toString()}-${pad(second)}`;
+    case 'quarter':
+      return `${first.toString()}-Q${second.toString()}`;
+    default:
+      return first.toString();
+  }
+};
+
+const toOrdinal = (interval: BucketInterval, period: string): number | undefined => {
+  const match = PERIOD_PATTERNS[interval].exec(period);
+  if (!match) {
+    return undefined;
+  }
+
+  const [year, part] = match.slice(1).map(Number);
+  switch (interval) {
+    case 'day':
+      return Date.parse(`${period}T00:00:00Z`) / DAY_MS;
+    case 'week':
+      return year * WEEKS_PER_YEAR + part - 1;
+    case 'month':
+      return year * 12 + part - 1;
+    case 'quarter':
+      return year * 4 + part - 1;
+    default:
+      return year;
+  }
+};
+
+const fromOrdinal = (interval: BucketInterval, ordinal: number): string => {
+  switch (interval) {
+    case 'day':
+      return new Date(ordinal * DAY_MS).toISOString().slice(0, 10);
+    case 'week':
+      return formatPeriod(interval, [Math.floor(ordinal / WEEKS_PER_YEAR), (ordinal % WEEKS_PER_YEAR) + 1]);
+    case 'month':
+      return formatPeriod(interval, [Math.floor(ordinal / 12), (ordinal % 12) + 1]);
+    case 'quarter':
+      return formatPeriod(interval, [Math.floor(ordinal / 4), (ordinal % 4) + 1]);
+    default:
+      return ordinal.toString();
+  }
+};
+
+/**
+ * Lists every period from the earliest to the latest of `periods`, so that periods without records in either org
+ * still get a row. Labels that are not periods of the interval (such as the empty period) are kept at the end.
+ */
+export const fillPeriods = (interval: BucketInterval, periods: Iterable<string>): string[] => {
+  const ordinals: number[] = [];
+  const others = new Set<string>();
+  for (const period of periods) {
+    const ordinal = toOrdinal(interval, period);
+    if (ordinal === undefined || Number.isNaN(ordinal)) {
+      others.add(period);
+    } else {
+      ordinals.push(ordinal);
+    }
+  }
+
+  const filled: string[] = [];
+  if (ordinals.length > 0) {
+    const last = Math.max(...ordinals);
+    for (let ordinal = Math.min(...ordinals); ordinal <= last; ordinal += 1) {
+      filled.push(fromOrdinal(interval, ordinal));
+    }
+  }
+  return [...filled, ...Array.from(others).sort()];
+};
+
+export const formatBucketing = (bucketing: TimeBucketing): string =>
+  `${bucketing.field} by ${bucketing.interval} (${bucketing.timeZone === 'user' ? 'user time zone' : 'UTC'})`;
@@ -0,0 +1,148 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SfError } from '@salesforce/core';
+
+import type { MetricComparisonRow } from './dataComparisonService.js';
+import type { ResolvedMetric } from './metricParser.js';
+
+export const DIFFERENCE_EXIT_CODE = 3;
+
+export type Tolerance = {
+  absolute?: number;
+  percent?: number;
+};
+
+export type ToleranceConfig = {
+  defaults: Tolerance;
+  perMetric: Record<string, Tolerance>;
+};
+
+export type MetricStatus = 'pass' | 'fail';
+
+const PERCENT_PATTERN = /^(\d+(?:\.\d+)?)\s*%$/;
+const ABSOLUTE_PATTERN = /^\d+(?:\.\d+)?$/;
+
+const mergeTolerance = (tolerance: Tolerance, value: string, context: string): Tolerance => {
+  const trimmed = value.trim();
+  const percentMatch = trimmed.match(PERCENT_PATTERN);
+  if (percentMatch) {
+    return { ...tolerance, percent: Number(percentMatch[1]) };
+  }
+
+  if (ABSOLUTE_PATTERN.test(trimmed)) {
+    return { ...tolerance, absolute: Number(trimmed) };
+  }
+
+  throw new SfError(
+    `Invalid tolerance "${value}" for ${context}. Use a non-negative number (e.g. 100) or a percentage (e.g. 2.5%).`,
+    'InvalidTolerance'
+  );
+};
+
+export const parseToleranceConfig = (
+  tolerances: string[] | undefined,
+  metricTolerances: string[] | undefined
+): ToleranceConfig => {
+  let defaults: Tolerance = {};
+  for (const value of tolerances ?? []) {
+    defaults = mergeTolerance(defaults, value, 'all metrics');
+  }
+
+  const perMetric: Record<string, Tolerance> = {};
+  for (const token of metricTolerances ?? []) {
+    // Split on the last "=" so metric labels with conditions such as COUNT_IF(StageName = 'Won') still work.
+    const separatorIndex = token.lastIndexOf('=');
+    const metric = separatorIndex > 0 ? token.slice(0, separatorIndex).trim() : '';
+    if (!metric) {
+      throw new SfError(
+        `Metric tolerance "${token}" must follow <metric>=<value>, for example "SUM(Amount)=100" or "count__all=1%".`,
+        'InvalidTolerance'
+      );
+    }
+
+    const key = metric.toLowerCase();
+    perMetric[key] = mergeTolerance(perMetric[key] ?? {}, token.slice(separatorIndex + 1), metric);
+  }
+
+  return { defaults, perMetric } satisfies ToleranceConfig;
+};
+
+/**
+ * Rejects per-metric tolerances that match no planned metric by label or alias. Runs while the comparison is
+ * prepared, so a misspelled metric fails before any query runs, including dry runs that produce no rows.
+ */
+export const assertKnownToleranceMetrics = (
+  config: ToleranceConfig,
+  metrics: Array<{ metric: ResolvedMetric; alias: string }>,
+  formatLabel: (metric: ResolvedMetric) => string
+): void => {
+  const known = new Set(
+    metrics.flatMap(({ metric, alias }) => [formatLabel(metric).toLowerCase(), alias.toLowerCase()])
+  );
+  const unmatched = Object.keys(config.perMetric).filter((key) => !known.has(key));
+  if (unmatched.length > 0) {
+    throw new SfError(
+      `Metric tolerance references unknown metric(s): ${unmatched.join(', ')}.`,
+      'UnknownToleranceMetric'
+    );
+  }
+};
+
+/**
+ * Marks each row as pass or fail. A metric passes when its difference is within any configured tolerance
+ * (absolute or percent of the source value); without tolerances only identical values pass. Per-metric
+ * tolerances are matched on the metric label or alias and replace the run-wide defaults.
+ */
+export const applyTolerances = (
+  rows: MetricComparisonRow[],
+  config: ToleranceConfig,
+  formatLabel: (metric: ResolvedMetric) => string
+): MetricComparisonRow[] =>
+  rows.map((row) => {
+    const labelKey = formatLabel(row.metric).toLowerCase();
+    const aliasKey = row.alias.toLowerCase();
+    const metricKey = labelKey in config.perMetric ? labelKey : aliasKey in config.perMetric ? aliasKey : undefined;
+    const tolerance = metricKey ? config.perMetric[metricKey] : config.defaults;
+    return { ...row, tolerance, status: evaluateRow(row, tolerance) } satisfies MetricComparisonRow;
+  });
+
+export const countFailures = (rows: MetricComparisonRow[]): number =>
+  rows.filter((row) => row.status === 'fail').length;
+
+const evaluateRow = (row: MetricComparisonRow, tolerance: Tolerance): MetricStatus => {
+  if (row.difference === null) {
+    return row.sourceValue === row.targetValue ? 'pass' : 'fail';
+  }
+
+  const absoluteDifference = Math.abs(row.difference);
+  if (absoluteDifference === 0) {
+    return 'pass';
+  }
+
+  if (tolerance.absolute !== undefined && absoluteDifference <= tolerance.absolute) {
+    return 'pass';
+  }
+
+  if (tolerance.percent !== undefined && typeof row.sourceValue === 'number' && row.sourceValue !== 0) {
+    const percentDifference = (absoluteDifference / Math.abs(row.sourceValue)) * 100;
+    if (percentDifference <= tolerance.percent) {
+      return 'pass';
+    }
+  }
+
+  return 'fail';
+};
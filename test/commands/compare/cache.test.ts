@@ -0,0 +1,115 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+import { Org } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+
+import CompareCacheClear from '../../../src/commands/compare/cache/clear.js';
+import CompareCacheList from '../../../src/commands/compare/cache/list.js';
+import CompareCacheWarm from '../../../src/commands/compare/cache/warm.js';
+import { MetadataCache } from '../../../src/services/metadataCache.js';
+import { MetadataDiscoveryService } from '../../../src/services/metadataDiscoveryService.js';
+
+describe('compare:cache commands', () => {
+  const $$ = new TestContext();
+  let uxStubs: ReturnType<typeof stubSfCommandUx>;
+  let originalDataHome: string | undefined;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    uxStubs = stubSfCommandUx($$.SANDBOX);
+    originalDataHome = process.env.SF_DATA_HOME;
+    dataDir = await fs.mkdtemp(join(tmpdir(), 'sfdata-'));
+    process.env.SF_DATA_HOME = dataDir;
+
+    const cache = new MetadataCache(10);
+    await cache.set('00D-prod:60.0:sobject:account', 'describeSObject', { name: 'Account', fields: [] });
+    await cache.set('00D-prod:60.0:global', 'describeGlobal', { sobjects: [] });
+    await cache.set('00D-sbx:60.0:sobject:account', 'describeSObject', { name: 'Account', fields: [] });
+    await cache.set('00D-sbx:60.0:Flow', 'metadataList', []);
+  });
+
+  afterEach(async () => {
+    $$.restore();
+    process.env.SF_DATA_HOME = originalDataHome;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const buildOrgStub = (orgId: string): Org =>
+    ({
+      getOrgId: $$.SANDBOX.stub().returns(orgId),
+      getConnection: $$.SANDBOX.stub().returns({
+        getApiVersion: $$.SANDBOX.stub().returns('60.0'),
+      }),
+    } as unknown as Org);
+
+  it('lists the entries of an org by API version, type and name', async () => {
+    $$.SANDBOX.stub(Org, 'create').resolves(buildOrgStub('00D-sbx'));
+
+    const result = await CompareCacheList.run(['--org', 'sbx']);
+
+    expect(result.entries.map((entry) => [entry.orgId, entry.apiVersion, entry.type, entry.name])).to.deep.equal([
+      ['00D-sbx', '60.0', 'describeSObject', 'account'],
+      ['00D-sbx', '60.0', 'metadataList', 'Flow'],
+    ]);
+    expect(uxStubs.table.calledOnce).to.equal(true);
+  });
+
+  it('clears object describes across orgs and requires a filter or --all', async () => {
+    const result = await CompareCacheClear.run(['--object', 'Account']);
+
+    expect(result.removed.map((entry) => entry.key)).to.deep.equal([
+      '00D-prod:60.0:sobject:account',
+      '00D-sbx:60.0:sobject:account',
+    ]);
+    expect((await new MetadataCache(0).list()).map((entry) => entry.key)).to.deep.equal([
+      '00D-prod:60.0:global',
+      '00D-sbx:60.0:Flow',
+    ]);
+
+    try {
+      await CompareCacheClear.run([]);
+      expect.fail('Expected clearing without a filter to throw');
+    } catch (error) {
+      expect((error as Error).name).to.equal('MissingCacheFilter');
+    }
+  });
+
+  it('describes the objects in every org', async () => {
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(buildOrgStub('00D-prod'));
+    createStub.onCall(1).resolves(buildOrgStub('00D-sbx'));
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeGlobal').resolves({ sobjects: [] });
+    const describeStub = $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').callsFake(
+      async (object: string) => ({ name: object, fields: [{ name: 'Id', type: 'id' }] })
+    );
+
+    const result = await CompareCacheWarm.run(['--org', 'prod', '--org', 'sbx', '--object', 'Account,Case']);
+
+    expect(describeStub.callCount).to.equal(4);
+    expect(result.orgs.map((org) => [org.orgId, org.objects.map((object) => object.name)])).to.deep.equal([
+      ['00D-prod', ['Account', 'Case']],
+      ['00D-sbx', ['Account', 'Case']],
+    ]);
+  });
+});
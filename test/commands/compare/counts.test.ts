@@ -0,0 +1,75 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+import { Org } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+
+import CompareCounts from '../../../src/commands/compare/counts.js';
+import { MetadataDiscoveryService } from '../../../src/services/metadataDiscoveryService.js';
+
+describe('compare:counts command', () => {
+  const $$ = new TestContext();
+  let uxStubs: ReturnType<typeof stubSfCommandUx>;
+
+  beforeEach(() => {
+    uxStubs = stubSfCommandUx($$.SANDBOX);
+  });
+
+  afterEach(() => {
+    $$.restore();
+  });
+
+  const buildOrgStub = (orgId: string, counts: Record<string, number>): Org =>
+    ({
+      getOrgId: $$.SANDBOX.stub().returns(orgId),
+      getConnection: $$.SANDBOX.stub().returns({
+        getApiVersion: $$.SANDBOX.stub().returns('60.0'),
+        request: $$.SANDBOX.stub().resolves({
+          sObjects: Object.entries(counts).map(([name, count]) => ({ name, count })),
+        }),
+        query: $$.SANDBOX.stub().rejects(new Error('Unexpected COUNT() query')),
+      }),
+    } as unknown as Org);
+
+  it('ranks objects by their estimated count difference without recounting', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeGlobal').resolves({
+      sobjects: [{ name: 'Account' }, { name: 'Contact' }, { name: 'Case' }],
+    });
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(buildOrgStub('00D-source', { Account: 100, Contact: 50, Case: 7 }));
+    createStub.onCall(1).resolves(buildOrgStub('00D-target', { Account: 100, Contact: 20, Case: 9 }));
+
+    const result = await CompareCounts.run([
+      '--source-org',
+      'prod',
+      '--target-org',
+      'sbx',
+      '--exclude',
+      'Account',
+      '--no-exact',
+    ]);
+
+    expect(result.rows.map((row) => [row.object, row.difference])).to.deep.equal([
+      ['Contact', -30],
+      ['Case', 2],
+    ]);
+    expect(result.summary).to.deep.include({ compared: 2, matching: 0, different: 2 });
+    expect(uxStubs.table.calledOnce).to.equal(true);
+  });
+});
@@ -20,16 +20,24 @@ import { join } from 'node:path';
 
 import { afterEach, beforeEach, describe, it } from 'mocha';
 import { expect } from 'chai';
+import type { SinonStub } from 'sinon';
 import { Org } from '@salesforce/core';
 import { TestContext } from '@salesforce/core/testSetup';
 import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
 
-import CompareData from '../../../src/commands/compare/data.js';
+import CompareData, {
+  type CompareDataMatrixResult,
+  type CompareDataResult,
+} from '../../../src/commands/compare/data.js';
+import CompareSnapshotSave from '../../../src/commands/compare/snapshot/save.js';
 import { MetadataDiscoveryService } from '../../../src/services/metadataDiscoveryService.js';
 
 const COUNT_ALIAS = 'count__all';
 const SUM_ANNUAL_REVENUE_ALIAS = 'sum__annualrevenue';
 
+const runCompareData = async (argv: string[]): Promise<CompareDataResult> =>
+  (await CompareData.run(argv)) as CompareDataResult;
+
 describe('compare:data command', () => {
   const $$ = new TestContext();
   let uxStubs: ReturnType<typeof stubSfCommandUx>;
@@ -48,6 +56,22 @@ describe('compare:data command', () => {
         filterable: true,
         groupable: true,
       },
+      {
+        name: 'Industry',
+        label: 'Industry',
+        type: 'picklist',
+        aggregatable: true,
+        filterable: true,
+        groupable: true,
+      },
+      {
+        name: 'CreatedDate',
+        label: 'Created Date',
+        type: 'datetime',
+        aggregatable: true,
+        filterable: true,
+        groupable: false,
+      },
     ],
   } as unknown as DescribeResult;
 
@@ -57,11 +81,12 @@ describe('compare:data command', () => {
 
   afterEach(() => {
     $$.restore();
+    process.exitCode = undefined;
   });
 
   const buildOrgStub = (
     orgId: string,
-    aggregateRecord: Record<string, unknown>,
+    aggregateRecord: Record<string, unknown> | Array<Record<string, unknown>>,
     samples: Array<Record<string, unknown>> = []
   ): Org => {
     const connectionQuery = $$.SANDBOX.stub();
@@ -71,7 +96,7 @@ describe('compare:data command', () => {
       }
 
       if (query.startsWith('SELECT')) {
-        return { records: [aggregateRecord] };
+        return { records: Array.isArray(aggregateRecord) ? aggregateRecord : [aggregateRecord] };
       }
 
       expect.fail(`Unexpected query executed: ${query}`);
@@ -97,7 +122,7 @@ describe('compare:data command', () => {
     createStub.onCall(0).resolves(buildOrgStub('00D-source', { [COUNT_ALIAS]: 10, [SUM_ANNUAL_REVENUE_ALIAS]: 5000 }));
     createStub.onCall(1).resolves(buildOrgStub('00D-target', { [COUNT_ALIAS]: 12, [SUM_ANNUAL_REVENUE_ALIAS]: 6500 }));
 
-    const result = await CompareData.run([
+    const result = await runCompareData([
       '--source-org',
       'prod',
       '--target-org',
@@ -120,6 +145,348 @@ describe('compare:data command', () => {
     expect(uxStubs.table.calledOnce).to.equal(true);
   });
 
+  it('compares a target org against a saved snapshot of the source org', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(buildOrgStub('00D-source', { [COUNT_ALIAS]: 10, [SUM_ANNUAL_REVENUE_ALIAS]: 5000 }));
+    createStub.onCall(1).resolves(buildOrgStub('00D-target', { [COUNT_ALIAS]: 12, [SUM_ANNUAL_REVENUE_ALIAS]: 5000 }));
+    const tempDir = await fs.mkdtemp(join(tmpdir(), 'compare-snapshot-'));
+    const snapshotPath = join(tempDir, 'prod-account.json');
+
+    try {
+      const saved = await CompareSnapshotSave.run([
+        '--target-org',
+        'prod',
+        '--object',
+        'Account',
+        '--metrics',
+        'count,sum:AnnualRevenue',
+        '--output-file',
+        snapshotPath,
+      ]);
+      expect(saved.path).to.equal(snapshotPath);
+      expect(saved.snapshot.values).to.deep.equal({ [COUNT_ALIAS]: 10, [SUM_ANNUAL_REVENUE_ALIAS]: 5000 });
+
+      const result = await runCompareData([
+        '--source-snapshot',
+        snapshotPath,
+        '--target-org',
+        'sbx',
+        '--object',
+        'Account',
+      ]);
+
+      expect(createStub.callCount).to.equal(2);
+      expect(result.sourceSnapshot).to.equal(snapshotPath);
+      expect(result.source.orgId).to.equal('00D-source');
+      expect(result.target.orgId).to.equal('00D-target');
+      expect(result.metrics.map((row) => row.difference)).to.deep.equal([2, 0]);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('compares several orgs against a baseline and writes the matrix to csv', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(buildOrgStub('00D-dev', { [COUNT_ALIAS]: 10, [SUM_ANNUAL_REVENUE_ALIAS]: 5000 }));
+    createStub.onCall(1).resolves(buildOrgStub('00D-qa', { [COUNT_ALIAS]: 12, [SUM_ANNUAL_REVENUE_ALIAS]: 5000 }));
+    createStub.onCall(2).resolves(buildOrgStub('00D-prod', { [COUNT_ALIAS]: 9, [SUM_ANNUAL_REVENUE_ALIAS]: 5000 }));
+    const tempDir = await fs.mkdtemp(join(tmpdir(), 'compare-matrix-'));
+    const csvPath = join(tempDir, 'matrix.csv');
+
+    try {
+      const result = (await CompareData.run([
+        '--org',
+        'dev,qa',
+        '--org',
+        'prod',
+        '--baseline',
+        'prod',
+        '--object',
+        'Account',
+        '--metrics',
+        'count,sum:AnnualRevenue',
+        '--format',
+        'csv',
+        '--output-file',
+        csvPath,
+      ])) as CompareDataMatrixResult;
+
+      expect(result.orgs).to.deep.equal(['dev', 'qa', 'prod']);
+      expect(result.orgMetadata.map((org) => org.orgId)).to.deep.equal(['00D-dev', '00D-qa', '00D-prod']);
+      expect(result.rows[0].cells.map((cell) => [cell.value, cell.difference])).to.deep.equal([
+        [10, 1],
+        [12, 3],
+        [9, null],
+      ]);
+      expect(result.rows[1].status).to.equal('pass');
+      expect(result.tolerance.failures).to.equal(2);
+      expect(uxStubs.table.calledOnce).to.equal(true);
+
+      const csv = await fs.readFile(csvPath, 'utf8');
+      expect(csv).to.contain('Metric,dev,qa,prod,dev - prod,qa - prod,Status');
+      expect(csv).to.contain('COUNT(Id),10,12,9,1,3,FAIL');
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('requires at least two different orgs with --org', async () => {
+    try {
+      await CompareData.run(['--org', 'prod', '--org', 'PROD', '--object', 'Account']);
+      expect.fail('Expected InvalidOrgList');
+    } catch (error) {
+      expect((error as Error).name).to.equal('InvalidOrgList');
+    }
+  });
+
+  it('returns per-group metric rows when group-by is provided', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
+
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(
+      buildOrgStub('00D-source', [
+        { ['group__industry']: 'Banking', [COUNT_ALIAS]: 5 },
+        { ['group__industry']: 'Energy', [COUNT_ALIAS]: 3 },
+      ])
+    );
+    createStub.onCall(1).resolves(buildOrgStub('00D-target', [{ ['group__industry']: 'Banking', [COUNT_ALIAS]: 6 }]));
+
+    const tempDir = await fs.mkdtemp(join(tmpdir(), 'compare-group-'));
+    const outputPath = join(tempDir, 'comparison.csv');
+    const result = await runCompareData([
+      '--source-org',
+      'prod',
+      '--target-org',
+      'sbx',
+      '--object',
+      'Account',
+      '--group-by',
+      'industry',
+      '--format',
+      'csv',
+      '--output-file',
+      outputPath,
+    ]);
+
+    const csv = await fs.readFile(outputPath, 'utf8');
+
+    expect(result.filters.groupBy).to.deep.equal(['Industry']);
+    expect(result.metrics).to.have.length(2);
+    expect(result.metrics[1]).to.deep.include({ presentIn: 'source', targetValue: 0, difference: -3 });
+    expect(csv).to.include('Industry,Metric,Source,Target,Difference');
+    expect(csv).to.include('Banking,COUNT(Id),5,6,1');
+    expect(csv).to.include('Energy,COUNT(Id),3,0,-3');
+  });
+
+  it('returns one row per period when bucketing by a date field', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
+
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(
+      buildOrgStub('00D-source', [
+        { ['period__calendar_year']: 2024, ['period__calendar_quarter']: 4, [COUNT_ALIAS]: 3 },
+        { ['period__calendar_year']: 2025, ['period__calendar_quarter']: 2, [COUNT_ALIAS]: 1 },
+      ])
+    );
+    createStub
+      .onCall(1)
+      .resolves(
+        buildOrgStub('00D-target', [
+          { ['period__calendar_year']: 2024, ['period__calendar_quarter']: 4, [COUNT_ALIAS]: 3 },
+        ])
+      );
+
+    const result = await runCompareData([
+      '--source-org',
+      'prod',
+      '--target-org',
+      'sbx',
+      '--object',
+      'Account',
+      '--metrics',
+      'count',
+      '--bucket-by',
+      'createddate',
+      '--interval',
+      'quarter',
+    ]);
+
+    expect(result.filters.bucketBy).to.deep.equal({ field: 'CreatedDate', interval: 'quarter', timeZone: 'utc' });
+    expect(result.queries.aggregate).to.include('GROUP BY CALENDAR_YEAR(CreatedDate), CALENDAR_QUARTER(CreatedDate)');
+    expect(result.metrics.map((row) => [row.period, row.difference])).to.deep.equal([
+      ['2024-Q4', 0],
+      ['2025-Q1', 0],
+      ['2025-Q2', -1],
+    ]);
+    const table = uxStubs.table.firstCall.args[0] as { columns: Array<{ name: string }> };
+    expect(table.columns.map((column) => column.name)).to.include('Period');
+  });
+
+  it('sets a distinct exit code when a metric is outside tolerance with --fail-on-difference', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
+
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(buildOrgStub('00D-source', { [COUNT_ALIAS]: 100, [SUM_ANNUAL_REVENUE_ALIAS]: 5000 }));
+    createStub.onCall(1).resolves(buildOrgStub('00D-target', { [COUNT_ALIAS]: 101, [SUM_ANNUAL_REVENUE_ALIAS]: 6500 }));
+
+    const result = await runCompareData([
+      '--source-org',
+      'prod',
+      '--target-org',
+      'sbx',
+      '--object',
+      'Account',
+      '--metrics',
+      'count,sum:AnnualRevenue',
+      '--tolerance',
+      '2%',
+      '--fail-on-difference',
+    ]);
+
+    expect(result.metrics.map((row) => row.status)).to.deep.equal(['pass', 'fail']);
+    expect(result.tolerance.failures).to.equal(1);
+    expect(process.exitCode).to.equal(3);
+  });
+
+  it('prints planned queries and their query plans without executing them in dry-run mode', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
+
+    const buildExplainOrgStub = (orgId: string, relativeCost: number): Org => {
+      const request = $$.SANDBOX.stub().resolves({
+        plans: [
+          {
+            cardinality: 40,
+            fields: [],
+            leadingOperationType: relativeCost > 1 ? 'TableScan' : 'Index',
+            notes: [],
+            relativeCost,
+            sobjectCardinality: 4000,
+            sobjectType: 'Account',
+          },
+        ],
+      });
+      return {
+        getOrgId: $$.SANDBOX.stub().returns(orgId),
+        getConnection: $$.SANDBOX.stub().returns({
+          getApiVersion: $$.SANDBOX.stub().returns('60.0'),
+          query: $$.SANDBOX.stub().rejects(new Error('Dry run must not execute queries')),
+          request,
+        }),
+      } as unknown as Org;
+    };
+
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(buildExplainOrgStub('00D-source', 0.2));
+    createStub.onCall(1).resolves(buildExplainOrgStub('00D-target', 2.5));
+
+    const result = await runCompareData([
+      '--source-org',
+      'prod',
+      '--target-org',
+      'sbx',
+      '--object',
+      'Account',
+      '--metrics',
+      'count',
+      '--where',
+      "Industry = 'Energy'",
+      '--dry-run',
+      '--explain',
+    ]);
+
+    expect(result.dryRun).to.equal(true);
+    expect(result.metrics).to.be.empty;
+    expect(result.queries.aggregate).to.equal("SELECT COUNT(Id) count__all FROM Account WHERE Industry = 'Energy'");
+    expect(result.explain?.map((entry) => [entry.org, entry.plan?.selective])).to.deep.equal([
+      ['source org', true],
+      ['target org', false],
+    ]);
+    expect(uxStubs.warn.firstCall.args[0]).to.include('target org Aggregate: Not selective: relative cost 2.5');
+  });
+
+  it('checks metric tolerances against the planned metrics before any query runs', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
+    const org = buildOrgStub('00D-source', { [COUNT_ALIAS]: 10 });
+    $$.SANDBOX.stub(Org, 'create').resolves(org);
+    const args = ['--source-org', 'prod', '--target-org', 'sbx', '--object', 'Account', '--metrics', 'count'];
+
+    const result = await runCompareData([...args, '--metric-tolerance', 'count__all=1', '--dry-run']);
+    expect(result.dryRun).to.equal(true);
+    expect(result.tolerance.perMetric).to.deep.equal({ [COUNT_ALIAS]: { absolute: 1 } });
+
+    try {
+      await runCompareData([...args, '--metric-tolerance', 'cuont__all=1']);
+      expect.fail('Expected an unknown tolerance metric to throw');
+    } catch (error) {
+      expect((error as Error).name).to.equal('UnknownToleranceMetric');
+    }
+    expect((org.getConnection() as unknown as { query: SinonStub }).query.called).to.equal(false);
+  });
+
+  it('explains a field missing in the target org with the schema preflight', async () => {
+    const sourceOrg = buildOrgStub('00D-source', { [COUNT_ALIAS]: 10 });
+    const targetDescribe = {
+      ...describeResult,
+      fields: describeResult.fields.filter((field) => field.name !== 'Industry'),
+    };
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').callsFake(async function (
+      this: MetadataDiscoveryService
+    ) {
+      const { options } = this as unknown as { options: { org: Org } };
+      return options.org === sourceOrg ? describeResult : targetDescribe;
+    });
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(sourceOrg);
+    createStub.onCall(1).resolves(buildOrgStub('00D-target', { [COUNT_ALIAS]: 10 }));
+
+    try {
+      await runCompareData([
+        '--source-org',
+        'prod',
+        '--target-org',
+        'sbx',
+        '--object',
+        'Account',
+        '--group-by',
+        'Industry',
+      ]);
+      expect.fail('Expected the missing group-by field to throw');
+    } catch (error) {
+      expect((error as Error).name).to.equal('FieldNotFound');
+      expect((error as Error).message).to.include(
+        'The schema preflight found Industry in the source org only; the target org does not have it.'
+      );
+    }
+  });
+
+  it('rejects a filter on an unknown field before running any query', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
+    const sourceOrg = buildOrgStub('00D-source', { [COUNT_ALIAS]: 10 });
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(sourceOrg);
+    createStub.onCall(1).resolves(buildOrgStub('00D-target', { [COUNT_ALIAS]: 10 }));
+
+    try {
+      await runCompareData([
+        '--source-org',
+        'prod',
+        '--target-org',
+        'sbx',
+        '--object',
+        'Account',
+        '--where',
+        "Industry = 'Energy' AND BillingCountry = 'US'",
+      ]);
+      expect.fail('Expected an unknown filter field to throw');
+    } catch (error) {
+      expect((error as Error).name).to.equal('FieldNotFound');
+      expect((error as Error).message).to.include('Field "BillingCountry" in condition not found');
+    }
+    expect((sourceOrg.getConnection().query as unknown as { called: boolean }).called).to.equal(false);
+  });
+
   it('writes csv output when format=csv', async () => {
     $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
 
@@ -139,7 +506,7 @@ describe('compare:data command', () => {
 
     const tempDir = await fs.mkdtemp(join(tmpdir(), 'compare-csv-'));
     const outputPath = join(tempDir, 'comparison.csv');
-    const result = await CompareData.run([
+    const result = await runCompareData([
       '--source-org',
       'prod',
       '--target-org',
@@ -167,6 +534,78 @@ describe('compare:data command', () => {
     expect(csv).to.include('Sample Records - Target');
   });
 
+  it('compares histogram buckets and writes them to the csv report', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
+
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(
+      buildOrgStub('00D-source', [
+        { [COUNT_ALIAS]: 2, AnnualRevenue: 10 },
+        { [COUNT_ALIAS]: 2, AnnualRevenue: 30 },
+      ])
+    );
+    createStub.onCall(1).resolves(
+      buildOrgStub('00D-target', [
+        { [COUNT_ALIAS]: 2, AnnualRevenue: 30 },
+        { [COUNT_ALIAS]: 2, AnnualRevenue: 30 },
+      ])
+    );
+
+    const tempDir = await fs.mkdtemp(join(tmpdir(), 'compare-histogram-'));
+    const outputPath = join(tempDir, 'comparison.csv');
+    const result = await runCompareData([
+      '--source-org',
+      'prod',
+      '--target-org',
+      'sbx',
+      '--object',
+      'Account',
+      '--metrics',
+      'count,histogram:AnnualRevenue:buckets=2',
+      '--format',
+      'csv',
+      '--output-file',
+      outputPath,
+    ]);
+
+    const histogram = result.metrics.find((row) => row.alias === 'histogram__annualrevenue');
+    expect(histogram?.distribution?.buckets.map((bucket) => [bucket.source, bucket.target])).to.deep.equal([
+      [1, 0],
+      [1, 2],
+    ]);
+    expect(histogram?.distribution?.ks).to.equal(0.5);
+
+    const csv = await fs.readFile(outputPath, 'utf8');
+    expect(csv).to.include('Distribution - HISTOGRAM(AnnualRevenue, 2)');
+    expect(csv).to.include('Bucket,Source,Target,Source Share,Target Share');
+  });
+
+  it('rejects histograms combined with group-by', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
+
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(buildOrgStub('00D-source', { [COUNT_ALIAS]: 1 }));
+    createStub.onCall(1).resolves(buildOrgStub('00D-target', { [COUNT_ALIAS]: 1 }));
+
+    try {
+      await runCompareData([
+        '--source-org',
+        'prod',
+        '--target-org',
+        'sbx',
+        '--object',
+        'Account',
+        '--metrics',
+        'histogram:AnnualRevenue',
+        '--group-by',
+        'Industry',
+      ]);
+      expect.fail('Expected the command to reject the grouped histogram');
+    } catch (error) {
+      expect((error as Error).name).to.equal('UnsupportedGroupedMetric');
+    }
+  });
+
   it('writes pdf output when format=pdf', async () => {
     $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
 
@@ -183,7 +622,7 @@ describe('compare:data command', () => {
 
     const tempDir = await fs.mkdtemp(join(tmpdir(), 'compare-pdf-'));
     const outputPath = join(tempDir, 'comparison.pdf');
-    const result = await CompareData.run([
+    const result = await runCompareData([
       '--source-org',
       'prod',
       '--target-org',
@@ -213,7 +652,7 @@ describe('compare:data command', () => {
     createStub.onCall(1).resolves(buildOrgStub('00D-target', { [COUNT_ALIAS]: 12, [SUM_ANNUAL_REVENUE_ALIAS]: 6500 }));
 
     try {
-      await CompareData.run([
+      await runCompareData([
         '--source-org',
         'prod',
         '--target-org',
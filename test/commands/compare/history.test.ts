@@ -0,0 +1,114 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+import { TestContext } from '@salesforce/core/testSetup';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+
+import CompareHistory from '../../../src/commands/compare/history.js';
+import { buildHistoryRun, recordRun } from '../../../src/services/runHistory.js';
+
+describe('compare:history command', () => {
+  const $$ = new TestContext();
+  let uxStubs: ReturnType<typeof stubSfCommandUx>;
+  let originalDataHome: string | undefined;
+  let dataDir: string;
+
+  const source = { aliasOrUsername: 'prod', orgId: '00D-prod', apiVersion: '61.0' };
+  const target = { aliasOrUsername: 'uat', orgId: '00D-uat', apiVersion: '61.0' };
+
+  const recordCount = async (object: string, targetValue: number, recordedAt: string): Promise<void> => {
+    await recordRun(
+      buildHistoryRun(
+        {
+          object,
+          metrics: [
+            {
+              metric: { kind: 'count', valueType: 'number' },
+              alias: 'count__all',
+              sourceValue: 100,
+              targetValue,
+              difference: targetValue - 100,
+              status: targetValue === 100 ? 'pass' : 'fail',
+            },
+          ],
+          filters: { sampleSize: 0 },
+          tolerance: { defaults: {}, perMetric: {}, failOnDifference: false, failures: targetValue === 100 ? 0 : 1 },
+          source,
+          target,
+        },
+        new Date(recordedAt)
+      )
+    );
+  };
+
+  beforeEach(async () => {
+    uxStubs = stubSfCommandUx($$.SANDBOX);
+    originalDataHome = process.env.SF_DATA_HOME;
+    dataDir = await fs.mkdtemp(join(tmpdir(), 'sfdata-'));
+    process.env.SF_DATA_HOME = dataDir;
+  });
+
+  afterEach(async () => {
+    $$.restore();
+    process.env.SF_DATA_HOME = originalDataHome;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('lists matching runs and exports the metric trend as CSV', async () => {
+    await recordCount('Account', 80, '2025-01-01T00:00:00Z');
+    await recordCount('Contact', 50, '2025-01-15T00:00:00Z');
+    await recordCount('Account', 95, '2025-02-01T00:00:00Z');
+    const csvPath = join(dataDir, 'trend.csv');
+
+    const result = await CompareHistory.run([
+      '--object',
+      'Account',
+      '--target-org',
+      'uat',
+      '--format',
+      'csv',
+      '--output-file',
+      csvPath,
+    ]);
+
+    expect(result.runs).to.have.length(2);
+    expect(result.trends).to.have.length(1);
+    expect(result.trends[0].direction).to.equal('improving');
+    expect(uxStubs.table.calledTwice).to.equal(true);
+
+    const csv = await fs.readFile(csvPath, 'utf8');
+    expect(csv).to.contain('Recorded At,Run Id,Source Org,Target Org,Object,Metric');
+    expect(csv).to.match(
+      /2025-02-01T00:00:00.000Z,[^,]+,prod \(00D-prod\),uat \(00D-uat\),Account,COUNT\(Id\),,,,100,95,-5,15,FAIL,improving/
+    );
+  });
+
+  it('keeps only the most recent runs up to the limit', async () => {
+    await recordCount('Account', 80, '2025-01-01T00:00:00Z');
+    await recordCount('Account', 95, '2025-02-01T00:00:00Z');
+
+    const result = await CompareHistory.run(['--limit', '1']);
+
+    expect(result.runs.map((run) => run.recordedAt)).to.deep.equal(['2025-02-01T00:00:00.000Z']);
+    expect(result.trends[0].direction).to.equal('unchanged');
+  });
+});
@@ -0,0 +1,91 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+import { Org } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+
+import CompareMetadata from '../../../src/commands/compare/metadata.js';
+import { MetadataDiscoveryService } from '../../../src/services/metadataDiscoveryService.js';
+
+describe('compare:metadata command', () => {
+  const $$ = new TestContext();
+  let uxStubs: ReturnType<typeof stubSfCommandUx>;
+
+  beforeEach(() => {
+    uxStubs = stubSfCommandUx($$.SANDBOX);
+  });
+
+  afterEach(() => {
+    $$.restore();
+  });
+
+  const buildOrgStub = (orgId: string): Org =>
+    ({
+      getOrgId: $$.SANDBOX.stub().returns(orgId),
+      getConnection: $$.SANDBOX.stub().returns({
+        getApiVersion: $$.SANDBOX.stub().returns('60.0'),
+      }),
+    } as unknown as Org);
+
+  it('writes triggers present in only one org to CSV', async () => {
+    const sourceOrg = buildOrgStub('00D-source');
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeMetadata').resolves({
+      metadataObjects: [{ xmlName: 'ApexTrigger' }],
+    });
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'listMetadata').callsFake(async function (
+      this: MetadataDiscoveryService
+    ) {
+      const { options } = this as unknown as { options: { org: Org } };
+      return options.org === sourceOrg
+        ? [{ fullName: 'AccountTrigger', type: 'ApexTrigger', lastModifiedDate: '2025-01-01T00:00:00.000Z' }]
+        : [];
+    });
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(sourceOrg);
+    createStub.onCall(1).resolves(buildOrgStub('00D-target'));
+
+    const tempDir = await fs.mkdtemp(join(tmpdir(), 'compare-metadata-'));
+    const outputPath = join(tempDir, 'metadata.csv');
+    const result = await CompareMetadata.run([
+      '--source-org',
+      'prod',
+      '--target-org',
+      'sbx',
+      '--type',
+      'ApexTrigger',
+      '--format',
+      'csv',
+      '--output-file',
+      outputPath,
+    ]);
+
+    const csv = await fs.readFile(outputPath, 'utf8');
+
+    expect(result.differences).to.have.length(1);
+    expect(csv).to.include('ApexTrigger,AccountTrigger,missing-in-target,2025-01-01T00:00:00.000Z,,,');
+    expect(uxStubs.log.firstCall.args[0]).to.equal(
+      'ApexTrigger: 1 source and 0 target component(s), 1 missing in target, 0 missing in source, 0 modified.'
+    );
+    expect(uxStubs.table.calledOnce).to.equal(true);
+  });
+});
@@ -0,0 +1,101 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+import { Org } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+
+import ComparePlan from '../../../src/commands/compare/plan.js';
+import { MetadataDiscoveryService } from '../../../src/services/metadataDiscoveryService.js';
+
+describe('compare:plan command', () => {
+  const $$ = new TestContext();
+  let planDir: string;
+
+  type DescribeResult = Awaited<ReturnType<MetadataDiscoveryService['describeSObject']>>;
+
+  beforeEach(async () => {
+    stubSfCommandUx($$.SANDBOX);
+    planDir = await fs.mkdtemp(join(tmpdir(), 'compare-plan-'));
+  });
+
+  afterEach(async () => {
+    $$.restore();
+    process.exitCode = undefined;
+    await fs.rm(planDir, { recursive: true, force: true });
+  });
+
+  const buildOrgStub = (orgId: string, counts: Record<string, number>): Org => {
+    const query = $$.SANDBOX.stub().callsFake(async (soql: string) => {
+      const object = /FROM (\w+)/.exec(soql)?.[1] ?? '';
+      return { records: [{ ['count__all']: counts[object] }] };
+    });
+
+    return {
+      getOrgId: $$.SANDBOX.stub().returns(orgId),
+      getConnection: $$.SANDBOX.stub().returns({
+        getApiVersion: $$.SANDBOX.stub().returns('60.0'),
+        query,
+      }),
+    } as unknown as Org;
+  };
+
+  it('compares every object in the plan and aggregates failures', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').callsFake(
+      async (objectName: string) => ({ name: objectName, label: objectName, fields: [] } as unknown as DescribeResult)
+    );
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(buildOrgStub('00D-source', { Account: 10, Contact: 20 }));
+    createStub.onCall(1).resolves(buildOrgStub('00D-target', { Account: 10, Contact: 25 }));
+
+    const planFile = join(planDir, 'plan.yaml');
+    await fs.writeFile(
+      planFile,
+      ['title: Nightly', 'sourceOrg: prod', 'targetOrg: sbx', 'objects:', '  - Account', '  - object: Contact'].join(
+        '\n'
+      ),
+      'utf8'
+    );
+
+    const result = await ComparePlan.run(['--plan-file', planFile, '--fail-on-difference']);
+
+    expect(createStub.firstCall.args[0]).to.deep.equal({ aliasOrUsername: 'prod' });
+    expect(result.reportTitle).to.equal('Nightly');
+    expect(result.sections.map((section) => section.object)).to.deep.equal(['Account', 'Contact']);
+    expect(result.sections[0].tolerance.failures).to.equal(0);
+    expect(result.sections[1].metrics[0].difference).to.equal(5);
+    expect(result.failures).to.equal(1);
+    expect(process.exitCode).to.equal(3);
+  });
+
+  it('requires orgs from flags or the plan', async () => {
+    const planFile = join(planDir, 'plan.json');
+    await fs.writeFile(planFile, JSON.stringify({ objects: ['Account'] }), 'utf8');
+
+    try {
+      await ComparePlan.run(['--plan-file', planFile]);
+      expect.fail('Expected compare:plan to fail without orgs');
+    } catch (error) {
+      expect((error as Error).name).to.equal('MissingPlanOrgs');
+    }
+  });
+});
@@ -0,0 +1,167 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+import { Org } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+import type { SinonStub } from 'sinon';
+
+import CompareRecords from '../../../src/commands/compare/records.js';
+import { MetadataDiscoveryService } from '../../../src/services/metadataDiscoveryService.js';
+
+describe('compare:records command', () => {
+  const $$ = new TestContext();
+  let uxStubs: ReturnType<typeof stubSfCommandUx>;
+
+  type DescribeResult = Awaited<ReturnType<MetadataDiscoveryService['describeSObject']>>;
+
+  const describeResult: DescribeResult = {
+    name: 'Account',
+    fields: [
+      { name: 'Id', type: 'id' },
+      { name: 'Name', type: 'string' },
+      { name: 'Industry', type: 'picklist' },
+      { name: 'External_Key__c', type: 'string', externalId: true },
+    ],
+  };
+
+  beforeEach(() => {
+    uxStubs = stubSfCommandUx($$.SANDBOX);
+  });
+
+  afterEach(() => {
+    $$.restore();
+  });
+
+  const buildOrgStub = (orgId: string, records: Array<Record<string, unknown>>): Org => {
+    const connectionQuery = $$.SANDBOX.stub();
+    connectionQuery.callsFake(async (query: string) => {
+      if (query.startsWith('SELECT')) {
+        return { records, totalSize: records.length, done: true };
+      }
+
+      expect.fail(`Unexpected query executed: ${query}`);
+    });
+
+    return {
+      getOrgId: $$.SANDBOX.stub().returns(orgId),
+      getConnection: $$.SANDBOX.stub().returns({
+        getApiVersion: $$.SANDBOX.stub().returns('60.0'),
+        query: connectionQuery,
+      }),
+    } as unknown as Org;
+  };
+
+  it('reports missing, extra and changed records keyed by an external ID', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
+
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(
+      buildOrgStub('00D-source', [
+        { Id: '001A', ['External_Key__c']: 'K1', Name: 'Acme', Industry: 'Energy' },
+        { Id: '001B', ['External_Key__c']: 'K2', Name: 'Globex', Industry: 'Banking' },
+      ])
+    );
+    createStub.onCall(1).resolves(
+      buildOrgStub('00D-target', [
+        { Id: '001X', ['External_Key__c']: 'K1', Name: 'Acme', Industry: 'Utilities' },
+        { Id: '001Y', ['External_Key__c']: 'K3', Name: 'Initech', Industry: 'Banking' },
+      ])
+    );
+
+    const tempDir = await fs.mkdtemp(join(tmpdir(), 'compare-records-'));
+    const outputPath = join(tempDir, 'records.csv');
+    const result = await CompareRecords.run([
+      '--source-org',
+      'prod',
+      '--target-org',
+      'sbx',
+      '--object',
+      'Account',
+      '--key-field',
+      'External_Key__c',
+      '--fields',
+      'Name,Industry',
+      '--format',
+      'csv',
+      '--output-file',
+      outputPath,
+    ]);
+
+    const csv = await fs.readFile(outputPath, 'utf8');
+
+    expect(result.query).to.equal('SELECT Id, External_Key__c, Name, Industry FROM Account ORDER BY External_Key__c');
+    expect(result.summary).to.deep.include({ matched: 1, missingInTarget: 1, extraInTarget: 1, changed: 1 });
+    expect(result.fieldMismatches).to.deep.equal([{ field: 'Industry', mismatches: 1 }]);
+    expect(csv).to.include('Changed,K1,Industry,Energy,Utilities');
+    expect(csv).to.include('Missing in Target,K2');
+    expect(uxStubs.table.calledTwice).to.equal(true);
+  });
+
+  it('pages through results and retries transient failures', async () => {
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').resolves(describeResult);
+
+    const source = buildOrgStub('00D-source', []);
+    const connection = source.getConnection() as unknown as { query: SinonStub; queryMore: SinonStub };
+    connection.query.onFirstCall().rejects(Object.assign(new Error('timed out'), { errorCode: 'QUERY_TIMEOUT' }));
+    connection.query.onSecondCall().resolves({
+      records: [{ Id: '001A', Name: 'Acme' }],
+      totalSize: 2,
+      done: false,
+      nextRecordsUrl: '/query/01g-2000',
+    });
+    connection.queryMore = $$.SANDBOX.stub().resolves({
+      records: [{ Id: '001B', Name: 'Globex' }],
+      totalSize: 2,
+      done: true,
+    });
+
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(source);
+    createStub.onCall(1).resolves(
+      buildOrgStub('00D-target', [
+        { Id: '001A', Name: 'Acme' },
+        { Id: '001B', Name: 'Globex' },
+      ])
+    );
+
+    const result = await CompareRecords.run([
+      '--source-org',
+      'prod',
+      '--target-org',
+      'sbx',
+      '--object',
+      'Account',
+      '--fields',
+      'Name',
+      '--retry-delay',
+      '0',
+    ]);
+
+    expect(connection.queryMore.calledOnceWith('/query/01g-2000')).to.equal(true);
+    expect(result.summary).to.deep.include({ sourceRecords: 2, matched: 2, changed: 0 });
+    expect(result.retries).to.deep.equal([
+      { org: 'source org', query: result.query, attempt: 1, reason: 'QUERY_TIMEOUT', delayMs: 0 },
+    ]);
+    expect(uxStubs.warn.calledOnce).to.equal(true);
+  });
+});
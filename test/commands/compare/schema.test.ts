@@ -0,0 +1,109 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+import { Org } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+import { stubSfCommandUx } from '@salesforce/sf-plugins-core';
+
+import CompareSchema from '../../../src/commands/compare/schema.js';
+import { MetadataDiscoveryService } from '../../../src/services/metadataDiscoveryService.js';
+
+describe('compare:schema command', () => {
+  const $$ = new TestContext();
+  let uxStubs: ReturnType<typeof stubSfCommandUx>;
+
+  type DescribeResult = Awaited<ReturnType<MetadataDiscoveryService['describeSObject']>>;
+
+  const sourceDescribe: DescribeResult = {
+    name: 'Account',
+    fields: [
+      { name: 'Id', type: 'id' },
+      { name: 'Name', type: 'string', length: 80 },
+      { name: 'Industry', type: 'picklist', picklistValues: [{ value: 'Energy' }] },
+    ],
+  };
+
+  const targetDescribe: DescribeResult = {
+    name: 'Account',
+    fields: [
+      { name: 'Id', type: 'id' },
+      { name: 'Name', type: 'string', length: 255 },
+      { name: 'Industry', type: 'picklist', picklistValues: [{ value: 'Energy' }, { value: 'Utilities' }] },
+      { name: 'Region__c', type: 'string', length: 40 },
+    ],
+  };
+
+  beforeEach(() => {
+    uxStubs = stubSfCommandUx($$.SANDBOX);
+  });
+
+  afterEach(() => {
+    $$.restore();
+  });
+
+  const buildOrgStub = (orgId: string): Org =>
+    ({
+      getOrgId: $$.SANDBOX.stub().returns(orgId),
+      getConnection: $$.SANDBOX.stub().returns({
+        getApiVersion: $$.SANDBOX.stub().returns('60.0'),
+      }),
+    } as unknown as Org);
+
+  it('reports field differences between the orgs and writes them to CSV', async () => {
+    const sourceOrg = buildOrgStub('00D-source');
+    $$.SANDBOX.stub(MetadataDiscoveryService.prototype, 'describeSObject').callsFake(async function (
+      this: MetadataDiscoveryService
+    ) {
+      const { options } = this as unknown as { options: { org: Org } };
+      return options.org === sourceOrg ? sourceDescribe : targetDescribe;
+    });
+    const createStub = $$.SANDBOX.stub(Org, 'create');
+    createStub.onCall(0).resolves(sourceOrg);
+    createStub.onCall(1).resolves(buildOrgStub('00D-target'));
+
+    const tempDir = await fs.mkdtemp(join(tmpdir(), 'compare-schema-'));
+    const outputPath = join(tempDir, 'schema.csv');
+    const result = await CompareSchema.run([
+      '--source-org',
+      'prod',
+      '--target-org',
+      'sbx',
+      '--object',
+      'Account',
+      '--format',
+      'csv',
+      '--output-file',
+      outputPath,
+    ]);
+
+    const csv = await fs.readFile(outputPath, 'utf8');
+
+    expect(result.objects[0].summary).to.deep.include({ added: 1, removed: 0, changed: 2, unchanged: 1 });
+    expect(csv).to.include('Account,Name,string,changed,length,80,255');
+    expect(csv).to.include('Account,Industry,picklist,changed,picklistValue,,Utilities');
+    expect(csv).to.include('Account,Region__c,string,added,,,');
+    expect(uxStubs.table.calledOnce).to.equal(true);
+    expect(uxStubs.log.firstCall.args[0]).to.equal(
+      'Compared 3 source and 4 target field(s) of Account: 1 added, 0 removed, 2 changed.'
+    );
+  });
+});
@@ -185,4 +185,73 @@ describe('AggregateQueryBuilder', () => {
       "Status = 'Open - Not Contacted'"
     );
   });
+
+  it('shares aggregates between expression operands and other metrics', () => {
+    const countMetric: ResolvedMetric = { kind: 'count', valueType: 'number' };
+    const wonMetric: ResolvedMetric = { kind: 'countIf', condition: 'IsWon = true', valueType: 'number' };
+    const winRate: ResolvedMetric = {
+      kind: 'expression',
+      label: 'COUNT_IF(IsWon = true) / COUNT(Id)',
+      expression: {
+        type: 'binary',
+        operator: '/',
+        left: { type: 'metric', metric: wonMetric },
+        right: { type: 'metric', metric: countMetric },
+      },
+      valueType: 'number',
+    };
+
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Opportunity',
+      metrics: [countMetric, wonMetric, winRate],
+    }).build();
+
+    expect(plan.aggregateQuery).to.equal('SELECT COUNT(Id) count__all FROM Opportunity');
+    expect(plan.conditionalMetrics).to.have.length(1);
+    expect(plan.metrics[2]).to.deep.include({
+      kind: 'expression',
+      alias: 'expr__countIf__iswon___true_count__all',
+      expression: {
+        type: 'binary',
+        operator: '/',
+        left: { type: 'metric', metric: plan.conditionalMetrics[0].alias },
+        right: { type: 'metric', metric: 'count__all' },
+      },
+    });
+  });
+
+  it('adds group by fields to aggregate and conditional queries', () => {
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Lead',
+      metrics: [{ kind: 'count', valueType: 'number' }, ...conditionalMetrics],
+      groupBy: ['LeadSource', 'Status'],
+    }).build();
+
+    expect(plan.groupBy).to.deep.equal([
+      { field: 'LeadSource', soql: 'LeadSource', alias: 'group__leadsource' },
+      { field: 'Status', soql: 'Status', alias: 'group__status' },
+    ]);
+    expect(plan.aggregateQuery).to.equal(
+      'SELECT LeadSource group__leadsource, Status group__status, COUNT(Id) count__all FROM Lead GROUP BY LeadSource, Status'
+    );
+    expect(plan.conditionalMetrics[0].aggregateQuery).to.match(
+      /^SELECT LeadSource group__leadsource, Status group__status, COUNT\(Id\) countIf__\w+ FROM Lead WHERE .+ GROUP BY LeadSource, Status$/
+    );
+  });
+
+  it('groups by calendar functions of the bucket field', () => {
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Case',
+      metrics: [{ kind: 'count', valueType: 'number' }],
+      groupBy: ['Origin'],
+      bucketing: { field: 'CreatedDate', fieldType: 'datetime', interval: 'month', timeZone: 'user' },
+    }).build();
+
+    expect(plan.aggregateQuery).to.equal(
+      'SELECT Origin group__origin, CALENDAR_YEAR(convertTimezone(CreatedDate)) period__calendar_year, ' +
+        'CALENDAR_MONTH(convertTimezone(CreatedDate)) period__calendar_month, COUNT(Id) count__all FROM Case ' +
+        'GROUP BY Origin, CALENDAR_YEAR(convertTimezone(CreatedDate)), CALENDAR_MONTH(convertTimezone(CreatedDate))'
+    );
+    expect(plan.groupBy?.filter((expression) => expression.period)).to.have.length(2);
+  });
 });
@@ -0,0 +1,186 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import type { Connection } from '@salesforce/core';
+
+import { AggregateQueryBuilder } from '../../src/services/aggregateQueryBuilder.js';
+import {
+  assertChunkable,
+  buildDateTimeBoundaries,
+  buildIdBoundaries,
+  executeChunkedAggregate,
+  resolveChunkConditions,
+} from '../../src/services/chunkedAggregation.js';
+import type { ResolvedMetric } from '../../src/services/metricParser.js';
+import type { QueryExecution } from '../../src/services/queryExecutor.js';
+
+type QueryConnection = Pick<Connection, 'query'>;
+
+const execution = (): QueryExecution => ({
+  policy: { timeoutMs: 1000, maxRetries: 0, retryDelayMs: 0 },
+  orgLabel: 'source org',
+  retries: [],
+});
+
+const amountMetric = (fn: 'sum' | 'avg' | 'min' | 'max'): ResolvedMetric => ({
+  kind: 'fieldAggregate',
+  fn,
+  field: 'Amount',
+  fieldType: 'currency',
+  label: 'Amount',
+  valueType: 'number',
+});
+
+describe('chunkedAggregation', () => {
+  it('splits datetime ranges on whole seconds', () => {
+    expect(buildDateTimeBoundaries('2024-01-01T00:00:00.000+0000', '2024-01-05T00:00:00.000+0000', 4)).to.deep.equal([
+      '2024-01-02T00:00:00Z',
+      '2024-01-03T00:00:00Z',
+      '2024-01-04T00:00:00Z',
+    ]);
+    expect(buildDateTimeBoundaries('2024-01-01T00:00:00.000+0000', '2024-01-01T00:00:00.000+0000', 4)).to.be.empty;
+  });
+
+  it('splits Id ranges using base62 arithmetic', () => {
+    expect(buildIdBoundaries('001000000000000AAA', '001000000000040AAA', 2)).to.deep.equal(["'001000000000020'"]);
+    expect(buildIdBoundaries('001000000000000', '001000000000001', 4)).to.be.empty;
+  });
+
+  it('builds open-ended range conditions from the org boundaries', async () => {
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Opportunity',
+      metrics: [{ kind: 'count', valueType: 'number' }],
+      where: "StageName = 'Closed Won'",
+    }).build();
+    const query = sinon.stub();
+    query
+      .withArgs("SELECT CreatedDate FROM Opportunity WHERE StageName = 'Closed Won' ORDER BY CreatedDate ASC LIMIT 1")
+      .resolves({ records: [{ CreatedDate: '2024-01-01T00:00:00.000+0000' }] });
+    query
+      .withArgs("SELECT CreatedDate FROM Opportunity WHERE StageName = 'Closed Won' ORDER BY CreatedDate DESC LIMIT 1")
+      .resolves({ records: [{ CreatedDate: '2024-01-04T00:00:00.000+0000' }] });
+
+    const conditions = await resolveChunkConditions(
+      { query } as unknown as QueryConnection,
+      plan,
+      { field: 'CreatedDate', chunks: 3, concurrency: 2 },
+      execution()
+    );
+
+    expect(conditions).to.deep.equal([
+      'CreatedDate < 2024-01-02T00:00:00Z',
+      'CreatedDate >= 2024-01-02T00:00:00Z AND CreatedDate < 2024-01-03T00:00:00Z',
+      'CreatedDate >= 2024-01-03T00:00:00Z',
+    ]);
+  });
+
+  it('merges partial aggregates into the unchunked result', async () => {
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Opportunity',
+      metrics: [{ kind: 'count', valueType: 'number' }, ...(['sum', 'avg', 'min', 'max'] as const).map(amountMetric)],
+      groupBy: ['StageName'],
+    }).build();
+
+    // Chunk 1 holds Amounts 10 and 30 (Won) and 5 (Lost); chunk 2 holds Amount 20 (Won).
+    const query = sinon.stub().callsFake(async (soql: string) => {
+      expect(soql).to.include('SUM(Amount) avg__amount__chunksum, COUNT(Amount) avg__amount__chunkcount');
+      if (soql.includes('CreatedDate < ')) {
+        return {
+          records: [
+            {
+              ['group__stagename']: 'Won',
+              ['count__all']: 2,
+              ['sum__amount']: 40,
+              ['avg__amount__chunksum']: 40,
+              ['avg__amount__chunkcount']: 2,
+              ['min__amount']: 10,
+              ['max__amount']: 30,
+            },
+            {
+              ['group__stagename']: 'Lost',
+              ['count__all']: 1,
+              ['sum__amount']: 5,
+              ['avg__amount__chunksum']: 5,
+              ['avg__amount__chunkcount']: 1,
+              ['min__amount']: 5,
+              ['max__amount']: 5,
+            },
+          ],
+        };
+      }
+      return {
+        records: [
+          {
+            ['group__stagename']: 'Won',
+            ['count__all']: 1,
+            ['sum__amount']: 20,
+            ['avg__amount__chunksum']: 20,
+            ['avg__amount__chunkcount']: 1,
+            ['min__amount']: 20,
+            ['max__amount']: 20,
+          },
+        ],
+      };
+    });
+
+    const records = await executeChunkedAggregate(
+      { query } as unknown as QueryConnection,
+      {
+        objectName: plan.objectName,
+        whereClause: plan.whereClause,
+        groupBy: plan.groupBy ?? [],
+        expressions: plan.expressions,
+      },
+      ['CreatedDate < 2024-01-02T00:00:00Z', 'CreatedDate >= 2024-01-02T00:00:00Z'],
+      2,
+      execution()
+    );
+
+    expect(query.callCount).to.equal(2);
+    expect(records).to.deep.equal([
+      {
+        ['group__stagename']: 'Won',
+        ['count__all']: 3,
+        ['sum__amount']: 60,
+        ['avg__amount']: 20,
+        ['min__amount']: 10,
+        ['max__amount']: 30,
+      },
+      {
+        ['group__stagename']: 'Lost',
+        ['count__all']: 1,
+        ['sum__amount']: 5,
+        ['avg__amount']: 5,
+        ['min__amount']: 5,
+        ['max__amount']: 5,
+      },
+    ]);
+  });
+
+  it('rejects count-distinct metrics', () => {
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Account',
+      metrics: [
+        { kind: 'countDistinct', field: 'Industry', fieldType: 'picklist', label: 'Industry', valueType: 'number' },
+      ],
+    }).build();
+
+    expect(() => assertChunkable(plan)).to.throw('COUNT_DISTINCT(Industry) cannot be computed in chunks');
+  });
+});
@@ -0,0 +1,245 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import type { Connection } from '@salesforce/core';
+
+import { AggregateQueryBuilder } from '../../src/services/aggregateQueryBuilder.js';
+import {
+  MAX_KEPT_VALUES,
+  buildStatisticsQuery,
+  computeClientStatistics,
+  type StatisticsProgress,
+} from '../../src/services/clientStatistics.js';
+import type { ResolvedMetric, SimpleAggregateFunction } from '../../src/services/metricParser.js';
+import type { QueryExecution } from '../../src/services/queryExecutor.js';
+
+type StreamingConnection = Pick<Connection, 'query' | 'queryMore'>;
+
+const execution = (): QueryExecution => ({
+  policy: { timeoutMs: 1000, maxRetries: 0, retryDelayMs: 0 },
+  orgLabel: 'source org',
+  retries: [],
+});
+
+const amountMetric = (fn: SimpleAggregateFunction): ResolvedMetric => ({
+  kind: 'fieldAggregate',
+  fn,
+  field: 'Amount',
+  fieldType: 'currency',
+  label: 'Amount',
+  valueType: 'number',
+});
+
+describe('clientStatistics', () => {
+  it('keeps median, stddev and variance out of the SOQL aggregate query', () => {
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Opportunity',
+      metrics: [{ kind: 'count', valueType: 'number' }, amountMetric('median'), amountMetric('stddev')],
+      where: 'IsClosed = true',
+      groupBy: ['StageName'],
+    }).build();
+
+    expect(plan.aggregateQuery).to.equal(
+      'SELECT StageName group__stagename, COUNT(Id) count__all FROM Opportunity WHERE IsClosed = true GROUP BY StageName'
+    );
+    expect(plan.statistics).to.deep.equal([
+      { alias: 'median__amount', fn: 'median', field: 'Amount', valueType: 'number' },
+      { alias: 'stddev__amount', fn: 'stddev', field: 'Amount', valueType: 'number' },
+    ]);
+    expect(buildStatisticsQuery(plan)).to.equal('SELECT StageName, Amount FROM Opportunity WHERE IsClosed = true');
+    expect(buildStatisticsQuery(plan, 'CreatedDate >= 2024-01-01T00:00:00Z')).to.equal(
+      'SELECT StageName, Amount FROM Opportunity WHERE (IsClosed = true) AND (CreatedDate >= 2024-01-01T00:00:00Z)'
+    );
+  });
+
+  it('streams every page and computes statistics per group', async () => {
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Opportunity',
+      metrics: [amountMetric('median'), amountMetric('variance'), amountMetric('stddev')],
+      groupBy: ['StageName'],
+    }).build();
+    const query = sinon.stub().resolves({
+      totalSize: 6,
+      done: false,
+      nextRecordsUrl: '/query/01g-2000',
+      records: [
+        { StageName: 'Won', Amount: 2 },
+        { StageName: 'Won', Amount: 4 },
+        { StageName: 'Lost', Amount: null },
+      ],
+    });
+    const queryMore = sinon.stub().resolves({
+      totalSize: 6,
+      done: true,
+      records: [
+        { StageName: 'Won', Amount: 4 },
+        { StageName: 'Won', Amount: '5' },
+        { StageName: 'Lost', Amount: 7 },
+      ],
+    });
+    const progress: StatisticsProgress[] = [];
+
+    const { records } = await computeClientStatistics(
+      { query, queryMore } as unknown as StreamingConnection,
+      plan,
+      [],
+      {
+        execution: execution(),
+        concurrency: 1,
+        onProgress: (update) => progress.push(update),
+      }
+    );
+
+    expect(queryMore.firstCall.args[0]).to.equal('/query/01g-2000');
+    expect(records).to.deep.equal([
+      {
+        ['group__stagename']: 'Won',
+        ['median__amount']: 4,
+        ['variance__amount']: 4.75 / 3,
+        ['stddev__amount']: Math.sqrt(4.75 / 3),
+      },
+      {
+        ['group__stagename']: 'Lost',
+        ['median__amount']: 7,
+        ['variance__amount']: null,
+        ['stddev__amount']: null,
+      },
+    ]);
+    expect(progress).to.deep.equal([
+      { org: 'source org', processed: 3, total: 6 },
+      { org: 'source org', processed: 6, total: 6 },
+    ]);
+  });
+
+  it('stops before reading further pages when the kept values would exceed the memory cap', async () => {
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Opportunity',
+      metrics: [amountMetric('median')],
+    }).build();
+    const query = sinon.stub().resolves({
+      totalSize: MAX_KEPT_VALUES + 1,
+      done: false,
+      nextRecordsUrl: '/query/01g-2000',
+      records: [{ Amount: 1 }],
+    });
+    const queryMore = sinon.stub().rejects(new Error('No further page may be read'));
+
+    let error: Error | undefined;
+    try {
+      await computeClientStatistics({ query, queryMore } as unknown as StreamingConnection, plan, [], {
+        execution: execution(),
+        concurrency: 1,
+      });
+    } catch (caught) {
+      error = caught as Error;
+    }
+
+    expect(error?.name).to.equal('TooManyRecords');
+    expect(queryMore.called).to.equal(false);
+  });
+
+  it('computes percentiles and keeps histogram and frequency samples', async () => {
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Opportunity',
+      metrics: [
+        { kind: 'percentile', field: 'Amount', fieldType: 'currency', percentile: 90, valueType: 'number' },
+        { kind: 'histogram', field: 'Amount', fieldType: 'currency', buckets: 4, valueType: 'number' },
+        { kind: 'frequency', field: 'StageName', fieldType: 'picklist', top: 5, valueType: 'number' },
+      ],
+    }).build();
+    const query = sinon.stub().resolves({
+      totalSize: 4,
+      done: true,
+      records: [
+        { StageName: 'Won', Amount: 40 },
+        { StageName: 'Won', Amount: 10 },
+        { StageName: null, Amount: 30 },
+        { StageName: 'Lost', Amount: 20 },
+      ],
+    });
+
+    const result = await computeClientStatistics(
+      { query, queryMore: sinon.stub() } as unknown as StreamingConnection,
+      plan,
+      [],
+      { execution: execution(), concurrency: 1 }
+    );
+
+    expect(query.firstCall.args[0]).to.equal('SELECT Amount, StageName FROM Opportunity');
+    expect(result.records).to.deep.equal([{ ['p90__amount']: 37 }]);
+    expect(result.distributions).to.deep.equal({
+      ['histogram__amount']: { kind: 'histogram', values: new Float64Array([10, 20, 30, 40]) },
+      ['frequency__stagename']: {
+        kind: 'frequency',
+        counts: new Map([
+          ['Won', 2],
+          ['(null)', 1],
+          ['Lost', 1],
+        ]),
+      },
+    });
+  });
+
+  it('groups by relationship fields, which arrive as nested records', async () => {
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Opportunity',
+      metrics: [amountMetric('median')],
+      groupBy: ['Owner.Name'],
+    }).build();
+    const [group] = plan.groupBy ?? [];
+    const query = sinon.stub().resolves({
+      totalSize: 3,
+      done: true,
+      records: [
+        { Owner: { Name: 'Ada' }, Amount: 10 },
+        { Owner: { Name: 'Ada' }, Amount: 30 },
+        { Owner: null, Amount: 5 },
+      ],
+    });
+
+    const result = await computeClientStatistics(
+      { query, queryMore: sinon.stub() } as unknown as StreamingConnection,
+      plan,
+      [],
+      { execution: execution(), concurrency: 1 }
+    );
+
+    expect(result.records).to.deep.equal([
+      { [group.alias]: 'Ada', ['median__amount']: 20 },
+      { [group.alias]: null, ['median__amount']: 5 },
+    ]);
+  });
+
+  it('runs one streaming query per chunk and merges the values', async () => {
+    const plan = new AggregateQueryBuilder({ objectName: 'Opportunity', metrics: [amountMetric('median')] }).build();
+    const query = sinon.stub();
+    query.onFirstCall().resolves({ totalSize: 2, done: true, records: [{ Amount: 1 }, { Amount: 10 }] });
+    query.onSecondCall().resolves({ totalSize: 1, done: true, records: [{ Amount: 3 }] });
+
+    const { records } = await computeClientStatistics(
+      { query, queryMore: sinon.stub() } as unknown as StreamingConnection,
+      plan,
+      ['CreatedDate < 2024-06-01T00:00:00Z', 'CreatedDate >= 2024-06-01T00:00:00Z'],
+      { execution: execution(), concurrency: 2 }
+    );
+
+    expect(query.firstCall.args[0]).to.equal('SELECT Amount FROM Opportunity WHERE CreatedDate < 2024-06-01T00:00:00Z');
+    expect(records).to.deep.equal([{ ['median__amount']: 3 }]);
+  });
+});
@@ -0,0 +1,111 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+
+import { parseComparisonPlan } from '../../src/services/comparisonPlan.js';
+
+describe('comparisonPlan', () => {
+  it('parses YAML plans with shorthand and detailed entries', () => {
+    const plan = parseComparisonPlan(
+      [
+        'title: Release check',
+        'sourceOrg: prod',
+        'targetOrg: sbx',
+        'tolerance: 1%',
+        'objects:',
+        '  - Contact',
+        '  - object: Opportunity',
+        '    metrics: [count, "sum:Amount"]',
+        '    where: "StageName = \'Closed Won\'"',
+        '    groupBy: StageName',
+        '    sampleSize: 5',
+        '    metricTolerance:',
+        '      - COUNT(Id)=0',
+      ].join('\n'),
+      'plan.yaml'
+    );
+
+    expect(plan.title).to.equal('Release check');
+    expect(plan.sourceOrg).to.equal('prod');
+    expect(plan.tolerance).to.deep.equal(['1%']);
+    expect(plan.objects[0]).to.deep.equal({ object: 'Contact' });
+    expect(plan.objects[1]).to.include({ object: 'Opportunity', where: "StageName = 'Closed Won'", sampleSize: 5 });
+    expect(plan.objects[1].metrics).to.deep.equal(['count', 'sum:Amount']);
+    expect(plan.objects[1].groupBy).to.deep.equal(['StageName']);
+    expect(plan.objects[1].metricTolerance).to.deep.equal(['COUNT(Id)=0']);
+  });
+
+  it('parses JSON plans', () => {
+    const plan = parseComparisonPlan(
+      JSON.stringify({ objects: [{ object: 'Account', metrics: 'count' }] }),
+      'plan.json'
+    );
+
+    expect(plan.objects).to.deep.equal([
+      {
+        object: 'Account',
+        metrics: ['count'],
+        where: undefined,
+        groupBy: undefined,
+        sampleSize: undefined,
+        tolerance: undefined,
+        metricTolerance: undefined,
+        chunking: undefined,
+        bucketing: undefined,
+      },
+    ]);
+  });
+
+  it('reads chunking options with defaults', () => {
+    const plan = parseComparisonPlan(
+      ['objects:', '  - object: Task', '    chunkBy: createddate', '    chunks: 12'].join('\n'),
+      'plan.yaml'
+    );
+
+    expect(plan.objects[0].chunking).to.deep.equal({ field: 'CreatedDate', chunks: 12, concurrency: 4 });
+    expect(() => parseComparisonPlan('objects: [{ object: Task, chunkBy: Name }]', 'plan.yaml')).to.throw(
+      '"chunkBy" in objects[0] must be one of CreatedDate, Id'
+    );
+  });
+
+  it('reads time bucketing options with defaults', () => {
+    const plan = parseComparisonPlan(
+      ['objects:', '  - object: Case', '    bucketBy: CreatedDate', '    interval: Week'].join('\n'),
+      'plan.yaml'
+    );
+
+    expect(plan.objects[0].bucketing).to.deep.equal({ field: 'CreatedDate', interval: 'week', timeZone: 'utc' });
+    expect(() =>
+      parseComparisonPlan('objects: [{ object: Case, bucketBy: CreatedDate, interval: hour }]', 'plan.yaml')
+    ).to.throw('"interval" in objects[0] must be one of day, week, month, quarter, year');
+  });
+
+  it('rejects plans without objects', () => {
+    expect(() => parseComparisonPlan('title: Empty', 'plan.yml')).to.throw('"objects" must be a non-empty list');
+  });
+
+  it('rejects entries without an object name', () => {
+    expect(() => parseComparisonPlan('{"objects":[{"metrics":"count"}]}', 'plan.json')).to.throw(
+      'objects[0] must specify "object"'
+    );
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => parseComparisonPlan('{ not json', 'plan.json')).to.throw('Invalid comparison plan plan.json');
+  });
+});
@@ -57,6 +57,12 @@ const buildResult = (): CompareDataResult => ({
   outputFile: undefined,
   reportTitle: 'Data Comparison Sample',
   metadataCacheMinutes: 10,
+  tolerance: {
+    defaults: {},
+    perMetric: {},
+    failOnDifference: false,
+    failures: 0,
+  },
   source: {
     aliasOrUsername: 'prod',
     orgId: '00D-source',
@@ -79,6 +85,7 @@ const buildResult = (): CompareDataResult => ({
     ],
     target: [{ Id: '001-target-1', AnnualRevenue: 1500 }],
   },
+  retries: [],
 });
 
 describe('exportComparisonToCsv', () => {
@@ -35,7 +35,7 @@ describe('DataComparisonService', () => {
 
   const buildOrg = (
     orgId: string,
-    aggregateRecord: Record<string, unknown>,
+    aggregateRecord: Record<string, unknown> | Array<Record<string, unknown>>,
     samples: Array<Record<string, unknown>> = []
   ): Org => {
     const connectionQuery = $$.SANDBOX.stub();
@@ -48,7 +48,7 @@ describe('DataComparisonService', () => {
         }
 
         return {
-          records: [aggregateRecord],
+          records: Array.isArray(aggregateRecord) ? aggregateRecord : [aggregateRecord],
         };
       }
 
@@ -157,6 +157,73 @@ describe('DataComparisonService', () => {
     expect(comparison.metrics[0].difference).to.equal(0);
   });
 
+  it('evaluates expression metrics per org with null on division by zero', async () => {
+    const sumMetric: ResolvedMetric = {
+      kind: 'fieldAggregate',
+      fn: 'sum',
+      field: 'Amount',
+      fieldType: 'currency',
+      label: 'Amount',
+      valueType: 'number',
+    };
+    const countMetric: ResolvedMetric = { kind: 'count', valueType: 'number' };
+    const averageDeal: ResolvedMetric = {
+      kind: 'expression',
+      label: 'SUM(Amount) / COUNT(Id)',
+      expression: {
+        type: 'binary',
+        operator: '/',
+        left: { type: 'metric', metric: sumMetric },
+        right: { type: 'metric', metric: countMetric },
+      },
+      valueType: 'number',
+    };
+
+    const plan = new AggregateQueryBuilder({ objectName: 'Opportunity', metrics: [averageDeal] }).build();
+
+    const sourceOrg = buildOrg('00D-source', { ['sum__amount']: 900, ['count__all']: 3 });
+    const targetOrg = buildOrg('00D-target', { ['sum__amount']: null, ['count__all']: 0 });
+
+    const comparison = await service.compare({ sourceOrg, targetOrg, plan });
+    expect(comparison.metrics).to.have.length(1);
+    expect(comparison.metrics[0]).to.deep.include({ sourceValue: 300, targetValue: null, difference: null });
+  });
+
+  it('compares client-side statistics alongside SOQL aggregates', async () => {
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Opportunity',
+      metrics: [
+        { kind: 'count', valueType: 'number' },
+        { kind: 'fieldAggregate', fn: 'median', field: 'Amount', fieldType: 'currency', valueType: 'number' },
+      ],
+    }).build();
+    const buildStreamingOrg = (amounts: number[]): Org => {
+      const query = $$.SANDBOX.stub();
+      query
+        .withArgs('SELECT COUNT(Id) count__all FROM Opportunity')
+        .resolves({ records: [{ ['count__all']: amounts.length }] });
+      query.withArgs('SELECT Amount FROM Opportunity').resolves({
+        totalSize: amounts.length,
+        done: true,
+        records: amounts.map((amount) => ({ Amount: amount })),
+      });
+      return { getConnection: $$.SANDBOX.stub().returns({ query }) } as unknown as Org;
+    };
+
+    const comparison = await service.compare({
+      sourceOrg: buildStreamingOrg([10, 30, 20]),
+      targetOrg: buildStreamingOrg([10, 30, 20, 50]),
+      plan,
+    });
+
+    expect(
+      comparison.metrics.map((row) => [row.alias, row.sourceValue, row.targetValue, row.difference])
+    ).to.deep.equal([
+      ['count__all', 3, 4, 1],
+      ['median__amount', 20, 25, 5],
+    ]);
+  });
+
   it('returns null difference for non-numeric metrics', async () => {
     const maxMetric: ResolvedMetric = {
       kind: 'fieldAggregate',
@@ -173,6 +240,8 @@ describe('DataComparisonService', () => {
       expressions: [{ alias: 'max__lastmodifieddate', soql: 'MAX(LastModifiedDate)', valueType: 'date' }],
       metrics: [{ kind: 'direct', metric: maxMetric, alias: 'max__lastmodifieddate' } as MetricDefinition],
       conditionalMetrics: [],
+      statistics: [],
+      distributions: [],
       sampleFields: ['LastModifiedDate'],
     };
 
@@ -183,4 +252,60 @@ describe('DataComparisonService', () => {
     const comparison = await service.compare({ sourceOrg, targetOrg, plan });
     expect(comparison.metrics[0].difference).to.equal(null);
   });
+
+  it('returns one row set per group including groups missing from one org', async () => {
+    const countMetric: ResolvedMetric = { kind: 'count', valueType: 'number' };
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Opportunity',
+      metrics: [countMetric],
+      groupBy: ['StageName'],
+    }).build();
+
+    const sourceOrg = buildOrg('00D-source', [
+      { ['group__stagename']: 'Closed Won', ['count__all']: 10 },
+      { ['group__stagename']: 'Prospecting', ['count__all']: 4 },
+    ]);
+    const targetOrg = buildOrg('00D-target', [
+      { ['group__stagename']: 'Closed Won', ['count__all']: 7 },
+      { ['group__stagename']: 'Negotiation', ['count__all']: 2 },
+    ]);
+
+    const comparison = await service.compare({ sourceOrg, targetOrg, plan });
+
+    expect(comparison.metrics).to.have.length(3);
+    expect(comparison.metrics.map((row) => [row.group?.StageName, row.presentIn, row.difference])).to.deep.equal([
+      ['Closed Won', 'both', -3],
+      ['Negotiation', 'target', 2],
+      ['Prospecting', 'source', -4],
+    ]);
+  });
+
+  it('returns one row set per period and fills periods missing from both orgs', async () => {
+    const countMetric: ResolvedMetric = { kind: 'count', valueType: 'number' };
+    const plan = new AggregateQueryBuilder({
+      objectName: 'Case',
+      metrics: [countMetric],
+      bucketing: { field: 'CreatedDate', fieldType: 'datetime', interval: 'month', timeZone: 'utc' },
+    }).build();
+
+    const sourceOrg = buildOrg('00D-source', [
+      { ['period__calendar_year']: 2024, ['period__calendar_month']: 11, ['count__all']: 5 },
+      { ['period__calendar_year']: 2025, ['period__calendar_month']: 2, ['count__all']: 3 },
+    ]);
+    const targetOrg = buildOrg('00D-target', [
+      { ['period__calendar_year']: 2024, ['period__calendar_month']: 11, ['count__all']: 6 },
+    ]);
+
+    const comparison = await service.compare({ sourceOrg, targetOrg, plan });
+
+    expect(
+      comparison.metrics.map((row) => [row.period, row.presentIn, row.sourceValue, row.targetValue])
+    ).to.deep.equal([
+      ['2024-11', 'both', 5, 6],
+      ['2024-12', 'neither', 0, 0],
+      ['2025-01', 'neither', 0, 0],
+      ['2025-02', 'source', 3, 0],
+    ]);
+    expect(comparison.metrics[0].group).to.equal(undefined);
+  });
 });
@@ -0,0 +1,83 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+
+import {
+  compareFrequencies,
+  compareHistograms,
+  kolmogorovSmirnov,
+  percentile,
+  populationStabilityIndex,
+} from '../../src/services/distributionComparison.js';
+
+describe('distributionComparison', () => {
+  it('interpolates percentiles between closest ranks', () => {
+    const values = new Float64Array([1, 2, 3, 4]);
+    expect(percentile(values, 50)).to.equal(2.5);
+    expect(percentile(values, 90)).to.be.closeTo(3.7, 1e-9);
+    expect(percentile(new Float64Array(0), 50)).to.equal(null);
+  });
+
+  it('buckets both orgs on shared edges and reports PSI and KS', () => {
+    const comparison = compareHistograms(new Float64Array([0, 1, 2, 3]), new Float64Array([2, 3, 4, 4]), 2);
+
+    expect(comparison.buckets).to.deep.equal([
+      { label: '[0, 2)', source: 2, target: 0, sourceShare: 0.5, targetShare: 0 },
+      { label: '[2, 4]', source: 2, target: 4, sourceShare: 0.5, targetShare: 1 },
+    ]);
+    expect(comparison.ks).to.equal(0.5);
+    expect(comparison.psi).to.be.closeTo((0.0001 - 0.5) * Math.log(0.0001 / 0.5) + 0.5 * Math.log(2), 1e-9);
+  });
+
+  it('uses a single bucket when every value is the same', () => {
+    const comparison = compareHistograms(new Float64Array([5, 5]), new Float64Array([5]), 10);
+
+    expect(comparison.buckets.map((bucket) => bucket.label)).to.deep.equal(['[5, 5]']);
+    expect(comparison.psi).to.equal(0);
+    expect(comparison.ks).to.equal(0);
+  });
+
+  it('keeps the most frequent values and folds the rest into other', () => {
+    const comparison = compareFrequencies(
+      new Map([
+        ['Won', 6],
+        ['Lost', 3],
+        ['Open', 1],
+      ]),
+      new Map([
+        ['Won', 6],
+        ['Lost', 1],
+        ['(null)', 3],
+      ]),
+      2
+    );
+
+    expect(comparison.buckets.map((bucket) => [bucket.label, bucket.source, bucket.target])).to.deep.equal([
+      ['Won', 6, 6],
+      ['Lost', 3, 1],
+      ['(other)', 1, 3],
+    ]);
+    expect(comparison.ks).to.equal(undefined);
+    expect(comparison.psi).to.be.greaterThan(0);
+  });
+
+  it('returns no drift statistic when one org has no values', () => {
+    expect(populationStabilityIndex(compareFrequencies(new Map([['A', 1]]), new Map(), 5).buckets)).to.equal(null);
+    expect(kolmogorovSmirnov(new Float64Array([1]), new Float64Array(0))).to.equal(null);
+  });
+});
@@ -0,0 +1,149 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+import type { Org } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+
+import { drillDown, listDrilldownDimensions, toDrilldownToken } from '../../src/services/drilldown.js';
+import type { MetricComparisonRow } from '../../src/services/dataComparisonService.js';
+import type {
+  MetadataDiscoveryService,
+  SimpleDescribeSObjectResult,
+} from '../../src/services/metadataDiscoveryService.js';
+import type { ObjectComparisonContext } from '../../src/services/objectComparison.js';
+
+describe('drilldown', () => {
+  const $$ = new TestContext();
+
+  afterEach(() => {
+    $$.restore();
+  });
+
+  const describeResult: SimpleDescribeSObjectResult = {
+    name: 'Opportunity',
+    fields: [
+      { name: 'RecordTypeId', type: 'reference', relationshipName: 'RecordType', groupable: true },
+      { name: 'StageName', type: 'picklist', groupable: true, filterable: true },
+      { name: 'Amount', type: 'currency', aggregatable: true },
+      { name: 'CreatedDate', type: 'datetime', filterable: true },
+    ],
+  };
+
+  type OrgCounts = { recordType: number[]; stage: number[]; wonRecordType: number[] };
+
+  const buildOrg = (counts: OrgCounts): Org => {
+    const total = counts.stage[0] + counts.stage[1];
+    const query = $$.SANDBOX.stub().callsFake(async (soql: string) => {
+      const won = soql.includes("StageName = 'Won'");
+      if (soql.includes('GROUP BY RecordType.DeveloperName')) {
+        const [partner, direct] = won ? counts.wonRecordType : counts.recordType;
+        return {
+          records: [
+            { ['group__recordtype_developername']: 'Partner', ['count__all']: partner },
+            { ['group__recordtype_developername']: 'Direct', ['count__all']: direct },
+          ],
+        };
+      }
+      if (soql.includes('GROUP BY StageName')) {
+        return {
+          records: [
+            { ['group__stagename']: 'Won', ['count__all']: counts.stage[0] },
+            { ['group__stagename']: 'Lost', ['count__all']: counts.stage[1] },
+          ],
+        };
+      }
+      if (soql.includes('CALENDAR_MONTH')) {
+        return {
+          records: [{ ['period__calendar_year']: 2024, ['period__calendar_month']: 3, ['count__all']: total }],
+        };
+      }
+      return { records: [{ ['period__calendar_year']: 2024, ['count__all']: total }] };
+    });
+
+    return { getConnection: () => ({ query }) } as unknown as Org;
+  };
+
+  const metadata = { describeSObject: async () => describeResult } as unknown as MetadataDiscoveryService;
+
+  it('lists record type, picklist and CreatedDate dimensions shared by both orgs', () => {
+    const target = { ...describeResult, fields: describeResult.fields.filter((field) => field.name !== 'StageName') };
+
+    expect(listDrilldownDimensions(describeResult, target).map((dimension) => dimension.label)).to.deep.equal([
+      'Record Type',
+      'CreatedDate (year)',
+      'CreatedDate (month)',
+    ]);
+  });
+
+  it('only rebuilds tokens for additive metrics', () => {
+    expect(toDrilldownToken({ kind: 'count', valueType: 'number' })).to.equal('count');
+    expect(
+      toDrilldownToken({
+        kind: 'sumIf',
+        field: 'Amount',
+        fieldType: 'currency',
+        condition: "StageName = 'Won'",
+        valueType: 'number',
+      })
+    ).to.equal("sum-if:Amount:(StageName = 'Won')");
+    expect(
+      toDrilldownToken({
+        kind: 'fieldAggregate',
+        fn: 'avg',
+        field: 'Amount',
+        fieldType: 'currency',
+        valueType: 'number',
+      })
+    ).to.equal(undefined);
+  });
+
+  it('follows the dimension that concentrates the difference until the depth is reached', async () => {
+    const context: ObjectComparisonContext = {
+      sourceOrg: buildOrg({ recordType: [5, 5], stage: [6, 4], wonRecordType: [3, 3] }),
+      targetOrg: buildOrg({ recordType: [7, 7], stage: [10, 4], wonRecordType: [7, 3] }),
+      sourceMetadata: metadata,
+      targetMetadata: metadata,
+    };
+    const row: MetricComparisonRow = {
+      metric: { kind: 'count', valueType: 'number' },
+      alias: 'count__all',
+      sourceValue: 10,
+      targetValue: 14,
+      difference: 4,
+      status: 'fail',
+    };
+
+    const [drilldown] = await drillDown(
+      context,
+      {
+        object: 'Opportunity',
+        sampleSize: 0,
+        tolerance: { defaults: {}, perMetric: {} },
+        failOnDifference: false,
+      },
+      [row, { ...row, alias: 'count__passing', status: 'pass' }],
+      2
+    );
+
+    expect(drilldown.difference).to.equal(4);
+    expect(drilldown.path.map((step) => [step.dimension, step.slice, step.condition, step.share])).to.deep.equal([
+      ['StageName', 'Won', "StageName = 'Won'", 1],
+      ['Record Type', 'Partner', "RecordType.DeveloperName = 'Partner'", 1],
+    ]);
+  });
+});
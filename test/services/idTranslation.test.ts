@@ -0,0 +1,216 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+import type { Org } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+
+import { parseIdKeys, resolveIdLookups } from '../../src/services/idTranslation.js';
+import type {
+  MetadataDiscoveryService,
+  SimpleDescribeSObjectResult,
+} from '../../src/services/metadataDiscoveryService.js';
+import { compareObject, type ObjectComparisonRequest } from '../../src/services/objectComparison.js';
+import { parseToleranceConfig } from '../../src/services/toleranceEvaluator.js';
+
+describe('idTranslation', () => {
+  const $$ = new TestContext();
+
+  afterEach(() => {
+    $$.restore();
+  });
+
+  const describeResult: SimpleDescribeSObjectResult = {
+    name: 'Opportunity',
+    fields: [
+      { name: 'OwnerId', type: 'reference', referenceTo: ['Group', 'User'], groupable: true, filterable: true },
+      { name: 'AccountId', type: 'reference', referenceTo: ['Account'], groupable: true, filterable: true },
+      { name: 'RecordTypeId', type: 'reference', referenceTo: ['RecordType'], groupable: true, filterable: true },
+      { name: 'Amount', type: 'currency', aggregatable: true },
+    ],
+  };
+  const metadata = { describeSObject: async () => describeResult } as unknown as MetadataDiscoveryService;
+
+  // Each org has its own user IDs; the usernames are the same.
+  const buildOrg = (
+    users: Record<string, string>,
+    owners: Array<[string, number]>,
+    recordTypes: Array<{ id: string; name: string; object: string }> = []
+  ): { org: Org; queries: string[] } => {
+    const queries: string[] = [];
+    const query = $$.SANDBOX.stub().callsFake(async (soql: string) => {
+      queries.push(soql);
+      if (soql.includes('FROM User')) {
+        return {
+          records: Object.entries(users)
+            .filter(([id, username]) => soql.includes(`'${id}'`) || soql.includes(`'${username}'`))
+            .map(([id, username]) => ({ ['Id']: id, ['Username']: username })),
+        };
+      }
+      if (soql.includes('FROM Group')) {
+        return { records: [] };
+      }
+      if (soql.includes('FROM RecordType')) {
+        return {
+          records: recordTypes
+            .filter(({ id, name }) => soql.includes(`'${id}'`) || soql.includes(`'${name}'`))
+            .filter(({ object }) => !soql.includes('SobjectType') || soql.includes(`SobjectType = '${object}'`))
+            .map(({ id, name }) => ({ ['Id']: id, ['DeveloperName']: name })),
+        };
+      }
+      return { records: owners.map(([owner, count]) => ({ ['group__ownerid']: owner, ['count__all']: count })) };
+    });
+    return { org: { getConnection: () => ({ query }) } as unknown as Org, queries };
+  };
+
+  const request = (overrides: Partial<ObjectComparisonRequest>): ObjectComparisonRequest => ({
+    object: 'Opportunity',
+    metrics: ['count'],
+    groupBy: ['OwnerId'],
+    sampleSize: 0,
+    tolerance: parseToleranceConfig(undefined, undefined),
+    failOnDifference: false,
+    idKeys: parseIdKeys(undefined),
+    ...overrides,
+  });
+
+  it('parses natural keys on top of the defaults', () => {
+    expect(parseIdKeys(['Account=External_Id__c', 'User = FederationIdentifier'])).to.deep.equal({
+      ['User']: 'FederationIdentifier',
+      ['RecordType']: 'DeveloperName',
+      ['Group']: 'DeveloperName',
+      ['Account']: 'External_Id__c',
+    });
+    expect(() => parseIdKeys(['Account'])).to.throw(/Invalid ID key "Account"/);
+  });
+
+  it('resolves polymorphic lookups and requires a key for every referenced object', () => {
+    expect(resolveIdLookups(describeResult, ['OwnerId', 'Amount'], parseIdKeys(undefined))).to.deep.equal([
+      {
+        field: 'OwnerId',
+        targets: [
+          { object: 'Group', key: 'DeveloperName' },
+          { object: 'User', key: 'Username' },
+        ],
+      },
+    ]);
+    expect(() => resolveIdLookups(describeResult, ['AccountId'], parseIdKeys(undefined)))
+      .to.throw('No natural key is known for Account')
+      .with.property('name', 'MissingIdKey');
+  });
+
+  it('joins grouped results on natural keys instead of record IDs', async () => {
+    const source = buildOrg({ ['005S00000000001']: 'alice@acme.com', ['005S00000000002']: 'bob@acme.com' }, [
+      ['005S00000000001', 4],
+      ['005S00000000002', 2],
+    ]);
+    const target = buildOrg({ ['005T00000000001']: 'alice@acme.com', ['005T00000000002']: 'bob@acme.com' }, [
+      ['005T00000000001', 4],
+      ['005T00000000002', 1],
+    ]);
+
+    const section = await compareObject(
+      { sourceOrg: source.org, targetOrg: target.org, sourceMetadata: metadata, targetMetadata: metadata },
+      request({})
+    );
+
+    expect(section.metrics.map((row) => [row.group?.['OwnerId'], row.sourceValue, row.targetValue])).to.deep.equal([
+      ['alice@acme.com', 4, 4],
+      ['bob@acme.com', 2, 1],
+    ]);
+  });
+
+  it('refuses to merge groups for averages when two IDs share a natural key', async () => {
+    const users = { ['005S00000000001']: 'alice', ['005S00000000002']: 'alice' };
+    const source = buildOrg(users, [
+      ['005S00000000001', 4],
+      ['005S00000000002', 2],
+    ]);
+    const target = buildOrg({ ['005T00000000001']: 'alice' }, [['005T00000000001', 6]]);
+
+    let error: Error | undefined;
+    try {
+      await compareObject(
+        { sourceOrg: source.org, targetOrg: target.org, sourceMetadata: metadata, targetMetadata: metadata },
+        request({ metrics: ['count', 'avg:Amount'] })
+      );
+    } catch (caught) {
+      error = caught as Error;
+    }
+
+    expect(error?.name).to.equal('AmbiguousIdKey');
+    expect(error?.message).to.include('OwnerId IDs 005S00000000001 and 005S00000000002 in source org both translate');
+  });
+
+  it('rewrites lookup IDs in the filter to the IDs of the same records in the target org', async () => {
+    const source = buildOrg({ ['005S00000000001']: 'alice@acme.com' }, [['005S00000000001', 4]]);
+    const target = buildOrg({ ['005T00000000001']: 'alice@acme.com' }, [['005T00000000001', 4]]);
+
+    const section = await compareObject(
+      { sourceOrg: source.org, targetOrg: target.org, sourceMetadata: metadata, targetMetadata: metadata },
+      request({ groupBy: undefined, where: "OwnerId = '005S00000000001'" })
+    );
+
+    expect(section.queries.aggregate).to.include("WHERE OwnerId = '005S00000000001'");
+    expect(section.targetQueries?.aggregate).to.include("WHERE OwnerId = '005T00000000001'");
+    expect(target.queries).to.include(section.targetQueries?.aggregate);
+  });
+
+  it('matches record types on the compared object and refuses ambiguous natural keys', async () => {
+    const source = buildOrg({}, [], [{ id: '012S00000000001', name: 'Customer', object: 'Opportunity' }]);
+    const target = buildOrg(
+      {},
+      [],
+      [
+        { id: '012T00000000001', name: 'Customer', object: 'Account' },
+        { id: '012T00000000002', name: 'Customer', object: 'Opportunity' },
+      ]
+    );
+    const filtered = request({ groupBy: undefined, where: "RecordTypeId = '012S00000000001'" });
+    const context = {
+      sourceOrg: source.org,
+      targetOrg: target.org,
+      sourceMetadata: metadata,
+      targetMetadata: metadata,
+    };
+
+    const section = await compareObject(context, filtered);
+
+    expect(section.targetQueries?.aggregate).to.include("WHERE RecordTypeId = '012T00000000002'");
+    expect(target.queries.find((soql) => soql.includes('FROM RecordType'))).to.include(
+      "AND SobjectType = 'Opportunity'"
+    );
+
+    const duplicated = buildOrg(
+      {},
+      [],
+      [
+        { id: '012T00000000002', name: 'Customer', object: 'Opportunity' },
+        { id: '012T00000000003', name: 'Customer', object: 'Opportunity' },
+      ]
+    );
+    let error: Error | undefined;
+    try {
+      await compareObject({ ...context, targetOrg: duplicated.org }, filtered);
+    } catch (caught) {
+      error = caught as Error;
+    }
+
+    expect(error?.name).to.equal('AmbiguousIdKey');
+    expect(error?.message).to.include('012T00000000002 and 012T00000000003 in the target org both have');
+  });
+});
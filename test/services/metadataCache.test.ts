@@ -23,7 +23,7 @@ import { afterEach, beforeEach, describe, it } from 'mocha';
 import { expect } from 'chai';
 
 import { getMetadataCachePath } from '../../src/services/dataPaths.js';
-import { MetadataCache } from '../../src/services/metadataCache.js';
+import { flushCacheAccessTimes, MetadataCache } from '../../src/services/metadataCache.js';
 
 const fileExists = async (path: string): Promise<boolean> => {
   try {
@@ -45,6 +45,7 @@ describe('MetadataCache', () => {
   });
 
   afterEach(async () => {
+    await flushCacheAccessTimes();
     process.env.SF_DATA_HOME = originalDataHome;
     await fs.rm(dataDir, { recursive: true, force: true });
   });
@@ -84,4 +85,58 @@ describe('MetadataCache', () => {
       clock.restore();
     }
   });
+
+  it('evicts the least recently used entries when the cache exceeds its maximum size', async () => {
+    const clock = sinon.useFakeTimers({ now: Date.now() });
+    try {
+      const payload = 'x'.repeat(400);
+      const cache = new MetadataCache(10, 1000);
+      await cache.set('first', 'describe', payload);
+      clock.tick(1000);
+      await cache.set('second', 'describe', payload);
+      clock.tick(1000);
+      await cache.get('first', 'describe');
+      clock.tick(1000);
+      await cache.set('third', 'describe', payload);
+
+      expect((await cache.list()).map((entry) => entry.key)).to.deep.equal(['first', 'third']);
+      expect(await new MetadataCache(10, 1000).get('second', 'describe')).to.equal(undefined);
+    } finally {
+      clock.restore();
+    }
+  });
+
+  it('saves the access times of entries that were only read once flushed', async () => {
+    const clock = sinon.useFakeTimers({ now: Date.now() });
+    try {
+      const payload = 'x'.repeat(400);
+      const writer = new MetadataCache(10, 1000);
+      await writer.set('first', 'describe', payload);
+      clock.tick(1000);
+      await writer.set('second', 'describe', payload);
+      clock.tick(1000);
+
+      // Another run only reads the first entry, then a third run writes a new one.
+      await new MetadataCache(10, 1000).get('first', 'describe');
+      await flushCacheAccessTimes();
+      clock.tick(1000);
+      await new MetadataCache(10, 1000).set('third', 'describe', payload);
+
+      expect((await new MetadataCache(0).list()).map((entry) => entry.key)).to.deep.equal(['first', 'third']);
+    } finally {
+      clock.restore();
+    }
+  });
+
+  it('lists and clears entries regardless of the ttl', async () => {
+    const cache = new MetadataCache(10);
+    await cache.set('org1:60.0:global', 'describeGlobal', { sobjects: [] });
+    await cache.set('org2:60.0:global', 'describeGlobal', { sobjects: [] });
+
+    const manager = new MetadataCache(0);
+    const removed = await manager.clear((entry) => entry.key.startsWith('org1:'));
+
+    expect(removed.map((entry) => entry.key)).to.deep.equal(['org1:60.0:global']);
+    expect((await new MetadataCache(0).list()).map((entry) => entry.key)).to.deep.equal(['org2:60.0:global']);
+  });
 });
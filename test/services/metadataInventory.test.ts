@@ -0,0 +1,100 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+
+import type {
+  MetadataDiscoveryService,
+  SimpleListMetadataResult,
+} from '../../src/services/metadataDiscoveryService.js';
+import { compareMetadataInventory, resolveMetadataTypes } from '../../src/services/metadataInventory.js';
+
+const describeMetadata = {
+  metadataObjects: [
+    { xmlName: 'CustomObject', childXmlNames: ['ValidationRule', 'CustomField'] },
+    { xmlName: 'Flow' },
+    { xmlName: 'ApexTrigger' },
+    { xmlName: 'Report', inFolder: true },
+  ],
+};
+
+const buildService = (components: Record<string, SimpleListMetadataResult[]>): MetadataDiscoveryService =>
+  ({
+    describeMetadata: async () => describeMetadata,
+    listMetadata: async (type: string) => components[type] ?? [],
+  } as unknown as MetadataDiscoveryService);
+
+describe('metadataInventory', () => {
+  it('resolves requested types, including child types, and rejects unknown and foldered types', () => {
+    expect(resolveMetadataTypes(undefined, describeMetadata, {})).to.deep.equal([
+      'CustomObject',
+      'Flow',
+      'ValidationRule',
+      'ApexTrigger',
+    ]);
+    expect(resolveMetadataTypes(['flow,validationrule', 'Flow'], {}, describeMetadata)).to.deep.equal([
+      'Flow',
+      'ValidationRule',
+    ]);
+    expect(() => resolveMetadataTypes(['Widget'], describeMetadata, describeMetadata)).to.throw(
+      'Metadata type "Widget" is not available in either org.'
+    );
+    expect(() => resolveMetadataTypes(['Report'], describeMetadata, describeMetadata)).to.throw('stored in folders');
+  });
+
+  it('reports components missing in either org and components modified at different times', async () => {
+    const source = buildService({
+      Flow: [
+        { fullName: 'Close_Case', type: 'Flow', lastModifiedDate: '2025-01-01T00:00:00.000Z' },
+        { fullName: 'Route_Lead', type: 'Flow', lastModifiedDate: '2025-02-01T00:00:00.000Z' },
+        { fullName: 'Score_Lead', type: 'Flow', lastModifiedDate: '2025-03-01T00:00:00.000Z' },
+      ],
+    });
+    const target = buildService({
+      Flow: [
+        { fullName: 'Close_Case', type: 'Flow', lastModifiedDate: '2025-01-01T00:00:00.000Z' },
+        {
+          fullName: 'Route_Lead',
+          type: 'Flow',
+          lastModifiedDate: '2025-04-01T00:00:00.000Z',
+          lastModifiedByName: 'Admin User',
+        },
+        { fullName: 'Archive_Lead', type: 'Flow', lastModifiedDate: '2025-05-01T00:00:00.000Z' },
+      ],
+    });
+
+    const result = await compareMetadataInventory(source, target, ['Flow']);
+
+    expect(result.types).to.deep.equal([
+      {
+        type: 'Flow',
+        sourceComponents: 3,
+        targetComponents: 3,
+        missingInTarget: 1,
+        missingInSource: 1,
+        modified: 1,
+        unchanged: 1,
+      },
+    ]);
+    expect(result.differences.map((difference) => [difference.fullName, difference.status])).to.deep.equal([
+      ['Archive_Lead', 'missing-in-source'],
+      ['Route_Lead', 'modified'],
+      ['Score_Lead', 'missing-in-target'],
+    ]);
+    expect(result.differences[1].targetLastModifiedBy).to.equal('Admin User');
+  });
+});
@@ -0,0 +1,74 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+
+import {
+  evaluateExpression,
+  formatExpression,
+  parseMetricExpression,
+  type MetricExpression,
+} from '../../src/services/metricExpression.js';
+
+const parse = (source: string): MetricExpression<string> => parseMetricExpression(source, (token) => token);
+
+describe('metricExpression', () => {
+  it('parses operators with standard precedence', () => {
+    const expression = parse('(sum:Amount - sum:Discount__c) / count + 2 * avg:Amount');
+
+    expect(formatExpression(expression, (token) => token)).to.equal(
+      '(sum:Amount - sum:Discount__c) / count + 2 * avg:Amount'
+    );
+    expect(formatExpression(parse('count - (sum:A - sum:B)'), (token) => token)).to.equal('count - (sum:A - sum:B)');
+    expect(formatExpression(parse('(count * 2) / 4'), (token) => token)).to.equal('count * 2 / 4');
+  });
+
+  it('reads parenthesized conditions as a single operand', () => {
+    const tokens: string[] = [];
+    parseMetricExpression(
+      "count-if:(IsWon = true AND Type IN ('New', 'Renewal (Q)')) / sum-if:Amount:(IsWon = true)",
+      (token) => {
+        tokens.push(token);
+        return token;
+      }
+    );
+
+    expect(tokens).to.deep.equal([
+      "count-if:IsWon = true AND Type IN ('New', 'Renewal (Q)')",
+      'sum-if:Amount:IsWon = true',
+    ]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parse('count +')).to.throw('expected a metric');
+    expect(() => parse('(count')).to.throw('expected ")"');
+    expect(() => parse('count-if:(IsWon = true')).to.throw('unbalanced parentheses');
+    expect(() => parse('count count')).to.throw('unexpected "c"');
+    expect(() => parse('ratio:sum:A/sum:B')).to.throw('cannot be nested');
+  });
+
+  it('evaluates to null on missing values and division by zero', () => {
+    const values: Record<string, number | null> = { a: 10, b: 4, zero: 0, missing: null };
+    const evaluate = (source: string): number | null =>
+      evaluateExpression(parse(source), (token) => values[token] ?? null);
+
+    expect(evaluate('(a - b) / 2')).to.equal(3);
+    expect(evaluate('-a + b')).to.equal(-6);
+    expect(evaluate('a / zero')).to.equal(null);
+    expect(evaluate('a + missing')).to.equal(null);
+  });
+});
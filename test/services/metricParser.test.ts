@@ -17,7 +17,13 @@
 import { describe, it } from 'mocha';
 import { expect } from 'chai';
 
-import { parseMetricTokens, validateMetricsAgainstDescribe } from '../../src/services/metricParser.js';
+import {
+  formatMetricLabel,
+  parseGroupByTokens,
+  parseMetricTokens,
+  validateGroupByAgainstDescribe,
+  validateMetricsAgainstDescribe,
+} from '../../src/services/metricParser.js';
 
 type DescribeResult = {
   name: string;
@@ -26,6 +32,7 @@ type DescribeResult = {
     label?: string;
     type: string;
     aggregatable?: boolean;
+    groupable?: boolean;
   }>;
 };
 
@@ -41,6 +48,7 @@ const describeMock: DescribeResult = {
       name: 'AnnualRevenue',
       type: 'currency',
       aggregatable: true,
+      groupable: false,
       label: 'Annual Revenue',
     },
     {
@@ -99,4 +107,86 @@ describe('metricParser', () => {
     const parsed = parseMetricTokens(['avg:LastActivityDate']);
     expect(() => validateMetricsAgainstDescribe(parsed, describeMock, 'source')).to.throw(/must be numeric/);
   });
+
+  it('resolves expression metrics over other metrics', () => {
+    const parsed = parseMetricTokens(['expr:(sum:AnnualRevenue - min:AnnualRevenue) / count-if:(OwnerId != null)']);
+    const [resolved] = validateMetricsAgainstDescribe(parsed, describeMock, 'source org');
+
+    expect(resolved.kind).to.equal('expression');
+    expect(formatMetricLabel(resolved)).to.equal(
+      '(SUM(AnnualRevenue) - MIN(AnnualRevenue)) / COUNT_IF(OwnerId != null)'
+    );
+  });
+
+  it('rejects non-numeric operands in expression metrics', () => {
+    const parsed = parseMetricTokens(['expr:max:LastActivityDate - count']);
+    expect(() => validateMetricsAgainstDescribe(parsed, describeMock, 'source org')).to.throw(
+      'MAX(LastActivityDate) in source org is not numeric'
+    );
+  });
+
+  it('rejects streamed statistics and distributions as expression operands', () => {
+    for (const token of [
+      'expr:histogram:Amount / count',
+      'expr:frequency:StageName',
+      'expr:p90:Amount - 1',
+      'expr:median:Amount * 2',
+    ]) {
+      expect(() => parseMetricTokens([token]))
+        .to.throw('cannot be used in an expression metric')
+        .with.property('name', 'InvalidMetric');
+    }
+  });
+
+  it('keeps IN lists intact and applies display labels', () => {
+    const parsed = parseMetricTokens([
+      'count-if:(OwnerId IN (\'005A\', \'005B\')) as "Assigned", sum:AnnualRevenue AS "Revenue"',
+    ]);
+
+    expect(parsed).to.deep.equal([
+      { kind: 'countIf', condition: "OwnerId IN ('005A', '005B')", displayLabel: 'Assigned' },
+      { kind: 'fieldAggregate', aggregate: { fn: 'sum', field: 'AnnualRevenue' }, displayLabel: 'Revenue' },
+    ]);
+
+    const resolved = validateMetricsAgainstDescribe(parsed, describeMock, 'source org');
+    expect(resolved.map(formatMetricLabel)).to.deep.equal(['Assigned', 'Revenue']);
+  });
+
+  it('parses percentile, histogram and frequency metrics', () => {
+    const parsed = parseMetricTokens(['p90:AnnualRevenue, histogram:AnnualRevenue:buckets=20, frequency:OwnerId']);
+
+    expect(parsed).to.deep.equal([
+      { kind: 'percentile', field: 'AnnualRevenue', percentile: 90 },
+      { kind: 'histogram', field: 'AnnualRevenue', buckets: 20 },
+      { kind: 'frequency', field: 'OwnerId', top: 10 },
+    ]);
+    expect(validateMetricsAgainstDescribe(parsed, describeMock, 'source org').map(formatMetricLabel)).to.deep.equal([
+      'P90(AnnualRevenue)',
+      'HISTOGRAM(AnnualRevenue, 20)',
+      'FREQUENCY(OwnerId, 10)',
+    ]);
+  });
+
+  it('rejects invalid distribution options', () => {
+    expect(() => parseMetricTokens(['histogram:AnnualRevenue:buckets=1'])).to.throw('between 2 and 100');
+    expect(() => parseMetricTokens(['frequency:OwnerId:buckets=5'])).to.throw('accepts only the top=<n> option');
+    expect(() =>
+      validateMetricsAgainstDescribe(parseMetricTokens(['histogram:OwnerId']), describeMock, 'source org')
+    ).to.throw('must be numeric for HISTOGRAM metric');
+  });
+
+  it('resolves group by fields to their describe names', () => {
+    const fields = parseGroupByTokens(['ownerid,lastactivitydate', 'OwnerId']);
+    expect(fields).to.deep.equal(['ownerid', 'lastactivitydate', 'OwnerId']);
+    expect(validateGroupByAgainstDescribe(fields, describeMock, 'source')).to.deep.equal([
+      'OwnerId',
+      'LastActivityDate',
+    ]);
+  });
+
+  it('throws when a group by field is not groupable', () => {
+    expect(() => validateGroupByAgainstDescribe(['AnnualRevenue'], describeMock, 'source')).to.throw(
+      /cannot be used in GROUP BY/
+    );
+  });
 });
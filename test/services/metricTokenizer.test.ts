@@ -0,0 +1,52 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+
+import { splitMetricLabel, splitMetricList, unwrapCondition } from '../../src/services/metricTokenizer.js';
+
+describe('metricTokenizer', () => {
+  it('splits on commas outside quotes and parentheses', () => {
+    expect(
+      splitMetricList("count, count-if:StageName IN ('Closed Won','Closed Lost'), sum-if:Amount:\"Type = 'A, B'\"")
+    ).to.deep.equal(['count', "count-if:StageName IN ('Closed Won','Closed Lost')", 'sum-if:Amount:"Type = \'A, B\'"']);
+    expect(splitMetricList("count-if:Name = 'O\\'Brien, Inc', count")).to.deep.equal([
+      "count-if:Name = 'O\\'Brien, Inc'",
+      'count',
+    ]);
+  });
+
+  it('separates a trailing label', () => {
+    expect(splitMetricLabel('sum:Amount as "Pipeline"')).to.deep.equal({ body: 'sum:Amount', label: 'Pipeline' });
+    expect(splitMetricLabel('count AS "The \\"Total\\""')).to.deep.equal({ body: 'count', label: 'The "Total"' });
+    expect(splitMetricLabel('count-if:(Name = \'Sold as "Used"\')')).to.deep.equal({
+      body: 'count-if:(Name = \'Sold as "Used"\')',
+    });
+    expect(() => splitMetricLabel('count as ""')).to.throw('labels must not be empty');
+  });
+
+  it('unwraps quoted and fully parenthesized conditions', () => {
+    expect(unwrapCondition('"IsWon = true"')).to.equal('IsWon = true');
+    expect(unwrapCondition("((StageName IN ('A','B')))")).to.equal("StageName IN ('A','B')");
+    expect(unwrapCondition('(IsWon = true) OR (IsClosed = false)')).to.equal('(IsWon = true) OR (IsClosed = false)');
+  });
+
+  it('rejects unbalanced input', () => {
+    expect(() => splitMetricList("count-if:Name = 'open")).to.throw('unterminated single quote');
+    expect(() => splitMetricList('count-if:(IsWon = true')).to.throw('unbalanced parentheses');
+  });
+});
@@ -0,0 +1,154 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+import { SfError, type Org } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+
+import type {
+  MetadataDiscoveryService,
+  SimpleDescribeSObjectResult,
+} from '../../src/services/metadataDiscoveryService.js';
+import {
+  buildNamespaceMapping,
+  findNamespacedName,
+  parseNamespaceOptions,
+} from '../../src/services/namespaceResolution.js';
+import { compareObject } from '../../src/services/objectComparison.js';
+import { parseToleranceConfig } from '../../src/services/toleranceEvaluator.js';
+
+describe('namespaceResolution', () => {
+  const $$ = new TestContext();
+
+  afterEach(() => {
+    $$.restore();
+  });
+
+  const packagingDescribe: SimpleDescribeSObjectResult = {
+    name: 'Invoice__c',
+    fields: [
+      { name: 'Amount__c', type: 'currency', aggregatable: true, filterable: true },
+      { name: 'Status__c', type: 'picklist', groupable: true, filterable: true },
+    ],
+  };
+  const subscriberDescribe: SimpleDescribeSObjectResult = {
+    name: 'acme__Invoice__c',
+    fields: [
+      { name: 'acme__Amount__c', type: 'currency', aggregatable: true, filterable: true },
+      { name: 'acme__Status__c', type: 'picklist', groupable: true, filterable: true },
+      { name: 'Notes__c', type: 'textarea' },
+    ],
+  };
+
+  const metadataFor = (
+    describes: SimpleDescribeSObjectResult[]
+  ): { metadata: MetadataDiscoveryService; described: string[] } => {
+    const described: string[] = [];
+    const metadata = {
+      describeGlobal: async () => ({ sobjects: describes.map((describeResult) => ({ name: describeResult.name })) }),
+      describeSObject: async (name: string) => {
+        described.push(name);
+        const found = describes.find((describeResult) => describeResult.name.toLowerCase() === name.toLowerCase());
+        if (!found) {
+          throw new SfError(`The requested resource does not exist: ${name}`, 'NOT_FOUND');
+        }
+        return found;
+      },
+    } as unknown as MetadataDiscoveryService;
+    return { metadata, described };
+  };
+
+  const buildOrg = (amount: number): { org: Org; queries: string[] } => {
+    const queries: string[] = [];
+    const query = $$.SANDBOX.stub().callsFake(async (soql: string) => {
+      queries.push(soql);
+      const aliases = soql
+        .slice('SELECT '.length, soql.indexOf(' FROM '))
+        .split(', ')
+        .map((column) => column.split(' ').pop() ?? '');
+      return { records: [Object.fromEntries(aliases.map((alias, index) => [alias, index === 0 ? 3 : amount]))] };
+    });
+    return { org: { getConnection: () => ({ query }) } as unknown as Org, queries };
+  };
+
+  it('parses shared and per-org namespace options', () => {
+    const namespaces = parseNamespaceOptions(['acme', 'dev=acme_dev'], ['dev', 'prod']);
+
+    expect(Object.fromEntries(namespaces)).to.deep.equal({ dev: 'acme_dev', prod: 'acme' });
+    expect(parseNamespaceOptions(undefined, ['dev']).size).to.equal(0);
+    expect(() => parseNamespaceOptions(['acme__x'], ['dev'])).to.throw(/Invalid namespace/);
+    expect(() => parseNamespaceOptions(['uat=acme'], ['dev', 'prod']))
+      .to.throw('names an org that is not compared')
+      .with.property('name', 'InvalidNamespace');
+    expect(() => parseNamespaceOptions(['acme', 'beta'], ['dev', 'prod']))
+      .to.throw('repeats the prefix shared by all orgs')
+      .with.property('name', 'InvalidNamespace');
+  });
+
+  it('finds namespaced names only when the match is unambiguous', () => {
+    const names = ['acme__Amount__c', 'beta__Amount__c', 'acme__Status__c', 'Name'];
+
+    expect(findNamespacedName('name', names)).to.equal('Name');
+    expect(findNamespacedName('Status__c', names)).to.equal('acme__Status__c');
+    expect(findNamespacedName('Amount__c', names)).to.equal(undefined);
+    expect(findNamespacedName('Amount__c', names, 'beta')).to.equal('beta__Amount__c');
+    expect(buildNamespaceMapping(subscriberDescribe).fields).to.deep.equal({
+      ['Amount__c']: 'acme__Amount__c',
+      ['Status__c']: 'acme__Status__c',
+    });
+  });
+
+  it('compares unprefixed names against the namespaced names of a subscriber org', async () => {
+    const source = buildOrg(500);
+    const target = buildOrg(450);
+    const targetMetadata = metadataFor([subscriberDescribe]);
+
+    const section = await compareObject(
+      {
+        sourceOrg: source.org,
+        targetOrg: target.org,
+        sourceMetadata: metadataFor([packagingDescribe]).metadata,
+        targetMetadata: targetMetadata.metadata,
+      },
+      {
+        object: 'Invoice__c',
+        metrics: ['count', 'sum:Amount__c'],
+        where: "Status__c = 'Posted'",
+        sampleSize: 0,
+        tolerance: parseToleranceConfig(undefined, undefined),
+        failOnDifference: false,
+      }
+    );
+
+    expect(targetMetadata.described).to.deep.equal(['Invoice__c', 'acme__Invoice__c']);
+    expect(source.queries[0]).to.include('FROM Invoice__c').and.include('SUM(Amount__c)');
+    expect(target.queries[0])
+      .to.include('FROM acme__Invoice__c')
+      .and.include('SUM(acme__Amount__c)')
+      .and.include("acme__Status__c = 'Posted'");
+    expect(section.metrics.find((row) => row.metric.kind !== 'count')).to.include({
+      sourceValue: 500,
+      targetValue: 450,
+      targetLabel: 'SUM(acme__Amount__c)',
+    });
+    expect(section.namespaces).to.deep.equal([
+      { org: 'target org', name: 'Invoice__c', resolvedName: 'acme__Invoice__c' },
+      { org: 'target org', name: 'Amount__c', resolvedName: 'acme__Amount__c' },
+      { org: 'target org', name: 'Status__c', resolvedName: 'acme__Status__c' },
+    ]);
+  });
+});
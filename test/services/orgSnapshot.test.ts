@@ -0,0 +1,191 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+import type { Org } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+
+import {
+  applySnapshotPlan,
+  captureSnapshot,
+  compareWithSnapshot,
+  loadSnapshot,
+  resolveSnapshotPath,
+  saveSnapshot,
+  serializeSnapshot,
+} from '../../src/services/orgSnapshot.js';
+import { getSnapshotDir } from '../../src/services/dataPaths.js';
+import type {
+  MetadataDiscoveryService,
+  SimpleDescribeSObjectResult,
+} from '../../src/services/metadataDiscoveryService.js';
+import type { ObjectComparisonRequest } from '../../src/services/objectComparison.js';
+import { parseToleranceConfig } from '../../src/services/toleranceEvaluator.js';
+
+describe('orgSnapshot', () => {
+  const $$ = new TestContext();
+  let originalDataHome: string | undefined;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    originalDataHome = process.env.SF_DATA_HOME;
+    dataDir = await fs.mkdtemp(join(tmpdir(), 'sfdata-'));
+    process.env.SF_DATA_HOME = dataDir;
+  });
+
+  afterEach(async () => {
+    $$.restore();
+    process.env.SF_DATA_HOME = originalDataHome;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const describeResult: SimpleDescribeSObjectResult = {
+    name: 'Opportunity',
+    fields: [
+      { name: 'StageName', type: 'picklist', groupable: true, filterable: true },
+      { name: 'Amount', type: 'currency', aggregatable: true },
+    ],
+  };
+  const metadata = { describeSObject: async () => describeResult } as unknown as MetadataDiscoveryService;
+  const orgMetadata = { aliasOrUsername: 'prod', orgId: '00D000000000001', apiVersion: '61.0' };
+
+  const buildOrg = (stages: Array<[string, number]>): Org => {
+    const query = $$.SANDBOX.stub().callsFake(async (soql: string) => ({
+      records: soql.includes('GROUP BY')
+        ? stages.map(([stage, count]) => ({ ['group__stagename']: stage, ['count__all']: count }))
+        : [{ ['count__all']: stages.reduce((total, [, count]) => total + count, 0) }],
+    }));
+    return { getConnection: () => ({ query }) } as unknown as Org;
+  };
+
+  const request = (overrides: Partial<ObjectComparisonRequest> = {}): ObjectComparisonRequest => ({
+    object: 'Opportunity',
+    sampleSize: 0,
+    tolerance: parseToleranceConfig(undefined, undefined),
+    failOnDifference: false,
+    ...overrides,
+  });
+
+  it('resolves snapshot names in the plugin data directory and keeps file paths as given', () => {
+    expect(resolveSnapshotPath('prod-Opportunity')).to.equal(join(getSnapshotDir(), 'prod-Opportunity.json'));
+    expect(resolveSnapshotPath(join(dataDir, 'baseline.json'))).to.equal(join(dataDir, 'baseline.json'));
+  });
+
+  it('saves the same file for the same data regardless of group order', async () => {
+    const first = await captureSnapshot(
+      {
+        org: buildOrg([
+          ['Won', 3],
+          ['Lost', 2],
+        ]),
+        metadata,
+      },
+      orgMetadata,
+      request({
+        metrics: ['count'],
+        groupBy: ['StageName'],
+      })
+    );
+    const second = await captureSnapshot(
+      {
+        org: buildOrg([
+          ['Lost', 2],
+          ['Won', 3],
+        ]),
+        metadata,
+      },
+      orgMetadata,
+      request({
+        metrics: ['count'],
+        groupBy: ['StageName'],
+      })
+    );
+
+    expect(serializeSnapshot(first.snapshot)).to.equal(serializeSnapshot(second.snapshot));
+    expect(first.snapshot.plan).to.deep.include({ metrics: ['count'], groupBy: ['StageName'] });
+
+    const path = await saveSnapshot(first.snapshot, 'prod-Opportunity');
+    const loaded = await loadSnapshot('prod-Opportunity');
+    expect(loaded.path).to.equal(path);
+    expect(await fs.readFile(path, 'utf8')).to.equal(serializeSnapshot(first.snapshot));
+    expect(loaded.snapshot.groups).to.have.length(2);
+  });
+
+  it('rejects metrics that cannot be saved', async () => {
+    try {
+      await captureSnapshot({ org: buildOrg([]), metadata }, orgMetadata, request({ metrics: ['histogram:Amount'] }));
+      expect.fail('Expected UnsupportedSnapshotMetric');
+    } catch (error) {
+      expect((error as Error).name).to.equal('UnsupportedSnapshotMetric');
+    }
+  });
+
+  it('compares a live org against a snapshot using the saved plan', async () => {
+    const { snapshot } = await captureSnapshot(
+      {
+        org: buildOrg([
+          ['Won', 3],
+          ['Lost', 2],
+        ]),
+        metadata,
+      },
+      orgMetadata,
+      request({ metrics: ['count'], groupBy: ['StageName'] })
+    );
+
+    const section = await compareWithSnapshot(
+      {
+        org: buildOrg([
+          ['Won', 5],
+          ['Lost', 2],
+        ]),
+        metadata,
+      },
+      snapshot,
+      applySnapshotPlan(request(), snapshot)
+    );
+
+    const won = section.metrics.find((row) => row.group?.StageName === 'Won');
+    expect(won).to.include({ sourceValue: 3, targetValue: 5, difference: 2, status: 'fail' });
+    expect(section.filters.groupBy).to.deep.equal(['StageName']);
+  });
+
+  it('refuses to compare when the target queries differ from the snapshot', async () => {
+    const { snapshot } = await captureSnapshot(
+      { org: buildOrg([['Won', 3]]), metadata },
+      orgMetadata,
+      request({
+        metrics: ['count'],
+      })
+    );
+
+    try {
+      await compareWithSnapshot(
+        { org: buildOrg([['Won', 3]]), metadata },
+        snapshot,
+        applySnapshotPlan(request({ where: "StageName = 'Won'" }), snapshot)
+      );
+      expect.fail('Expected SnapshotPlanMismatch');
+    } catch (error) {
+      expect((error as Error).name).to.equal('SnapshotPlanMismatch');
+    }
+    expect(() => applySnapshotPlan(request({ object: 'Account' }), snapshot)).to.throw(/saved for Opportunity/);
+  });
+});
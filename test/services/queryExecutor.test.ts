@@ -0,0 +1,113 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import type { Connection } from '@salesforce/core';
+
+import { executeQuery, getRetryableReason, type QueryExecution } from '../../src/services/queryExecutor.js';
+
+type QueryConnection = Pick<Connection, 'query'>;
+
+const buildExecution = (overrides: Partial<QueryExecution['policy']> = {}): QueryExecution => ({
+  policy: { timeoutMs: 1000, maxRetries: 2, retryDelayMs: 0, ...overrides },
+  orgLabel: 'source org',
+  retries: [],
+});
+
+const salesforceError = (errorCode: string): Error =>
+  Object.assign(new Error(errorCode), { name: errorCode, errorCode });
+
+describe('queryExecutor', () => {
+  it('retries retryable errors and records each retry', async () => {
+    const query = sinon.stub();
+    query.onCall(0).rejects(salesforceError('QUERY_TIMEOUT'));
+    query.onCall(1).rejects(Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }));
+    query.onCall(2).resolves({ records: [{ total: 5 }], totalSize: 1, done: true });
+    const execution = buildExecution({ retryDelayMs: 1 });
+
+    const result = await executeQuery(
+      { query } as unknown as QueryConnection,
+      'SELECT COUNT(Id) total FROM Account',
+      execution
+    );
+
+    expect(result.records).to.deep.equal([{ total: 5 }]);
+    expect(query.callCount).to.equal(3);
+    expect(execution.retries).to.deep.equal([
+      {
+        org: 'source org',
+        query: 'SELECT COUNT(Id) total FROM Account',
+        attempt: 1,
+        reason: 'QUERY_TIMEOUT',
+        delayMs: 1,
+      },
+      { org: 'source org', query: 'SELECT COUNT(Id) total FROM Account', attempt: 2, reason: 'ECONNRESET', delayMs: 2 },
+    ]);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const query = sinon.stub().rejects(salesforceError('REQUEST_LIMIT_EXCEEDED'));
+    const execution = buildExecution({ maxRetries: 1 });
+
+    try {
+      await executeQuery({ query } as unknown as QueryConnection, 'SELECT Id FROM Account', execution);
+      expect.fail('Expected the query to fail');
+    } catch (error) {
+      expect((error as Error).name).to.equal('REQUEST_LIMIT_EXCEEDED');
+    }
+
+    expect(query.callCount).to.equal(2);
+    expect(execution.retries).to.have.length(1);
+  });
+
+  it('does not retry non-retryable errors', async () => {
+    const query = sinon.stub().rejects(salesforceError('MALFORMED_QUERY'));
+    const execution = buildExecution();
+
+    try {
+      await executeQuery({ query } as unknown as QueryConnection, 'SELECT FROM', execution);
+      expect.fail('Expected the query to fail');
+    } catch (error) {
+      expect((error as Error).name).to.equal('MALFORMED_QUERY');
+    }
+
+    expect(query.callCount).to.equal(1);
+    expect(execution.retries).to.be.empty;
+  });
+
+  it('fails queries that exceed the timeout without starting another copy', async () => {
+    const query = sinon.stub().returns(new Promise(() => {}));
+    const execution = buildExecution({ timeoutMs: 5 });
+
+    try {
+      await executeQuery({ query } as unknown as QueryConnection, 'SELECT Id FROM Account', execution);
+      expect.fail('Expected the query to time out');
+    } catch (error) {
+      expect((error as Error).name).to.equal('QueryTimeout');
+    }
+
+    expect(query.callCount).to.equal(1);
+    expect(execution.retries).to.be.empty;
+  });
+
+  it('recognizes retryable error codes', () => {
+    expect(getRetryableReason(salesforceError('QUERY_TIMEOUT'))).to.equal('QUERY_TIMEOUT');
+    expect(getRetryableReason(new Error('socket hang up'))).to.equal('socket hang up');
+    expect(getRetryableReason(salesforceError('INVALID_FIELD'))).to.be.undefined;
+  });
+});
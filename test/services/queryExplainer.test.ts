@@ -0,0 +1,90 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+
+import type { Org } from '@salesforce/core';
+import sinon from 'sinon';
+
+import type { QueryRetry } from '../../src/services/queryExecutor.js';
+import { explainQueries, summarizeExplainResponse } from '../../src/services/queryExplainer.js';
+
+const plan = (relativeCost: number, leadingOperationType: string) => ({
+  cardinality: 120,
+  fields: leadingOperationType === 'Index' ? ['CreatedDate'] : [],
+  leadingOperationType,
+  notes: [] as Array<{ description: string; fields: string[]; tableEnumOrId: string }>,
+  relativeCost,
+  sobjectCardinality: 250_000,
+  sobjectType: 'Opportunity',
+});
+
+describe('queryExplainer', () => {
+  it('summarizes the cheapest plan as selective', () => {
+    const summary = summarizeExplainResponse({ plans: [plan(0.4, 'Index'), plan(2.1, 'TableScan')] });
+
+    expect(summary.plan).to.deep.equal({
+      leadingOperation: 'Index',
+      relativeCost: 0.4,
+      cardinality: 120,
+      sobjectCardinality: 250_000,
+      selective: true,
+    });
+    expect(summary.warnings).to.be.empty;
+  });
+
+  it('warns about non-selective plans and optimizer notes', () => {
+    const tableScan = plan(2.1, 'TableScan');
+    tableScan.notes.push({
+      description: 'Not considering filter for optimization because unindexed',
+      fields: ['StageName'],
+      tableEnumOrId: 'Opportunity',
+    });
+
+    const summary = summarizeExplainResponse({ plans: [tableScan] });
+
+    expect(summary.plan?.selective).to.equal(false);
+    expect(summary.warnings).to.deep.equal([
+      'Not selective: relative cost 2.1 with leading operation TableScan over 250000 Opportunity record(s).',
+      'Not considering filter for optimization because unindexed (StageName)',
+    ]);
+  });
+
+  it('explains queries under the timeout and retry policy', async () => {
+    const request = sinon.stub();
+    request.onFirstCall().rejects(Object.assign(new Error('busy'), { errorCode: 'REQUEST_LIMIT_EXCEEDED' }));
+    request.onSecondCall().resolves({ plans: [plan(0.4, 'Index')] });
+    const org = { getConnection: () => ({ request }) } as unknown as Org;
+    const retries: QueryRetry[] = [];
+
+    const [explanation] = await explainQueries(
+      org,
+      { policy: { timeoutMs: 1000, maxRetries: 1, retryDelayMs: 0 }, orgLabel: 'source org', retries },
+      [{ label: 'Aggregate', query: 'SELECT COUNT() FROM Opportunity' }]
+    );
+
+    expect(explanation.plan?.selective).to.equal(true);
+    expect(request.secondCall.args[0]).to.equal('/query/?explain=SELECT%20COUNT()%20FROM%20Opportunity');
+    expect(retries.map((retry) => retry.reason)).to.deep.equal(['REQUEST_LIMIT_EXCEEDED']);
+  });
+
+  it('reports a missing plan', () => {
+    expect(summarizeExplainResponse({ plans: [] }).warnings).to.deep.equal([
+      'The query plan endpoint returned no plans.',
+    ]);
+  });
+});
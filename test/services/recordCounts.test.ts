@@ -0,0 +1,97 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+import sinon from 'sinon';
+import type { Org } from '@salesforce/core';
+
+import type { MetadataDiscoveryService } from '../../src/services/metadataDiscoveryService.js';
+import { compareRecordCounts, compileObjectPattern, selectObjects } from '../../src/services/recordCounts.js';
+
+const buildOrg = (
+  names: string[],
+  estimates: Record<string, number>,
+  exact: Record<string, number>
+): { label: string; org: Org; metadata: MetadataDiscoveryService } => {
+  const request = sinon.stub().callsFake(async (url: string) => {
+    const requested = decodeURIComponent(url.split('sObjects=')[1]).split(',');
+    return {
+      sObjects: requested.filter((name) => name in estimates).map((name) => ({ name, count: estimates[name] })),
+    };
+  });
+  const query = sinon.stub().callsFake(async (soql: string) => {
+    const object = soql.replace('SELECT COUNT() FROM ', '');
+    if (!(object in exact)) {
+      throw Object.assign(new Error('Implementation restriction'), { errorCode: 'MALFORMED_QUERY' });
+    }
+    return { records: [], totalSize: exact[object], done: true };
+  });
+
+  return {
+    label: 'org',
+    org: { getConnection: () => ({ request, query }) } as unknown as Org,
+    metadata: {
+      describeGlobal: async () => ({ sobjects: names.map((name) => ({ name, queryable: name !== 'Vote' })) }),
+    } as unknown as MetadataDiscoveryService,
+  };
+};
+
+describe('recordCounts', () => {
+  it('selects queryable objects matching the include patterns and no exclude pattern', () => {
+    const global = {
+      sobjects: [
+        { name: 'Account' },
+        { name: 'Invoice__c' },
+        { name: 'Invoice__Share' },
+        { name: 'Vote', queryable: false },
+      ],
+    };
+
+    expect(selectObjects(global)).to.deep.equal(['Account', 'Invoice__c', 'Invoice__Share']);
+    expect(selectObjects(global, ['invoice*'], ['*__share'])).to.deep.equal(['Invoice__c']);
+    expect(() => compileObjectPattern('Account; DROP')).to.throw('Invalid object pattern');
+  });
+
+  it('recounts differing objects exactly and ranks the remaining differences', async () => {
+    const source = buildOrg(
+      ['Account', 'Contact', 'Case', 'Legacy__c', 'FeedItem'],
+      { Account: 100, Contact: 50, Case: 10, ['Legacy__c']: 5, FeedItem: 3 },
+      { Account: 102, Contact: 48, Case: 10 }
+    );
+    const target = buildOrg(
+      ['Account', 'Contact', 'Case', 'FeedItem', 'New__c'],
+      { Account: 90, Contact: 50, Case: 12, FeedItem: 9, ['New__c']: 1 },
+      { Account: 92, Contact: 48, Case: 10 }
+    );
+
+    const result = await compareRecordCounts(source, target, { exact: true });
+
+    expect(result.summary).to.deep.equal({
+      compared: 6,
+      matching: 2,
+      different: 2,
+      missingInTarget: 1,
+      missingInSource: 1,
+    });
+    expect(result.rows.map((row) => [row.object, row.difference, row.status, row.exact])).to.deep.equal([
+      ['Account', -10, 'different', true],
+      ['FeedItem', 6, 'different', false],
+      ['Legacy__c', -5, 'missing-in-target', false],
+      ['New__c', 1, 'missing-in-source', false],
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+
+import {
+  buildRecordQuery,
+  diffRecords,
+  resolveComparisonFields,
+  resolveKeyField,
+} from '../../src/services/recordDiffService.js';
+import type { SimpleDescribeSObjectResult } from '../../src/services/metadataDiscoveryService.js';
+
+const describeResult: SimpleDescribeSObjectResult = {
+  name: 'Account',
+  fields: [
+    { name: 'Id', type: 'id' },
+    { name: 'Name', type: 'string' },
+    { name: 'AnnualRevenue', type: 'currency' },
+    { name: 'BillingAddress', type: 'address' },
+    { name: 'LastModifiedDate', type: 'datetime' },
+    { name: 'Legacy_Id__c', type: 'string', externalId: true },
+    { name: 'Site', type: 'string' },
+  ],
+};
+
+describe('recordDiffService', () => {
+  it('classifies missing, extra and changed records with per-field mismatch counts', () => {
+    const source = [
+      { Id: '001A', ['Legacy_Id__c']: 'L-1', Name: 'Acme', AnnualRevenue: 100 },
+      { Id: '001B', ['Legacy_Id__c']: 'L-2', Name: 'Globex', AnnualRevenue: 200 },
+      { Id: '001C', ['Legacy_Id__c']: 'L-3', Name: 'Initech', AnnualRevenue: null },
+      { Id: '001D', ['Legacy_Id__c']: null, Name: 'No key', AnnualRevenue: 1 },
+    ];
+    const target = [
+      { Id: '001X', ['Legacy_Id__c']: 'L-1', Name: 'Acme', AnnualRevenue: '100' },
+      { Id: '001Y', ['Legacy_Id__c']: 'L-2', Name: 'Globex Corp', AnnualRevenue: 250 },
+      { Id: '001Z', ['Legacy_Id__c']: 'L-4', Name: 'Umbrella', AnnualRevenue: 10 },
+    ];
+
+    const diff = diffRecords(source, target, 'Legacy_Id__c', ['Name', 'AnnualRevenue']);
+
+    expect(diff.summary).to.deep.equal({
+      sourceRecords: 4,
+      targetRecords: 3,
+      matched: 2,
+      missingInTarget: 1,
+      extraInTarget: 1,
+      changed: 1,
+      unchanged: 1,
+      withoutKey: 1,
+      duplicateKey: 0,
+    });
+    expect(diff.missingInTarget).to.deep.equal(['L-3']);
+    expect(diff.extraInTarget).to.deep.equal(['L-4']);
+    expect(diff.changedRecords[0]).to.deep.include({ key: 'L-2', sourceId: '001B', targetId: '001Y' });
+    expect(diff.fieldMismatches).to.deep.equal([
+      { field: 'AnnualRevenue', mismatches: 1 },
+      { field: 'Name', mismatches: 1 },
+    ]);
+  });
+
+  it('counts records whose key repeats an earlier one instead of replacing it', () => {
+    const source = [
+      { Id: '001A', ['Legacy_Id__c']: 'L-1', Name: 'Acme' },
+      { Id: '001B', ['Legacy_Id__c']: 'L-1', Name: 'Acme Duplicate' },
+    ];
+    const target = [{ Id: '001X', ['Legacy_Id__c']: 'L-1', Name: 'Acme' }];
+
+    const diff = diffRecords(source, target, 'Legacy_Id__c', ['Name']);
+
+    expect(diff.summary).to.deep.include({ matched: 1, changed: 0, duplicateKey: 1 });
+  });
+
+  it('accepts Id or external ID key fields only', () => {
+    expect(resolveKeyField('id', describeResult, describeResult)).to.equal('Id');
+    expect(resolveKeyField('legacy_id__c', describeResult, describeResult)).to.equal('Legacy_Id__c');
+    expect(() => resolveKeyField('Name', describeResult, describeResult)).to.throw(/not an external ID field/);
+  });
+
+  it('defaults to comparable fields shared by both orgs', () => {
+    const targetDescribe = { ...describeResult, fields: describeResult.fields.filter((f) => f.name !== 'Site') };
+    expect(resolveComparisonFields([], 'Id', describeResult, targetDescribe)).to.deep.equal([
+      'Name',
+      'AnnualRevenue',
+      'Legacy_Id__c',
+    ]);
+    expect(() => resolveComparisonFields(['Site'], 'Id', describeResult, targetDescribe)).to.throw(/target org/);
+  });
+
+  it('builds a record query ordered by the key field', () => {
+    expect(
+      buildRecordQuery({ objectName: 'Account', keyField: 'Legacy_Id__c', fields: ['Name'], where: " Type = 'X' " })
+    ).to.equal("SELECT Id, Legacy_Id__c, Name FROM Account WHERE Type = 'X' ORDER BY Legacy_Id__c");
+  });
+});
@@ -0,0 +1,169 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+
+import {
+  buildHistoryRun,
+  buildMetricTrends,
+  filterRuns,
+  readRunHistory,
+  recordRun,
+} from '../../src/services/runHistory.js';
+import { getRunHistoryPath } from '../../src/services/dataPaths.js';
+import type { MetricComparisonRow } from '../../src/services/dataComparisonService.js';
+import type { ComparisonSection } from '../../src/services/objectComparison.js';
+
+describe('runHistory', () => {
+  let originalDataHome: string | undefined;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    originalDataHome = process.env.SF_DATA_HOME;
+    dataDir = await fs.mkdtemp(join(tmpdir(), 'sfdata-'));
+    process.env.SF_DATA_HOME = dataDir;
+  });
+
+  afterEach(async () => {
+    process.env.SF_DATA_HOME = originalDataHome;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const source = { aliasOrUsername: 'prod', orgId: '00D-prod', apiVersion: '61.0' };
+  const target = { aliasOrUsername: 'uat', orgId: '00D-uat', apiVersion: '61.0' };
+
+  const countRow = (sourceValue: number, targetValue: number, stage?: string): MetricComparisonRow => ({
+    metric: { kind: 'count', valueType: 'number' },
+    alias: 'count__all',
+    sourceValue,
+    targetValue,
+    difference: targetValue - sourceValue,
+    group: stage ? { StageName: stage } : undefined,
+    status: targetValue === sourceValue ? 'pass' : 'fail',
+  });
+
+  const section = (
+    metrics: MetricComparisonRow[],
+    object = 'Opportunity'
+  ): Pick<ComparisonSection, 'object' | 'metrics' | 'filters' | 'tolerance'> => ({
+    object,
+    metrics,
+    filters: { sampleSize: 0 },
+    tolerance: {
+      defaults: {},
+      perMetric: {},
+      failOnDifference: false,
+      failures: metrics.filter((row) => row.status === 'fail').length,
+    },
+  });
+
+  it('appends runs to the history file and reads them back in order', async () => {
+    expect(await readRunHistory()).to.deep.equal([]);
+
+    const first = buildHistoryRun({ ...section([countRow(10, 4)]), source, target }, new Date('2025-01-01T00:00:00Z'));
+    const second = buildHistoryRun({ ...section([countRow(10, 9)]), source, target }, new Date('2025-02-01T00:00:00Z'));
+    const path = await recordRun(first);
+    await recordRun(second);
+
+    expect(path).to.equal(getRunHistoryPath());
+    const runs = await readRunHistory();
+    expect(runs.map((run) => run.id)).to.deep.equal([first.id, second.id]);
+    expect(runs[0]).to.deep.include({ object: 'Opportunity', failures: 1, recordedAt: '2025-01-01T00:00:00.000Z' });
+    expect(runs[0].metrics[0]).to.deep.include({ alias: 'count__all', label: 'COUNT(Id)', difference: -6 });
+  });
+
+  it('refuses to overwrite a history file it cannot read', async () => {
+    await fs.mkdir(join(dataDir, 'sf-data-comparison'), { recursive: true });
+    await fs.writeFile(getRunHistoryPath(), '{not json', 'utf8');
+
+    try {
+      await recordRun(buildHistoryRun({ ...section([countRow(1, 1)]), source, target }));
+      expect.fail('Expected InvalidRunHistory');
+    } catch (error) {
+      expect((error as Error).name).to.equal('InvalidRunHistory');
+    }
+    expect(await fs.readFile(getRunHistoryPath(), 'utf8')).to.equal('{not json');
+  });
+
+  it('filters runs by org alias or ID, object and metric label', () => {
+    const runs = [
+      buildHistoryRun({ ...section([countRow(1, 2)]), source, target }),
+      buildHistoryRun({ ...section([countRow(1, 2)], 'Account'), source, target: { ...target, orgId: '00D-qa' } }),
+    ];
+
+    expect(filterRuns(runs, { targetOrg: '00D-qa' })).to.have.length(1);
+    expect(filterRuns(runs, { sourceOrg: 'PROD', object: 'opportunity' })).to.have.length(1);
+    expect(filterRuns(runs, { metrics: ['count(id)'] })).to.have.length(2);
+    expect(filterRuns(runs, { metrics: ['sum__amount'] })).to.deep.equal([]);
+  });
+
+  it('builds one trend per metric and group with run-to-run changes', () => {
+    const runs = [
+      buildHistoryRun(
+        { ...section([countRow(10, 4, 'Won'), countRow(5, 5, 'Lost')]), source, target },
+        new Date('2025-01-01T00:00:00Z')
+      ),
+      buildHistoryRun(
+        { ...section([countRow(10, 9, 'Won'), countRow(5, 7, 'Lost')]), source, target },
+        new Date('2025-02-01T00:00:00Z')
+      ),
+      buildHistoryRun(
+        { ...section([countRow(10, 10, 'Won')]), source: { ...source, aliasOrUsername: 'production' }, target },
+        new Date('2025-03-01T00:00:00Z')
+      ),
+    ];
+
+    const trends = buildMetricTrends(runs.slice().reverse());
+
+    expect(trends).to.have.length(2);
+    const won = trends.find((trend) => trend.group?.StageName === 'Won');
+    expect(won?.direction).to.equal('improving');
+    expect(won?.source.aliasOrUsername).to.equal('production');
+    expect(won?.points.map((point) => [point.difference, point.change])).to.deep.equal([
+      [-6, null],
+      [-1, 5],
+      [0, 1],
+    ]);
+    expect(trends.find((trend) => trend.group?.StageName === 'Lost')?.direction).to.equal('worsening');
+  });
+
+  it('keeps runs with different filters in separate trends', () => {
+    const filtered = (
+      where: string | undefined,
+      targetValue: number,
+      recordedAt: string
+    ): ReturnType<typeof buildHistoryRun> =>
+      buildHistoryRun(
+        { ...section([countRow(10, targetValue)]), filters: { where, sampleSize: 0 }, source, target },
+        new Date(recordedAt)
+      );
+
+    const trends = buildMetricTrends([
+      filtered(undefined, 4, '2025-01-01T00:00:00Z'),
+      filtered('IsWon = true', 9, '2025-02-01T00:00:00Z'),
+      filtered(undefined, 6, '2025-03-01T00:00:00Z'),
+    ]);
+
+    expect(trends.map((trend) => [trend.filters.where, trend.points.length])).to.deep.equal([
+      [undefined, 2],
+      ['IsWon = true', 1],
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+import { SfError } from '@salesforce/core';
+
+import type { SimpleDescribeSObjectResult } from '../../src/services/metadataDiscoveryService.js';
+import { compareSchemas, explainFieldNotFound, formatSchemaChanges } from '../../src/services/schemaComparison.js';
+
+const source: SimpleDescribeSObjectResult = {
+  name: 'Account',
+  fields: [
+    { name: 'Id', type: 'id' },
+    { name: 'Name', type: 'string', length: 80, filterable: true },
+    { name: 'AnnualRevenue', type: 'currency', precision: 18, scale: 0, aggregatable: true },
+    {
+      name: 'Tier__c',
+      type: 'picklist',
+      picklistValues: [{ value: 'Gold' }, { value: 'Silver' }, { value: 'Bronze', active: false }],
+    },
+    { name: 'Legacy_Id__c', type: 'string', length: 18 },
+  ],
+};
+
+const target: SimpleDescribeSObjectResult = {
+  name: 'Account',
+  fields: [
+    { name: 'Id', type: 'id' },
+    { name: 'Name', type: 'string', length: 255, filterable: true },
+    { name: 'AnnualRevenue', type: 'currency', precision: 18, scale: 2, aggregatable: false },
+    {
+      name: 'tier__c',
+      type: 'picklist',
+      picklistValues: [{ value: 'Gold' }, { value: 'Platinum' }],
+    },
+    { name: 'Region__c', type: 'picklist' },
+  ],
+};
+
+describe('schemaComparison', () => {
+  it('reports added, removed and changed fields with their property and picklist changes', () => {
+    const comparison = compareSchemas(source, target);
+
+    expect(comparison.summary).to.deep.equal({
+      sourceFields: 5,
+      targetFields: 5,
+      added: 1,
+      removed: 1,
+      changed: 3,
+      unchanged: 1,
+    });
+    expect(comparison.differences.map((difference) => [difference.field, difference.status])).to.deep.equal([
+      ['Name', 'changed'],
+      ['AnnualRevenue', 'changed'],
+      ['Tier__c', 'changed'],
+      ['Legacy_Id__c', 'removed'],
+      ['Region__c', 'added'],
+    ]);
+    expect(comparison.differences[1].changes).to.deep.equal([
+      { property: 'scale', source: 0, target: 2 },
+      { property: 'aggregatable', source: true, target: false },
+    ]);
+    expect(comparison.differences[2].picklist).to.deep.equal({ added: ['Platinum'], removed: ['Silver'] });
+  });
+
+  it('formats changes with the given arrow', () => {
+    const [name, , tier] = compareSchemas(source, target).differences;
+
+    expect(formatSchemaChanges(name)).to.equal('length: 80 → 255');
+    expect(formatSchemaChanges(tier, '->')).to.equal('values added: Platinum; values removed: Silver');
+  });
+
+  it('explains fields that exist in only one org and leaves other errors unchanged', () => {
+    const comparison = compareSchemas(source, target);
+    const missing = new SfError('Field "Legacy_Id__c" not found on object Account in target org.', 'FieldNotFound');
+    const unknown = new SfError('Field "Nope__c" not found on object Account in source org.', 'FieldNotFound');
+
+    const explained = explainFieldNotFound(missing, comparison) as SfError;
+
+    expect(explained.name).to.equal('FieldNotFound');
+    expect(explained.message).to.include('found Legacy_Id__c in the source org only; the target org does not have it.');
+    expect(explained.actions?.[0]).to.include('all 5 schema difference(s)');
+    expect(explainFieldNotFound(unknown, comparison)).to.equal(unknown);
+    expect(explainFieldNotFound(missing, undefined)).to.equal(missing);
+  });
+});
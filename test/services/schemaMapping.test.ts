@@ -0,0 +1,301 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, describe, it } from 'mocha';
+import { expect } from 'chai';
+import { SfError, type Org } from '@salesforce/core';
+import { TestContext } from '@salesforce/core/testSetup';
+
+import type {
+  MetadataDiscoveryService,
+  SimpleDescribeSObjectResult,
+} from '../../src/services/metadataDiscoveryService.js';
+import { parseMetricTokens } from '../../src/services/metricParser.js';
+import { compareObject, prepareComparison } from '../../src/services/objectComparison.js';
+import {
+  mapCondition,
+  mapParsedMetric,
+  parseSchemaMapping,
+  resolveObjectMapping,
+  type ObjectMapping,
+} from '../../src/services/schemaMapping.js';
+import { parseToleranceConfig } from '../../src/services/toleranceEvaluator.js';
+
+describe('schemaMapping', () => {
+  const $$ = new TestContext();
+
+  afterEach(() => {
+    $$.restore();
+  });
+
+  const mapping: ObjectMapping = {
+    targetObject: 'Deal__c',
+    fields: { ['Revenue__c']: 'AnnualRevenue', ['Region__c']: 'Territory__c' },
+  };
+
+  const sourceDescribe: SimpleDescribeSObjectResult = {
+    name: 'Opportunity',
+    fields: [
+      { name: 'Revenue__c', type: 'currency', aggregatable: true, filterable: true },
+      { name: 'Region__c', type: 'picklist', groupable: true, filterable: true },
+    ],
+  };
+  const targetDescribe: SimpleDescribeSObjectResult = {
+    name: 'Deal__c',
+    fields: [
+      { name: 'AnnualRevenue', type: 'currency', aggregatable: true, filterable: true },
+      { name: 'Territory__c', type: 'picklist', groupable: true, filterable: true },
+    ],
+  };
+
+  const request = {
+    object: 'Opportunity',
+    metrics: ['count', 'sum:Revenue__c'],
+    groupBy: ['Region__c'],
+    where: "Region__c != 'Internal'",
+    sampleSize: 0,
+    tolerance: parseToleranceConfig(undefined, undefined),
+    failOnDifference: false,
+    mapping,
+  };
+
+  const metadataFor = (describeResult: SimpleDescribeSObjectResult): MetadataDiscoveryService =>
+    ({ describeSObject: async () => describeResult } as unknown as MetadataDiscoveryService);
+
+  // Answers each aggregate query with one row per region, keyed by the aliases in its SELECT clause.
+  const buildOrg = (regions: Array<[string, number, number]>): { org: Org; queries: string[] } => {
+    const queries: string[] = [];
+    const query = $$.SANDBOX.stub().callsFake(async (soql: string) => {
+      queries.push(soql);
+      const aliases = soql
+        .slice('SELECT '.length, soql.indexOf(' FROM '))
+        .split(', ')
+        .map((column) => column.split(' ').pop() ?? '');
+      return {
+        records: regions.map((values) => Object.fromEntries(aliases.map((alias, index) => [alias, values[index]]))),
+      };
+    });
+    return { org: { getConnection: () => ({ query }) } as unknown as Org, queries };
+  };
+
+  it('parses JSON and YAML mapping files', () => {
+    const json = parseSchemaMapping(
+      JSON.stringify({ objects: { Opportunity: { target: 'Deal__c', fields: { ['Revenue__c']: 'AnnualRevenue' } } } }),
+      'mapping.json'
+    );
+    const yaml = parseSchemaMapping(
+      ['objects:', '  Opportunity:', '    target: Deal__c', '    fields:', '      Revenue__c: AnnualRevenue'].join(
+        '\n'
+      ),
+      'mapping.yaml'
+    );
+
+    expect(yaml).to.deep.equal(json);
+    expect(resolveObjectMapping(json, 'opportunity')).to.deep.equal({
+      targetObject: 'Deal__c',
+      fields: { ['Revenue__c']: 'AnnualRevenue' },
+    });
+    expect(resolveObjectMapping(json, 'Account')).to.equal(undefined);
+  });
+
+  it('rejects mapping files that map two fields to one target field', () => {
+    const content = JSON.stringify({
+      objects: { Opportunity: { fields: { ['Revenue__c']: 'AnnualRevenue', ['Amount']: 'annualrevenue' } } },
+    });
+
+    expect(() => parseSchemaMapping(content, 'mapping.json'))
+      .to.throw('maps two source fields to the same target field')
+      .with.property('name', 'InvalidMappingFile');
+    expect(() => parseSchemaMapping('{"objects": []}', 'mapping.json')).to.throw(/"objects" mapping/);
+  });
+
+  it('maps the fields of metrics, conditions and expressions to their target names', () => {
+    const [sumIf, expression] = parseMetricTokens([
+      "sum-if:Revenue__c:Region__c = 'EMEA'",
+      'expr:sum:Revenue__c/count',
+    ]).map((metric) => mapParsedMetric(mapping, metric));
+
+    expect(sumIf).to.include({ kind: 'sumIf', field: 'AnnualRevenue', condition: "Territory__c = 'EMEA'" });
+    expect(JSON.stringify(expression)).to.include('AnnualRevenue').and.not.include('Revenue__c');
+    expect(mapCondition(mapping, "region__c IN ('EMEA', 'APAC') AND Name != null")).to.equal(
+      "Territory__c IN ('EMEA', 'APAC') AND Name != null"
+    );
+  });
+
+  it('builds a separate target plan under the mapped object and field names', () => {
+    const prepared = prepareComparison(sourceDescribe, targetDescribe, request);
+
+    expect(prepared.queries.aggregate).to.include('FROM Opportunity').and.include('SUM(Revenue__c)');
+    expect(prepared.targetQueries?.aggregate)
+      .to.include('FROM Deal__c')
+      .and.include('SUM(AnnualRevenue)')
+      .and.include("WHERE Territory__c != 'Internal'")
+      .and.include('GROUP BY Territory__c');
+  });
+
+  it('rejects mapped fields whose types differ between the orgs', () => {
+    const dateTarget: SimpleDescribeSObjectResult = {
+      name: 'Deal__c',
+      fields: [
+        { name: 'AnnualRevenue', type: 'date', aggregatable: true, filterable: true },
+        { name: 'Territory__c', type: 'picklist', groupable: true, filterable: true },
+      ],
+    };
+
+    expect(() => prepareComparison(sourceDescribe, dateTarget, request)).to.throw(SfError);
+  });
+
+  it('compares the mapped target values under the source names and labels both', async () => {
+    const source = buildOrg([
+      ['EMEA', 4, 400],
+      ['APAC', 2, 200],
+    ]);
+    const target = buildOrg([
+      ['EMEA', 4, 400],
+      ['APAC', 2, 150],
+    ]);
+
+    const section = await compareObject(
+      {
+        sourceOrg: source.org,
+        targetOrg: target.org,
+        sourceMetadata: metadataFor(sourceDescribe),
+        targetMetadata: metadataFor(targetDescribe),
+      },
+      request
+    );
+
+    expect(target.queries[0]).to.include('FROM Deal__c');
+    const apacSum = section.metrics.find((row) => row.group?.['Region__c'] === 'APAC' && row.metric.kind !== 'count');
+    expect(apacSum).to.include({
+      sourceValue: 200,
+      targetValue: 150,
+      difference: -50,
+      targetLabel: 'SUM(AnnualRevenue)',
+    });
+    expect(section.mapping?.targetObject).to.equal('Deal__c');
+  });
+
+  describe('picklist values', () => {
+    const stageMapping: ObjectMapping = {
+      targetObject: 'Opportunity',
+      fields: {},
+      values: { StageName: { ['Closed Won']: ['Won', 'Won - Partner'], ['Closed Lost']: ['Lost'] } },
+    };
+    const stageDescribe = (name: string, values: string[]): SimpleDescribeSObjectResult => ({
+      name,
+      fields: [
+        {
+          name: 'StageName',
+          type: 'picklist',
+          groupable: true,
+          filterable: true,
+          picklistValues: values.map((value) => ({ value })),
+        },
+      ],
+    });
+    const sourceStages = stageDescribe('Opportunity', ['Prospecting', 'Closed Won', 'Closed Lost']);
+    const targetStages = stageDescribe('Opportunity', ['Prospecting', 'Won', 'Won - Partner', 'Lost']);
+    const stageRequest = {
+      object: 'Opportunity',
+      metrics: ['count'],
+      groupBy: ['StageName'],
+      sampleSize: 0,
+      tolerance: parseToleranceConfig(undefined, undefined),
+      failOnDifference: false,
+      mapping: stageMapping,
+    };
+
+    it('parses value mappings and rejects a target value claimed by two source values', () => {
+      const parsed = parseSchemaMapping(
+        JSON.stringify({ objects: { Opportunity: { values: { StageName: { ['Closed Won']: 'Won' } } } } }),
+        'mapping.json'
+      );
+      expect(resolveObjectMapping(parsed, 'Opportunity')?.values).to.deep.equal({
+        StageName: { ['Closed Won']: ['Won'] },
+      });
+
+      const conflicting = JSON.stringify({
+        objects: { Opportunity: { values: { StageName: { ['Closed Won']: 'Won', ['Won']: 'Won' } } } },
+      });
+      expect(() => parseSchemaMapping(conflicting, 'mapping.json')).to.throw(
+        'maps both "Closed Won" and "Won" to "Won"'
+      );
+    });
+
+    it('rewrites mapped values in conditions for the target org', () => {
+      expect(mapCondition(stageMapping, "StageName = 'Closed Lost'")).to.equal("StageName = 'Lost'");
+      expect(mapCondition(stageMapping, "StageName = 'Closed Won'")).to.equal("StageName IN ('Won', 'Won - Partner')");
+      expect(mapCondition(stageMapping, "StageName != 'Closed Won'")).to.equal(
+        "StageName NOT IN ('Won', 'Won - Partner')"
+      );
+      expect(mapCondition(stageMapping, "StageName IN ('Closed Lost', 'Prospecting')")).to.equal(
+        "StageName IN ('Lost', 'Prospecting')"
+      );
+    });
+
+    it('rejects mapped values that are not picklist values in their org', () => {
+      const renamed = stageDescribe('Opportunity', ['Prospecting', 'Won', 'Lost']);
+
+      expect(() => prepareComparison(sourceStages, renamed, stageRequest))
+        .to.throw('"Won - Partner" is not a picklist value of StageName in the target org')
+        .with.property('name', 'InvalidMappedValue');
+    });
+
+    it('rejects merged groups for aggregates that do not add up', () => {
+      const amountDescribe = (stages: SimpleDescribeSObjectResult): SimpleDescribeSObjectResult => ({
+        ...stages,
+        fields: [...stages.fields, { name: 'Amount', type: 'currency', aggregatable: true }],
+      });
+
+      expect(() =>
+        prepareComparison(amountDescribe(sourceStages), amountDescribe(targetStages), {
+          ...stageRequest,
+          metrics: ['avg:Amount'],
+        })
+      ).to.throw(SfError, /cannot be merged for AVG\(Amount\)/);
+    });
+
+    it('merges grouped target values under their source values', async () => {
+      const source = buildOrg([
+        ['Closed Won', 5, 0],
+        ['Closed Lost', 2, 0],
+      ]);
+      const target = buildOrg([
+        ['Won', 3, 0],
+        ['Won - Partner', 2, 0],
+        ['Lost', 1, 0],
+      ]);
+
+      const section = await compareObject(
+        {
+          sourceOrg: source.org,
+          targetOrg: target.org,
+          sourceMetadata: metadataFor(sourceStages),
+          targetMetadata: metadataFor(targetStages),
+        },
+        stageRequest
+      );
+
+      expect(
+        section.metrics.map((row) => [row.group?.['StageName'], row.sourceValue, row.targetValue, row.status])
+      ).to.deep.equal([
+        ['Closed Lost', 2, 1, 'fail'],
+        ['Closed Won', 5, 5, 'pass'],
+      ]);
+    });
+  });
+});
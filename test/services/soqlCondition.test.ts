@@ -0,0 +1,154 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+
+import {
+  formatSoqlCondition,
+  normalizeSoqlCondition,
+  parseSoqlCondition,
+  resolveSoqlCondition,
+} from '../../src/services/soqlCondition.js';
+
+const describeMock = {
+  name: 'Opportunity',
+  fields: [
+    { name: 'StageName', type: 'picklist', filterable: true },
+    { name: 'Amount', type: 'currency', filterable: true },
+    { name: 'IsWon', type: 'boolean', filterable: true },
+    { name: 'CloseDate', type: 'date', filterable: true },
+    { name: 'CreatedDate', type: 'datetime', filterable: true },
+    { name: 'Regions__c', type: 'multipicklist', filterable: true },
+    { name: 'Description', type: 'textarea', filterable: false },
+    { name: 'AccountId', type: 'reference', filterable: true, relationshipName: 'Account' },
+  ],
+};
+
+describe('soqlCondition', () => {
+  it('parses boolean logic, lists and date literals into a tree', () => {
+    expect(parseSoqlCondition("NOT StageName IN ('A', 'B') and CloseDate = last_n_days:030")).to.deep.equal({
+      kind: 'and',
+      operands: [
+        {
+          kind: 'not',
+          operand: {
+            kind: 'set',
+            field: 'StageName',
+            operator: 'IN',
+            values: [
+              { kind: 'string', value: 'A' },
+              { kind: 'string', value: 'B' },
+            ],
+          },
+        },
+        {
+          kind: 'comparison',
+          field: 'CloseDate',
+          operator: '=',
+          value: { kind: 'dateLiteral', value: 'LAST_N_DAYS:30' },
+        },
+      ],
+    });
+  });
+
+  it('formats conditions with parentheses only where precedence needs them', () => {
+    expect(
+      formatSoqlCondition(parseSoqlCondition("((IsWon = true OR Amount > 10) AND (Name LIKE 'Acme%')) OR Id != null"))
+    ).to.equal("((IsWon = true OR Amount > 10) AND Name LIKE 'Acme%') OR Id != null");
+    expect(normalizeSoqlCondition("Regions__c includes (\"EMEA\", 'O\\'Hare')")).to.equal(
+      "Regions__c INCLUDES ('EMEA', 'O\\'Hare')"
+    );
+  });
+
+  it('quotes unquoted text up to the next AND or OR', () => {
+    expect(normalizeSoqlCondition('Status=Open - Not Contacted AND Rating = 3')).to.equal(
+      "Status = 'Open - Not Contacted' AND Rating = 3"
+    );
+  });
+
+  it('rejects malformed conditions', () => {
+    expect(() => parseSoqlCondition("StageName = 'open")).to.throw('unterminated single quote');
+    expect(() => parseSoqlCondition('StageName IN (A, B')).to.throw('expected ")"');
+    expect(() => parseSoqlCondition('Amount 10')).to.throw('expected an operator after "Amount"');
+    expect(() => parseSoqlCondition('CloseDate = LAST_N_DAYS:x')).to.throw('needs a whole number');
+    expect(() => parseSoqlCondition('IsWon = true AND Amount > 10 OR Amount = null')).to.throw(
+      'use parentheses to combine AND and OR'
+    );
+    expect(() => parseSoqlCondition("AccountId IN (SELECT Id FROM Account WHERE Industry = 'Tech')")).to.throw(
+      'semi-join subqueries'
+    );
+    expect(() => parseSoqlCondition('LOWER(Name) = acme')).to.throw('unsupported function "LOWER"');
+  });
+
+  it('parses, formats and types date functions', () => {
+    expect(parseSoqlCondition('calendar_year(CreatedDate) = 2024')).to.deep.equal({
+      kind: 'comparison',
+      field: 'CreatedDate',
+      dateFunction: { name: 'CALENDAR_YEAR', convertTimezone: false },
+      operator: '=',
+      value: { kind: 'number', value: '2024' },
+    });
+    expect(
+      resolveSoqlCondition(
+        "HOUR_IN_DAY(convertTimezone(createddate)) IN ('9', 10) AND DAY_ONLY(CreatedDate) > '2024-01-31'",
+        describeMock,
+        'source org'
+      )
+    ).to.equal('HOUR_IN_DAY(convertTimezone(CreatedDate)) IN (9, 10) AND DAY_ONLY(CreatedDate) > 2024-01-31');
+    expect(() => resolveSoqlCondition('CALENDAR_YEAR(Amount) = 2024', describeMock, 'source org')).to.throw(
+      'needs a date or datetime field'
+    );
+    expect(() => resolveSoqlCondition('DAY_ONLY(CloseDate) = TODAY', describeMock, 'source org')).to.throw(
+      'needs a datetime field'
+    );
+    expect(() => resolveSoqlCondition('FISCAL_YEAR(CloseDate) = recent', describeMock, 'source org')).to.throw(
+      'does not match'
+    );
+  });
+
+  it('formats literals by field type and resolves field names', () => {
+    expect(
+      resolveSoqlCondition(
+        "stagename = Closed Won AND amount >= '100' AND iswon = TRUE AND closedate > '2024-01-31' AND createddate = THIS_YEAR",
+        describeMock,
+        'source org'
+      )
+    ).to.equal(
+      "StageName = 'Closed Won' AND Amount >= 100 AND IsWon = true AND CloseDate > 2024-01-31 AND CreatedDate = THIS_YEAR"
+    );
+    expect(resolveSoqlCondition('account.Name = Acme', describeMock, 'source org')).to.equal("Account.Name = 'Acme'");
+  });
+
+  it('rejects unknown or unfilterable fields and mismatched values', () => {
+    expect(() => resolveSoqlCondition('Missing__c = 1', describeMock, 'target org')).to.throw(
+      'Field "Missing__c" in condition not found on object Opportunity in target org.'
+    );
+    expect(() => resolveSoqlCondition("Description = 'x'", describeMock, 'source org')).to.throw(
+      'cannot be used in a filter'
+    );
+    expect(() => resolveSoqlCondition('Amount = lots', describeMock, 'source org')).to.throw(
+      "Value 'lots' does not match the currency type"
+    );
+    expect(() => resolveSoqlCondition('CreatedDate > 2024-01-01', describeMock, 'source org')).to.throw(
+      'does not match the datetime type'
+    );
+    expect(() => resolveSoqlCondition("StageName INCLUDES ('A')", describeMock, 'source org')).to.throw(
+      'Operator INCLUDES cannot be used'
+    );
+    expect(() => resolveSoqlCondition('Owner.Name = Sam', describeMock, 'source org')).to.throw('Relationship "Owner"');
+  });
+});
@@ -0,0 +1,118 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+import type { Org } from '@salesforce/core';
+
+import {
+  EMPTY_PERIOD_LABEL,
+  assertSameUserTimeZone,
+  buildPeriodFunctions,
+  fillPeriods,
+  formatPeriod,
+  resolveTimeBucketing,
+} from '../../src/services/timeBuckets.js';
+import type { SimpleDescribeSObjectResult } from '../../src/services/metadataDiscoveryService.js';
+import type { QueryExecution } from '../../src/services/queryExecutor.js';
+
+describe('timeBuckets', () => {
+  const describeResult: SimpleDescribeSObjectResult = {
+    name: 'Opportunity',
+    fields: [
+      { name: 'CreatedDate', type: 'datetime' },
+      { name: 'CloseDate', type: 'date' },
+      { name: 'Amount', type: 'currency' },
+    ],
+  };
+
+  it('resolves the bucket field and rejects fields that are not dates', () => {
+    expect(
+      resolveTimeBucketing({ field: 'closedate', interval: 'day', timeZone: 'user' }, describeResult, 'source org')
+    ).to.deep.equal({ field: 'CloseDate', fieldType: 'date', interval: 'day', timeZone: 'user' });
+
+    expect(() =>
+      resolveTimeBucketing({ field: 'Amount', interval: 'month', timeZone: 'utc' }, describeResult, 'source org')
+    ).to.throw('must be a date or datetime field');
+    expect(() =>
+      resolveTimeBucketing({ field: 'Missing__c', interval: 'month', timeZone: 'utc' }, describeResult, 'source org')
+    ).to.throw('not found on object Opportunity');
+  });
+
+  it('converts datetimes to the user time zone only when requested', () => {
+    expect(
+      buildPeriodFunctions({ field: 'CreatedDate', fieldType: 'datetime', interval: 'week', timeZone: 'user' })
+    ).to.deep.equal(['CALENDAR_YEAR(convertTimezone(CreatedDate))', 'WEEK_IN_YEAR(convertTimezone(CreatedDate))']);
+    expect(
+      buildPeriodFunctions({ field: 'CreatedDate', fieldType: 'datetime', interval: 'day', timeZone: 'utc' })
+    ).to.deep.equal(['DAY_ONLY(CreatedDate)']);
+    expect(
+      buildPeriodFunctions({ field: 'CloseDate', fieldType: 'date', interval: 'quarter', timeZone: 'user' })
+    ).to.deep.equal(['CALENDAR_YEAR(CloseDate)', 'CALENDAR_QUARTER(CloseDate)']);
+    expect(
+      buildPeriodFunctions({ field: 'CloseDate', fieldType: 'date', interval: 'day', timeZone: 'utc' })
+    ).to.deep.equal(['CloseDate']);
+  });
+
+  it('formats period labels that sort in calendar order', () => {
+    expect(formatPeriod('year', [2024])).to.equal('2024');
+    expect(formatPeriod('quarter', [2024, 3])).to.equal('2024-Q3');
+    expect(formatPeriod('month', [2024, 3])).to.equal('2024-03');
+    expect(formatPeriod('week', ['2024', '5'])).to.equal('2024-W05');
+    expect(formatPeriod('day', ['2024-03-15'])).to.equal('2024-03-15');
+    expect(formatPeriod('month', [2024, null])).to.equal(EMPTY_PERIOD_LABEL);
+  });
+
+  it('fills every period between the earliest and latest one', () => {
+    expect(fillPeriods('quarter', ['2024-Q3', '2025-Q2'])).to.deep.equal(['2024-Q3', '2024-Q4', '2025-Q1', '2025-Q2']);
+    expect(fillPeriods('week', ['2025-W01', '2024-W52'])).to.deep.equal(['2024-W52', '2024-W53', '2025-W01']);
+    expect(fillPeriods('day', ['2024-03-01', '2024-02-28', EMPTY_PERIOD_LABEL])).to.deep.equal([
+      '2024-02-28',
+      '2024-02-29',
+      '2024-03-01',
+      EMPTY_PERIOD_LABEL,
+    ]);
+    expect(fillPeriods('year', [])).to.deep.equal([]);
+  });
+
+  it('requires the users of every org to share a time zone for user bucketing', async () => {
+    const queries: string[] = [];
+    const orgIn = (username: string, timeZone: string): { org: Org; execution: QueryExecution } => ({
+      org: {
+        getConnection: () => ({
+          getUsername: () => username,
+          query: async (soql: string) => {
+            queries.push(soql);
+            return { records: [{ ['TimeZoneSidKey']: timeZone }], totalSize: 1, done: true };
+          },
+        }),
+      } as unknown as Org,
+      execution: { policy: { timeoutMs: 1000, maxRetries: 0, retryDelayMs: 0 }, orgLabel: username, retries: [] },
+    });
+
+    await assertSameUserTimeZone([orgIn('prod', 'Europe/Paris'), orgIn('uat', 'Europe/Paris')]);
+    expect(queries[0]).to.equal("SELECT TimeZoneSidKey FROM User WHERE Username = 'prod'");
+
+    let error: Error | undefined;
+    try {
+      await assertSameUserTimeZone([orgIn('prod', 'Europe/Paris'), orgIn('uat', 'America/New_York')]);
+    } catch (caught) {
+      error = caught as Error;
+    }
+    expect(error?.name).to.equal('MismatchedTimeZones');
+    expect(error?.message).to.include('the prod user is in Europe/Paris and the uat user is in America/New_York');
+  });
+});
@@ -0,0 +1,89 @@
+/*
+ * Copyright 2025, Salesforce, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+
+import type { MetricComparisonRow } from '../../src/services/dataComparisonService.js';
+import type { ResolvedMetric } from '../../src/services/metricParser.js';
+import {
+  applyTolerances,
+  assertKnownToleranceMetrics,
+  countFailures,
+  parseToleranceConfig,
+} from '../../src/services/toleranceEvaluator.js';
+
+const countMetric: ResolvedMetric = { kind: 'count', valueType: 'number' };
+const sumMetric: ResolvedMetric = {
+  kind: 'fieldAggregate',
+  fn: 'sum',
+  field: 'Amount',
+  fieldType: 'currency',
+  valueType: 'number',
+};
+const maxMetric: ResolvedMetric = {
+  kind: 'fieldAggregate',
+  fn: 'max',
+  field: 'CloseDate',
+  fieldType: 'date',
+  valueType: 'date',
+};
+
+const formatLabel = (metric: ResolvedMetric): string =>
+  metric.kind === 'fieldAggregate' ? `${metric.fn.toUpperCase()}(${metric.field})` : 'COUNT(Id)';
+
+const rows: MetricComparisonRow[] = [
+  { metric: countMetric, alias: 'count__all', sourceValue: 100, targetValue: 103, difference: 3 },
+  { metric: sumMetric, alias: 'sum__amount', sourceValue: 1000, targetValue: 1400, difference: 400 },
+  {
+    metric: maxMetric,
+    alias: 'max__closedate',
+    sourceValue: '2025-01-01',
+    targetValue: '2025-01-02',
+    difference: null,
+  },
+];
+
+describe('toleranceEvaluator', () => {
+  it('fails any difference when no tolerance is configured', () => {
+    const evaluated = applyTolerances(rows, parseToleranceConfig(undefined, undefined), formatLabel);
+    expect(evaluated.map((row) => row.status)).to.deep.equal(['fail', 'fail', 'fail']);
+    expect(countFailures(evaluated)).to.equal(3);
+  });
+
+  it('passes metrics within the absolute or percent run-wide tolerance', () => {
+    const evaluated = applyTolerances(rows, parseToleranceConfig(['5', '50%'], undefined), formatLabel);
+    expect(evaluated.map((row) => row.status)).to.deep.equal(['pass', 'pass', 'fail']);
+    expect(evaluated[0].tolerance).to.deep.equal({ absolute: 5, percent: 50 });
+  });
+
+  it('applies per-metric tolerances by label or alias', () => {
+    const config = parseToleranceConfig(['10%'], ['count__all=0', 'sum(amount)=400']);
+    const evaluated = applyTolerances(rows, config, formatLabel);
+    expect(evaluated.map((row) => row.status)).to.deep.equal(['fail', 'pass', 'fail']);
+  });
+
+  it('rejects malformed tolerances and unknown metrics', () => {
+    expect(() => parseToleranceConfig(['-1'], undefined)).to.throw(/Invalid tolerance/);
+    expect(() => parseToleranceConfig(undefined, ['=5'])).to.throw(/<metric>=<value>/);
+    expect(() =>
+      assertKnownToleranceMetrics(parseToleranceConfig(undefined, ['AVG(Amount)=1']), rows, formatLabel)
+    ).to.throw(/unknown metric/);
+    expect(() =>
+      assertKnownToleranceMetrics(parseToleranceConfig(undefined, ['count__all=1', 'SUM(Amount)=5']), rows, formatLabel)
+    ).not.to.throw();
+  });
+});